@@ -0,0 +1,129 @@
+// 命令行渲染：读取乐谱 JSON，用物理建模音色合成并写出 WAV，供批量生成试听音频。
+// 乐谱解析校验、移调、拨奏展开与合成都直接复用 src 中浏览器端的实现。
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename, extname, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { DEFAULT_KALIMBA_VOICE_PARAMS } from '../src/audio/kalimbaSynth';
+import { DEFAULT_RENDER_TAIL, MAX_RENDER_TAIL, RENDER_SAMPLE_RATES, renderKalimbaScore } from '../src/audio/scoreRender';
+import { DEFAULT_BPM, MAX_BPM, MIN_BPM } from '../src/audio/scoreScheduler';
+import { encodeWav, type WavBitDepth } from '../src/audio/wav';
+import { findOutOfRangeNotes, fitScoreToKeys, transposeScore } from '../src/score/range';
+import { parseScore } from '../src/score/scoreFormat';
+import { DEFAULT_TUNING, KALIMBA_TUNINGS, describeRange } from '../src/score/tuning';
+
+const USAGE = `用法：pnpm render:wav <乐谱.json> [选项]
+
+选项：
+  -o, --output <文件>       输出的 WAV 文件，默认为当前目录下与乐谱同名的 .wav
+      --bpm <数值>          速度（${MIN_BPM}–${MAX_BPM}），默认取乐谱头，缺省为 ${DEFAULT_BPM}
+      --sample-rate <Hz>    采样率（${RENDER_SAMPLE_RATES.join(' / ')}），默认 ${RENDER_SAMPLE_RATES[0]}
+      --transpose <半音>    移调（-24–24）
+      --fit                 把弹不到的音按八度折回音域
+      --tuning <调音>       调音，默认 ${DEFAULT_TUNING.id}（可选：${KALIMBA_TUNINGS.map((tuning) => tuning.id).join('、')}）
+      --bit-depth <16|24>   位深，默认 16
+      --tail <秒>           余音长度（0–${MAX_RENDER_TAIL}），默认 ${DEFAULT_RENDER_TAIL}
+      --brightness <0–1>    明亮度，默认 ${DEFAULT_KALIMBA_VOICE_PARAMS.brightness}
+      --decay <0.25–3>      延音倍率，默认 ${DEFAULT_KALIMBA_VOICE_PARAMS.decay}
+      --no-normalize        不做峰值归一化
+  -h, --help                显示帮助`;
+
+const parseNumber = (value: string | undefined, name: string, min: number, max: number) => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < min || number > max) {
+    throw new Error(`${name} 必须是 ${min}–${max} 之间的数值：${value}`);
+  }
+  return number;
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      bpm: { type: 'string' },
+      'sample-rate': { type: 'string' },
+      transpose: { type: 'string' },
+      fit: { type: 'boolean' },
+      tuning: { type: 'string' },
+      'bit-depth': { type: 'string' },
+      tail: { type: 'string' },
+      brightness: { type: 'string' },
+      decay: { type: 'string' },
+      'no-normalize': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  if (values.help || positionals.length === 0) {
+    console.log(USAGE);
+    return;
+  }
+  if (positionals.length > 1) {
+    throw new Error('一次只能渲染一个乐谱文件');
+  }
+
+  const input = resolve(positionals[0]);
+  const tuning = KALIMBA_TUNINGS.find((item) => item.id === (values.tuning ?? DEFAULT_TUNING.id));
+  if (!tuning) {
+    throw new Error(`未知的调音：${values.tuning}`);
+  }
+  const sampleRate = parseNumber(values['sample-rate'], '采样率', 8000, 192000) ?? RENDER_SAMPLE_RATES[0];
+  const bitDepth = (parseNumber(values['bit-depth'], '位深', 16, 24) ?? 16) as WavBitDepth;
+  if (bitDepth !== 16 && bitDepth !== 24) {
+    throw new Error('位深只能是 16 或 24');
+  }
+  const semitones = parseNumber(values.transpose, '移调', -24, 24) ?? 0;
+  if (!Number.isInteger(semitones)) {
+    throw new Error('移调必须是整数个半音');
+  }
+
+  let text: string;
+  try {
+    text = await readFile(input, 'utf8');
+  } catch {
+    throw new Error(`无法读取乐谱文件：${input}`);
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('乐谱文件不是有效的 JSON');
+  }
+
+  let score = transposeScore(parseScore(json), semitones);
+  if (values.fit) {
+    score = fitScoreToKeys(score, tuning.keys).score;
+  }
+  const skipped = findOutOfRangeNotes(score, tuning.keys);
+  if (skipped.length > 0) {
+    const notes = [...new Set(skipped.map(({ note }) => note))].join(' ');
+    console.warn(`${tuning.name}（${describeRange(tuning.keys)}）弹不到 ${skipped.length} 个音，已跳过：${notes}`);
+  }
+
+  const samples = renderKalimbaScore(score, {
+    keys: tuning.keys,
+    params: {
+      ...DEFAULT_KALIMBA_VOICE_PARAMS,
+      brightness: parseNumber(values.brightness, '明亮度', 0, 1) ?? DEFAULT_KALIMBA_VOICE_PARAMS.brightness,
+      decay: parseNumber(values.decay, '延音倍率', 0.25, 3) ?? DEFAULT_KALIMBA_VOICE_PARAMS.decay
+    },
+    bpm: parseNumber(values.bpm, '速度', MIN_BPM, MAX_BPM),
+    sampleRate,
+    tail: parseNumber(values.tail, '余音长度', 0, MAX_RENDER_TAIL),
+    normalize: !values['no-normalize']
+  });
+
+  // 与浏览器导出一致：两个声道内容相同
+  const wav = encodeWav({ sampleRate, channels: [samples, samples] }, bitDepth);
+  const output = resolve(values.output ?? `${basename(input, extname(input))}.wav`);
+  await writeFile(output, new Uint8Array(wav));
+  console.log(`已写出 ${output}（${(samples.length / sampleRate).toFixed(1)} 秒，${sampleRate} Hz，${bitDepth} 位）`);
+};
+
+main().catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
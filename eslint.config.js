@@ -38,5 +38,11 @@ export default [
       'react/react-in-jsx-scope': 'off',
       'react-refresh/only-export-components': ['warn', { allowConstantExport: true }]
     }
+  },
+  {
+    files: ['cli/**/*.ts'],
+    languageOptions: {
+      globals: globals.node
+    }
   }
 ];
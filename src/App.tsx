@@ -1,22 +1,43 @@
-import { useCallback, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { Radio, Button } from 'antd';
-import { AudioControls } from './components/AudioControls';
+import { KALIMBA_VOICE_MODULE } from './audio/instrumentVoice';
+import { parseMeter } from './audio/metronome';
+import type { RenderVoice } from './audio/offlineRender';
+import { DEFAULT_SPECTROGRAM_SETTINGS, type SpectrogramSettings } from './audio/spectrogram';
+import { AudioControls, type PlaybackAdjustmentControls } from './components/AudioControls';
+import { EffectsPanel } from './components/EffectsPanel';
+import { InstrumentVoicePanel } from './components/InstrumentVoicePanel';
 import { KalimbaKeyboard } from './components/KalimbaKeyboard';
-import { ScoreEditor, type ScoreNote } from './components/ScoreEditor';
+import { MetronomePanel } from './components/MetronomePanel';
+import { PlaylistPanel } from './components/PlaylistPanel';
+import { PracticePanel } from './components/PracticePanel';
+import { PracticeView } from './components/PracticeView';
+import { RecorderPanel } from './components/RecorderPanel';
+import { ScoreEditor } from './components/ScoreEditor';
+import { ScoreNotation } from './components/ScoreNotation';
+import { ScoreTransport } from './components/ScoreTransport';
+import { SkippedNotesAlert } from './components/SkippedNotesAlert';
 import { SourceSelector, type SourceMode } from './components/SourceSelector';
+import { SpectrogramControls } from './components/SpectrogramControls';
 import { VisualizerCanvas } from './components/VisualizerCanvas';
-import { useAudioEngine, type AudioSourceDescriptor } from './hooks/useAudioEngine';
+import { WaveformOverview } from './components/WaveformOverview';
+import { useAudioEngine, type AudioSourceDescriptor, type PlaybackState } from './hooks/useAudioEngine';
+import { usePractice } from './hooks/usePractice';
+import { useRecorder } from './hooks/useRecorder';
 import { useScorePlayer } from './hooks/useScorePlayer';
 import type { VisualizerMode } from './hooks/useVisualizer';
+import type { ScoreDocument } from './score/scoreFormat';
 import './App.css';
 
 const visualizerModes: { label: string; value: VisualizerMode }[] = [
   { label: '频谱', value: 'spectrum' },
-  { label: '波形', value: 'waveform' }
+  { label: '波形', value: 'waveform' },
+  { label: '声谱图', value: 'spectrogram' }
 ];
 
 const App = () => {
   const [mode, setMode] = useState<VisualizerMode>('spectrum');
+  const [spectrogramSettings, setSpectrogramSettings] = useState<SpectrogramSettings>(DEFAULT_SPECTROGRAM_SETTINGS);
   const [sourceTab, setSourceTab] = useState<SourceMode>('media');
   const [isLoadingSource, setIsLoadingSource] = useState(false);
   const {
@@ -33,9 +54,63 @@ const App = () => {
     currentTime,
     duration,
     activeSource,
-    triggerInstrumentNote
+    triggerInstrumentNote,
+    cancelScheduledNotes,
+    getAudioTime,
+    metronomeSettings,
+    setMetronomeSettings,
+    isMetronomeRunning,
+    metronomeBeat,
+    startMetronome,
+    stopMetronome,
+    followMetronome,
+    scheduleCountIn,
+    instrumentVoice,
+    setInstrumentVoice,
+    voiceParams,
+    setVoiceParams,
+    samplerBank,
+    samplerInstrumentIndex,
+    setSamplerInstrumentIndex,
+    tuning,
+    setTuning,
+    inputSettings,
+    setInputGain,
+    setInputMonitor,
+    effects,
+    setEffects,
+    setEffectParams,
+    impulseName,
+    loadImpulseResponse,
+    playback,
+    setPlaybackRate,
+    setPitchShift,
+    setLoop,
+    waveform,
+    playlist,
+    addToPlaylist,
+    removePlaylistItem,
+    movePlaylistItem,
+    clearPlaylist,
+    setPlaylistRepeat,
+    setPlaylistShuffle,
+    setPlaylistCrossfade,
+    playPlaylistItem,
+    skipPlaylist
   } = useAudioEngine();
 
+  // 离线导出使用与实时演奏相同的音色
+  const renderVoice = useMemo((): RenderVoice => {
+    const samplerInstrument = samplerBank?.instruments[samplerInstrumentIndex];
+    if (instrumentVoice === 'sampler' && samplerInstrument) {
+      return { kind: 'sampler', instrument: samplerInstrument };
+    }
+    if (instrumentVoice === 'kalimba') {
+      return { kind: 'kalimba', params: voiceParams, moduleUrl: `${window.location.origin}${KALIMBA_VOICE_MODULE}` };
+    }
+    return { kind: 'simple' };
+  }, [instrumentVoice, samplerBank, samplerInstrumentIndex, voiceParams]);
+
   const handleSourceSelect = useCallback(
     async (descriptor: AudioSourceDescriptor) => {
       setIsLoadingSource(true);
@@ -63,32 +138,152 @@ const App = () => {
   const disabled = isLoadingSource || state === 'loading';
   const isInstrument = activeSource === 'instrument';
   const isStream = activeSource === 'stream';
-  const showControls = sourceTab !== 'instrument';
+  const showControls = sourceTab === 'media' || sourceTab === 'stream';
   const showKalimba = sourceTab === 'instrument' && isInstrument;
   const controlsDisabled = disabled || isInstrument;
   const allowSeek = !(isInstrument || isStream);
 
+  // 变速、变调与 A–B 循环只对链接和本地文件生效
+  const playbackAdjustments = useMemo(
+    (): PlaybackAdjustmentControls | undefined =>
+      activeSource === 'url' || activeSource === 'file'
+        ? {
+            ...playback,
+            onRateChange: (rate) => void setPlaybackRate(rate),
+            onPitchChange: (pitch) => void setPitchShift(pitch),
+            onLoopChange: (loop) => void setLoop(loop)
+          }
+        : undefined,
+    [activeSource, playback, setLoop, setPitchShift, setPlaybackRate]
+  );
+
   // 乐谱编辑器状态
   const [scoreEditorVisible, setScoreEditorVisible] = useState(false);
-  const [highlightedNoteIndex, setHighlightedNoteIndex] = useState<number | null>(null);
+  const [highlightedNoteIndexes, setHighlightedNoteIndexes] = useState<number[]>([]);
 
   // 乐谱播放
-  const { play: playScore, stop: stopScore, isPlaying: isScorePlaying } = useScorePlayer(
+  const scorePlayer = useScorePlayer(
     triggerInstrumentNote,
-    setHighlightedNoteIndex
+    setHighlightedNoteIndexes,
+    getAudioTime,
+    cancelScheduledNotes,
+    tuning.keys
   );
+  const { play: playScore, stop: stopScore, getTransport: getScoreTransport } = scorePlayer;
+  const [currentScore, setCurrentScore] = useState<ScoreDocument | null>(null);
+
+  // 练习模式：音符沿琴键下落，键盘演奏同时用于判定
+  const practice = usePractice(getAudioTime, tuning.keys);
+  const { press: pressPractice, stop: stopPractice } = practice;
+  const [isPracticing, setIsPracticing] = useState(false);
+
+  const scoreControlsState: PlaybackState =
+    scorePlayer.state === 'idle' ? 'ready' : scorePlayer.state;
 
   const handlePlayScore = useCallback(
-    (score: ScoreNote[]) => {
-      // 确保在拇指琴模式下
+    async (score: ScoreDocument) => {
+      // 确保在拇指琴模式下，且 AudioContext 已就绪后再排程
       if (!isInstrument) {
-        handleSourceSelect({ kind: 'instrument' });
+        try {
+          await handleSourceSelect({ kind: 'instrument' });
+        } catch {
+          return; // 错误信息已由 useAudioEngine 展示
+        }
       }
-      playScore(score);
+      // 节拍器采用乐谱的拍号，按设置先播放预备拍
+      const meter = score.header.meter ? parseMeter(score.header.meter) : null;
+      if (meter) {
+        setMetronomeSettings(meter);
+      }
+      const countInBars = metronomeSettings.countInBars;
+      const delay =
+        countInBars > 0 ? scheduleCountIn(countInBars, score.header.bpm ?? scorePlayer.bpm).end - getAudioTime() : undefined;
+      setCurrentScore(score);
+      setIsPracticing(false);
+      stopPractice();
+      playScore(score, 0, delay);
+    },
+    [
+      isInstrument,
+      handleSourceSelect,
+      setMetronomeSettings,
+      metronomeSettings.countInBars,
+      scheduleCountIn,
+      scorePlayer.bpm,
+      getAudioTime,
+      stopPractice,
+      playScore
+    ]
+  );
+
+  // 乐谱播放期间节拍器跟随乐谱的起点与速度
+  useEffect(() => {
+    followMetronome(scorePlayer.state === 'playing' ? getScoreTransport : null);
+  }, [followMetronome, getScoreTransport, scorePlayer.state]);
+
+  const handleToggleMetronome = useCallback(() => {
+    if (isMetronomeRunning) {
+      stopMetronome();
+    } else {
+      void startMetronome();
+    }
+  }, [isMetronomeRunning, startMetronome, stopMetronome]);
+
+  // 演奏录音：键盘演奏的音符同时交给录音器，停止后在编辑器中打开量化结果
+  const recorder = useRecorder(getAudioTime, scheduleCountIn, tuning.keys, metronomeSettings);
+  const { capture: captureNote, stop: stopRecording } = recorder;
+  const [recordedScore, setRecordedScore] = useState<ScoreDocument | null>(null);
+
+  const handleKeyboardNote = useCallback(
+    (index: number) => {
+      captureNote(index);
+      pressPractice(index);
+      void triggerInstrumentNote(index);
     },
-    [isInstrument, handleSourceSelect, playScore]
+    [captureNote, pressPractice, triggerInstrumentNote]
   );
 
+  const handleStartPractice = useCallback(() => {
+    if (!currentScore) {
+      return;
+    }
+    stopScore();
+    practice.start(currentScore);
+  }, [currentScore, practice, stopScore]);
+
+  const handleExitPractice = useCallback(() => {
+    stopPractice();
+    setIsPracticing(false);
+  }, [stopPractice]);
+
+  // 切换调音后琴键对应关系改变，需要重新开始练习
+  useEffect(() => {
+    stopPractice();
+  }, [tuning, stopPractice]);
+
+  const handleStartRecording = useCallback(() => {
+    stopScore();
+    recorder.start();
+  }, [recorder, stopScore]);
+
+  const handleStopRecording = useCallback(() => {
+    const score = stopRecording();
+    if (score) {
+      setRecordedScore(score);
+      setScoreEditorVisible(true);
+    }
+  }, [stopRecording]);
+
+  // 离开拇指琴模式时停止乐谱、录音、练习与节拍器
+  useEffect(() => {
+    if (!isInstrument) {
+      stopScore();
+      stopRecording();
+      stopPractice();
+      stopMetronome();
+    }
+  }, [isInstrument, stopScore, stopRecording, stopPractice, stopMetronome]);
+
   return (
     <main className="app">
       <header className="app__header">
@@ -116,7 +311,13 @@ const App = () => {
                 ))}
               </Radio.Group>
             </div>
-            <VisualizerCanvas analyser={analyserNode} mode={mode} />
+            {mode === 'spectrogram' && (
+              <SpectrogramControls
+                settings={spectrogramSettings}
+                onChange={(changes) => setSpectrogramSettings((previous) => ({ ...previous, ...changes }))}
+              />
+            )}
+            <VisualizerCanvas analyser={analyserNode} mode={mode} spectrogram={spectrogramSettings} />
           </section>
         </div>
 
@@ -126,6 +327,12 @@ const App = () => {
             loading={disabled}
             activeTab={sourceTab}
             onTabChange={setSourceTab}
+            tuningId={tuning.id}
+            onTuningChange={setTuning}
+            inputSettings={inputSettings}
+            onInputGainChange={setInputGain}
+            onInputMonitorChange={setInputMonitor}
+            onStopInput={handleStop}
           />
           {errorMessage && <p className="app__error">{errorMessage}</p>}
           {showControls && (
@@ -141,28 +348,137 @@ const App = () => {
               duration={duration}
               disabled={controlsDisabled}
               allowSeek={allowSeek}
+              adjustments={playbackAdjustments}
+            />
+          )}
+          {showControls && playbackAdjustments && waveform.status !== 'none' && (
+            <WaveformOverview
+              waveform={waveform}
+              currentTime={currentTime}
+              duration={duration}
+              onSeek={seekTo}
+              loop={playback.loop}
+              onLoopChange={(loop) => void setLoop(loop)}
+              disabled={controlsDisabled}
+            />
+          )}
+          {sourceTab === 'media' && (
+            <PlaylistPanel
+              playlist={playlist}
+              active={activeSource === 'playlist'}
+              disabled={disabled}
+              onAdd={addToPlaylist}
+              onRemove={removePlaylistItem}
+              onMove={movePlaylistItem}
+              onClear={clearPlaylist}
+              onPlayItem={playPlaylistItem}
+              onSkip={skipPlaylist}
+              onRepeatChange={setPlaylistRepeat}
+              onShuffleChange={setPlaylistShuffle}
+              onCrossfadeChange={setPlaylistCrossfade}
             />
           )}
 
           {showKalimba && (
             <section className="kalimba-panel">
               <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.75rem' }}>
-                <p style={{ margin: 0 }}>点击琴键或使用键盘（qwer / asdfg / jkl; / uiop）即可触发音符，可视化会实时响应。</p>
-                <Button type="primary" onClick={() => setScoreEditorVisible(true)}>
-                  乐谱编辑器
-                </Button>
+                <p style={{ margin: 0 }}>{tuning.name}：点击琴键或使用键盘（琴键右上角的字母）即可触发音符，可视化会实时响应。</p>
+                <div className="kalimba-panel__actions">
+                  <Button
+                    disabled={!currentScore}
+                    onClick={() => (isPracticing ? handleExitPractice() : setIsPracticing(true))}
+                  >
+                    {isPracticing ? '退出练习' : '练习模式'}
+                  </Button>
+                  <Button type="primary" onClick={() => setScoreEditorVisible(true)}>
+                    乐谱编辑器
+                  </Button>
+                </div>
               </div>
+              <InstrumentVoicePanel
+                voice={instrumentVoice}
+                onVoiceChange={(voice) => void setInstrumentVoice(voice)}
+                params={voiceParams}
+                onParamsChange={setVoiceParams}
+                samplerBank={samplerBank}
+                samplerInstrumentIndex={samplerInstrumentIndex}
+                onSamplerInstrumentChange={setSamplerInstrumentIndex}
+              />
+              <MetronomePanel
+                settings={metronomeSettings}
+                onSettingsChange={setMetronomeSettings}
+                running={isMetronomeRunning}
+                onToggle={handleToggleMetronome}
+                beat={metronomeBeat}
+                followingBpm={scorePlayer.state === 'playing' ? scorePlayer.bpm : null}
+              />
+              <RecorderPanel recorder={recorder} onStart={handleStartRecording} onStop={handleStopRecording} />
+              {isPracticing && (
+                <>
+                  <PracticePanel practice={practice} onStart={handleStartPractice} onExit={handleExitPractice} />
+                  <PracticeView keys={tuning.keys} practice={practice} />
+                </>
+              )}
               <KalimbaKeyboard
-                onPlayNote={triggerInstrumentNote}
-                highlightedIndex={highlightedNoteIndex}
+                keys={tuning.keys}
+                onPlayNote={handleKeyboardNote}
+                highlightedIndex={isPracticing ? practice.targetKeys : highlightedNoteIndexes}
               />
+              {scorePlayer.hasScore && !isPracticing && (
+                <>
+                  <AudioControls
+                    state={scoreControlsState}
+                    onPlay={scorePlayer.resume}
+                    onPause={scorePlayer.pause}
+                    onStop={stopScore}
+                    onSeek={scorePlayer.seekToTime}
+                    volume={volume}
+                    onVolumeChange={setVolume}
+                    currentTime={scorePlayer.position}
+                    duration={scorePlayer.duration}
+                    disabled={disabled}
+                  />
+                  <ScoreTransport
+                    bpm={scorePlayer.bpm}
+                    onBpmChange={scorePlayer.setBpm}
+                    loop={scorePlayer.loop}
+                    onLoopChange={scorePlayer.setLoop}
+                    currentIndex={scorePlayer.currentIndex}
+                    noteCount={scorePlayer.noteCount}
+                  />
+                  <SkippedNotesAlert
+                    notes={scorePlayer.skippedNotes}
+                    tuningName={tuning.name}
+                    onOpenEditor={() => setScoreEditorVisible(true)}
+                  />
+                  {currentScore && (
+                    <ScoreNotation
+                      score={currentScore}
+                      keys={tuning.keys}
+                      currentIndex={scorePlayer.currentIndex}
+                      onNoteClick={scorePlayer.playFrom}
+                    />
+                  )}
+                </>
+              )}
             </section>
           )}
 
+          <EffectsPanel
+            settings={effects}
+            onChange={setEffects}
+            onParamsChange={setEffectParams}
+            impulseName={impulseName}
+            onLoadImpulse={loadImpulseResponse}
+          />
+
           <ScoreEditor
+            tuning={tuning}
             visible={scoreEditorVisible}
             onClose={() => setScoreEditorVisible(false)}
             onPlay={handlePlayScore}
+            incomingScore={recordedScore}
+            renderVoice={renderVoice}
           />
         </div>
       </section>
@@ -0,0 +1,43 @@
+// 节拍器点击声：短促的正弦波，重拍音高更高、细分拍更轻。按音频时间排程，适用于预备拍与节拍器。
+import type { ClickLevel } from './metronome';
+
+export type ClickOptions = {
+  level?: ClickLevel;
+  volume?: number; // 0–1
+};
+
+const CLICK_FREQUENCY: Record<ClickLevel, number> = {
+  accent: 1760,
+  beat: 1320,
+  subdivision: 990
+};
+const CLICK_GAIN: Record<ClickLevel, number> = {
+  accent: 1,
+  beat: 0.75,
+  subdivision: 0.4
+};
+const CLICK_SECONDS = 0.05;
+
+export const scheduleClick = (
+  context: BaseAudioContext,
+  destination: AudioNode,
+  when: number,
+  { level = 'beat', volume = 1 }: ClickOptions = {}
+) => {
+  const oscillator = context.createOscillator();
+  oscillator.frequency.value = CLICK_FREQUENCY[level];
+  const gain = context.createGain();
+  gain.gain.setValueAtTime(0, when);
+  gain.gain.linearRampToValueAtTime(volume * CLICK_GAIN[level], when + 0.002);
+  gain.gain.exponentialRampToValueAtTime(0.001, when + CLICK_SECONDS);
+
+  oscillator.connect(gain);
+  gain.connect(destination);
+  oscillator.start(when);
+  oscillator.stop(when + CLICK_SECONDS + 0.01);
+  oscillator.onended = () => {
+    oscillator.disconnect();
+    gain.disconnect();
+  };
+  return oscillator;
+};
@@ -0,0 +1,264 @@
+// 效果链设置：参数、默认值、内置预设与合成脉冲响应，不依赖 Web Audio，节点实现见 engine/effectsChain.ts。
+
+export type EffectKind = 'eq' | 'compressor' | 'reverb' | 'delay' | 'width';
+
+export const EFFECT_KINDS: EffectKind[] = ['eq', 'compressor', 'delay', 'reverb', 'width'];
+
+export const EFFECT_LABELS: Record<EffectKind, string> = {
+  eq: '均衡器',
+  compressor: '压缩 / 限制',
+  reverb: '混响',
+  delay: '延迟',
+  width: '立体声宽度'
+};
+
+export type EqBandType = 'lowshelf' | 'peaking' | 'highshelf';
+
+export type EqBand = {
+  type: EqBandType;
+  frequency: number; // Hz
+  gain: number; // dB
+  q: number;
+};
+
+export type CompressorParams = {
+  threshold: number; // dB
+  ratio: number;
+  knee: number; // dB
+  attack: number; // 秒
+  release: number; // 秒
+  /** 补偿增益（dB） */
+  makeup: number;
+  /** 限制器：忽略比率与拐点，以最快的启动时间压住峰值 */
+  limiter: boolean;
+};
+
+export type SyntheticImpulse = 'room' | 'hall' | 'plate';
+
+export type ReverbParams = {
+  /** 合成脉冲响应，或用户载入的脉冲响应文件 */
+  impulse: SyntheticImpulse | 'custom';
+  mix: number; // 0–1，湿声比例
+};
+
+export type DelayParams = {
+  time: number; // 秒
+  feedback: number; // 0–0.9
+  mix: number; // 0–1
+  /** 反馈回路中的低通截止频率（Hz），让重复逐渐变暗 */
+  tone: number;
+};
+
+export type WidthParams = {
+  /** 0 = 单声道，1 = 原样，2 = 加宽一倍 */
+  width: number;
+};
+
+export type EffectParams = {
+  eq: { bands: EqBand[] };
+  compressor: CompressorParams;
+  reverb: ReverbParams;
+  delay: DelayParams;
+  width: WidthParams;
+};
+
+/** 可视化取信号的位置：效果链之前或之后 */
+export type AnalyserTap = 'pre' | 'post';
+
+export type EffectChainSettings = {
+  /** 效果的串联顺序，总是包含全部效果 */
+  order: EffectKind[];
+  enabled: Record<EffectKind, boolean>;
+  params: EffectParams;
+  tap: AnalyserTap;
+};
+
+/** 预设只保存效果本身，可视化取样位置属于界面选择 */
+export type EffectPreset = {
+  id: string;
+  name: string;
+  settings: Omit<EffectChainSettings, 'tap'>;
+};
+
+/** 载入的脉冲响应文件，按声道保存采样，AudioContext 重建后仍可使用 */
+export type ImpulseResponse = {
+  name: string;
+  sampleRate: number;
+  channels: Float32Array[];
+};
+
+export const MAX_DELAY_TIME = 2;
+
+export const DEFAULT_EFFECT_PARAMS: EffectParams = {
+  eq: {
+    bands: [
+      { type: 'lowshelf', frequency: 120, gain: 0, q: 0.7 },
+      { type: 'peaking', frequency: 500, gain: 0, q: 1 },
+      { type: 'peaking', frequency: 2500, gain: 0, q: 1 },
+      { type: 'highshelf', frequency: 8000, gain: 0, q: 0.7 }
+    ]
+  },
+  compressor: { threshold: -24, ratio: 4, knee: 6, attack: 0.01, release: 0.25, makeup: 0, limiter: false },
+  reverb: { impulse: 'hall', mix: 0.3 },
+  delay: { time: 0.35, feedback: 0.35, mix: 0.25, tone: 4000 },
+  width: { width: 1 }
+};
+
+const ALL_DISABLED: Record<EffectKind, boolean> = { eq: false, compressor: false, reverb: false, delay: false, width: false };
+
+export const DEFAULT_EFFECT_SETTINGS: EffectChainSettings = {
+  order: EFFECT_KINDS,
+  enabled: ALL_DISABLED,
+  params: DEFAULT_EFFECT_PARAMS,
+  tap: 'post'
+};
+
+export const BUILTIN_PRESET_PREFIX = 'builtin:';
+
+const withParams = (changes: Partial<EffectParams>): EffectParams => ({ ...DEFAULT_EFFECT_PARAMS, ...changes });
+
+export const BUILTIN_EFFECT_PRESETS: EffectPreset[] = [
+  {
+    id: `${BUILTIN_PRESET_PREFIX}bypass`,
+    name: '无效果',
+    settings: { order: EFFECT_KINDS, enabled: ALL_DISABLED, params: DEFAULT_EFFECT_PARAMS }
+  },
+  {
+    id: `${BUILTIN_PRESET_PREFIX}warm-room`,
+    name: '温暖小房间',
+    settings: {
+      order: EFFECT_KINDS,
+      enabled: { ...ALL_DISABLED, eq: true, reverb: true },
+      params: withParams({
+        eq: {
+          bands: [
+            { type: 'lowshelf', frequency: 150, gain: 2, q: 0.7 },
+            { type: 'peaking', frequency: 500, gain: 0, q: 1 },
+            { type: 'peaking', frequency: 3000, gain: -1.5, q: 1 },
+            { type: 'highshelf', frequency: 9000, gain: -3, q: 0.7 }
+          ]
+        },
+        reverb: { impulse: 'room', mix: 0.2 }
+      })
+    }
+  },
+  {
+    id: `${BUILTIN_PRESET_PREFIX}concert-hall`,
+    name: '音乐厅',
+    settings: {
+      order: EFFECT_KINDS,
+      enabled: { ...ALL_DISABLED, compressor: true, reverb: true, width: true },
+      params: withParams({
+        compressor: { ...DEFAULT_EFFECT_PARAMS.compressor, threshold: -18, ratio: 2.5 },
+        reverb: { impulse: 'hall', mix: 0.35 },
+        width: { width: 1.3 }
+      })
+    }
+  },
+  {
+    id: `${BUILTIN_PRESET_PREFIX}echo`,
+    name: '回声',
+    settings: {
+      order: EFFECT_KINDS,
+      enabled: { ...ALL_DISABLED, delay: true, reverb: true },
+      params: withParams({
+        delay: { time: 0.42, feedback: 0.45, mix: 0.35, tone: 3000 },
+        reverb: { impulse: 'plate', mix: 0.15 }
+      })
+    }
+  },
+  {
+    id: `${BUILTIN_PRESET_PREFIX}limiter`,
+    name: '响度限制',
+    settings: {
+      order: EFFECT_KINDS,
+      enabled: { ...ALL_DISABLED, compressor: true },
+      params: withParams({
+        compressor: { ...DEFAULT_EFFECT_PARAMS.compressor, threshold: -6, makeup: 4, limiter: true }
+      })
+    }
+  }
+];
+
+export const SYNTHETIC_IMPULSES: Record<SyntheticImpulse, { label: string; duration: number; damping: number }> = {
+  room: { label: '房间', duration: 0.8, damping: 0.6 },
+  hall: { label: '大厅', duration: 2.8, damping: 0.45 },
+  plate: { label: '板式', duration: 1.6, damping: 0.1 }
+};
+
+// 固定种子的噪声，同一预设每次生成相同的脉冲响应
+const createNoise = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 0x80000000 - 1;
+  };
+};
+
+/**
+ * 生成立体声合成脉冲响应：按指数衰减（在 duration 处衰减 60 dB）的噪声，
+ * 随时间加重低通模拟高频吸收；左右声道使用不同的噪声以获得空间感
+ */
+export const createSyntheticImpulse = (kind: SyntheticImpulse, sampleRate: number) => {
+  const { duration, damping } = SYNTHETIC_IMPULSES[kind];
+  const length = Math.max(1, Math.round(duration * sampleRate));
+  return [0, 1].map((channel) => {
+    const data = new Float32Array(length);
+    const noise = createNoise(0x5eed + channel * 7919);
+    let filtered = 0;
+    for (let i = 0; i < length; i += 1) {
+      const progress = i / length;
+      const coefficient = Math.max(0.05, 1 - damping * progress * 1.8);
+      filtered += coefficient * (noise() - filtered);
+      data[i] = filtered * Math.exp(-6.9 * progress);
+    }
+    return data;
+  });
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** 以默认值补全（可能来自旧版本或被手工修改的）预设设置 */
+export const normalizeEffectSettings = (value: unknown): EffectPreset['settings'] => {
+  const source = isRecord(value) ? value : {};
+  const order = Array.isArray(source.order) ? source.order.filter((kind): kind is EffectKind => (EFFECT_KINDS as unknown[]).includes(kind)) : [];
+  const uniqueOrder = [...new Set(order), ...EFFECT_KINDS.filter((kind) => !order.includes(kind))];
+  const enabled = isRecord(source.enabled) ? source.enabled : {};
+  const params = isRecord(source.params) ? source.params : {};
+  return {
+    order: uniqueOrder,
+    enabled: Object.fromEntries(EFFECT_KINDS.map((kind) => [kind, enabled[kind] === true])) as Record<EffectKind, boolean>,
+    params: Object.fromEntries(
+      EFFECT_KINDS.map((kind) => [kind, { ...DEFAULT_EFFECT_PARAMS[kind], ...(isRecord(params[kind]) ? params[kind] : {}) }])
+    ) as EffectParams
+  };
+};
+
+const PRESET_STORAGE_KEY = 'audio-canvas:effect-presets';
+
+/** 用户保存的效果预设（localStorage），读取失败时视为没有预设 */
+export const loadUserEffectPresets = (): EffectPreset[] => {
+  try {
+    const raw = typeof localStorage === 'undefined' ? null : localStorage.getItem(PRESET_STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed.filter(isRecord).map((preset) => ({
+      id: String(preset.id),
+      name: String(preset.name),
+      settings: normalizeEffectSettings(preset.settings)
+    }));
+  } catch {
+    return [];
+  }
+};
+
+export const saveUserEffectPresets = (presets: EffectPreset[]) => {
+  try {
+    localStorage.setItem(PRESET_STORAGE_KEY, JSON.stringify(presets));
+  } catch {
+    throw new Error('效果预设保存失败，浏览器存储空间可能已满或被禁用');
+  }
+};
@@ -0,0 +1,503 @@
+// 播放引擎：与框架无关，管理 AudioContext 链路（含效果链）、当前音源与播放状态，通过事件通知界面。
+// 每种音源由一个驱动实现（urlSource / fileSource / playlistSource / streamSource / instrumentSource / inputSource），
+// AudioContext 与驱动都可替换，便于在测试中使用假的上下文。
+import {
+  DEFAULT_EFFECT_SETTINGS,
+  type EffectChainSettings,
+  type EffectKind,
+  type EffectParams,
+  type ImpulseResponse
+} from '../effects';
+import { MAX_PITCH_SHIFT, MAX_PLAYBACK_RATE, MIN_PLAYBACK_RATE } from '../tempo';
+import { computeWaveformPeaks, type WaveformPeaks } from '../waveform';
+import { EffectsChain } from './effectsChain';
+import { TypedEmitter } from './emitter';
+import { FileSource } from './fileSource';
+import { InputSource, type InputSettings } from './inputSource';
+import { InstrumentSource, type InstrumentSettings } from './instrumentSource';
+import { PlaylistSource, type PlaylistSettings } from './playlistSource';
+import { StreamSource } from './streamSource';
+import type {
+  AudioSourceDescriptor,
+  DescriptorOf,
+  EngineGraph,
+  PlaybackAdjustments,
+  PlaybackState,
+  SourceDriver,
+  SourceHost,
+  SourceKind
+} from './types';
+import { UrlSource } from './urlSource';
+
+export type EngineTime = { currentTime: number; duration: number };
+
+/** 当前音源的波形概览；只有能取得整段音频的音源（本地文件、允许跨域的链接）才有 */
+export type WaveformState = {
+  status: 'none' | 'loading' | 'ready' | 'error';
+  peaks: WaveformPeaks | null;
+  message: string | null;
+};
+
+export type AudioEngineEvents = {
+  state: PlaybackState;
+  source: SourceKind | null;
+  time: EngineTime;
+  error: string | null;
+  volume: number;
+  instrument: InstrumentSettings;
+  input: InputSettings;
+  playlist: PlaylistSettings;
+  effects: EffectChainSettings;
+  /** 已载入的脉冲响应文件名 */
+  impulse: string | null;
+  playback: PlaybackAdjustments;
+  waveform: WaveformState;
+};
+
+export type SourceDrivers = {
+  url: SourceDriver<DescriptorOf<'url'>>;
+  file: SourceDriver<DescriptorOf<'file'>>;
+  stream: SourceDriver<DescriptorOf<'stream'>>;
+  instrument: InstrumentSource;
+  input: InputSource;
+  playlist: PlaylistSource;
+};
+
+/** 播放期间周期性调用 callback，返回停止函数 */
+export type EngineTicker = (callback: () => void) => () => void;
+
+export type AudioEngineOptions = {
+  createContext?: () => AudioContext;
+  /** 替换部分音源驱动 */
+  createDrivers?: (host: SourceHost) => Partial<SourceDrivers>;
+  ticker?: EngineTicker;
+  volume?: number;
+  /** 计算波形峰值，缺省在 Web Worker 中计算 */
+  computePeaks?: (buffer: AudioBuffer) => Promise<WaveformPeaks>;
+};
+
+// 播放位置变化小于该值（秒）时不广播，避免每帧都触发界面更新
+const TIME_UPDATE_STEP = 0.1;
+// A–B 循环的最短长度（秒）
+const MIN_LOOP_LENGTH = 0.1;
+
+const DEFAULT_PLAYBACK: PlaybackAdjustments = { rate: 1, pitch: 0, loop: null };
+const EMPTY_WAVEFORM: WaveformState = { status: 'none', peaks: null, message: null };
+
+const defaultTicker: EngineTicker = (callback) => {
+  let frame = requestAnimationFrame(function tick() {
+    callback();
+    frame = requestAnimationFrame(tick);
+  });
+  return () => cancelAnimationFrame(frame);
+};
+
+export class AudioEngine {
+  private readonly emitter = new TypedEmitter<AudioEngineEvents>();
+  private readonly createContext: () => AudioContext;
+  private readonly ticker: EngineTicker;
+  private readonly drivers: SourceDrivers;
+  private readonly computePeaks: (buffer: AudioBuffer) => Promise<WaveformPeaks>;
+  private graph: EngineGraph | null = null;
+  private effectsChain: EffectsChain | null = null;
+  private analyserTap: AudioNode | null = null;
+  private currentEffects: EffectChainSettings = DEFAULT_EFFECT_SETTINGS;
+  private customImpulse: ImpulseResponse | null = null;
+  private currentPlayback: PlaybackAdjustments = DEFAULT_PLAYBACK;
+  private currentWaveform: WaveformState = EMPTY_WAVEFORM;
+  // 每次载入递增，丢弃上一个音源迟到的波形结果
+  private waveformRequest = 0;
+  private stopTicker: (() => void) | null = null;
+  private lastTime: EngineTime = { currentTime: 0, duration: 0 };
+  private currentState: PlaybackState = 'idle';
+  private currentSource: SourceKind | null = null;
+  private currentError: string | null = null;
+  private currentVolume: number;
+
+  constructor({
+    createContext = () => new AudioContext(),
+    createDrivers,
+    ticker = defaultTicker,
+    volume = 0.8,
+    computePeaks = computeWaveformPeaks
+  }: AudioEngineOptions = {}) {
+    this.createContext = createContext;
+    this.computePeaks = computePeaks;
+    this.ticker = ticker;
+    this.currentVolume = volume;
+    const host: SourceHost = {
+      getGraph: () => this.getGraph(),
+      ended: () => this.handleEnded(),
+      changed: (kind) => {
+        if (kind === 'input') {
+          this.emitter.emit('input', this.drivers.input.settings);
+        } else if (kind === 'playlist') {
+          this.emitter.emit('playlist', this.drivers.playlist.settings);
+        } else {
+          this.emitter.emit('instrument', this.drivers.instrument.settings);
+        }
+      },
+      error: (message) => {
+        this.setError(message);
+        this.setState('error');
+      },
+      computePeaks: (buffer) => this.computePeaks(buffer)
+    };
+    const custom = createDrivers?.(host) ?? {};
+    this.drivers = {
+      url: custom.url ?? new UrlSource(host),
+      file: custom.file ?? new FileSource(host),
+      stream: custom.stream ?? new StreamSource(host),
+      instrument: custom.instrument ?? new InstrumentSource(host),
+      input: custom.input ?? new InputSource(host),
+      playlist: custom.playlist ?? new PlaylistSource(host)
+    };
+  }
+
+  on<K extends keyof AudioEngineEvents>(event: K, listener: (payload: AudioEngineEvents[K]) => void) {
+    return this.emitter.on(event, listener);
+  }
+
+  get state() {
+    return this.currentState;
+  }
+
+  get source() {
+    return this.currentSource;
+  }
+
+  get errorMessage() {
+    return this.currentError;
+  }
+
+  get volume() {
+    return this.currentVolume;
+  }
+
+  get time() {
+    return this.lastTime;
+  }
+
+  /** 尚未创建 AudioContext 时为 null */
+  get analyser() {
+    return this.graph?.analyser ?? null;
+  }
+
+  get instrument() {
+    return this.drivers.instrument;
+  }
+
+  get input() {
+    return this.drivers.input;
+  }
+
+  get playlist() {
+    return this.drivers.playlist;
+  }
+
+  get effects() {
+    return this.currentEffects;
+  }
+
+  get impulseName() {
+    return this.customImpulse?.name ?? null;
+  }
+
+  get playback() {
+    return this.currentPlayback;
+  }
+
+  get waveform() {
+    return this.currentWaveform;
+  }
+
+  private get activeDriver(): SourceDriver | null {
+    return this.currentSource ? this.drivers[this.currentSource] : null;
+  }
+
+  getGraph() {
+    if (!this.graph) {
+      const context = this.createContext();
+      const input = context.createGain();
+      const analyser = context.createAnalyser();
+      analyser.fftSize = 2048;
+      analyser.smoothingTimeConstant = 0.85;
+      const monitor = context.createGain();
+      const output = context.createGain();
+      output.gain.value = this.currentVolume;
+      const effects = new EffectsChain(context, this.currentEffects, this.customImpulse);
+
+      input.connect(effects.input);
+      effects.output.connect(monitor);
+      monitor.connect(output);
+      output.connect(context.destination);
+      this.graph = { context, input, analyser, monitor, output };
+      this.effectsChain = effects;
+      this.connectAnalyser();
+    }
+    return this.graph;
+  }
+
+  // 可视化取样点：效果链之前接在 input 上，之后接在效果链输出上
+  private connectAnalyser() {
+    if (!this.graph || !this.effectsChain) {
+      return;
+    }
+    const { input, analyser } = this.graph;
+    const tap = this.currentEffects.tap === 'pre' ? input : this.effectsChain.output;
+    if (tap !== this.analyserTap) {
+      this.analyserTap?.disconnect(analyser);
+      tap.connect(analyser);
+      this.analyserTap = tap;
+    }
+  }
+
+  getAudioTime() {
+    return this.graph?.context.currentTime ?? 0;
+  }
+
+  private setState(state: PlaybackState) {
+    if (state === 'playing' && !this.stopTicker) {
+      this.stopTicker = this.ticker(() => this.emitTime());
+    } else if (state !== 'playing' && this.stopTicker) {
+      this.stopTicker();
+      this.stopTicker = null;
+    }
+    if (state !== this.currentState) {
+      this.currentState = state;
+      this.emitter.emit('state', state);
+    }
+  }
+
+  private setError(message: string | null) {
+    if (message !== this.currentError) {
+      this.currentError = message;
+      this.emitter.emit('error', message);
+    }
+  }
+
+  private emitTime(force = false) {
+    const driver = this.activeDriver;
+    const time = { currentTime: driver?.getTime() ?? 0, duration: driver?.getDuration() ?? 0 };
+    if (
+      force ||
+      time.duration !== this.lastTime.duration ||
+      Math.abs(time.currentTime - this.lastTime.currentTime) >= TIME_UPDATE_STEP
+    ) {
+      this.lastTime = time;
+      this.emitter.emit('time', time);
+    }
+  }
+
+  private setWaveform(waveform: WaveformState) {
+    this.currentWaveform = waveform;
+    this.emitter.emit('waveform', waveform);
+  }
+
+  // 在后台取得波形峰值，不阻塞载入
+  private async loadWaveform(driver: SourceDriver) {
+    const request = ++this.waveformRequest;
+    if (!driver.getWaveformPeaks) {
+      if (this.currentWaveform.status !== 'none') {
+        this.setWaveform(EMPTY_WAVEFORM);
+      }
+      return;
+    }
+    this.setWaveform({ status: 'loading', peaks: null, message: null });
+    try {
+      const peaks = await driver.getWaveformPeaks();
+      if (request === this.waveformRequest) {
+        this.setWaveform(peaks ? { status: 'ready', peaks, message: null } : EMPTY_WAVEFORM);
+      }
+    } catch (error) {
+      if (request === this.waveformRequest) {
+        this.setWaveform({
+          status: 'error',
+          peaks: null,
+          message: error instanceof Error ? error.message : '波形计算失败'
+        });
+      }
+    }
+  }
+
+  private handleEnded() {
+    this.setState('ready');
+    this.emitTime(true);
+  }
+
+  async load(descriptor: AudioSourceDescriptor) {
+    try {
+      this.setError(null);
+      this.setState('loading');
+      await this.getGraph().context.resume();
+      const driver = this.drivers[descriptor.kind] as SourceDriver;
+      await driver.load(descriptor);
+      // 循环区间属于上一段音频，换音源时清除；速度与音高保留
+      if (this.currentPlayback.loop) {
+        this.currentPlayback = { ...this.currentPlayback, loop: null };
+        this.emitter.emit('playback', this.currentPlayback);
+      }
+      await driver.adjust?.(this.currentPlayback);
+      (Object.values(this.drivers) as SourceDriver[]).forEach((other) => {
+        if (other !== driver) {
+          other.release();
+        }
+      });
+      if (this.currentSource !== descriptor.kind) {
+        this.currentSource = descriptor.kind;
+        this.emitter.emit('source', descriptor.kind);
+      }
+      this.setState('ready');
+      this.emitTime(true);
+      void this.loadWaveform(driver);
+    } catch (error) {
+      this.setError(error instanceof Error ? error.message : '未知错误');
+      this.setState('error');
+      throw error;
+    }
+  }
+
+  async play() {
+    const driver = this.activeDriver;
+    if (this.currentState === 'loading' || !driver) {
+      return;
+    }
+    await this.getGraph().context.resume();
+    if (!driver.transport) {
+      this.setState('ready');
+      return;
+    }
+    await driver.play();
+    this.setState('playing');
+  }
+
+  pause() {
+    const driver = this.activeDriver;
+    if (!driver) {
+      return;
+    }
+    if (!driver.transport) {
+      this.setState('ready');
+      return;
+    }
+    driver.pause();
+    this.setState('paused');
+    this.emitTime(true);
+  }
+
+  stop() {
+    const driver = this.activeDriver;
+    if (!driver) {
+      return;
+    }
+    driver.stop();
+    this.setState('ready');
+    this.emitTime(true);
+  }
+
+  async seek(seconds: number) {
+    const driver = this.activeDriver;
+    if (!driver?.seekable) {
+      return;
+    }
+    await driver.seek(Math.max(0, seconds));
+    this.emitTime(true);
+  }
+
+  setVolume(value: number) {
+    this.currentVolume = value;
+    this.emitter.emit('volume', value);
+    if (this.graph) {
+      this.graph.output.gain.setTargetAtTime(value, this.graph.context.currentTime, 0.01);
+    }
+  }
+
+  /** 切换乐器音色，物理建模音色加载失败时退回简单音色并报告错误 */
+  async setInstrumentVoice(voice: InstrumentSettings['voice']) {
+    try {
+      await this.instrument.setVoice(voice);
+    } catch (error) {
+      this.setError(error instanceof Error ? error.message : '未知错误');
+    }
+  }
+
+  /** 调整播放速度（保持音高）、变调或 A–B 循环，只对 url / file 音源生效；A、B 顺序颠倒时自动交换 */
+  async setPlayback(changes: Partial<PlaybackAdjustments>) {
+    const next = { ...this.currentPlayback, ...changes };
+    next.rate = Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, next.rate));
+    next.pitch = Math.min(MAX_PITCH_SHIFT, Math.max(-MAX_PITCH_SHIFT, Math.round(next.pitch)));
+    if (next.loop) {
+      const start = Math.max(0, Math.min(next.loop.start, next.loop.end));
+      const end = Math.max(next.loop.start, next.loop.end);
+      if (end - start < MIN_LOOP_LENGTH) {
+        this.setError(`A–B 循环区间至少需要 ${MIN_LOOP_LENGTH} 秒`);
+        return;
+      }
+      next.loop = { start, end };
+    }
+    this.currentPlayback = next;
+    this.emitter.emit('playback', next);
+    try {
+      await this.activeDriver?.adjust?.(next);
+      // 清除之前的调整错误（如循环区间太短），音源本身的错误保留
+      if (this.currentState !== 'error') {
+        this.setError(null);
+      }
+    } catch (error) {
+      this.setError(error instanceof Error ? error.message : '未知错误');
+    }
+    this.emitTime(true);
+  }
+
+  /** 修改效果链：顺序、旁通、参数或可视化取样点 */
+  setEffects(changes: Partial<EffectChainSettings>) {
+    const previous = this.currentEffects;
+    this.currentEffects = { ...previous, ...changes };
+    this.effectsChain?.update(this.currentEffects);
+    if (this.currentEffects.tap !== previous.tap) {
+      this.connectAnalyser();
+    }
+    this.emitter.emit('effects', this.currentEffects);
+  }
+
+  setEffectParams<K extends EffectKind>(kind: K, changes: Partial<EffectParams[K]>) {
+    const params = { ...this.currentEffects.params, [kind]: { ...this.currentEffects.params[kind], ...changes } };
+    this.setEffects({ params });
+  }
+
+  /** 解码脉冲响应文件（WAV 等浏览器可解码的格式）并切换混响到该响应 */
+  async loadImpulseResponse(file: File) {
+    let decoded: AudioBuffer;
+    try {
+      decoded = await this.getGraph().context.decodeAudioData(await file.arrayBuffer());
+    } catch {
+      throw new Error('脉冲响应文件解码失败，请选择 WAV 等音频文件');
+    }
+    const channels = Array.from({ length: Math.min(2, decoded.numberOfChannels) }, (_, channel) =>
+      decoded.getChannelData(channel).slice()
+    );
+    this.customImpulse = { name: file.name, sampleRate: decoded.sampleRate, channels };
+    this.effectsChain?.setCustomImpulse(this.customImpulse);
+    this.emitter.emit('impulse', file.name);
+    this.setEffectParams('reverb', { impulse: 'custom' });
+  }
+
+  /** 释放所有音源并关闭 AudioContext；之后仍可重新载入音源 */
+  dispose() {
+    this.setState('idle');
+    (Object.values(this.drivers) as SourceDriver[]).forEach((driver) => driver.release());
+    if (this.currentSource) {
+      this.currentSource = null;
+      this.emitter.emit('source', null);
+    }
+    this.waveformRequest += 1;
+    if (this.currentWaveform.status !== 'none') {
+      this.setWaveform(EMPTY_WAVEFORM);
+    }
+    this.effectsChain?.dispose();
+    this.effectsChain = null;
+    this.analyserTap = null;
+    void this.graph?.context.close();
+    this.graph = null;
+  }
+}
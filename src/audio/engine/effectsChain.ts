@@ -0,0 +1,230 @@
+// 效果链：音源与输出之间串联的插入效果（均衡、压缩 / 限制、延迟、卷积混响、立体声宽度）。
+// 每个效果是一组固定的节点，调整参数只改 AudioParam；改顺序或旁通时重新串联各效果的输入输出。
+import {
+  DEFAULT_EFFECT_SETTINGS,
+  EFFECT_KINDS,
+  MAX_DELAY_TIME,
+  createSyntheticImpulse,
+  type EffectChainSettings,
+  type EffectKind,
+  type EffectParams,
+  type ImpulseResponse
+} from '../effects';
+
+type EffectUnit<K extends EffectKind> = {
+  input: AudioNode;
+  /** 只连接到效果链的下一级，重新串联时整体断开 */
+  output: AudioNode;
+  update: (params: EffectParams[K]) => void;
+};
+
+type EffectUnits = { [K in EffectKind]: EffectUnit<K> };
+
+// 参数平滑时间常数（秒），避免拖动滑块时出现咔嗒声
+const SMOOTHING = 0.02;
+
+const setParam = (param: AudioParam, value: number, context: BaseAudioContext) => {
+  param.setTargetAtTime(value, context.currentTime, SMOOTHING);
+};
+
+// 等功率干湿比
+const setMix = (dry: GainNode, wet: GainNode, mix: number, context: BaseAudioContext) => {
+  setParam(dry.gain, Math.cos((mix * Math.PI) / 2), context);
+  setParam(wet.gain, Math.sin((mix * Math.PI) / 2), context);
+};
+
+const dbToGain = (db: number) => 10 ** (db / 20);
+
+const createEq = (context: BaseAudioContext, params: EffectParams['eq']): EffectUnit<'eq'> => {
+  const filters = params.bands.map(() => context.createBiquadFilter());
+  filters.slice(1).forEach((filter, index) => filters[index].connect(filter));
+  const update = ({ bands }: EffectParams['eq']) => {
+    bands.forEach((band, index) => {
+      const filter = filters[index];
+      if (!filter) {
+        return;
+      }
+      filter.type = band.type;
+      setParam(filter.frequency, band.frequency, context);
+      setParam(filter.gain, band.gain, context);
+      setParam(filter.Q, band.q, context);
+    });
+  };
+  update(params);
+  return { input: filters[0], output: filters[filters.length - 1], update };
+};
+
+const createCompressor = (context: BaseAudioContext, params: EffectParams['compressor']): EffectUnit<'compressor'> => {
+  const compressor = context.createDynamicsCompressor();
+  const makeup = context.createGain();
+  compressor.connect(makeup);
+  const update = ({ threshold, ratio, knee, attack, release, makeup: makeupDb, limiter }: EffectParams['compressor']) => {
+    setParam(compressor.threshold, threshold, context);
+    setParam(compressor.ratio, limiter ? 20 : ratio, context);
+    setParam(compressor.knee, limiter ? 0 : knee, context);
+    setParam(compressor.attack, limiter ? 0.001 : attack, context);
+    setParam(compressor.release, release, context);
+    setParam(makeup.gain, dbToGain(makeupDb), context);
+  };
+  update(params);
+  return { input: compressor, output: makeup, update };
+};
+
+const createDelay = (context: BaseAudioContext, params: EffectParams['delay']): EffectUnit<'delay'> => {
+  const input = context.createGain();
+  const dry = context.createGain();
+  const wet = context.createGain();
+  const output = context.createGain();
+  const delay = context.createDelay(MAX_DELAY_TIME);
+  const tone = context.createBiquadFilter();
+  const feedback = context.createGain();
+  tone.type = 'lowpass';
+
+  input.connect(dry).connect(output);
+  input.connect(delay).connect(tone).connect(wet).connect(output);
+  tone.connect(feedback).connect(delay);
+
+  const update = ({ time, feedback: amount, mix, tone: cutoff }: EffectParams['delay']) => {
+    setParam(delay.delayTime, Math.min(MAX_DELAY_TIME, Math.max(0.01, time)), context);
+    setParam(feedback.gain, Math.min(0.9, Math.max(0, amount)), context);
+    setParam(tone.frequency, cutoff, context);
+    setMix(dry, wet, mix, context);
+  };
+  update(params);
+  return { input, output, update };
+};
+
+const createReverb = (
+  context: BaseAudioContext,
+  params: EffectParams['reverb'],
+  getCustomImpulse: () => ImpulseResponse | null
+) => {
+  const input = context.createGain();
+  const dry = context.createGain();
+  const wet = context.createGain();
+  const output = context.createGain();
+  const convolver = context.createConvolver();
+  input.connect(dry).connect(output);
+  input.connect(convolver).connect(wet).connect(output);
+
+  // 当前脉冲响应，相同时不重新设置（设置 buffer 会重新计算卷积核）
+  let loaded: ImpulseResponse | string | null = null;
+  const setImpulse = (impulse: EffectParams['reverb']['impulse']) => {
+    const custom = impulse === 'custom' ? getCustomImpulse() : null;
+    // 没有载入文件时以大厅代替
+    const key = custom ?? (impulse === 'custom' ? 'hall' : impulse);
+    if (key === loaded) {
+      return;
+    }
+    const channels = typeof key === 'string' ? createSyntheticImpulse(key, context.sampleRate) : key.channels;
+    const sampleRate = typeof key === 'string' ? context.sampleRate : key.sampleRate;
+    const buffer = context.createBuffer(channels.length, channels[0].length, sampleRate);
+    channels.forEach((data, channel) => buffer.getChannelData(channel).set(data));
+    convolver.buffer = buffer;
+    loaded = key;
+  };
+
+  const update = ({ impulse, mix }: EffectParams['reverb']) => {
+    setImpulse(impulse);
+    setMix(dry, wet, mix, context);
+  };
+  update(params);
+  return { input, output, update };
+};
+
+// 中侧处理：L' = L·(1+w)/2 + R·(1−w)/2，R' 对称；先把输入固定为立体声，单声道音源也能加宽
+const createWidth = (context: BaseAudioContext, params: EffectParams['width']): EffectUnit<'width'> => {
+  const input = context.createGain();
+  input.channelCount = 2;
+  input.channelCountMode = 'explicit';
+  input.channelInterpretation = 'speakers';
+  const splitter = context.createChannelSplitter(2);
+  const merger = context.createChannelMerger(2);
+  const direct = [context.createGain(), context.createGain()];
+  const cross = [context.createGain(), context.createGain()];
+  input.connect(splitter);
+  [0, 1].forEach((channel) => {
+    splitter.connect(direct[channel], channel).connect(merger, 0, channel);
+    splitter.connect(cross[channel], channel).connect(merger, 0, 1 - channel);
+  });
+
+  const update = ({ width }: EffectParams['width']) => {
+    direct.forEach((gain) => setParam(gain.gain, (1 + width) / 2, context));
+    cross.forEach((gain) => setParam(gain.gain, (1 - width) / 2, context));
+  };
+  update(params);
+  return { input, output: merger, update };
+};
+
+export class EffectsChain {
+  readonly input: GainNode;
+  readonly output: GainNode;
+  private readonly units: EffectUnits;
+  private current: EffectChainSettings;
+  private customImpulse: ImpulseResponse | null;
+  // 已连接的效果顺序，用于判断是否需要重新串联
+  private wiring: string | null = null;
+
+  constructor(
+    context: BaseAudioContext,
+    settings: EffectChainSettings = DEFAULT_EFFECT_SETTINGS,
+    customImpulse: ImpulseResponse | null = null
+  ) {
+    this.current = settings;
+    this.customImpulse = customImpulse;
+    this.input = context.createGain();
+    this.output = context.createGain();
+    const { params } = settings;
+    this.units = {
+      eq: createEq(context, params.eq),
+      compressor: createCompressor(context, params.compressor),
+      reverb: createReverb(context, params.reverb, () => this.customImpulse),
+      delay: createDelay(context, params.delay),
+      width: createWidth(context, params.width)
+    };
+    this.connect();
+  }
+
+  private connect() {
+    const active = this.current.order.filter((kind) => this.current.enabled[kind]);
+    const wiring = active.join('>');
+    if (wiring === this.wiring) {
+      return;
+    }
+    this.input.disconnect();
+    EFFECT_KINDS.forEach((kind) => this.units[kind].output.disconnect());
+    const last = active.reduce<AudioNode>((previous, kind) => {
+      previous.connect(this.units[kind].input);
+      return this.units[kind].output;
+    }, this.input);
+    last.connect(this.output);
+    this.wiring = wiring;
+  }
+
+  private updateUnit<K extends EffectKind>(kind: K, params: EffectParams[K]) {
+    this.units[kind].update(params);
+  }
+
+  update(settings: EffectChainSettings) {
+    const previous = this.current;
+    this.current = settings;
+    EFFECT_KINDS.forEach((kind) => {
+      if (settings.params[kind] !== previous.params[kind]) {
+        this.updateUnit(kind, settings.params[kind]);
+      }
+    });
+    this.connect();
+  }
+
+  /** 设置用户载入的脉冲响应，混响选择「自定义」时使用 */
+  setCustomImpulse(impulse: ImpulseResponse | null) {
+    this.customImpulse = impulse;
+    this.units.reverb.update(this.current.params.reverb);
+  }
+
+  dispose() {
+    this.input.disconnect();
+    this.output.disconnect();
+    EFFECT_KINDS.forEach((kind) => this.units[kind].output.disconnect());
+  }
+}
@@ -0,0 +1,23 @@
+// 类型化的事件发射器：事件名与负载类型由 Events 映射约束。
+type Listener<T> = (payload: T) => void;
+
+export class TypedEmitter<Events extends Record<string, unknown>> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  /** 订阅事件，返回取消订阅的函数 */
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>) {
+    const set = this.listeners[event] ?? new Set<Listener<Events[K]>>();
+    set.add(listener);
+    this.listeners[event] = set;
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>) {
+    this.listeners[event]?.delete(listener);
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]) {
+    // 复制一份，监听器在回调中取消订阅时不影响本次分发
+    [...(this.listeners[event] ?? [])].forEach((listener) => listener(payload));
+  }
+}
@@ -0,0 +1,239 @@
+// 本地文件音源：整段解码后交给变速变调的 AudioWorklet 播放器（见 ../timeStretch），
+// 播放速度、音高与 A–B 循环都在处理器中完成；处理器定期回报位置，两次回报之间按速度推算。
+// 采样转交给处理器后主线程只保留时长与波形峰值。无法加载 worklet 模块时退回 AudioBufferSourceNode，
+// 只能调整速度（音高随之变化），不支持变调。
+import type { WaveformPeaks } from '../peaks';
+import { TIME_STRETCH_MODULE, TIME_STRETCH_PLAYER } from '../tempo';
+import type { DescriptorOf, PlaybackAdjustments, SourceDriver, SourceHost } from './types';
+
+const SUPPORTED_FILE_PREFIX = 'audio/';
+
+/** 把本地音频文件整段解码为 AudioBuffer */
+export const decodeAudioFile = async (context: BaseAudioContext, file: File) => {
+  if (!file.type.startsWith(SUPPORTED_FILE_PREFIX)) {
+    throw new Error('仅支持音频类型文件');
+  }
+  return context.decodeAudioData(await file.arrayBuffer());
+};
+
+type PlayerReport = { type: 'position'; position: number; time: number } | { type: 'ended' };
+
+export class FileSource implements SourceDriver<DescriptorOf<'file'>> {
+  readonly kind = 'file';
+  readonly seekable = true;
+  readonly transport = true;
+  private duration = 0;
+  private peaks: Promise<WaveformPeaks> | null = null;
+  private node: AudioWorkletNode | null = null;
+  // 已加载 worklet 模块的 AudioContext
+  private moduleContext: BaseAudioContext | null = null;
+  // 退回模式：保留 AudioBuffer，每次播放 / 跳转新建 AudioBufferSourceNode
+  private buffer: AudioBuffer | null = null;
+  private bufferNode: AudioBufferSourceNode | null = null;
+  private adjustments: PlaybackAdjustments = { rate: 1, pitch: 0, loop: null };
+  private playing = false;
+  // 暂停时为播放位置；播放中为最近一次回报（或跳转）的位置，reportedAt 为其对应的音频时间
+  private offset = 0;
+  private reportedAt = 0;
+
+  constructor(
+    private readonly host: SourceHost,
+    /** 缺省为打包后的变速变调模块 */
+    private readonly moduleUrl?: string
+  ) {}
+
+  private get now() {
+    return this.host.getGraph().context.currentTime;
+  }
+
+  private post(message: object) {
+    this.node?.port.postMessage(message);
+  }
+
+  private finish() {
+    this.playing = false;
+    this.offset = 0;
+    this.host.ended();
+  }
+
+  private handleReport = (event: MessageEvent<PlayerReport>) => {
+    const report = event.data;
+    if (report.type === 'ended') {
+      this.post({ type: 'seek', position: 0 });
+      this.finish();
+    } else if (this.playing && report.time >= this.reportedAt) {
+      // 早于最近一次跳转的回报已经过时
+      this.offset = report.position;
+      this.reportedAt = report.time;
+    }
+  };
+
+  // 加载变速变调模块，失败（如浏览器不支持 AudioWorklet）时返回 false
+  private async loadModule(context: BaseAudioContext) {
+    if (this.moduleContext === context) {
+      return true;
+    }
+    try {
+      await context.audioWorklet.addModule(this.moduleUrl ?? `${window.location.origin}${TIME_STRETCH_MODULE}`);
+    } catch {
+      return false;
+    }
+    this.moduleContext = context;
+    return true;
+  }
+
+  private disconnect() {
+    if (this.node) {
+      this.node.port.onmessage = null;
+      this.post({ type: 'pause' });
+      this.node.disconnect();
+      this.node = null;
+    }
+  }
+
+  private applyToBufferNode(node: AudioBufferSourceNode) {
+    const { rate, loop } = this.adjustments;
+    node.playbackRate.value = rate;
+    node.loop = loop !== null;
+    if (loop) {
+      node.loopStart = loop.start;
+      node.loopEnd = loop.end;
+    }
+  }
+
+  private startBufferNode(offset: number) {
+    const { context, input } = this.host.getGraph();
+    this.stopBufferNode();
+    const node = context.createBufferSource();
+    node.buffer = this.buffer;
+    this.applyToBufferNode(node);
+    node.onended = () => {
+      this.stopBufferNode();
+      this.finish();
+    };
+    node.connect(input);
+    node.start(0, offset);
+    this.bufferNode = node;
+  }
+
+  private stopBufferNode() {
+    if (this.bufferNode) {
+      this.bufferNode.onended = null;
+      this.bufferNode.stop();
+      this.bufferNode.disconnect();
+      this.bufferNode = null;
+    }
+  }
+
+  async load({ file }: DescriptorOf<'file'>) {
+    const { context, input } = this.host.getGraph();
+    const decoded = await decodeAudioFile(context, file);
+    const hasWorklet = await this.loadModule(context);
+    // 先算完峰值（交给 Worker 的采样副本随之释放），再把采样交给播放节点，避免同时存在多份采样
+    const peaks = this.host.computePeaks(decoded);
+    await peaks.catch(() => undefined);
+    this.stop();
+    this.disconnect();
+    this.duration = decoded.duration;
+    this.peaks = peaks;
+    if (!hasWorklet) {
+      this.buffer = decoded;
+      return;
+    }
+    this.buffer = null;
+    const node = new AudioWorkletNode(context, TIME_STRETCH_PLAYER, {
+      numberOfInputs: 0,
+      outputChannelCount: [decoded.numberOfChannels]
+    });
+    // AudioBuffer 的采样不能转交，复制一份转交给处理器，主线程不再引用 AudioBuffer
+    const channels = Array.from({ length: decoded.numberOfChannels }, (_, channel) =>
+      decoded.getChannelData(channel).slice()
+    );
+    node.port.postMessage({ type: 'load', channels }, channels.map((data) => data.buffer));
+    node.port.onmessage = this.handleReport;
+    node.connect(input);
+    this.node = node;
+  }
+
+  async play() {
+    if ((!this.node && !this.buffer) || this.playing) {
+      return;
+    }
+    if (this.buffer) {
+      this.startBufferNode(this.offset);
+    } else {
+      this.post({ type: 'seek', position: this.offset });
+      this.post({ type: 'play' });
+    }
+    this.playing = true;
+    this.reportedAt = this.now;
+  }
+
+  pause() {
+    if (!this.playing) {
+      return;
+    }
+    this.offset = this.getTime();
+    this.playing = false;
+    this.stopBufferNode();
+    this.post({ type: 'pause' });
+  }
+
+  stop() {
+    this.playing = false;
+    this.offset = 0;
+    this.stopBufferNode();
+    this.post({ type: 'pause' });
+    this.post({ type: 'seek', position: 0 });
+  }
+
+  async seek(seconds: number) {
+    this.offset = Math.min(this.getDuration(), seconds);
+    this.reportedAt = this.now;
+    if (this.bufferNode) {
+      this.startBufferNode(this.offset);
+    }
+    this.post({ type: 'seek', position: this.offset });
+  }
+
+  async adjust(adjustments: PlaybackAdjustments) {
+    // 以当前位置为新的推算起点，之后按新的速度计算
+    if (this.playing) {
+      this.offset = this.getTime();
+      this.reportedAt = this.now;
+    }
+    this.adjustments = adjustments;
+    this.post({ type: 'set', ...adjustments });
+    if (this.bufferNode) {
+      this.applyToBufferNode(this.bufferNode);
+    }
+  }
+
+  getTime() {
+    if (!this.playing) {
+      return this.offset;
+    }
+    const { rate, loop } = this.adjustments;
+    let time = this.offset + Math.max(0, this.now - this.reportedAt) * rate;
+    if (loop && time >= loop.end) {
+      time = loop.start + ((time - loop.start) % (loop.end - loop.start));
+    }
+    return Math.min(this.getDuration(), time);
+  }
+
+  getDuration() {
+    return this.duration;
+  }
+
+  async getWaveformPeaks() {
+    return this.peaks;
+  }
+
+  release() {
+    this.stop();
+    this.disconnect();
+    this.buffer = null;
+    this.duration = 0;
+    this.peaks = null;
+  }
+}
@@ -0,0 +1,174 @@
+// 实时输入音源：麦克风或线路输入经 getUserMedia 取得 MediaStream，
+// 通过 MediaStreamAudioSourceNode → 输入增益接入引擎链路。默认不监听，避免扬声器回授啸叫。
+import type { DescriptorOf, SourceDriver, SourceHost } from './types';
+
+export type InputSettings = {
+  /** 正在采集的设备，未指定时为浏览器默认输入 */
+  deviceId: string | null;
+  gain: number;
+  /** 是否把输入送到扬声器 */
+  monitor: boolean;
+  /** 正在采集 */
+  live: boolean;
+};
+
+export type InputDevice = { deviceId: string; label: string };
+
+export const MAX_INPUT_GAIN = 4;
+
+// 音乐信号不需要语音处理，关闭回声消除、降噪与自动增益
+const MUSIC_CONSTRAINTS = {
+  echoCancellation: false,
+  noiseSuppression: false,
+  autoGainControl: false
+};
+
+const describeMediaError = (error: unknown) => {
+  const name = error instanceof DOMException || error instanceof Error ? error.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') {
+    return '麦克风权限被拒绝，请在浏览器的站点设置中允许访问麦克风';
+  }
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') {
+    return '没有找到可用的音频输入设备';
+  }
+  if (name === 'NotReadableError' || name === 'AbortError') {
+    return '音频输入设备被其他程序占用或无法读取';
+  }
+  return error instanceof Error && error.message ? error.message : '无法打开音频输入设备';
+};
+
+const requestUserMedia = async (deviceId: string | null) => {
+  if (typeof navigator === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+    throw new Error('当前环境不支持音频输入（需要 HTTPS 或 localhost）');
+  }
+  try {
+    return await navigator.mediaDevices.getUserMedia({
+      audio: deviceId ? { ...MUSIC_CONSTRAINTS, deviceId: { exact: deviceId } } : MUSIC_CONSTRAINTS
+    });
+  } catch (error) {
+    throw new Error(describeMediaError(error));
+  }
+};
+
+/** 列出音频输入设备；未授权前浏览器不提供设备名称，用序号代替 */
+export const listInputDevices = async (): Promise<InputDevice[]> => {
+  if (typeof navigator === 'undefined' || !navigator.mediaDevices?.enumerateDevices) {
+    return [];
+  }
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter((device) => device.kind === 'audioinput')
+    .map((device, index) => ({ deviceId: device.deviceId, label: device.label || `输入设备 ${index + 1}` }));
+};
+
+export class InputSource implements SourceDriver<DescriptorOf<'input'>> {
+  readonly kind = 'input';
+  readonly seekable = false;
+  readonly transport = false;
+  private current: InputSettings = { deviceId: null, gain: 1, monitor: false, live: false };
+  private stream: MediaStream | null = null;
+  private sourceNode: MediaStreamAudioSourceNode | null = null;
+  private gainNode: GainNode | null = null;
+
+  constructor(
+    private readonly host: SourceHost,
+    private readonly getStream: (deviceId: string | null) => Promise<MediaStream> = requestUserMedia
+  ) {}
+
+  get settings() {
+    return this.current;
+  }
+
+  private update(changes: Partial<InputSettings>) {
+    this.current = { ...this.current, ...changes };
+    this.host.changed('input');
+  }
+
+  private handleTrackEnded = () => {
+    this.disconnect();
+    this.host.error('音频输入设备已断开');
+  };
+
+  private disconnect() {
+    this.stream?.getTracks().forEach((track) => {
+      track.removeEventListener('ended', this.handleTrackEnded);
+      track.stop();
+    });
+    this.stream = null;
+    this.sourceNode?.disconnect();
+    this.sourceNode = null;
+    this.gainNode?.disconnect();
+    this.gainNode = null;
+    if (this.current.live) {
+      this.setMonitorGain(1);
+      this.update({ live: false });
+    }
+  }
+
+  private setMonitorGain(value: number) {
+    const { monitor } = this.host.getGraph();
+    monitor.gain.cancelScheduledValues(0);
+    monitor.gain.value = value;
+  }
+
+  /** 传入 stream 时直接使用（如测试中由振荡器生成的流），否则按 deviceId 请求输入设备 */
+  async load({ deviceId = null, stream }: DescriptorOf<'input'>) {
+    const media = stream ?? (await this.getStream(deviceId));
+    if (media.getAudioTracks().length === 0) {
+      throw new Error('没有找到可用的音频输入设备');
+    }
+    this.disconnect();
+    const { context, input } = this.host.getGraph();
+    const sourceNode = context.createMediaStreamSource(media);
+    const gainNode = context.createGain();
+    gainNode.gain.value = this.current.gain;
+    sourceNode.connect(gainNode);
+    gainNode.connect(input);
+    this.setMonitorGain(this.current.monitor ? 1 : 0);
+    media.getAudioTracks().forEach((track) => track.addEventListener('ended', this.handleTrackEnded));
+
+    this.stream = media;
+    this.sourceNode = sourceNode;
+    this.gainNode = gainNode;
+    this.update({ deviceId, live: true });
+  }
+
+  async play() {}
+
+  pause() {}
+
+  /** 停止采集并释放设备 */
+  stop() {
+    this.disconnect();
+  }
+
+  async seek() {}
+
+  getTime() {
+    return 0;
+  }
+
+  getDuration() {
+    return 0;
+  }
+
+  release() {
+    this.disconnect();
+  }
+
+  setGain(gain: number) {
+    const value = Math.min(MAX_INPUT_GAIN, Math.max(0, gain));
+    this.update({ gain: value });
+    if (this.gainNode) {
+      this.gainNode.gain.setTargetAtTime(value, this.host.getGraph().context.currentTime, 0.01);
+    }
+  }
+
+  setMonitor(monitor: boolean) {
+    this.update({ monitor });
+    if (this.current.live) {
+      const { context, monitor: monitorNode } = this.host.getGraph();
+      monitorNode.gain.setTargetAtTime(monitor ? 1 : 0, context.currentTime, 0.01);
+    }
+  }
+}
@@ -0,0 +1,200 @@
+// 乐器音源：虚拟拇指琴由琴键或乐谱调度直接发声，没有时间线。
+// 持有音色、调音与采样音色库等设置，变化时通知引擎广播。
+import {
+  DEFAULT_KALIMBA_VOICE_PARAMS,
+  KALIMBA_VOICE_MODULE,
+  createKalimbaVoiceNode,
+  getKalimbaKeyLength,
+  scheduleSimpleNote,
+  type InstrumentVoice,
+  type KalimbaVoiceParams
+} from '../instrumentVoice';
+import { loadSamplerFiles, scheduleSamplerNote, type SamplerBank } from '../sampler';
+import { DEFAULT_TUNING, type KalimbaTuning } from '../../score/tuning';
+import type { DescriptorOf, SourceDriver, SourceHost } from './types';
+
+export type InstrumentSettings = {
+  voice: InstrumentVoice;
+  voiceParams: KalimbaVoiceParams;
+  samplerBank: SamplerBank | null;
+  samplerInstrumentIndex: number;
+  tuning: KalimbaTuning;
+};
+
+export class InstrumentSource implements SourceDriver<DescriptorOf<'instrument'>> {
+  readonly kind = 'instrument';
+  readonly seekable = false;
+  readonly transport = false;
+  private current: InstrumentSettings = {
+    voice: 'kalimba',
+    voiceParams: DEFAULT_KALIMBA_VOICE_PARAMS,
+    samplerBank: null,
+    samplerInstrumentIndex: 0,
+    tuning: DEFAULT_TUNING
+  };
+  // 只有当前音源是乐器时才发声
+  private active = false;
+  private kalimbaNode: AudioWorkletNode | null = null;
+  private moduleContext: BaseAudioContext | null = null;
+  // 已排程但可能尚未发声的音符，暂停 / 停止乐谱时需要取消
+  private scheduled = new Set<{ node: AudioScheduledSourceNode; startAt: number }>();
+
+  constructor(
+    private readonly host: SourceHost,
+    /** 缺省为随应用打包的物理建模音色模块 */
+    private readonly kalimbaModuleUrl?: string
+  ) {}
+
+  get settings() {
+    return this.current;
+  }
+
+  private update(changes: Partial<InstrumentSettings>) {
+    this.current = { ...this.current, ...changes };
+    this.host.changed('instrument');
+  }
+
+  // 物理建模音色常驻一个 AudioWorkletNode，音符通过 port 排程
+  private async ensureKalimbaVoice() {
+    const { context, input } = this.host.getGraph();
+    if (this.moduleContext !== context) {
+      await context.audioWorklet.addModule(this.kalimbaModuleUrl ?? `${window.location.origin}${KALIMBA_VOICE_MODULE}`);
+      this.moduleContext = context;
+    }
+    if (!this.kalimbaNode) {
+      const node = createKalimbaVoiceNode(context, this.current.voiceParams);
+      node.connect(input);
+      this.kalimbaNode = node;
+    }
+    return this.kalimbaNode;
+  }
+
+  private disconnectKalimbaVoice() {
+    this.kalimbaNode?.port.postMessage({ type: 'silence' });
+    this.kalimbaNode?.disconnect();
+    this.kalimbaNode = null;
+  }
+
+  async load({ samplerFiles }: DescriptorOf<'instrument'>) {
+    if (samplerFiles) {
+      const samplerBank = await loadSamplerFiles(samplerFiles);
+      this.update({ samplerBank, samplerInstrumentIndex: 0, voice: 'sampler' });
+    } else if (this.current.voice === 'kalimba') {
+      try {
+        await this.ensureKalimbaVoice();
+      } catch {
+        // 不支持 AudioWorklet 时退回简单音色，拇指琴仍可演奏
+        this.update({ voice: 'simple' });
+      }
+    }
+    this.active = true;
+  }
+
+  async play() {}
+
+  pause() {}
+
+  stop() {}
+
+  async seek() {}
+
+  getTime() {
+    return 0;
+  }
+
+  getDuration() {
+    return 0;
+  }
+
+  release() {
+    this.active = false;
+    this.disconnectKalimbaVoice();
+  }
+
+  /** 拨响一个琴键；乐谱播放时传入精确的起始时间，键盘演奏则立即发声 */
+  async triggerNote(noteIndex: number, when?: number, velocity = 1, duration?: number) {
+    if (!this.active) {
+      return;
+    }
+    const { keys } = this.current.tuning;
+    const key = keys[noteIndex];
+    if (!key) {
+      return;
+    }
+    const { context, input } = this.host.getGraph();
+    await context.resume();
+
+    const now = Math.max(context.currentTime, when ?? 0);
+    if (this.current.voice === 'kalimba' && this.kalimbaNode) {
+      this.kalimbaNode.port.postMessage({
+        type: 'note',
+        frequency: key.frequency,
+        velocity,
+        when: now,
+        length: getKalimbaKeyLength(keys, noteIndex)
+      });
+      return;
+    }
+
+    const trackScheduled = (node: AudioScheduledSourceNode) => {
+      const scheduled = { node, startAt: now };
+      this.scheduled.add(scheduled);
+      node.addEventListener('ended', () => this.scheduled.delete(scheduled));
+    };
+
+    const samplerInstrument = this.current.samplerBank?.instruments[this.current.samplerInstrumentIndex];
+    if (this.current.voice === 'sampler' && samplerInstrument) {
+      const note = { midi: key.midi, when: now, velocity, duration };
+      scheduleSamplerNote(context, input, samplerInstrument, note).forEach(trackScheduled);
+      return;
+    }
+
+    trackScheduled(scheduleSimpleNote(context, input, key.frequency, now, velocity));
+  }
+
+  /** 只取消还未开始发声的音符，正在发声的让其自然衰减 */
+  cancelScheduled(now: number) {
+    this.kalimbaNode?.port.postMessage({ type: 'cancel', after: now });
+    this.scheduled.forEach((scheduled) => {
+      if (scheduled.startAt > now) {
+        scheduled.node.stop(0);
+      }
+    });
+  }
+
+  async setVoice(voice: InstrumentVoice) {
+    this.update({ voice });
+    if (voice !== 'kalimba' || !this.active) {
+      return;
+    }
+    try {
+      await this.ensureKalimbaVoice();
+    } catch {
+      this.update({ voice: 'simple' });
+      throw new Error('拇指琴音色加载失败，已切换为简单音色');
+    }
+  }
+
+  setVoiceParams(changes: Partial<KalimbaVoiceParams>) {
+    this.update({ voiceParams: { ...this.current.voiceParams, ...changes } });
+    const node = this.kalimbaNode;
+    if (!node) {
+      return;
+    }
+    const { context } = this.host.getGraph();
+    (Object.keys(changes) as (keyof KalimbaVoiceParams)[]).forEach((name) => {
+      const value = changes[name];
+      if (value !== undefined) {
+        node.parameters.get(name)?.setValueAtTime(value, context.currentTime);
+      }
+    });
+  }
+
+  setSamplerInstrumentIndex(samplerInstrumentIndex: number) {
+    this.update({ samplerInstrumentIndex });
+  }
+
+  setTuning(tuning: KalimbaTuning) {
+    this.update({ tuning });
+  }
+}
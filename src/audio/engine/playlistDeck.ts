@@ -0,0 +1,197 @@
+// 播放列表的单个条目（deck）：本地文件整段解码，可按音频时钟精确排程实现无缝衔接；
+// 远程链接用媒体元素流式播放，只能按定时器近似地在指定时刻开始。
+import { decodeAudioFile } from './fileSource';
+import { validateUrl, waitUntilPlayable } from './urlSource';
+
+export type PlaylistEntry = { kind: 'url'; url: string } | { kind: 'file'; file: File };
+
+export type PlaylistItem = {
+  id: string;
+  name: string;
+  entry: PlaylistEntry;
+};
+
+export interface PlaylistDeck {
+  readonly item: PlaylistItem;
+  /** 每个 deck 独立的增益，用于交叉淡化 */
+  readonly gain: GainNode;
+  /** 可按音频时钟精确开始（无缝衔接需要） */
+  readonly sampleAccurate: boolean;
+  readonly duration: number;
+  /** 在音频时间 when 从 offset 秒处开始播放 */
+  start: (when: number, offset: number) => void;
+  /** 停止并记住位置（缺省为当前位置），之后可再次 start */
+  stop: (position?: number) => void;
+  getTime: () => number;
+  /** 自然播放到结尾 */
+  onended: (() => void) | null;
+  release: () => void;
+}
+
+class BufferDeck implements PlaylistDeck {
+  readonly gain: GainNode;
+  readonly sampleAccurate = true;
+  onended: (() => void) | null = null;
+  private node: AudioBufferSourceNode | null = null;
+  private offset = 0;
+  // 从音频开头算起的起点对应的音频时间
+  private startedAt: number | null = null;
+
+  constructor(
+    private readonly context: BaseAudioContext,
+    destination: AudioNode,
+    readonly item: PlaylistItem,
+    readonly buffer: AudioBuffer
+  ) {
+    this.gain = context.createGain();
+    this.gain.connect(destination);
+  }
+
+  get duration() {
+    return this.buffer.duration;
+  }
+
+  private disconnect() {
+    if (this.node) {
+      this.node.onended = null;
+      this.node.stop(0);
+      this.node.disconnect();
+      this.node = null;
+    }
+  }
+
+  start(when: number, offset: number) {
+    this.disconnect();
+    const node = this.context.createBufferSource();
+    node.buffer = this.buffer;
+    node.connect(this.gain);
+    node.onended = () => {
+      this.disconnect();
+      this.offset = 0;
+      this.startedAt = null;
+      this.onended?.();
+    };
+    const start = Math.min(this.duration, Math.max(0, offset));
+    node.start(when, start);
+    this.node = node;
+    this.offset = start;
+    this.startedAt = when - start;
+  }
+
+  stop(position = this.getTime()) {
+    this.offset = Math.min(this.duration, Math.max(0, position));
+    this.startedAt = null;
+    this.disconnect();
+  }
+
+  getTime() {
+    if (this.startedAt === null) {
+      return this.offset;
+    }
+    return Math.min(this.duration, Math.max(0, this.context.currentTime - this.startedAt));
+  }
+
+  release() {
+    this.disconnect();
+    this.gain.disconnect();
+  }
+}
+
+class MediaDeck implements PlaylistDeck {
+  readonly gain: GainNode;
+  readonly sampleAccurate = false;
+  onended: (() => void) | null = null;
+  private source: MediaElementAudioSourceNode;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly context: AudioContext,
+    destination: AudioNode,
+    readonly item: PlaylistItem,
+    private readonly audio: HTMLAudioElement
+  ) {
+    this.gain = context.createGain();
+    this.gain.connect(destination);
+    this.source = context.createMediaElementSource(audio);
+    this.source.connect(this.gain);
+    audio.addEventListener('ended', this.handleEnded);
+  }
+
+  private handleEnded = () => {
+    this.audio.currentTime = 0;
+    this.onended?.();
+  };
+
+  get duration() {
+    return Number.isFinite(this.audio.duration) ? this.audio.duration : 0;
+  }
+
+  private clearTimer() {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  start(when: number, offset: number) {
+    this.clearTimer();
+    this.audio.currentTime = offset;
+    const delay = Math.max(0, when - this.context.currentTime);
+    if (delay === 0) {
+      void this.audio.play();
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.audio.play();
+    }, delay * 1000);
+  }
+
+  stop(position?: number) {
+    this.clearTimer();
+    this.audio.pause();
+    if (position !== undefined) {
+      this.audio.currentTime = position;
+    }
+  }
+
+  getTime() {
+    return this.audio.currentTime || 0;
+  }
+
+  release() {
+    this.stop();
+    this.audio.removeEventListener('ended', this.handleEnded);
+    this.audio.removeAttribute('src');
+    this.audio.load();
+    this.source.disconnect();
+    this.gain.disconnect();
+  }
+}
+
+/**
+ * 载入一个条目：文件解码为 AudioBuffer，链接缓冲到可播放；
+ * reuse 为同一条目已解码的 deck 时直接共用其 AudioBuffer（单曲循环）
+ */
+export const loadPlaylistDeck = async (
+  context: AudioContext,
+  destination: AudioNode,
+  item: PlaylistItem,
+  createElement: () => HTMLAudioElement,
+  reuse?: PlaylistDeck | null
+): Promise<PlaylistDeck> => {
+  if (reuse instanceof BufferDeck && reuse.item.id === item.id) {
+    return new BufferDeck(context, destination, item, reuse.buffer);
+  }
+  const { entry } = item;
+  if (entry.kind === 'file') {
+    return new BufferDeck(context, destination, item, await decodeAudioFile(context, entry.file));
+  }
+  if (!validateUrl(entry.url)) {
+    throw new Error('请输入合法的 http(s) 音频链接');
+  }
+  const audio = createElement();
+  audio.src = entry.url.trim();
+  await waitUntilPlayable(audio);
+  return new MediaDeck(context, destination, item, audio);
+};
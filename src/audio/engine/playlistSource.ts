@@ -0,0 +1,487 @@
+// 播放列表音源：按顺序或随机播放多个文件 / 链接。当前条目播放时预先载入下一条，
+// 临近结尾时按音频时钟排程下一条——本地文件可无缝衔接，也可设置等功率交叉淡化。
+import { loadPlaylistDeck, type PlaylistDeck, type PlaylistEntry, type PlaylistItem } from './playlistDeck';
+import type { DescriptorOf, SourceDriver, SourceHost } from './types';
+import { createAudioElement } from './urlSource';
+
+export type { PlaylistEntry, PlaylistItem } from './playlistDeck';
+
+/** off = 播完列表停止，all = 列表循环，one = 单曲循环 */
+export type PlaylistRepeat = 'off' | 'all' | 'one';
+
+export type PlaylistSettings = {
+  items: PlaylistItem[];
+  /** 当前条目 */
+  currentId: string | null;
+  /** 已预先载入、接下来播放的条目 */
+  preloadedId: string | null;
+  repeat: PlaylistRepeat;
+  shuffle: boolean;
+  /** 交叉淡化时长（秒），0 为无缝衔接 */
+  crossfade: number;
+};
+
+export const MAX_CROSSFADE = 12;
+
+// 检查是否需要排程下一条的间隔（毫秒）；后台标签页的定时器最慢约 1 秒一次，提前量留足余量
+const SCHEDULE_INTERVAL = 200;
+const SCHEDULE_AHEAD = 2;
+
+const FADE_STEPS = 64;
+
+// 等功率淡入 / 淡出曲线
+const createFadeCurve = (fadeIn: boolean) =>
+  Float32Array.from({ length: FADE_STEPS }, (_, index) => {
+    const angle = (index / (FADE_STEPS - 1)) * (Math.PI / 2);
+    return fadeIn ? Math.sin(angle) : Math.cos(angle);
+  });
+
+const describeEntry = (entry: PlaylistEntry) => {
+  if (entry.kind === 'file') {
+    return entry.file.name;
+  }
+  const path = entry.url.trim().split(/[?#]/)[0];
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  try {
+    return decodeURIComponent(name) || entry.url;
+  } catch {
+    return name || entry.url;
+  }
+};
+
+const shuffleIds = (ids: string[], first: string | null) => {
+  const rest = ids.filter((id) => id !== first);
+  for (let i = rest.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [rest[i], rest[j]] = [rest[j], rest[i]];
+  }
+  return first !== null && ids.includes(first) ? [first, ...rest] : rest;
+};
+
+let itemSeed = 0;
+
+export class PlaylistSource implements SourceDriver<DescriptorOf<'playlist'>> {
+  readonly kind = 'playlist';
+  readonly seekable = true;
+  readonly transport = true;
+  private current: PlaylistSettings = {
+    items: [],
+    currentId: null,
+    preloadedId: null,
+    repeat: 'off',
+    shuffle: false,
+    crossfade: 0
+  };
+  // 随机播放时的顺序（条目 id），当前条目排在已播放部分的末尾
+  private shuffled: string[] = [];
+  private deck: PlaylistDeck | null = null;
+  private next: PlaylistDeck | null = null;
+  // 交叉淡化中正在淡出的上一条
+  private fading: PlaylistDeck | null = null;
+  // 正在预载的条目与预载失败的原因
+  private preloading: string | null = null;
+  private nextError: string | null = null;
+  // 已排程的下一条开始时间（音频时间）
+  private transitionAt: number | null = null;
+  private playing = false;
+  // 当前条目已结束，下一条还在载入
+  private waiting = false;
+  // 每次重新载入递增，丢弃过期的预载结果
+  private generation = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly host: SourceHost,
+    private readonly createElement: () => HTMLAudioElement = createAudioElement
+  ) {}
+
+  get settings() {
+    return this.current;
+  }
+
+  private update(changes: Partial<PlaylistSettings>) {
+    this.current = { ...this.current, ...changes };
+    this.host.changed('playlist');
+  }
+
+  private get order() {
+    return this.current.shuffle ? this.shuffled : this.current.items.map((item) => item.id);
+  }
+
+  private findItem(id: string | null) {
+    return this.current.items.find((item) => item.id === id) ?? null;
+  }
+
+  /** 当前条目的前后条目；wrap 时在列表两端循环 */
+  private getAdjacentId(step: 1 | -1, wrap: boolean) {
+    const order = this.order;
+    if (order.length === 0) {
+      return null;
+    }
+    const index = this.current.currentId === null ? -1 : order.indexOf(this.current.currentId);
+    const target = index + step;
+    if (target >= 0 && target < order.length) {
+      return order[target];
+    }
+    return wrap ? order[(target + order.length) % order.length] : null;
+  }
+
+  /** 当前条目自然结束后接着播放的条目 */
+  private getFollowingId() {
+    if (this.current.repeat === 'one') {
+      return this.current.currentId;
+    }
+    return this.getAdjacentId(1, this.current.repeat === 'all');
+  }
+
+  /** 「上一首 / 下一首」对应的条目序号，没有时为 null */
+  getSkipIndex(step: 1 | -1) {
+    const index = this.current.items.findIndex((item) => item.id === this.getAdjacentId(step, this.current.repeat !== 'off'));
+    return index >= 0 ? index : null;
+  }
+
+  private startTimer() {
+    if (this.timer === null) {
+      this.timer = setInterval(this.tick, SCHEDULE_INTERVAL);
+    }
+  }
+
+  private stopTimer() {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private resetGain(deck: PlaylistDeck | null) {
+    if (deck) {
+      deck.gain.gain.cancelScheduledValues(0);
+      deck.gain.gain.value = 1;
+    }
+  }
+
+  private releaseDecks() {
+    this.generation += 1;
+    this.playing = false;
+    this.waiting = false;
+    this.stopTimer();
+    this.transitionAt = null;
+    this.preloading = null;
+    this.nextError = null;
+    [this.deck, this.next, this.fading].forEach((deck) => deck?.release());
+    this.deck = null;
+    this.next = null;
+    this.fading = null;
+  }
+
+  private async setDeck(item: PlaylistItem) {
+    const { context, input } = this.host.getGraph();
+    const deck = await loadPlaylistDeck(context, input, item, this.createElement);
+    this.releaseDecks();
+    deck.onended = () => this.handleDeckEnded(deck);
+    this.deck = deck;
+    this.update({ currentId: item.id, preloadedId: null });
+    void this.preloadNext();
+  }
+
+  private async preloadNext() {
+    const id = this.getFollowingId();
+    if (!this.deck || id === (this.next?.item.id ?? this.preloading)) {
+      return;
+    }
+    this.cancelTransition();
+    this.next?.release();
+    this.next = null;
+    this.nextError = null;
+    this.preloading = id;
+    const item = this.findItem(id);
+    if (!item) {
+      this.preloading = null;
+      this.update({ preloadedId: null });
+      return;
+    }
+    const generation = this.generation;
+    const { context, input } = this.host.getGraph();
+    try {
+      const deck = await loadPlaylistDeck(context, input, item, this.createElement, this.deck);
+      if (generation !== this.generation || this.preloading !== item.id) {
+        deck.release();
+        return;
+      }
+      this.preloading = null;
+      deck.onended = () => this.handleDeckEnded(deck);
+      this.next = deck;
+      this.update({ preloadedId: item.id });
+      if (this.waiting) {
+        this.startNextNow();
+      }
+    } catch (error) {
+      if (generation !== this.generation || this.preloading !== item.id) {
+        return;
+      }
+      this.preloading = null;
+      this.nextError = `「${item.name}」载入失败：${error instanceof Error ? error.message : '未知错误'}`;
+      if (this.waiting) {
+        this.waiting = false;
+        this.playing = false;
+        this.stopTimer();
+        this.host.error(this.nextError);
+      }
+    }
+  }
+
+  /** 取消尚未开始的衔接，恢复当前条目的音量 */
+  private cancelTransition() {
+    if (this.transitionAt === null) {
+      return;
+    }
+    this.next?.stop(0);
+    this.resetGain(this.deck);
+    this.resetGain(this.next);
+    this.transitionAt = null;
+  }
+
+  /** 下一条成为当前条目；上一条已结束则释放，否则继续淡出 */
+  private advance(previousEnded: boolean) {
+    const previous = this.deck;
+    const deck = this.next;
+    if (!deck) {
+      return;
+    }
+    this.deck = deck;
+    this.next = null;
+    this.transitionAt = null;
+    if (previous && previousEnded) {
+      previous.release();
+    } else if (previous) {
+      this.fading?.release();
+      this.fading = previous;
+    }
+    this.update({ currentId: deck.item.id, preloadedId: null });
+    void this.preloadNext();
+  }
+
+  private startNextNow() {
+    const next = this.next;
+    if (!next) {
+      return;
+    }
+    this.waiting = false;
+    this.resetGain(next);
+    next.start(this.host.getGraph().context.currentTime, 0);
+    this.advance(true);
+  }
+
+  private handleDeckEnded(deck: PlaylistDeck) {
+    if (deck === this.fading) {
+      deck.release();
+      this.fading = null;
+      return;
+    }
+    if (deck !== this.deck) {
+      return;
+    }
+    if (this.transitionAt !== null) {
+      this.advance(true);
+    } else if (this.next) {
+      this.startNextNow();
+    } else if (this.preloading !== null) {
+      this.waiting = true;
+    } else if (this.nextError) {
+      this.playing = false;
+      this.stopTimer();
+      this.host.error(this.nextError);
+    } else {
+      // 列表播放完毕
+      this.playing = false;
+      this.stopTimer();
+      this.host.ended();
+    }
+  }
+
+  // 当前条目临近结尾时排程下一条：无缝衔接时下一条恰好在结尾开始，否则两者按等功率曲线交叉淡化
+  private tick = () => {
+    const deck = this.deck;
+    if (!this.playing || !deck) {
+      return;
+    }
+    const now = this.host.getGraph().context.currentTime;
+    if (this.transitionAt !== null) {
+      if (now >= this.transitionAt) {
+        this.advance(false);
+      }
+      return;
+    }
+    const next = this.next;
+    if (!next || deck.duration === 0) {
+      return;
+    }
+    const remaining = deck.duration - deck.getTime();
+    const fade = Math.min(this.current.crossfade, deck.duration / 2, next.duration / 2);
+    if (remaining > fade + SCHEDULE_AHEAD) {
+      return;
+    }
+    const end = now + remaining;
+    const at = Math.max(now, end - fade);
+    this.resetGain(next);
+    if (fade > 0 && end - at > 0.01) {
+      deck.gain.gain.cancelScheduledValues(0);
+      deck.gain.gain.setValueCurveAtTime(createFadeCurve(false), at, end - at);
+      next.gain.gain.setValueCurveAtTime(createFadeCurve(true), at, end - at);
+    }
+    next.start(at, 0);
+    this.transitionAt = at;
+  };
+
+  async load({ index = 0 }: DescriptorOf<'playlist'>) {
+    const item = this.current.items[index];
+    if (!item) {
+      throw new Error('播放列表中没有可播放的条目');
+    }
+    if (this.current.shuffle) {
+      this.shuffled = shuffleIds(this.current.items.map(({ id }) => id), item.id);
+    }
+    await this.setDeck(item);
+  }
+
+  async play() {
+    if (this.playing) {
+      return;
+    }
+    // 删除当前条目后，下一次播放时再载入接替它的条目
+    const item = this.findItem(this.current.currentId);
+    if (!this.deck && item) {
+      await this.setDeck(item);
+    }
+    const deck = this.deck;
+    if (!deck) {
+      return;
+    }
+    this.resetGain(deck);
+    deck.start(this.host.getGraph().context.currentTime, deck.getTime());
+    this.playing = true;
+    this.startTimer();
+  }
+
+  pause() {
+    this.playing = false;
+    this.waiting = false;
+    this.stopTimer();
+    this.cancelTransition();
+    this.fading?.release();
+    this.fading = null;
+    this.deck?.stop();
+  }
+
+  stop() {
+    this.pause();
+    this.deck?.stop(0);
+  }
+
+  async seek(seconds: number) {
+    const deck = this.deck;
+    if (!deck) {
+      return;
+    }
+    const target = Math.min(deck.duration, seconds);
+    if (!this.playing) {
+      deck.stop(target);
+      return;
+    }
+    this.cancelTransition();
+    this.fading?.release();
+    this.fading = null;
+    this.resetGain(deck);
+    deck.start(this.host.getGraph().context.currentTime, target);
+  }
+
+  getTime() {
+    return this.deck?.getTime() ?? 0;
+  }
+
+  getDuration() {
+    return this.deck?.duration ?? 0;
+  }
+
+  release() {
+    this.releaseDecks();
+    if (this.current.currentId !== null || this.current.preloadedId !== null) {
+      this.update({ currentId: null, preloadedId: null });
+    }
+  }
+
+  addItems(entries: PlaylistEntry[]) {
+    const items = entries.map((entry) => ({ id: `item-${(itemSeed += 1)}`, name: describeEntry(entry), entry }));
+    // 随机播放时新条目插在尚未播放的部分中
+    if (this.current.shuffle) {
+      items.forEach(({ id }) => {
+        const start = this.current.currentId === null ? 0 : this.shuffled.indexOf(this.current.currentId) + 1;
+        this.shuffled.splice(start + Math.floor(Math.random() * (this.shuffled.length - start + 1)), 0, id);
+      });
+    }
+    this.update({ items: [...this.current.items, ...items] });
+    void this.preloadNext();
+  }
+
+  removeItem(id: string) {
+    const index = this.current.items.findIndex((item) => item.id === id);
+    if (index < 0) {
+      return;
+    }
+    const items = this.current.items.filter((item) => item.id !== id);
+    this.shuffled = this.shuffled.filter((shuffledId) => shuffledId !== id);
+    if (id !== this.current.currentId) {
+      this.update({ items });
+      void this.preloadNext();
+      return;
+    }
+    // 删除当前条目：停止播放，由原位置的条目接替
+    const active = this.deck !== null;
+    this.releaseDecks();
+    this.update({ items, currentId: items[Math.min(index, items.length - 1)]?.id ?? null, preloadedId: null });
+    if (active) {
+      this.host.ended();
+    }
+  }
+
+  moveItem(from: number, to: number) {
+    const items = [...this.current.items];
+    const [item] = items.splice(from, 1);
+    if (!item || to < 0 || to > items.length) {
+      return;
+    }
+    items.splice(to, 0, item);
+    this.update({ items });
+    void this.preloadNext();
+  }
+
+  clear() {
+    const active = this.deck !== null;
+    this.releaseDecks();
+    this.shuffled = [];
+    this.update({ items: [], currentId: null, preloadedId: null });
+    if (active) {
+      this.host.ended();
+    }
+  }
+
+  setRepeat(repeat: PlaylistRepeat) {
+    this.update({ repeat });
+    void this.preloadNext();
+  }
+
+  setShuffle(shuffle: boolean) {
+    this.shuffled = shuffle ? shuffleIds(this.current.items.map(({ id }) => id), this.current.currentId) : [];
+    this.update({ shuffle });
+    void this.preloadNext();
+  }
+
+  setCrossfade(crossfade: number) {
+    this.update({ crossfade: Math.min(MAX_CROSSFADE, Math.max(0, crossfade)) });
+    // 尚未开始的衔接按新的时长重新排程
+    const now = this.deck ? this.host.getGraph().context.currentTime : 0;
+    if (this.transitionAt !== null && this.transitionAt > now) {
+      this.cancelTransition();
+    }
+  }
+}
@@ -0,0 +1,83 @@
+// 实时流音源：AudioWorklet 持续生成和弦，没有时间线，只能开始 / 暂停。
+import type { DescriptorOf, SourceDriver, SourceHost } from './types';
+
+const STREAM_PROCESSOR = 'harmonic-generator';
+
+export class StreamSource implements SourceDriver<DescriptorOf<'stream'>> {
+  readonly kind = 'stream';
+  readonly seekable = false;
+  readonly transport = true;
+  private node: AudioWorkletNode | null = null;
+  // 已加载 worklet 模块的 AudioContext
+  private moduleContext: BaseAudioContext | null = null;
+  private offset = 0;
+  private startedAt: number | null = null;
+
+  constructor(
+    private readonly host: SourceHost,
+    /** 缺省为站点下的 /worklets/harmonic-generator.js */
+    private readonly moduleUrl?: string
+  ) {}
+
+  private setActive(active: boolean) {
+    this.node?.port.postMessage({ type: 'set-active', active });
+  }
+
+  private disconnect() {
+    this.setActive(false);
+    this.node?.disconnect();
+    this.node = null;
+    this.offset = 0;
+    this.startedAt = null;
+  }
+
+  async load() {
+    const { context, input } = this.host.getGraph();
+    if (this.moduleContext !== context) {
+      await context.audioWorklet.addModule(this.moduleUrl ?? `${window.location.origin}/worklets/harmonic-generator.js`);
+      this.moduleContext = context;
+    }
+    this.disconnect();
+    const node = new AudioWorkletNode(context, STREAM_PROCESSOR);
+    node.connect(input);
+    this.node = node;
+    this.setActive(false);
+  }
+
+  async play() {
+    if (!this.node || this.startedAt !== null) {
+      return;
+    }
+    this.setActive(true);
+    this.startedAt = this.host.getGraph().context.currentTime;
+  }
+
+  pause() {
+    this.offset = this.getTime();
+    this.startedAt = null;
+    this.setActive(false);
+  }
+
+  stop() {
+    this.setActive(false);
+    this.offset = 0;
+    this.startedAt = null;
+  }
+
+  async seek() {}
+
+  getTime() {
+    if (this.startedAt === null) {
+      return this.offset;
+    }
+    return this.offset + this.host.getGraph().context.currentTime - this.startedAt;
+  }
+
+  getDuration() {
+    return 0;
+  }
+
+  release() {
+    this.disconnect();
+  }
+}
@@ -0,0 +1,79 @@
+// 播放引擎与音源驱动之间的约定。
+import type { WaveformPeaks } from '../peaks';
+
+export type AudioSourceDescriptor =
+  | { kind: 'url'; url: string }
+  | { kind: 'file'; file: File }
+  | { kind: 'stream'; preset?: 'harmonic' }
+  | { kind: 'instrument'; samplerFiles?: File[] }
+  | { kind: 'input'; deviceId?: string | null; stream?: MediaStream }
+  /** 从播放列表的第 index 个条目开始 */
+  | { kind: 'playlist'; index?: number };
+
+export type SourceKind = AudioSourceDescriptor['kind'];
+
+export type PlaybackState = 'idle' | 'loading' | 'ready' | 'playing' | 'paused' | 'error';
+
+/**
+ * 引擎的输出链路：音源 → input → 效果链 → monitor → output（音量）→ destination，
+ * analyser 从效果链之前或之后取信号，只用于可视化
+ */
+export type EngineGraph = {
+  context: AudioContext;
+  /** 所有音源的汇总点 */
+  input: GainNode;
+  analyser: AnalyserNode;
+  /** 监听开关：实时输入不监听时置 0，只做可视化而不送到扬声器 */
+  monitor: GainNode;
+  output: GainNode;
+};
+
+/** 引擎提供给音源驱动的能力 */
+export interface SourceHost {
+  /** 取得（必要时创建）AudioContext 与输出链路，音源应连接到 input */
+  getGraph: () => EngineGraph;
+  /** 音源自然播放到结尾 */
+  ended: () => void;
+  /** 音源的内部设置发生变化（如乐器音色、输入增益），引擎据此广播 */
+  changed: (kind: 'instrument' | 'input' | 'playlist') => void;
+  /** 播放中途出错（如输入设备被拔出） */
+  error: (message: string) => void;
+  /** 计算整段音频的波形峰值 */
+  computePeaks: (buffer: AudioBuffer) => Promise<WaveformPeaks>;
+}
+
+/** A–B 循环区间（秒） */
+export type LoopRange = { start: number; end: number };
+
+/** 播放速度（保持音高）、变调（半音）与 A–B 循环，只对 url / file 音源生效 */
+export type PlaybackAdjustments = {
+  rate: number;
+  pitch: number;
+  loop: LoopRange | null;
+};
+
+/** 一种音源的驱动：负责载入、走带控制与时间计算，引擎只负责状态与事件 */
+export interface SourceDriver<D extends AudioSourceDescriptor = AudioSourceDescriptor> {
+  readonly kind: D['kind'];
+  /** 有可跳转的时间线 */
+  readonly seekable: boolean;
+  /** 受播放 / 暂停 / 停止控制；乐器音源由琴键直接发声，不受控制 */
+  readonly transport: boolean;
+  load: (descriptor: D) => Promise<void>;
+  play: () => Promise<void>;
+  pause: () => void;
+  stop: () => void;
+  seek: (seconds: number) => Promise<void>;
+  /** 当前播放位置（秒） */
+  getTime: () => number;
+  /** 总时长（秒），未知或无限时为 0 */
+  getDuration: () => number;
+  /** 切换到其他音源时停止发声并断开节点 */
+  release: () => void;
+  /** 应用变速、变调与循环；没有此方法的音源不支持这些调整 */
+  adjust?: (adjustments: PlaybackAdjustments) => Promise<void>;
+  /** 波形概览的峰值；没有此方法的音源不显示波形 */
+  getWaveformPeaks?: () => Promise<WaveformPeaks | null>;
+}
+
+export type DescriptorOf<K extends SourceKind> = Extract<AudioSourceDescriptor, { kind: K }>;
@@ -0,0 +1,212 @@
+// 远程链接音源：HTMLAudioElement 流式播放，经 MediaElementAudioSourceNode 接入引擎链路。
+// 变速由媒体元素自身完成（preservesPitch 保持音高），变调时在链路中插入 pitch-shifter 处理器，
+// A–B 循环由定时器检查播放位置实现。
+import { PITCH_SHIFTER, TIME_STRETCH_MODULE } from '../tempo';
+import type { DescriptorOf, LoopRange, PlaybackAdjustments, SourceDriver, SourceHost } from './types';
+
+// 检查是否到达循环终点的间隔（毫秒）
+const LOOP_CHECK_INTERVAL = 20;
+
+export const validateUrl = (value: string) => /^https?:\/\//i.test(value.trim());
+
+export const createAudioElement = () => {
+  const audio = new Audio();
+  audio.crossOrigin = 'anonymous';
+  audio.preload = 'auto';
+  return audio;
+};
+
+/** 等待媒体元素缓冲到可以开始播放 */
+export const waitUntilPlayable = (audio: HTMLAudioElement) =>
+  new Promise<void>((resolve, reject) => {
+    const onCanPlay = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error('音频加载失败，请确认链接可用并允许跨域访问'));
+    };
+    const cleanup = () => {
+      audio.removeEventListener('canplay', onCanPlay);
+      audio.removeEventListener('error', onError);
+    };
+
+    if (audio.readyState >= 2) {
+      resolve();
+      return;
+    }
+
+    audio.addEventListener('canplay', onCanPlay);
+    audio.addEventListener('error', onError);
+  });
+
+export class UrlSource implements SourceDriver<DescriptorOf<'url'>> {
+  readonly kind = 'url';
+  readonly seekable = true;
+  readonly transport = true;
+  private audio: HTMLAudioElement | null = null;
+  // 一个媒体元素只能创建一次 MediaElementAudioSourceNode，换了 AudioContext 就换元素
+  private elementContext: BaseAudioContext | null = null;
+  private mediaSource: MediaElementAudioSourceNode | null = null;
+  // 首次变调时插入，之后保留在链路中（原调时直通）
+  private shifter: AudioWorkletNode | null = null;
+  private moduleContext: BaseAudioContext | null = null;
+  private loop: LoopRange | null = null;
+  private loopTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly host: SourceHost,
+    private readonly createElement: () => HTMLAudioElement = createAudioElement,
+    /** 缺省为打包后的变速变调模块 */
+    private readonly moduleUrl?: string
+  ) {}
+
+  private handleEnded = () => {
+    const audio = this.audio;
+    // 循环终点在结尾时，元素可能先于定时器播完
+    if (audio && this.loop) {
+      audio.currentTime = this.loop.start;
+      void audio.play();
+      return;
+    }
+    if (audio) {
+      audio.currentTime = 0;
+    }
+    this.host.ended();
+  };
+
+  private checkLoop = () => {
+    const { audio, loop } = this;
+    if (audio && loop && !audio.paused && audio.currentTime >= loop.end) {
+      audio.currentTime = loop.start;
+    }
+  };
+
+  private ensureElement() {
+    const { context, input } = this.host.getGraph();
+    if (!this.audio || this.elementContext !== context) {
+      this.audio?.removeEventListener('ended', this.handleEnded);
+      const audio = this.createElement();
+      audio.addEventListener('ended', this.handleEnded);
+      this.shifter?.disconnect();
+      this.shifter = null;
+      this.mediaSource = context.createMediaElementSource(audio);
+      this.mediaSource.connect(input);
+      this.audio = audio;
+      this.elementContext = context;
+    }
+    return this.audio;
+  }
+
+  async load({ url }: DescriptorOf<'url'>) {
+    if (!validateUrl(url)) {
+      throw new Error('请输入合法的 http(s) 音频链接');
+    }
+    const audio = this.ensureElement();
+    audio.src = url.trim();
+    audio.currentTime = 0;
+
+    await waitUntilPlayable(audio);
+  }
+
+  async play() {
+    await this.audio?.play();
+  }
+
+  pause() {
+    this.audio?.pause();
+  }
+
+  stop() {
+    if (this.audio) {
+      this.audio.pause();
+      this.audio.currentTime = 0;
+    }
+  }
+
+  async seek(seconds: number) {
+    const audio = this.audio;
+    if (audio && Number.isFinite(audio.duration)) {
+      audio.currentTime = Math.min(audio.duration, seconds);
+    }
+  }
+
+  getTime() {
+    return this.audio?.currentTime || 0;
+  }
+
+  getDuration() {
+    const duration = this.audio?.duration ?? 0;
+    return Number.isFinite(duration) ? duration : 0;
+  }
+
+  private async insertShifter() {
+    const { context, input } = this.host.getGraph();
+    if (this.moduleContext !== context) {
+      await context.audioWorklet.addModule(this.moduleUrl ?? `${window.location.origin}${TIME_STRETCH_MODULE}`);
+      this.moduleContext = context;
+    }
+    const shifter = new AudioWorkletNode(context, PITCH_SHIFTER);
+    shifter.connect(input);
+    this.mediaSource?.disconnect();
+    this.mediaSource?.connect(shifter);
+    this.shifter = shifter;
+  }
+
+  private setLoop(loop: LoopRange | null) {
+    this.loop = loop;
+    if (loop && this.loopTimer === null) {
+      this.loopTimer = setInterval(this.checkLoop, LOOP_CHECK_INTERVAL);
+    } else if (!loop && this.loopTimer !== null) {
+      clearInterval(this.loopTimer);
+      this.loopTimer = null;
+    }
+  }
+
+  async adjust({ rate, pitch, loop }: PlaybackAdjustments) {
+    const audio = this.audio;
+    if (!audio) {
+      return;
+    }
+    // 换 src 时 playbackRate 会重置为 defaultPlaybackRate
+    audio.defaultPlaybackRate = rate;
+    audio.playbackRate = rate;
+    audio.preservesPitch = true;
+    this.setLoop(loop);
+    if (pitch !== 0 && !this.shifter) {
+      await this.insertShifter();
+    }
+    this.shifter?.port.postMessage({ type: 'pitch', semitones: pitch });
+  }
+
+  /** 重新下载整段音频并解码后计算峰值（媒体元素的数据无法直接读取），需要链接允许跨域读取 */
+  async getWaveformPeaks() {
+    const url = this.audio?.src;
+    if (!url) {
+      return null;
+    }
+    let data: ArrayBuffer;
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(response.statusText);
+      }
+      data = await response.arrayBuffer();
+    } catch {
+      throw new Error('无法读取音频数据，链接可能不允许跨域访问');
+    }
+    let buffer: AudioBuffer;
+    try {
+      buffer = await this.host.getGraph().context.decodeAudioData(data);
+    } catch {
+      throw new Error('音频数据解码失败');
+    }
+    return this.host.computePeaks(buffer);
+  }
+
+  release() {
+    this.stop();
+    this.setLoop(null);
+  }
+}
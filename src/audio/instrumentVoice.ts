@@ -0,0 +1,66 @@
+// 拇指琴音色的共享部分：实时演奏（useAudioEngine）与离线渲染使用同一套参数与发声方式。
+import type { KalimbaVoiceNote, KalimbaVoiceParams } from './kalimbaSynth';
+import kalimbaVoiceModuleUrl from './worklets/kalimbaVoice.ts?worker&url';
+
+/** 拇指琴音色：物理建模（AudioWorklet）、原有的三角波简单音色，或加载的 SF2 / SFZ 采样 */
+export type InstrumentVoice = 'kalimba' | 'simple' | 'sampler';
+
+export {
+  DEFAULT_KALIMBA_VOICE_PARAMS,
+  getKalimbaKeyLength,
+  type KalimbaVoiceNote,
+  type KalimbaVoiceParams
+} from './kalimbaSynth';
+
+/** 物理建模音色的 AudioWorklet 模块（由 Vite 单独打包，地址相对站点根目录） */
+export const KALIMBA_VOICE_MODULE = kalimbaVoiceModuleUrl;
+export const KALIMBA_VOICE_PROCESSOR = 'kalimba-voice';
+
+// 三角波简单音色的包络（秒）
+const SIMPLE_ATTACK = 0.01;
+const SIMPLE_DECAY = 1.2;
+
+/** 创建物理建模音色节点并设置参数；notes 会在节点创建时一并交给处理器（离线渲染用，不经过异步的 port） */
+export const createKalimbaVoiceNode = (
+  context: BaseAudioContext,
+  params: KalimbaVoiceParams,
+  notes: KalimbaVoiceNote[] = []
+) => {
+  const node = new AudioWorkletNode(context, KALIMBA_VOICE_PROCESSOR, {
+    outputChannelCount: [1],
+    processorOptions: { notes }
+  });
+  (Object.keys(params) as (keyof KalimbaVoiceParams)[]).forEach((name) => {
+    node.parameters.get(name)?.setValueAtTime(params[name], context.currentTime);
+  });
+  return node;
+};
+
+/** 三角波简单音色：快速起音后指数衰减，返回振荡器以便提前取消 */
+export const scheduleSimpleNote = (
+  context: BaseAudioContext,
+  destination: AudioNode,
+  frequency: number,
+  when: number,
+  velocity = 1
+) => {
+  const oscillator = context.createOscillator();
+  oscillator.type = 'triangle';
+  oscillator.frequency.value = frequency;
+
+  const noteGain = context.createGain();
+  oscillator.connect(noteGain);
+  noteGain.connect(destination);
+
+  noteGain.gain.setValueAtTime(0, when);
+  noteGain.gain.linearRampToValueAtTime(velocity, when + SIMPLE_ATTACK);
+  noteGain.gain.exponentialRampToValueAtTime(0.001, when + SIMPLE_DECAY);
+
+  oscillator.start(when);
+  oscillator.stop(when + SIMPLE_DECAY + 0.1);
+  oscillator.onended = () => {
+    oscillator.disconnect();
+    noteGain.disconnect();
+  };
+  return oscillator;
+};
@@ -0,0 +1,215 @@
+// 拇指琴物理建模合成器：每个音由若干非谐和的簧片振动模态叠加，再加上拨奏瞬态。
+// 纯计算、不依赖 Web Audio，AudioWorklet（浏览器）与命令行渲染（Node）共用同一份实现。
+import type { KalimbaKey } from '../score/tuning';
+
+export type KalimbaVoiceParams = {
+  brightness: number; // 0–1，高阶模态与拨奏瞬态的强度
+  decay: number; // 0.25–3，延音长度倍率
+  keyTimbre: number; // 0–1，琴键长度对音色的影响程度
+};
+
+export const DEFAULT_KALIMBA_VOICE_PARAMS: KalimbaVoiceParams = {
+  brightness: 0.5,
+  decay: 1,
+  keyTimbre: 0.6
+};
+
+/** 输出增益，与 AudioWorklet 的 gain 参数默认值一致 */
+export const DEFAULT_KALIMBA_GAIN = 0.5;
+
+/** 一个拨奏，when 为时间线上的秒数；length 为 0–1 的簧片相对长度（1 = 最长的簧片） */
+export type KalimbaVoiceNote = {
+  frequency: number;
+  velocity: number;
+  when: number;
+  length: number;
+};
+
+/** 与 AudioWorklet 的渲染块大小一致，保证两端的音符起点取整相同 */
+export const KALIMBA_BLOCK_FRAMES = 128;
+
+const TWO_PI = Math.PI * 2;
+const MAX_VOICES = 48;
+const SILENCE = 0.0001;
+
+// 一端固定的悬臂梁模态频率比；簧片越长、越薄，高阶模态越偏离理想值
+const CANTILEVER_RATIOS = [1, 6.267, 17.55, 34.39];
+// 较短的簧片（高音区）更接近这些比例
+const SHORT_TINE_RATIOS = [1, 5.4, 14.2, 27.5];
+
+type Mode = {
+  phase: number;
+  increment: number;
+  amplitude: number;
+  damping: number;
+};
+
+type Voice = {
+  startFrame: number;
+  modes: Mode[];
+  level: number;
+  attackFrames: number;
+  transientFrames: number;
+  transientLevel: number;
+  noiseState: number;
+  age: number;
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// 琴键相对长度（0 = 最短，1 = 最长），物理建模音色据此调整泛音与衰减
+export const getKalimbaKeyLength = (keys: KalimbaKey[], index: number) => {
+  const heights = keys.map((key) => key.height);
+  const min = Math.min(...heights);
+  const max = Math.max(...heights);
+  const height = keys[index]?.height;
+  if (height === undefined || max === min) {
+    return 0.5;
+  }
+  return (height - min) / (max - min);
+};
+
+export class KalimbaSynth {
+  private pending: KalimbaVoiceNote[] = [];
+  private voices: Voice[] = [];
+
+  constructor(
+    private readonly sampleRate: number,
+    notes: KalimbaVoiceNote[] = []
+  ) {
+    notes.forEach((note) => this.schedule(note));
+  }
+
+  schedule(note: KalimbaVoiceNote) {
+    this.pending.push(note);
+    this.pending.sort((a, b) => a.when - b.when);
+  }
+
+  /** 只取消尚未开始的音符，正在发声的自然衰减 */
+  cancel(after: number) {
+    this.pending = this.pending.filter((note) => note.when <= after);
+  }
+
+  silence() {
+    this.pending = [];
+    this.voices = [];
+  }
+
+  /** 没有待发声也没有正在发声的音 */
+  get idle() {
+    return this.pending.length === 0 && this.voices.length === 0;
+  }
+
+  private createVoice(note: KalimbaVoiceNote, startFrame: number, params: KalimbaVoiceParams): Voice {
+    const { sampleRate } = this;
+    const { brightness, decay, keyTimbre } = params;
+    const length = clamp01(note.length ?? 0.5) * keyTimbre + 0.5 * (1 - keyTimbre);
+    const velocity = clamp01(note.velocity ?? 1);
+    const nyquist = sampleRate / 2;
+
+    // 长簧片基频延音更长，高音区衰减更快
+    const baseSeconds = decay * (0.8 + 2.2 * length) * Math.pow(440 / note.frequency, 0.35);
+    const modes: Mode[] = [];
+    CANTILEVER_RATIOS.forEach((longRatio, index) => {
+      const ratio = SHORT_TINE_RATIOS[index] + (longRatio - SHORT_TINE_RATIOS[index]) * length;
+      const frequency = note.frequency * ratio;
+      if (frequency >= nyquist * 0.9) {
+        return;
+      }
+      // 高阶模态的强度由明亮度控制，长簧片的高阶模态更弱、更圆润
+      const amplitude =
+        index === 0 ? 1 : Math.pow(0.15 + 0.6 * brightness, index) * (1.2 - 0.6 * length) * (0.5 + 0.5 * velocity);
+      const seconds = baseSeconds / Math.pow(ratio, 0.7 + 0.3 * (1 - brightness));
+      modes.push({
+        phase: 0,
+        increment: (TWO_PI * frequency) / sampleRate,
+        amplitude,
+        damping: Math.exp(-6.9 / (seconds * sampleRate)) // 约 seconds 秒衰减 60 dB
+      });
+    });
+
+    return {
+      startFrame,
+      modes,
+      level: velocity,
+      attackFrames: Math.round(sampleRate * 0.0015),
+      // 拨奏瞬态：指甲离开簧片时的短促噪声，越明亮越长
+      transientFrames: Math.round(sampleRate * (0.002 + 0.006 * brightness)),
+      transientLevel: 0.25 * velocity * (0.3 + brightness),
+      noiseState: 0,
+      age: 0
+    };
+  }
+
+  private renderVoice(voice: Voice) {
+    let sample = 0;
+    for (const mode of voice.modes) {
+      sample += Math.sin(mode.phase) * mode.amplitude;
+      mode.phase += mode.increment;
+      if (mode.phase >= TWO_PI) {
+        mode.phase -= TWO_PI;
+      }
+      mode.amplitude *= mode.damping;
+    }
+    if (voice.age < voice.attackFrames) {
+      sample *= voice.age / voice.attackFrames;
+    }
+    if (voice.age < voice.transientFrames) {
+      // 一阶低通的白噪声，按线性包络淡出
+      voice.noiseState += 0.5 * (Math.random() * 2 - 1 - voice.noiseState);
+      sample += voice.noiseState * voice.transientLevel * (1 - voice.age / voice.transientFrames);
+    }
+    voice.age += 1;
+    return sample * voice.level;
+  }
+
+  private isSilent(voice: Voice) {
+    return voice.age > voice.transientFrames && voice.modes.every((mode) => mode.amplitude < SILENCE);
+  }
+
+  /** 渲染从 blockStart 帧开始的一块（覆盖写入 buffer），参数在块内保持不变 */
+  process(buffer: Float32Array, blockStart: number, params: KalimbaVoiceParams, gain = DEFAULT_KALIMBA_GAIN) {
+    const frames = buffer.length;
+    const blockEnd = blockStart + frames;
+
+    // 把落在本块内（或已经过期）的音符转为发声中的 voice
+    while (this.pending.length > 0 && Math.round(this.pending[0].when * this.sampleRate) < blockEnd) {
+      const note = this.pending.shift()!;
+      const startFrame = Math.max(blockStart, Math.round(note.when * this.sampleRate));
+      this.voices.push(this.createVoice(note, startFrame, params));
+      if (this.voices.length > MAX_VOICES) {
+        this.voices.shift();
+      }
+    }
+
+    buffer.fill(0);
+    if (this.voices.length > 0) {
+      for (const voice of this.voices) {
+        for (let i = Math.max(0, voice.startFrame - blockStart); i < frames; i += 1) {
+          buffer[i] += this.renderVoice(voice) * gain;
+        }
+      }
+      this.voices = this.voices.filter((voice) => !this.isSilent(voice));
+    }
+  }
+}
+
+/** 一次性渲染一组音符为单声道采样，按与 AudioWorklet 相同的块大小推进 */
+export const renderKalimbaNotes = (
+  notes: KalimbaVoiceNote[],
+  {
+    sampleRate,
+    length,
+    params = DEFAULT_KALIMBA_VOICE_PARAMS,
+    gain = DEFAULT_KALIMBA_GAIN
+  }: { sampleRate: number; length: number; params?: KalimbaVoiceParams; gain?: number }
+) => {
+  const synth = new KalimbaSynth(sampleRate, notes);
+  const output = new Float32Array(length);
+  const block = new Float32Array(KALIMBA_BLOCK_FRAMES);
+  for (let start = 0; start < length; start += KALIMBA_BLOCK_FRAMES) {
+    synth.process(block, start, params, gain);
+    output.set(block.subarray(0, Math.min(KALIMBA_BLOCK_FRAMES, length - start)), start);
+  }
+  return output;
+};
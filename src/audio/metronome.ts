@@ -0,0 +1,183 @@
+// 节拍器：与乐谱调度器一样按 AudioContext 时钟提前（lookahead）排程点击，
+// 自由演奏时使用自身速度，乐谱播放时可跟随乐谱的起点与速度，拍点与音符对齐。
+import { UNITS_PER_BEAT, getUnitSeconds, type SchedulerClock } from './scoreScheduler';
+
+export type ClickLevel = 'accent' | 'beat' | 'subdivision';
+
+/** 每拍细分：1 = 不细分，2 = 八分，3 = 三连音，4 = 十六分 */
+export type MetronomeSubdivision = 1 | 2 | 3 | 4;
+
+export type MetronomeSettings = {
+  /** 每分钟四分音符数，与乐谱 header.bpm 一致 */
+  bpm: number;
+  beatsPerBar: number;
+  /** 拍号分母，点击落在该音符上（如 6/8 每个八分音符一下） */
+  beatUnit: number;
+  /** 每拍是否为重音，长度与 beatsPerBar 一致 */
+  accents: boolean[];
+  subdivision: MetronomeSubdivision;
+  /** 乐谱播放前的预备小节数，0 为不使用 */
+  countInBars: number;
+  volume: number; // 0–1
+  /** 点击声是否经过可视化的 AnalyserNode */
+  includeInAnalyser: boolean;
+};
+
+/** 节拍的时间基准：第 0 个单位对应的音频时间与每单位的秒数 */
+export type MetronomeTransport = {
+  origin: number;
+  unitSeconds: number;
+};
+
+export const METER_OPTIONS = ['2/4', '3/4', '4/4', '5/4', '6/8', '7/8', '9/8', '12/8'];
+
+/** 默认重音：每小节第一拍；复拍子（6/8、9/8、12/8）每三拍一个次重音 */
+export const getDefaultAccents = (beatsPerBar: number, beatUnit: number) =>
+  Array.from({ length: beatsPerBar }, (_, beat) =>
+    beat === 0 || (beatUnit === 8 && beatsPerBar % 3 === 0 && beat % 3 === 0)
+  );
+
+export const DEFAULT_METRONOME_SETTINGS: MetronomeSettings = {
+  bpm: 120,
+  beatsPerBar: 4,
+  beatUnit: 4,
+  accents: getDefaultAccents(4, 4),
+  subdivision: 1,
+  countInBars: 0,
+  volume: 0.6,
+  includeInAnalyser: false
+};
+
+/** 解析 "3/4" 形式的拍号，分母须为 2 的幂 */
+export const parseMeter = (meter: string) => {
+  const match = /^(\d+)\/(\d+)$/.exec(meter.trim());
+  if (!match) {
+    return null;
+  }
+  const beatsPerBar = Number(match[1]);
+  const beatUnit = Number(match[2]);
+  if (beatsPerBar < 1 || beatsPerBar > 16 || ![1, 2, 4, 8, 16].includes(beatUnit)) {
+    return null;
+  }
+  return { beatsPerBar, beatUnit };
+};
+
+/** 一拍的单位数（16 = 四分音符） */
+export const getBeatUnits = (beatUnit: number) => (UNITS_PER_BEAT * 4) / beatUnit;
+
+const getBeatIndex = (settings: MetronomeSettings, tick: number) => {
+  const beats = Math.floor(tick / settings.subdivision);
+  return ((beats % settings.beatsPerBar) + settings.beatsPerBar) % settings.beatsPerBar;
+};
+
+const getClickLevel = (settings: MetronomeSettings, tick: number): ClickLevel => {
+  if (((tick % settings.subdivision) + settings.subdivision) % settings.subdivision !== 0) {
+    return 'subdivision';
+  }
+  const beat = getBeatIndex(settings, tick);
+  return settings.accents[beat] ? 'accent' : 'beat';
+};
+
+/** 预备拍：从 at 开始的若干小节点击（不细分），返回各点击时间与结束时刻 */
+export const getCountInClicks = (settings: MetronomeSettings, bars: number, at: number) => {
+  const beatSeconds = getBeatUnits(settings.beatUnit) * getUnitSeconds(settings.bpm);
+  const count = Math.max(0, Math.round(bars)) * settings.beatsPerBar;
+  const clicks = Array.from({ length: count }, (_, index) => {
+    const beat = index % settings.beatsPerBar;
+    return { when: at + index * beatSeconds, level: (settings.accents[beat] ? 'accent' : 'beat') as ClickLevel };
+  });
+  return { clicks, end: at + count * beatSeconds };
+};
+
+interface MetronomeOptions {
+  clock: SchedulerClock;
+  settings: MetronomeSettings;
+  /** 点击进入 lookahead 窗口时回调，beat 为所在小节中的拍序号 */
+  onClick: (when: number, level: ClickLevel, beat: number) => void;
+  lookahead?: number; // 秒
+  interval?: number; // 毫秒
+}
+
+export type Metronome = ReturnType<typeof createMetronome>;
+
+export const createMetronome = ({
+  clock,
+  settings: initialSettings,
+  onClick,
+  lookahead: initialLookahead = 0.1,
+  interval = 25
+}: MetronomeOptions) => {
+  let settings = initialSettings;
+  let lookahead = initialLookahead;
+  let timerId: number | null = null;
+  let own: MetronomeTransport = { origin: 0, unitSeconds: getUnitSeconds(settings.bpm) };
+  let follow: (() => MetronomeTransport | null) | null = null;
+  // 最近一次排程的点击时间，时间基准跳变（如乐谱循环回绕）时避免重复或倒退
+  let lastWhen = -Infinity;
+
+  const tick = () => {
+    const now = clock.now();
+    const following = follow?.() ?? null;
+    const { origin, unitSeconds } = following ?? own;
+    const tickSeconds = (getBeatUnits(settings.beatUnit) / settings.subdivision) * unitSeconds;
+    const from = Math.max(now, lastWhen + tickSeconds / 2);
+    // 跟随乐谱时，乐谱起点之前（预备拍、启动延迟）不发声
+    let index = Math.max(following ? 0 : -Infinity, Math.ceil((from - origin) / tickSeconds - 1e-6));
+    let when = origin + index * tickSeconds;
+    while (when < now + lookahead) {
+      onClick(when, getClickLevel(settings, index), getBeatIndex(settings, index));
+      lastWhen = when;
+      index += 1;
+      when = origin + index * tickSeconds;
+    }
+  };
+
+  const stop = () => {
+    if (timerId !== null) {
+      clock.clearInterval(timerId);
+      timerId = null;
+    }
+  };
+
+  const start = (at = clock.now()) => {
+    stop();
+    own = { origin: at, unitSeconds: getUnitSeconds(settings.bpm) };
+    lastWhen = -Infinity;
+    timerId = clock.setInterval(tick, interval);
+    tick();
+  };
+
+  /** 更新设置；改变速度时以当前时刻为锚点，保持拍点连续 */
+  const update = (next: MetronomeSettings) => {
+    if (next.bpm !== settings.bpm) {
+      const now = clock.now();
+      const unitSeconds = getUnitSeconds(next.bpm);
+      const units = (now - own.origin) / own.unitSeconds;
+      own = { origin: now - units * unitSeconds, unitSeconds };
+    }
+    settings = next;
+  };
+
+  /** 跟随外部时间基准（乐谱播放），传入 null 恢复自身速度并从当前拍继续 */
+  const setFollow = (source: (() => MetronomeTransport | null) | null) => {
+    const transport = follow?.() ?? null;
+    follow = source;
+    if (!source && transport) {
+      const unitSeconds = getUnitSeconds(settings.bpm);
+      const units = (clock.now() - transport.origin) / transport.unitSeconds;
+      own = { origin: clock.now() - units * unitSeconds, unitSeconds };
+    }
+  };
+
+  return {
+    start,
+    stop,
+    tick,
+    update,
+    setFollow,
+    setLookahead: (seconds: number) => {
+      lookahead = seconds;
+    },
+    isRunning: () => timerId !== null
+  };
+};
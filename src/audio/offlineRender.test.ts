@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { renderScore, renderScoreToWav } from './offlineRender';
+import { decodeWav } from './wav';
+import { DEFAULT_TUNING, findKeyIndex } from '../score/tuning';
+import type { ScoreDocument } from '../score/scoreFormat';
+
+const keys = DEFAULT_TUNING.keys;
+
+// 假离线上下文：记录每个振荡器的频率与起止时间，渲染结果为固定的两声道采样
+const createFakeContext = () => {
+  const oscillators: { frequency: number; start: number }[] = [];
+  const calls: [channels: number, length: number, sampleRate: number][] = [];
+  const param = () => ({
+    value: 0,
+    setValueAtTime: () => undefined,
+    linearRampToValueAtTime: () => undefined,
+    exponentialRampToValueAtTime: () => undefined
+  });
+  const node = () => ({ connect: () => undefined, disconnect: () => undefined });
+  const createContext = (channels: number, length: number, sampleRate: number) => {
+    calls.push([channels, length, sampleRate]);
+    const data = Array.from({ length: channels }, () => new Float32Array(length).fill(0.25));
+    const context = {
+      destination: node(),
+      createOscillator: () => {
+        const oscillator = { ...node(), type: 'sine', frequency: param(), onended: null, stop: () => undefined };
+        return {
+          ...oscillator,
+          start: (when: number) => oscillators.push({ frequency: oscillator.frequency.value, start: when })
+        };
+      },
+      createGain: () => ({ ...node(), gain: param() }),
+      startRendering: async () => ({
+        numberOfChannels: channels,
+        sampleRate,
+        getChannelData: (channel: number) => data[channel]
+      })
+    };
+    return context as unknown as OfflineAudioContext;
+  };
+  return { createContext, oscillators, calls };
+};
+
+const score: ScoreDocument = {
+  version: 2,
+  header: { bpm: 120 },
+  notes: [
+    { code: 'C4', duration: 16 },
+    { code: 'E4', duration: 16, tie: true },
+    { code: 'E4', duration: 16 },
+    { code: 'G4', duration: 16 }
+  ]
+};
+
+describe('renderScore', () => {
+  it('按乐谱时长创建离线上下文，连音线延续的音不重新拨奏', async () => {
+    const fake = createFakeContext();
+    await renderScore(score, { keys, voice: { kind: 'simple' }, sampleRate: 48000, tail: 1, createContext: fake.createContext });
+    // 四拍，每拍 0.5 秒，加 1 秒余音
+    expect(fake.calls).toEqual([[2, 3 * 48000, 48000]]);
+    expect(fake.oscillators).toEqual(
+      ['C4', 'E4', 'G4'].map((code, index) => ({
+        frequency: keys[findKeyIndex(keys, code)!].frequency,
+        start: [0, 0.5, 1.5][index]
+      }))
+    );
+  });
+
+  it('归一化后编码为 WAV', async () => {
+    const fake = createFakeContext();
+    const wav = decodeWav(
+      await renderScoreToWav(score, { keys, voice: { kind: 'simple' }, sampleRate: 44100, createContext: fake.createContext })
+    );
+    expect(wav.sampleRate).toBe(44100);
+    expect(wav.channels).toHaveLength(2);
+    // 峰值归一化到 -1 dBFS
+    expect(wav.channels[0][0]).toBeCloseTo(10 ** (-1 / 20), 3);
+  });
+
+  it('没有能弹到的音时报错，不创建上下文', async () => {
+    const fake = createFakeContext();
+    await expect(
+      renderScore([{ code: 'C1', duration: '16' }], { keys, voice: { kind: 'simple' }, createContext: fake.createContext })
+    ).rejects.toThrow('乐谱中没有当前调音能弹到的音，无法渲染');
+    expect(fake.calls).toEqual([]);
+  });
+});
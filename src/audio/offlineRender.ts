@@ -0,0 +1,92 @@
+// 离线渲染：按与实时播放相同的规则（连音线、力度）把乐谱展开为拨奏，经由同一套音色
+// 在 OfflineAudioContext 中渲染（快于实时），再编码为 WAV。不依赖 React，可脱离界面调用。
+import { createKalimbaVoiceNode, scheduleSimpleNote, type KalimbaVoiceParams } from './instrumentVoice';
+import { scheduleSamplerNote, type SamplerInstrument } from './sampler';
+import {
+  DEFAULT_RENDER_TAIL,
+  RENDER_SAMPLE_RATES,
+  getRenderFrames,
+  getScoreStrikes,
+  toKalimbaVoiceNotes
+} from './scoreRender';
+import { encodeWav, normalizePeak, type WavBitDepth } from './wav';
+import type { ScoreDocument, ScoreNote } from '../score/scoreFormat';
+import type { KalimbaKey } from '../score/tuning';
+
+export type RenderVoice =
+  | { kind: 'kalimba'; params: KalimbaVoiceParams; /** AudioWorklet 模块的完整地址 */ moduleUrl: string }
+  | { kind: 'simple' }
+  | { kind: 'sampler'; instrument: SamplerInstrument };
+
+export type RenderOptions = {
+  keys: KalimbaKey[];
+  voice: RenderVoice;
+  /** 缺省使用乐谱头中的速度 */
+  bpm?: number;
+  sampleRate?: number;
+  /** 最后一个音之后保留的余音（秒） */
+  tail?: number;
+  /** 把峰值归一化到 -1 dBFS */
+  normalize?: boolean;
+  /** 可替换的离线上下文工厂，便于测试 */
+  createContext?: (channels: number, length: number, sampleRate: number) => OfflineAudioContext;
+};
+
+const defaultCreateContext = (channels: number, length: number, sampleRate: number) =>
+  new OfflineAudioContext({ numberOfChannels: channels, length, sampleRate });
+
+/** 离线渲染乐谱，返回立体声 AudioBuffer */
+export const renderScore = async (
+  score: ScoreDocument | ScoreNote[],
+  {
+    keys,
+    voice,
+    bpm,
+    sampleRate = RENDER_SAMPLE_RATES[0],
+    tail = DEFAULT_RENDER_TAIL,
+    normalize = true,
+    createContext = defaultCreateContext
+  }: RenderOptions
+) => {
+  const { strikes, duration } = getScoreStrikes(score, keys, bpm);
+  if (strikes.length === 0) {
+    throw new Error('乐谱中没有当前调音能弹到的音，无法渲染');
+  }
+  const length = getRenderFrames(duration, tail, sampleRate);
+  const context = createContext(2, length, sampleRate);
+
+  if (voice.kind === 'kalimba') {
+    await context.audioWorklet.addModule(voice.moduleUrl);
+    const node = createKalimbaVoiceNode(context, voice.params, toKalimbaVoiceNotes(strikes, keys));
+    node.connect(context.destination);
+  } else {
+    strikes.forEach(({ keyIndex, when, velocity, duration: noteDuration }) => {
+      if (voice.kind === 'sampler') {
+        scheduleSamplerNote(context, context.destination, voice.instrument, {
+          midi: keys[keyIndex].midi,
+          when,
+          velocity,
+          duration: noteDuration
+        });
+      } else {
+        scheduleSimpleNote(context, context.destination, keys[keyIndex].frequency, when, velocity);
+      }
+    });
+  }
+
+  const buffer = await context.startRendering();
+  if (normalize) {
+    normalizePeak(Array.from({ length: buffer.numberOfChannels }, (_, index) => buffer.getChannelData(index)));
+  }
+  return buffer;
+};
+
+/** 渲染并编码为 WAV 文件内容 */
+export const renderScoreToWav = async (
+  score: ScoreDocument | ScoreNote[],
+  options: RenderOptions & { bitDepth?: WavBitDepth }
+) => {
+  const buffer = await renderScore(score, options);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, index) => buffer.getChannelData(index));
+  return encodeWav({ sampleRate: buffer.sampleRate, channels }, options.bitDepth);
+};
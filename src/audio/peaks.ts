@@ -0,0 +1,86 @@
+// 波形概览的多分辨率峰值：最细一级每 BASE_SAMPLES_PER_PEAK 个采样取一对最小 / 最大值（各声道合并），
+// 之后每级两两合并，直到只剩一对。纯计算、不依赖 DOM，在 Web Worker（workers/peaks.ts）中运行。
+
+export const BASE_SAMPLES_PER_PEAK = 128;
+
+export type PeakLevel = {
+  samplesPerPeak: number;
+  min: Float32Array;
+  max: Float32Array;
+};
+
+export type WaveformPeaks = {
+  sampleRate: number;
+  /** 采样帧数 */
+  length: number;
+  /** 由细到粗 */
+  levels: PeakLevel[];
+};
+
+const computeBaseLevel = (channels: Float32Array[], length: number): PeakLevel => {
+  const count = Math.max(1, Math.ceil(length / BASE_SAMPLES_PER_PEAK));
+  const min = new Float32Array(count);
+  const max = new Float32Array(count);
+  for (let peak = 0; peak < count; peak += 1) {
+    const start = peak * BASE_SAMPLES_PER_PEAK;
+    const end = Math.min(length, start + BASE_SAMPLES_PER_PEAK);
+    let low = 0;
+    let high = 0;
+    for (const data of channels) {
+      for (let i = start; i < end; i += 1) {
+        const value = data[i];
+        if (value < low) {
+          low = value;
+        } else if (value > high) {
+          high = value;
+        }
+      }
+    }
+    min[peak] = low;
+    max[peak] = high;
+  }
+  return { samplesPerPeak: BASE_SAMPLES_PER_PEAK, min, max };
+};
+
+const halveLevel = ({ samplesPerPeak, min, max }: PeakLevel): PeakLevel => {
+  const count = Math.ceil(min.length / 2);
+  const nextMin = new Float32Array(count);
+  const nextMax = new Float32Array(count);
+  for (let peak = 0; peak < count; peak += 1) {
+    const a = peak * 2;
+    const b = Math.min(a + 1, min.length - 1);
+    nextMin[peak] = Math.min(min[a], min[b]);
+    nextMax[peak] = Math.max(max[a], max[b]);
+  }
+  return { samplesPerPeak: samplesPerPeak * 2, min: nextMin, max: nextMax };
+};
+
+export const computePeaks = (channels: Float32Array[], sampleRate: number): WaveformPeaks => {
+  const length = channels[0]?.length ?? 0;
+  const levels = [computeBaseLevel(channels, length)];
+  while (levels[levels.length - 1].min.length > 1) {
+    levels.push(halveLevel(levels[levels.length - 1]));
+  }
+  return { sampleRate, length, levels };
+};
+
+/** 取出 [start, end) 采样帧范围内的最小 / 最大值，使用不比 samplesPerPixel 更粗的最粗一级 */
+export const getPeakRange = (peaks: WaveformPeaks, start: number, end: number, samplesPerPixel: number) => {
+  const { levels } = peaks;
+  let level = levels[0];
+  for (const candidate of levels) {
+    if (candidate.samplesPerPeak > samplesPerPixel) {
+      break;
+    }
+    level = candidate;
+  }
+  const first = Math.max(0, Math.floor(start / level.samplesPerPeak));
+  const last = Math.min(level.min.length, Math.max(first + 1, Math.ceil(end / level.samplesPerPeak)));
+  let min = 0;
+  let max = 0;
+  for (let peak = first; peak < last; peak += 1) {
+    min = Math.min(min, level.min[peak]);
+    max = Math.max(max, level.max[peak]);
+  }
+  return { min, max };
+};
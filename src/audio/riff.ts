@@ -0,0 +1,61 @@
+// RIFF 容器的最小读取工具，WAV 与 SoundFont（SF2）共用。
+
+export type RiffChunk = {
+  id: string;
+  offset: number; // 数据起点（不含 8 字节头）
+  size: number;
+  /** LIST 块的列表类型，如 'INFO'、'sdta' */
+  listType?: string;
+};
+
+export const readFourCC = (view: DataView, offset: number) =>
+  String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+
+/** 读取以 0 结尾的定长 ASCII 字符串 */
+export const readFixedString = (view: DataView, offset: number, length: number) => {
+  let text = '';
+  for (let i = 0; i < length; i += 1) {
+    const code = view.getUint8(offset + i);
+    if (code === 0) {
+      break;
+    }
+    text += String.fromCharCode(code);
+  }
+  return text.trim();
+};
+
+/** 顺序读取 [start, end) 内的子块，块长度为奇数时按规范补齐 1 字节 */
+export const readChunks = (view: DataView, start: number, end: number) => {
+  const chunks: RiffChunk[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    const id = readFourCC(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const dataOffset = offset + 8;
+    if (dataOffset + size > view.byteLength) {
+      throw new Error(`文件已损坏：${id} 块超出文件长度`);
+    }
+    const chunk: RiffChunk = { id, offset: dataOffset, size };
+    if (id === 'LIST' && size >= 4) {
+      chunk.listType = readFourCC(view, dataOffset);
+    }
+    chunks.push(chunk);
+    offset = dataOffset + size + (size % 2);
+  }
+  return chunks;
+};
+
+/** 校验 RIFF 头并返回顶层子块 */
+export const readRiff = (buffer: ArrayBuffer, formType: string) => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 12 || readFourCC(view, 0) !== 'RIFF' || readFourCC(view, 8) !== formType) {
+    throw new Error(`不是有效的 ${formType === 'WAVE' ? 'WAV' : 'SoundFont'} 文件`);
+  }
+  const end = Math.min(view.byteLength, 8 + view.getUint32(4, true));
+  return { view, chunks: readChunks(view, 12, end) };
+};
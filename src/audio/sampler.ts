@@ -0,0 +1,203 @@
+// 采样器音色：SF2 / SFZ 解析后统一为 SamplerBank，按音高与力度选取采样区并变调播放。
+// 解析结果不依赖 AudioContext，播放时才按需创建 AudioBuffer。
+import { parseSf2 } from './sf2';
+import { parseSfz } from './sfz';
+import { decodeWav, type WavData } from './wav';
+
+export type SamplerSample = {
+  name: string;
+  data: Float32Array;
+  sampleRate: number;
+};
+
+export type SamplerZone = {
+  keyLow: number;
+  keyHigh: number;
+  velLow: number;
+  velHigh: number;
+  /** 采样的原始音高（MIDI） */
+  rootKey: number;
+  /** 额外微调（音分） */
+  tune: number;
+  sample: SamplerSample;
+  /** 播放起点（帧） */
+  start: number;
+  /** 循环区间（帧），null 表示单次播放 */
+  loop: { start: number; end: number } | null;
+  gain: number;
+  pan: number; // -1（左）– 1（右）
+  release: number; // 秒
+};
+
+export type SamplerInstrument = {
+  name: string;
+  zones: SamplerZone[];
+};
+
+export type SamplerBank = {
+  name: string;
+  instruments: SamplerInstrument[];
+  /** 解析过程中跳过的内容，如缺失的采样文件 */
+  warnings: string[];
+};
+
+export type SamplerNote = {
+  midi: number;
+  when: number;
+  velocity: number; // 0–1
+  /** 发声时长（秒），到时进入释放段；未知时使用默认值 */
+  duration?: number;
+};
+
+// 键盘演奏没有松键时长，按该时长后释放
+const DEFAULT_HOLD_SECONDS = 1.5;
+const ATTACK_SECONDS = 0.005;
+const MIN_RELEASE_SECONDS = 0.05;
+
+const stripExtension = (name: string) => name.replace(/\.[^.]+$/, '');
+
+const keyDistance = (zone: SamplerZone, midi: number) =>
+  midi < zone.keyLow ? zone.keyLow - midi : midi > zone.keyHigh ? midi - zone.keyHigh : 0;
+
+/**
+ * 选取发声的采样区：优先音高与力度都匹配的区（可能有多层或左右声道），
+ * 音域外的音借用最近的采样区变调播放。
+ */
+export const findZones = (instrument: SamplerInstrument, midi: number, velocity: number) => {
+  const velocity127 = Math.min(127, Math.max(1, Math.round(velocity * 127)));
+  const byVelocity = instrument.zones.filter(
+    (zone) => velocity127 >= zone.velLow && velocity127 <= zone.velHigh
+  );
+  const candidates = byVelocity.length > 0 ? byVelocity : instrument.zones;
+  if (candidates.length === 0) {
+    return [];
+  }
+  const nearest = Math.min(...candidates.map((zone) => keyDistance(zone, midi)));
+  return candidates.filter((zone) => keyDistance(zone, midi) === nearest);
+};
+
+export const getPlaybackRate = (zone: SamplerZone, midi: number) =>
+  2 ** (((midi - zone.rootKey) * 100 + zone.tune) / 1200);
+
+const bufferCache = new WeakMap<SamplerSample, AudioBuffer>();
+
+const getSampleBuffer = (context: BaseAudioContext, sample: SamplerSample) => {
+  let buffer = bufferCache.get(sample);
+  if (!buffer) {
+    buffer = context.createBuffer(1, Math.max(1, sample.data.length), sample.sampleRate);
+    buffer.getChannelData(0).set(sample.data);
+    bufferCache.set(sample, buffer);
+  }
+  return buffer;
+};
+
+/** 排程一个采样音符，返回创建的音源节点，调用方可据此提前取消 */
+export const scheduleSamplerNote = (
+  context: BaseAudioContext,
+  destination: AudioNode,
+  instrument: SamplerInstrument,
+  { midi, when, velocity, duration = DEFAULT_HOLD_SECONDS }: SamplerNote
+) =>
+  findZones(instrument, midi, velocity).map((zone) => {
+    const buffer = getSampleBuffer(context, zone.sample);
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = getPlaybackRate(zone, midi);
+    if (zone.loop) {
+      source.loop = true;
+      source.loopStart = zone.loop.start / zone.sample.sampleRate;
+      source.loopEnd = zone.loop.end / zone.sample.sampleRate;
+    }
+
+    const peak = velocity * zone.gain;
+    const release = Math.max(MIN_RELEASE_SECONDS, zone.release);
+    const releaseAt = when + Math.max(ATTACK_SECONDS, duration);
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(0, when);
+    gain.gain.linearRampToValueAtTime(peak, when + ATTACK_SECONDS);
+    gain.gain.setValueAtTime(peak, releaseAt);
+    gain.gain.linearRampToValueAtTime(0, releaseAt + release);
+
+    source.connect(gain);
+    let output: AudioNode = gain;
+    if (zone.pan !== 0) {
+      const panner = context.createStereoPanner();
+      panner.pan.value = zone.pan;
+      gain.connect(panner);
+      output = panner;
+    }
+    output.connect(destination);
+
+    source.start(when, zone.start / zone.sample.sampleRate);
+    source.stop(releaseAt + release + 0.05);
+    source.onended = () => {
+      source.disconnect();
+      gain.disconnect();
+      output.disconnect();
+    };
+    return source;
+  });
+
+const getExtension = (file: File) => file.name.split('.').pop()?.toLowerCase() ?? '';
+
+/**
+ * 从本地文件加载音色库：.sf2 直接解析；.sfz 需同时选择其引用的 .wav 文件
+ * （可整体选择音色文件夹），采样按相对路径或文件名匹配。
+ */
+export const loadSamplerFiles = async (files: File[]): Promise<SamplerBank> => {
+  const sf2Files = files.filter((file) => getExtension(file) === 'sf2');
+  const sfzFiles = files.filter((file) => getExtension(file) === 'sfz');
+  if (sf2Files.length === 0 && sfzFiles.length === 0) {
+    throw new Error('请选择 .sf2 音色库，或 .sfz 文件及其引用的 .wav 采样');
+  }
+
+  const instruments: SamplerInstrument[] = [];
+  const warnings: string[] = [];
+
+  for (const file of sf2Files) {
+    const bank = parseSf2(await file.arrayBuffer(), stripExtension(file.name));
+    instruments.push(...bank.instruments);
+    warnings.push(...bank.warnings);
+  }
+
+  if (sfzFiles.length > 0) {
+    const wavFiles = files.filter((file) => getExtension(file) === 'wav');
+    const decoded = new Map<File, WavData>();
+    const loadWav = async (path: string) => {
+      const file = findSampleFile(wavFiles, path);
+      if (!file) {
+        return null;
+      }
+      let wav = decoded.get(file);
+      if (!wav) {
+        wav = decodeWav(await file.arrayBuffer());
+        decoded.set(file, wav);
+      }
+      return { name: file.name, wav };
+    };
+    for (const file of sfzFiles) {
+      const bank = await parseSfz(await file.text(), stripExtension(file.name), loadWav);
+      instruments.push(...bank.instruments);
+      warnings.push(...bank.warnings);
+    }
+  }
+
+  const playable = instruments.filter((instrument) => instrument.zones.length > 0);
+  if (playable.length === 0) {
+    throw new Error(warnings[0] ?? '音色库中没有可用的采样');
+  }
+  return { name: stripExtension((sf2Files[0] ?? sfzFiles[0]).name), instruments: playable, warnings };
+};
+
+const normalizePath = (path: string) =>
+  path.replace(/\\/g, '/').replace(/^(\.\/)+/, '').toLowerCase();
+
+// 优先按相对路径后缀匹配（选择文件夹时可用），否则按文件名匹配
+const findSampleFile = (files: File[], path: string) => {
+  const target = normalizePath(path);
+  const baseName = target.split('/').pop();
+  return (
+    files.find((file) => normalizePath(file.webkitRelativePath || file.name).endsWith(target)) ??
+    files.find((file) => file.name.toLowerCase() === baseName)
+  );
+};
@@ -0,0 +1,91 @@
+// 乐谱渲染中与平台无关的部分：把乐谱展开为按秒计时的拨奏、计算渲染长度，以及直接用合成器渲染物理建模音色。
+// 不依赖 Web Audio，浏览器的离线渲染（offlineRender）与命令行渲染共用。
+import {
+  DEFAULT_KALIMBA_VOICE_PARAMS,
+  getKalimbaKeyLength,
+  renderKalimbaNotes,
+  type KalimbaVoiceNote,
+  type KalimbaVoiceParams
+} from './kalimbaSynth';
+import { DEFAULT_BPM, getUnitSeconds } from './scoreScheduler';
+import { normalizePeak } from './wav';
+import { normalizeScore, type ScoreDocument, type ScoreNote } from '../score/scoreFormat';
+import { expandStrikes } from '../score/strikes';
+import type { KalimbaKey } from '../score/tuning';
+
+export const RENDER_SAMPLE_RATES = [44100, 48000];
+export const DEFAULT_RENDER_TAIL = 2;
+export const MAX_RENDER_TAIL = 10;
+
+/** 一次拨奏，时间以秒计，从乐谱开头算起 */
+export type ScoreStrike = {
+  keyIndex: number;
+  when: number;
+  velocity: number;
+  /** 发声时长（秒），包含连音线延续的部分 */
+  duration: number;
+};
+
+/** 按与实时播放相同的规则展开乐谱（见 score/strikes），换算为秒 */
+export const getScoreStrikes = (score: ScoreDocument | ScoreNote[], keys: KalimbaKey[], bpm?: number) => {
+  const { header, notes } = normalizeScore(score);
+  const unitSeconds = getUnitSeconds(bpm ?? header.bpm ?? DEFAULT_BPM);
+  const strikes: ScoreStrike[] = [];
+  let cursor = 0;
+
+  expandStrikes(notes, keys).forEach((expanded, index) => {
+    expanded.strikes.forEach(({ keyIndex, velocity, units }) => {
+      strikes.push({ keyIndex, when: cursor * unitSeconds, velocity, duration: units * unitSeconds });
+    });
+    cursor += notes[index].duration;
+  });
+
+  return { strikes, duration: cursor * unitSeconds };
+};
+
+/** 转为物理建模音色的音符 */
+export const toKalimbaVoiceNotes = (strikes: ScoreStrike[], keys: KalimbaKey[]): KalimbaVoiceNote[] =>
+  strikes.map((strike) => ({
+    frequency: keys[strike.keyIndex].frequency,
+    velocity: strike.velocity,
+    when: strike.when,
+    length: getKalimbaKeyLength(keys, strike.keyIndex)
+  }));
+
+/** 渲染总帧数：乐谱时长加上余音（余音限制在 0–MAX_RENDER_TAIL 秒） */
+export const getRenderFrames = (duration: number, tail: number, sampleRate: number) =>
+  Math.max(1, Math.ceil((duration + Math.min(MAX_RENDER_TAIL, Math.max(0, tail))) * sampleRate));
+
+/** 不经过 Web Audio，直接用物理建模合成器渲染乐谱（Node 中也可用），返回单声道采样 */
+export const renderKalimbaScore = (
+  score: ScoreDocument | ScoreNote[],
+  {
+    keys,
+    params = DEFAULT_KALIMBA_VOICE_PARAMS,
+    bpm,
+    sampleRate = RENDER_SAMPLE_RATES[0],
+    tail = DEFAULT_RENDER_TAIL,
+    normalize = true
+  }: {
+    keys: KalimbaKey[];
+    params?: KalimbaVoiceParams;
+    bpm?: number;
+    sampleRate?: number;
+    tail?: number;
+    normalize?: boolean;
+  }
+) => {
+  const { strikes, duration } = getScoreStrikes(score, keys, bpm);
+  if (strikes.length === 0) {
+    throw new Error('乐谱中没有当前调音能弹到的音，无法渲染');
+  }
+  const samples = renderKalimbaNotes(toKalimbaVoiceNotes(strikes, keys), {
+    sampleRate,
+    length: getRenderFrames(duration, tail, sampleRate),
+    params
+  });
+  if (normalize) {
+    normalizePeak([samples]);
+  }
+  return samples;
+};
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildTimeline,
+  createScoreScheduler,
+  findEventAt,
+  normalizeLoop,
+  type SchedulerClock,
+  type TimelineEvent
+} from './scoreScheduler';
+
+// 假时钟：时间只在 advance 时前进，每前进一个间隔调用一次定时回调
+const createFakeClock = (interval = 0.025) => {
+  let time = 0;
+  let callback: (() => void) | null = null;
+  const clock: SchedulerClock = {
+    now: () => time,
+    setInterval: (next) => {
+      callback = next;
+      return 1;
+    },
+    clearInterval: () => {
+      callback = null;
+    }
+  };
+  const advance = (seconds: number) => {
+    const end = time + seconds;
+    while (time < end - 1e-9) {
+      time = Math.min(end, time + interval);
+      callback?.();
+    }
+  };
+  return { clock, advance };
+};
+
+// 每个事件 4 个单位，每单位 0.25 秒，即每个事件 1 秒
+const setup = (durations = [4, 4, 4, 4]) => {
+  const { clock, advance } = createFakeClock();
+  const scheduled: { index: number; when: number }[] = [];
+  const positions: number[] = [];
+  let ended = 0;
+  const scheduler = createScoreScheduler({
+    clock,
+    timeline: buildTimeline(durations),
+    unitSeconds: 0.25,
+    onSchedule: (event: TimelineEvent, when: number) => scheduled.push({ index: event.index, when }),
+    onPosition: (event) => positions.push(event.index),
+    onEnd: () => {
+      ended += 1;
+    }
+  });
+  return { scheduler, advance, scheduled, positions, getEnded: () => ended };
+};
+
+describe('createScoreScheduler', () => {
+  it('按时间线排程每个事件，播放到结尾时结束一次', () => {
+    const { scheduler, advance, scheduled, positions, getEnded } = setup();
+    scheduler.start();
+    advance(5);
+    expect(scheduled.map(({ index }) => index)).toEqual([0, 1, 2, 3]);
+    scheduled.forEach(({ when }, index) => expect(when).toBeCloseTo(index));
+    expect(positions).toEqual([0, 1, 2, 3]);
+    expect(getEnded()).toBe(1);
+    expect(scheduler.isRunning()).toBe(false);
+  });
+
+  it('只提前 lookahead 排程', () => {
+    const { scheduler, advance, scheduled } = setup();
+    scheduler.start();
+    expect(scheduled.map(({ index }) => index)).toEqual([0]);
+    advance(0.95);
+    expect(scheduled.map(({ index }) => index)).toEqual([0, 1]);
+  });
+
+  it('从指定事件开始（跳转）', () => {
+    const { scheduler, advance, scheduled } = setup();
+    scheduler.start(2, 0.5);
+    advance(3);
+    expect(scheduled.map(({ index }) => index)).toEqual([2, 3]);
+    expect(scheduled[0].when).toBeCloseTo(0.5);
+    expect(scheduled[1].when).toBeCloseTo(1.5);
+  });
+
+  it('A–B 循环在 B 之后回到 A，且不结束', () => {
+    const { scheduler, advance, scheduled, getEnded } = setup();
+    expect(scheduler.setLoop({ start: 2, end: 1 })).toEqual({ start: 1, end: 2 });
+    scheduler.start();
+    advance(6);
+    expect(scheduled.map(({ index }) => index).slice(0, 7)).toEqual([0, 1, 2, 1, 2, 1, 2]);
+    scheduled.slice(0, 7).forEach(({ when }, index) => expect(when).toBeCloseTo(index));
+    expect(getEnded()).toBe(0);
+  });
+
+  it('变速以当前时刻为锚点换算之后的事件', () => {
+    const { scheduler, advance, scheduled } = setup();
+    scheduler.start();
+    advance(0.5);
+    scheduler.setUnitSeconds(0.125);
+    advance(2);
+    // 已播放 2 个单位，剩余 2 个单位按新速度只需 0.25 秒
+    expect(scheduled[1].when).toBeCloseTo(0.75);
+    expect(scheduled[2].when).toBeCloseTo(1.25);
+    expect(scheduler.getTransport().unitSeconds).toBe(0.125);
+  });
+
+  it('停止后不再排程', () => {
+    const { scheduler, advance, scheduled } = setup();
+    scheduler.start();
+    scheduler.stop();
+    advance(3);
+    expect(scheduled.map(({ index }) => index)).toEqual([0]);
+  });
+});
+
+describe('timeline helpers', () => {
+  const timeline = buildTimeline([4, 0, 8, 4]);
+
+  it('findEventAt 找到包含位置的事件', () => {
+    expect(findEventAt(timeline, 0)).toBe(0);
+    expect(findEventAt(timeline, 4)).toBe(2);
+    expect(findEventAt(timeline, 11.5)).toBe(2);
+    expect(findEventAt(timeline, 16)).toBe(4);
+  });
+
+  it('normalizeLoop 限制在时间线内，零长度的区间无效', () => {
+    expect(normalizeLoop(timeline, { start: -3, end: 9 })).toEqual({ start: 0, end: 3 });
+    expect(normalizeLoop(timeline, { start: 1, end: 1 })).toBeNull();
+    expect(normalizeLoop(timeline, null)).toBeNull();
+  });
+});
@@ -0,0 +1,222 @@
+// 乐谱调度器：以 AudioContext 时钟为准，提前（lookahead）把音符排进音频时间线，
+// 避免 setTimeout 链式调度带来的累积漂移与后台标签页卡顿。
+
+// 16 个单位 = 1 拍（四分音符）
+export const UNITS_PER_BEAT = 16;
+export const DEFAULT_BPM = 120;
+export const MIN_BPM = 30;
+export const MAX_BPM = 240;
+
+export const getUnitSeconds = (bpm: number) => 60 / bpm / UNITS_PER_BEAT;
+
+export interface SchedulerClock {
+  /** 当前音频时钟（秒），通常为 AudioContext.currentTime */
+  now: () => number;
+  setInterval: (callback: () => void, ms: number) => number;
+  clearInterval: (id: number) => void;
+}
+
+export const createAudioClock = (getTime: () => number): SchedulerClock => ({
+  now: getTime,
+  setInterval: (callback, ms) => window.setInterval(callback, ms),
+  clearInterval: (id) => window.clearInterval(id)
+});
+
+export type TimelineEvent = {
+  index: number; // 在乐谱中的位置
+  start: number; // 起始位置（单位）
+  length: number; // 时值（单位）
+};
+
+export type Timeline = {
+  events: TimelineEvent[];
+  totalUnits: number;
+};
+
+/** A–B 循环区间（按音符索引，均包含） */
+export type LoopRange = {
+  start: number;
+  end: number;
+};
+
+export const buildTimeline = (durations: number[]): Timeline => {
+  const events: TimelineEvent[] = [];
+  let cursor = 0;
+  durations.forEach((length, index) => {
+    const safeLength = Number.isFinite(length) && length > 0 ? length : 0;
+    events.push({ index, start: cursor, length: safeLength });
+    cursor += safeLength;
+  });
+  return { events, totalUnits: cursor };
+};
+
+/** 找到包含指定位置（单位）的事件索引，超出末尾时返回事件总数 */
+export const findEventAt = ({ events, totalUnits }: Timeline, units: number) => {
+  if (units >= totalUnits) {
+    return events.length;
+  }
+  let low = 0;
+  let high = events.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (events[mid].start <= units) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return Math.max(0, low);
+};
+
+/** 把循环区间限制在时间线内并按先后排序；区间为空或总时长为 0 时返回 null */
+export const normalizeLoop = ({ events, totalUnits }: Timeline, range: LoopRange | null): LoopRange | null => {
+  if (!range) {
+    return null;
+  }
+  const unitsAt = (index: number) => (index < events.length ? events[index].start : totalUnits);
+  const start = Math.max(0, Math.min(range.start, range.end));
+  const end = Math.min(events.length - 1, Math.max(range.start, range.end));
+  return end >= start && unitsAt(end + 1) > unitsAt(start) ? { start, end } : null;
+};
+
+interface ScoreSchedulerOptions {
+  clock: SchedulerClock;
+  timeline: Timeline;
+  unitSeconds: number;
+  /** 音符进入 lookahead 窗口时回调，when 为应发声的音频时间 */
+  onSchedule: (event: TimelineEvent, when: number) => void;
+  /** 音频时钟越过某个事件起点时回调（用于高亮） */
+  onPosition?: (event: TimelineEvent) => void;
+  onEnd?: () => void;
+  lookahead?: number; // 秒
+  interval?: number; // 毫秒
+}
+
+type ScheduledEvent = {
+  event: TimelineEvent;
+  when: number;
+};
+
+export type ScoreScheduler = ReturnType<typeof createScoreScheduler>;
+
+export const createScoreScheduler = ({
+  clock,
+  timeline,
+  unitSeconds: initialUnitSeconds,
+  onSchedule,
+  onPosition,
+  onEnd,
+  lookahead: initialLookahead = 0.1,
+  interval = 25
+}: ScoreSchedulerOptions) => {
+  const { events, totalUnits } = timeline;
+  let lookahead = initialLookahead;
+  let unitSeconds = initialUnitSeconds;
+  let loop: LoopRange | null = null;
+  let timerId: number | null = null;
+  let startTime = 0; // 当前排程轮次中第 0 个单位对应的音频时间
+  let nextToSchedule = 0;
+  // 已排程但尚未到达的事件，按时间顺序排列；到达后成为 current
+  let pending: ScheduledEvent[] = [];
+  let current: ScheduledEvent | null = null;
+
+  const timeOf = (units: number) => startTime + units * unitSeconds;
+
+  const unitsAt = (index: number) => (index < events.length ? events[index].start : totalUnits);
+
+  const wrapLoopIfNeeded = () => {
+    if (!loop || nextToSchedule <= loop.end) {
+      return;
+    }
+    // 下一个音本应开始的时刻即为回到 A 点的时刻
+    const wrapTime = timeOf(unitsAt(nextToSchedule));
+    startTime = wrapTime - events[loop.start].start * unitSeconds;
+    nextToSchedule = loop.start;
+  };
+
+  const tick = () => {
+    const now = clock.now();
+    const horizon = now + lookahead;
+
+    wrapLoopIfNeeded();
+    while (nextToSchedule < events.length && timeOf(events[nextToSchedule].start) < horizon) {
+      const event = events[nextToSchedule];
+      const when = Math.max(now, timeOf(event.start));
+      pending.push({ event, when });
+      onSchedule(event, when);
+      nextToSchedule += 1;
+      wrapLoopIfNeeded();
+    }
+
+    let reached: ScheduledEvent | null = null;
+    while (pending.length > 0 && pending[0].when <= now) {
+      reached = pending.shift()!;
+    }
+    if (reached) {
+      current = reached;
+      onPosition?.(reached.event);
+    }
+
+    if (nextToSchedule >= events.length && pending.length === 0 && now >= timeOf(totalUnits)) {
+      stop();
+      onEnd?.();
+    }
+  };
+
+  const stop = () => {
+    if (timerId !== null) {
+      clock.clearInterval(timerId);
+      timerId = null;
+    }
+  };
+
+  const start = (fromIndex = 0, at = clock.now()) => {
+    stop();
+    const from = Math.min(Math.max(0, fromIndex), events.length);
+    startTime = at - unitsAt(from) * unitSeconds;
+    nextToSchedule = from;
+    pending = [];
+    current = null;
+    timerId = clock.setInterval(tick, interval);
+    tick();
+  };
+
+  /** 当前播放位置（单位），以正在发声的音符为基准，不受循环回绕影响 */
+  const getPosition = () => {
+    if (!current) {
+      return pending.length > 0 ? pending[0].event.start : unitsAt(nextToSchedule);
+    }
+    const elapsed = (clock.now() - current.when) / unitSeconds;
+    return current.event.start + Math.min(current.event.length, Math.max(0, elapsed));
+  };
+
+  /** 实时变速：以当前时刻为锚点重新换算尚未排程音符的时间 */
+  const setUnitSeconds = (seconds: number) => {
+    const now = clock.now();
+    const units = (now - startTime) / unitSeconds;
+    unitSeconds = seconds;
+    startTime = now - units * unitSeconds;
+  };
+
+  /** 返回实际生效的循环区间 */
+  const setLoop = (range: LoopRange | null) => {
+    loop = normalizeLoop(timeline, range);
+    return loop;
+  };
+
+  return {
+    start,
+    stop,
+    tick,
+    getPosition,
+    getCurrentIndex: () => current?.event.index ?? pending[0]?.event.index ?? Math.min(nextToSchedule, events.length - 1),
+    setUnitSeconds,
+    /** 第 0 个单位对应的音频时间与每单位秒数，节拍器据此对齐拍点 */
+    getTransport: () => ({ origin: startTime, unitSeconds }),
+    setLoop,
+    setLookahead: (seconds: number) => {
+      lookahead = seconds;
+    },
+    isRunning: () => timerId !== null
+  };
+};
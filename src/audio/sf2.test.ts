@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { fixedString, packFields, riffChunk, riffFile, riffList } from '../test/builders';
+import { parseSf2 } from './sf2';
+
+type Field = Parameters<typeof packFields>[0][number];
+
+const concatFields = (rows: Field[][]) => packFields(rows.flat());
+
+const pcm = new Int16Array([0, 8192, 16384, -16384, 32767, -32768, 4096, 0]);
+
+const presetHeader = (name: string, program: number, bagIndex: number) =>
+  new Uint8Array([
+    ...fixedString(name, 20),
+    ...packFields([
+      ['Uint16', program],
+      ['Uint16', 0],
+      ['Uint16', bagIndex],
+      ['Uint32', 0],
+      ['Uint32', 0],
+      ['Uint32', 0]
+    ])
+  ]);
+
+const instrumentHeader = (name: string, bagIndex: number) =>
+  new Uint8Array([...fixedString(name, 20), ...packFields([['Uint16', bagIndex]])]);
+
+const sampleHeader = (name: string, sampleType: number) =>
+  new Uint8Array([
+    ...fixedString(name, 20),
+    ...packFields([
+      ['Uint32', 0],
+      ['Uint32', pcm.length],
+      ['Uint32', 2],
+      ['Uint32', 6],
+      ['Uint32', 22050],
+      ['Uint8', 72],
+      ['Int8', -5],
+      ['Uint16', 0],
+      ['Uint16', sampleType]
+    ])
+  ]);
+
+const generator = (oper: number, amount: number): Field[] => [
+  ['Uint16', oper],
+  ['Int16', amount]
+];
+
+const range = (low: number, high: number) => low | (high << 8);
+
+/** 一个预设 → 一个乐器（全局 zone + 一个采样 zone）→ 一个采样 */
+const buildSf2 = ({ sampleType = 1, includePdta = true } = {}) =>
+  riffFile('sfbk', [
+    riffList('INFO', [riffChunk('ifil', packFields([['Uint16', 2], ['Uint16', 1]]))]),
+    riffList('sdta', [riffChunk('smpl', new Uint8Array(pcm.buffer))]),
+    ...(includePdta
+      ? [
+          riffList('pdta', [
+            riffChunk('phdr', new Uint8Array([...presetHeader('Kalimba', 108, 0), ...presetHeader('EOP', 0, 1)])),
+            riffChunk('pbag', concatFields([[['Uint16', 0], ['Uint16', 0]], [['Uint16', 3], ['Uint16', 0]]])),
+            riffChunk('pmod', new Uint8Array(10)),
+            riffChunk(
+              'pgen',
+              concatFields([generator(43, range(48, 72)), generator(48, 60), generator(41, 0), generator(0, 0)])
+            ),
+            riffChunk('inst', new Uint8Array([...instrumentHeader('Tine', 0), ...instrumentHeader('EOI', 2)])),
+            riffChunk(
+              'ibag',
+              concatFields([
+                [['Uint16', 0], ['Uint16', 0]],
+                [['Uint16', 1], ['Uint16', 0]],
+                [['Uint16', 4], ['Uint16', 0]]
+              ])
+            ),
+            riffChunk('imod', new Uint8Array(10)),
+            riffChunk(
+              'igen',
+              concatFields([
+                generator(38, -1200),
+                generator(43, range(60, 84)),
+                generator(54, 1),
+                generator(53, 0),
+                generator(0, 0)
+              ])
+            ),
+            riffChunk('shdr', new Uint8Array([...sampleHeader('Tine C5', sampleType), ...sampleHeader('EOS', 0)]))
+          ])
+        ]
+      : [])
+  ]);
+
+describe('parseSf2', () => {
+  it('合并预设与乐器的生成器，得到采样区', () => {
+    const bank = parseSf2(buildSf2(), 'kalimba.sf2');
+    expect(bank.name).toBe('kalimba.sf2');
+    expect(bank.warnings).toEqual([]);
+    expect(bank.instruments).toHaveLength(1);
+
+    const [instrument] = bank.instruments;
+    expect(instrument.name).toBe('000:108 Kalimba');
+    expect(instrument.zones).toHaveLength(1);
+    const [zone] = instrument.zones;
+    // 音域取预设与乐器的交集，衰减来自预设层，释放时间来自乐器的全局 zone
+    expect(zone).toMatchObject({
+      keyLow: 60,
+      keyHigh: 72,
+      velLow: 0,
+      velHigh: 127,
+      rootKey: 72,
+      tune: -5,
+      start: 0,
+      loop: { start: 2, end: 6 },
+      pan: 0,
+      release: 0.5
+    });
+    expect(zone.gain).toBeCloseTo(10 ** -0.3);
+    expect(zone.sample.name).toBe('Tine C5');
+    expect(zone.sample.sampleRate).toBe(22050);
+    expect([...zone.sample.data]).toEqual([...pcm].map((value) => value / 32768));
+  });
+
+  it('跳过 ROM 采样并给出提示', () => {
+    const bank = parseSf2(buildSf2({ sampleType: 0x8001 }), 'rom.sf2');
+    expect(bank.instruments[0].zones).toEqual([]);
+    expect(bank.warnings).toEqual(['跳过 ROM 采样「Tine C5」']);
+  });
+
+  it('拒绝不完整的文件', () => {
+    expect(() => parseSf2(buildSf2({ includePdta: false }), 'broken.sf2')).toThrow('SoundFont 文件缺少 sdta 或 pdta 列表');
+    expect(() => parseSf2(riffFile('WAVE', []), 'sound.wav')).toThrow('不是有效的 SoundFont 文件');
+  });
+});
@@ -0,0 +1,239 @@
+// SoundFont 2 解析：读取 pdta 中的预设 / 乐器层级，把生成器合并为采样器可用的采样区。
+// 只处理音域、力度、调音、循环、衰减、声像与释放时间，调制器与滤波等其余生成器忽略。
+import { readChunks, readFixedString, readRiff, type RiffChunk } from './riff';
+import type { SamplerBank, SamplerInstrument, SamplerSample, SamplerZone } from './sampler';
+
+// 生成器编号（SF2 规范 8.1.2）
+const GEN = {
+  startAddrsOffset: 0,
+  endAddrsOffset: 1,
+  startloopAddrsOffset: 2,
+  endloopAddrsOffset: 3,
+  startAddrsCoarseOffset: 4,
+  endAddrsCoarseOffset: 12,
+  pan: 17,
+  releaseVolEnv: 38,
+  instrument: 41,
+  keyRange: 43,
+  velRange: 44,
+  startloopAddrsCoarseOffset: 45,
+  initialAttenuation: 48,
+  endloopAddrsCoarseOffset: 50,
+  coarseTune: 51,
+  fineTune: 52,
+  sampleID: 53,
+  sampleModes: 54,
+  overridingRootKey: 58
+} as const;
+
+const ROM_SAMPLE_FLAG = 0x8000;
+
+type Generators = Map<number, number>;
+
+type Range = { low: number; high: number };
+
+type SampleHeader = {
+  name: string;
+  start: number;
+  end: number;
+  startLoop: number;
+  endLoop: number;
+  sampleRate: number;
+  originalPitch: number;
+  pitchCorrection: number;
+  sampleType: number;
+};
+
+const getRange = (gens: Generators, id: number): Range => {
+  const amount = gens.get(id);
+  if (amount === undefined) {
+    return { low: 0, high: 127 };
+  }
+  // 范围类生成器的两个字节分别是下限与上限
+  return { low: amount & 0xff, high: (amount >> 8) & 0xff };
+};
+
+const intersect = (a: Range, b: Range): Range => ({
+  low: Math.max(a.low, b.low),
+  high: Math.min(a.high, b.high)
+});
+
+const requireChunk = (chunks: RiffChunk[], id: string) => {
+  const chunk = chunks.find((item) => item.id === id);
+  if (!chunk) {
+    throw new Error(`SoundFont 文件缺少 ${id} 块`);
+  }
+  return chunk;
+};
+
+/** 按 bag 读取每个 zone 的生成器列表 */
+const readZones = (view: DataView, bagChunk: RiffChunk, genChunk: RiffChunk, bagStart: number, bagEnd: number) => {
+  const zones: Generators[] = [];
+  for (let bag = bagStart; bag < bagEnd; bag += 1) {
+    const genStart = view.getUint16(bagChunk.offset + bag * 4, true);
+    const genEnd = view.getUint16(bagChunk.offset + (bag + 1) * 4, true);
+    const gens: Generators = new Map();
+    for (let gen = genStart; gen < genEnd; gen += 1) {
+      const offset = genChunk.offset + gen * 4;
+      const oper = view.getUint16(offset, true);
+      // 范围类生成器按无符号读取，其余按有符号
+      const amount =
+        oper === GEN.keyRange || oper === GEN.velRange || oper === GEN.instrument || oper === GEN.sampleID
+          ? view.getUint16(offset + 2, true)
+          : view.getInt16(offset + 2, true);
+      gens.set(oper, amount);
+    }
+    zones.push(gens);
+  }
+  return zones;
+};
+
+/** 第一个缺少终止生成器（instrument / sampleID）的 zone 是全局 zone */
+const splitGlobalZone = (zones: Generators[], terminator: number) => {
+  if (zones.length > 0 && !zones[0].has(terminator)) {
+    return { global: zones[0], zones: zones.slice(1).filter((zone) => zone.has(terminator)) };
+  }
+  return { global: new Map() as Generators, zones: zones.filter((zone) => zone.has(terminator)) };
+};
+
+const merged = (global: Generators, local: Generators) => new Map([...global, ...local]);
+
+const timecentsToSeconds = (value: number | undefined) => (value === undefined ? 0 : 2 ** (value / 1200));
+
+export const parseSf2 = (buffer: ArrayBuffer, fileName: string): SamplerBank => {
+  const { view, chunks } = readRiff(buffer, 'sfbk');
+  const sdta = chunks.find((chunk) => chunk.listType === 'sdta');
+  const pdta = chunks.find((chunk) => chunk.listType === 'pdta');
+  if (!sdta || !pdta) {
+    throw new Error('SoundFont 文件缺少 sdta 或 pdta 列表');
+  }
+  const smpl = requireChunk(readChunks(view, sdta.offset + 4, sdta.offset + sdta.size), 'smpl');
+  const pdtaChunks = readChunks(view, pdta.offset + 4, pdta.offset + pdta.size);
+  const phdr = requireChunk(pdtaChunks, 'phdr');
+  const pbag = requireChunk(pdtaChunks, 'pbag');
+  const pgen = requireChunk(pdtaChunks, 'pgen');
+  const inst = requireChunk(pdtaChunks, 'inst');
+  const ibag = requireChunk(pdtaChunks, 'ibag');
+  const igen = requireChunk(pdtaChunks, 'igen');
+  const shdr = requireChunk(pdtaChunks, 'shdr');
+
+  const warnings: string[] = [];
+  const sampleCount = smpl.size / 2;
+
+  const headers: SampleHeader[] = [];
+  for (let i = 0; i < shdr.size / 46 - 1; i += 1) {
+    const offset = shdr.offset + i * 46;
+    headers.push({
+      name: readFixedString(view, offset, 20),
+      start: view.getUint32(offset + 20, true),
+      end: view.getUint32(offset + 24, true),
+      startLoop: view.getUint32(offset + 28, true),
+      endLoop: view.getUint32(offset + 32, true),
+      sampleRate: view.getUint32(offset + 36, true),
+      originalPitch: view.getUint8(offset + 40),
+      pitchCorrection: view.getInt8(offset + 41),
+      sampleType: view.getUint16(offset + 44, true)
+    });
+  }
+
+  // 同一采样可能被多个 zone 引用，共用一份数据
+  const samples = new Map<number, SamplerSample>();
+  const getSample = (index: number) => {
+    let sample = samples.get(index);
+    if (!sample) {
+      const header = headers[index];
+      const end = Math.min(header.end, sampleCount);
+      const data = new Float32Array(Math.max(0, end - header.start));
+      for (let i = 0; i < data.length; i += 1) {
+        data[i] = view.getInt16(smpl.offset + (header.start + i) * 2, true) / 32768;
+      }
+      sample = { name: header.name, data, sampleRate: header.sampleRate };
+      samples.set(index, sample);
+    }
+    return sample;
+  };
+
+  const instrumentCount = inst.size / 22 - 1;
+  const instrumentZones = Array.from({ length: instrumentCount }, (_, i) => {
+    const bagStart = view.getUint16(inst.offset + i * 22 + 20, true);
+    const bagEnd = view.getUint16(inst.offset + (i + 1) * 22 + 20, true);
+    return splitGlobalZone(readZones(view, ibag, igen, bagStart, bagEnd), GEN.sampleID);
+  });
+
+  const buildZone = (instGens: Generators, presetGens: Generators): SamplerZone | null => {
+    const keys = intersect(getRange(instGens, GEN.keyRange), getRange(presetGens, GEN.keyRange));
+    const velocities = intersect(getRange(instGens, GEN.velRange), getRange(presetGens, GEN.velRange));
+    const header = headers[instGens.get(GEN.sampleID)!];
+    if (!header || keys.low > keys.high || velocities.low > velocities.high) {
+      return null;
+    }
+    if (header.sampleType & ROM_SAMPLE_FLAG) {
+      warnings.push(`跳过 ROM 采样「${header.name}」`);
+      return null;
+    }
+
+    // 采样区偏移：instrument 层为绝对值，preset 层为增量
+    const sum = (id: number) => (instGens.get(id) ?? 0) + (presetGens.get(id) ?? 0);
+    const offset = (fine: number, coarse: number) => sum(fine) + sum(coarse) * 32768;
+    const sample = getSample(instGens.get(GEN.sampleID)!);
+    const start = Math.max(0, offset(GEN.startAddrsOffset, GEN.startAddrsCoarseOffset));
+    const loopStart = header.startLoop - header.start + offset(GEN.startloopAddrsOffset, GEN.startloopAddrsCoarseOffset);
+    const loopEnd = header.endLoop - header.start + offset(GEN.endloopAddrsOffset, GEN.endloopAddrsCoarseOffset);
+    const sampleMode = instGens.get(GEN.sampleModes) ?? 0;
+    const hasLoop = (sampleMode === 1 || sampleMode === 3) && loopEnd > loopStart && loopEnd <= sample.data.length;
+
+    const overridingRootKey = instGens.get(GEN.overridingRootKey);
+    const rootKey =
+      overridingRootKey !== undefined && overridingRootKey >= 0
+        ? overridingRootKey
+        : header.originalPitch <= 127
+          ? header.originalPitch
+          : 60;
+
+    return {
+      keyLow: keys.low,
+      keyHigh: keys.high,
+      velLow: velocities.low,
+      velHigh: velocities.high,
+      rootKey,
+      tune: sum(GEN.coarseTune) * 100 + sum(GEN.fineTune) + header.pitchCorrection,
+      sample,
+      start: Math.min(start, sample.data.length),
+      loop: hasLoop ? { start: Math.max(0, loopStart), end: loopEnd } : null,
+      gain: 10 ** (-Math.max(0, sum(GEN.initialAttenuation)) / 200), // 厘贝
+      pan: Math.min(1, Math.max(-1, sum(GEN.pan) / 500)),
+      release: Math.min(5, timecentsToSeconds(instGens.get(GEN.releaseVolEnv) ?? presetGens.get(GEN.releaseVolEnv)))
+    };
+  };
+
+  const instruments: SamplerInstrument[] = [];
+  const presetCount = phdr.size / 38 - 1;
+  for (let i = 0; i < presetCount; i += 1) {
+    const offset = phdr.offset + i * 38;
+    const name = readFixedString(view, offset, 20);
+    const program = view.getUint16(offset + 20, true);
+    const bank = view.getUint16(offset + 22, true);
+    const bagStart = view.getUint16(offset + 24, true);
+    const bagEnd = view.getUint16(offset + 38 + 24, true);
+    const preset = splitGlobalZone(readZones(view, pbag, pgen, bagStart, bagEnd), GEN.instrument);
+
+    const zones: SamplerZone[] = [];
+    preset.zones.forEach((presetZone) => {
+      const presetGens = merged(preset.global, presetZone);
+      const instrument = instrumentZones[presetGens.get(GEN.instrument)!];
+      instrument?.zones.forEach((instZone) => {
+        const zone = buildZone(merged(instrument.global, instZone), presetGens);
+        if (zone) {
+          zones.push(zone);
+        }
+      });
+    });
+    instruments.push({ name: `${String(bank).padStart(3, '0')}:${String(program).padStart(3, '0')} ${name}`, zones });
+  }
+
+  instruments.sort((a, b) => a.name.localeCompare(b.name));
+  if (instruments.length === 0) {
+    warnings.push(`「${fileName}」中没有预设`);
+  }
+  return { name: fileName, instruments, warnings };
+};
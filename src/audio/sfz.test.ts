@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { parseSfz, type SfzSampleLoader } from './sfz';
+import type { WavData } from './wav';
+
+const tine: WavData = {
+  sampleRate: 44100,
+  channels: [new Float32Array([0, 0.5, 1, 0.5, 0, -0.5]), new Float32Array([0, 0.5, 0, -0.5, 0, 0.5])],
+  loop: { start: 1, end: 5 }
+};
+
+const source = `
+// 拇指琴音色
+#define $RELEASE 0.8
+<control> default_path=samples/ note_offset=12
+<global> ampeg_release=$RELEASE volume=-6
+<group> lovel=1 hivel=100
+<region> sample=tine c4.wav lokey=b3 hikey=d4 pitch_keycenter=c4 tune=-10 /* 中音 */
+<region> sample=tine c4.wav key=72 loop_mode=no_loop pan=-50 amplitude=50
+<group>
+<region> sample=missing.wav key=60
+<region> sample=*sine key=61
+`;
+
+describe('parseSfz', () => {
+  it('按层级继承 opcode，并按路径读取采样', async () => {
+    const requested: string[] = [];
+    const loadSample: SfzSampleLoader = async (path) => {
+      requested.push(path);
+      return path === 'samples/tine c4.wav' ? { name: 'tine c4.wav', wav: tine } : null;
+    };
+    const bank = await parseSfz(source, 'kalimba.sfz', loadSample);
+
+    // 同一路径只读取一次
+    expect(requested).toEqual(['samples/tine c4.wav', 'samples/missing.wav']);
+    expect(bank.warnings).toEqual([
+      '第 11 行：不支持内置波形 *sine',
+      '「kalimba.sfz」缺少 1 个采样文件：samples/missing.wav'
+    ]);
+
+    const [zones] = bank.instruments.map((instrument) => instrument.zones);
+    expect(zones).toHaveLength(2);
+    // note_offset 作用于全部音高；自带循环点的采样默认循环
+    expect(zones[0]).toMatchObject({
+      keyLow: 71,
+      keyHigh: 74,
+      velLow: 1,
+      velHigh: 100,
+      rootKey: 72,
+      tune: -10,
+      loop: { start: 1, end: 5 },
+      pan: 0,
+      release: 0.8
+    });
+    expect(zones[0].gain).toBeCloseTo(10 ** (-6 / 20));
+    expect([...zones[0].sample.data]).toEqual([0, 0.5, 0.5, 0, 0, 0]);
+
+    expect(zones[1]).toMatchObject({ keyLow: 84, keyHigh: 84, rootKey: 84, loop: null, pan: -0.5 });
+    expect(zones[1].gain).toBeCloseTo(10 ** (-6 / 20) * 0.5);
+    expect(zones[1].sample).toBe(zones[0].sample);
+  });
+});
@@ -0,0 +1,176 @@
+// SFZ 解析：支持 <control>/<global>/<master>/<group>/<region> 层级继承与 #define，
+// 采样通过回调按路径读取（浏览器中来自用户选择的本地文件）。
+import { noteToMidi } from '../score/pitch';
+import type { SamplerBank, SamplerSample, SamplerZone } from './sampler';
+import { mixToMono, type WavData } from './wav';
+
+type Opcodes = Record<string, string>;
+
+export type SfzSampleLoader = (path: string) => Promise<{ name: string; wav: WavData } | null>;
+
+const HEADER_PATTERN = /<(\w+)>/g;
+const OPCODE_PATTERN = /(\w+)=/g;
+
+const stripComments = (text: string) => text.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/.*$/gm, '');
+
+/** SFZ 音高可写作数字或音名（c4 = 60，c#4 / db4 亦可） */
+const parseKey = (value: string | undefined) => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (Number.isFinite(number)) {
+    return number;
+  }
+  const midi = noteToMidi(value.charAt(0).toUpperCase() + value.slice(1));
+  return midi ?? undefined;
+};
+
+const parseNumber = (value: string | undefined) => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+/** 把一行拆成 opcode，取值可以包含空格（如采样路径），直到下一个 opcode 为止 */
+const parseOpcodes = (line: string, target: Opcodes) => {
+  const matches = [...line.matchAll(OPCODE_PATTERN)];
+  matches.forEach((match, index) => {
+    const valueStart = match.index! + match[0].length;
+    const valueEnd = index + 1 < matches.length ? matches[index + 1].index! : line.length;
+    target[match[1]] = line.slice(valueStart, valueEnd).trim();
+  });
+};
+
+type RawRegion = { opcodes: Opcodes; line: number };
+
+const collectRegions = (source: string) => {
+  const defines = new Map<string, string>();
+  const control: Opcodes = {};
+  const regions: RawRegion[] = [];
+  let global: Opcodes = {};
+  let master: Opcodes = {};
+  let group: Opcodes = {};
+  let current: Opcodes | null = null;
+  let header = '';
+
+  stripComments(source)
+    .split(/\r?\n/)
+    .forEach((rawLine, lineIndex) => {
+      const define = /^\s*#define\s+(\$\w+)\s+(.+?)\s*$/.exec(rawLine);
+      if (define) {
+        defines.set(define[1], define[2]);
+        return;
+      }
+      if (/^\s*#include/.test(rawLine)) {
+        return; // 不支持 #include，相关采样会在缺失列表中体现
+      }
+      const line = rawLine.replace(/\$\w+/g, (name) => defines.get(name) ?? name);
+      // 一行中可能有多个头部，逐段处理
+      const parts = line.split(HEADER_PATTERN);
+      parts.forEach((part, index) => {
+        if (index % 2 === 1) {
+          header = part;
+          if (header === 'region') {
+            current = { ...global, ...master, ...group };
+            regions.push({ opcodes: current, line: lineIndex + 1 });
+          } else if (header === 'group') {
+            group = {};
+            current = group;
+          } else if (header === 'master') {
+            master = {};
+            group = {};
+            current = master;
+          } else if (header === 'global') {
+            global = {};
+            master = {};
+            group = {};
+            current = global;
+          } else if (header === 'control') {
+            current = control;
+          } else {
+            current = null; // <curve>、<effect> 等与采样无关
+          }
+          return;
+        }
+        if (current && part.trim()) {
+          parseOpcodes(part, current);
+        }
+      });
+    });
+
+  return { control, regions };
+};
+
+const decibelsToGain = (db: number) => 10 ** (db / 20);
+
+export const parseSfz = async (source: string, fileName: string, loadSample: SfzSampleLoader): Promise<SamplerBank> => {
+  const { control, regions } = collectRegions(source);
+  const warnings: string[] = [];
+  const missing = new Set<string>();
+  const samples = new Map<string, { sample: SamplerSample; wav: WavData } | null>();
+  const defaultPath = control.default_path ?? '';
+  const noteOffset = (parseNumber(control.note_offset) ?? 0) + (parseNumber(control.octave_offset) ?? 0) * 12;
+  const zones: SamplerZone[] = [];
+
+  for (const { opcodes, line } of regions) {
+    if (!opcodes.sample) {
+      continue;
+    }
+    if (opcodes.sample.startsWith('*')) {
+      warnings.push(`第 ${line} 行：不支持内置波形 ${opcodes.sample}`);
+      continue;
+    }
+    const path = `${defaultPath}${opcodes.sample}`;
+    if (!samples.has(path)) {
+      const loaded = await loadSample(path);
+      samples.set(
+        path,
+        loaded && { sample: { name: loaded.name, data: mixToMono(loaded.wav.channels), sampleRate: loaded.wav.sampleRate }, wav: loaded.wav }
+      );
+    }
+    const entry = samples.get(path);
+    if (!entry) {
+      missing.add(path);
+      continue;
+    }
+
+    const key = parseKey(opcodes.key);
+    const keyLow = (parseKey(opcodes.lokey) ?? key ?? 0) + noteOffset;
+    const keyHigh = (parseKey(opcodes.hikey) ?? key ?? 127) + noteOffset;
+    const rootKey = (parseKey(opcodes.pitch_keycenter) ?? key ?? 60) + noteOffset;
+
+    // 未指定 loop_mode 时，采样自带循环点即循环播放
+    const loopMode = opcodes.loop_mode ?? opcodes.loopmode ?? (entry.wav.loop ? 'loop_continuous' : 'no_loop');
+    const loopStart = parseNumber(opcodes.loop_start ?? opcodes.loopstart) ?? entry.wav.loop?.start;
+    const loopEnd = parseNumber(opcodes.loop_end ?? opcodes.loopend) ?? entry.wav.loop?.end;
+    const isLooping =
+      (loopMode === 'loop_continuous' || loopMode === 'loop_sustain') &&
+      loopStart !== undefined &&
+      loopEnd !== undefined &&
+      loopEnd > loopStart;
+
+    const amplitude = (parseNumber(opcodes.amplitude) ?? 100) / 100;
+    zones.push({
+      keyLow,
+      keyHigh,
+      velLow: parseNumber(opcodes.lovel) ?? 1,
+      velHigh: parseNumber(opcodes.hivel) ?? 127,
+      rootKey,
+      tune: (parseNumber(opcodes.tune) ?? 0) + (parseNumber(opcodes.transpose) ?? 0) * 100,
+      sample: entry.sample,
+      start: Math.min(parseNumber(opcodes.offset) ?? 0, entry.sample.data.length),
+      loop: isLooping ? { start: loopStart!, end: Math.min(loopEnd!, entry.sample.data.length) } : null,
+      gain: decibelsToGain(parseNumber(opcodes.volume) ?? 0) * amplitude,
+      pan: Math.min(1, Math.max(-1, (parseNumber(opcodes.pan) ?? 0) / 100)),
+      release: parseNumber(opcodes.ampeg_release) ?? 0.1
+    });
+  }
+
+  if (missing.size > 0) {
+    warnings.push(`「${fileName}」缺少 ${missing.size} 个采样文件：${[...missing].slice(0, 5).join('、')}${missing.size > 5 ? ' 等' : ''}`);
+  }
+  return { name: fileName, instruments: [{ name: fileName, zones }], warnings };
+};
@@ -0,0 +1,156 @@
+// 滚动声谱图（瀑布图）的纯计算部分：配色表、频率轴映射与刻度、把一帧频谱换算成一列像素。
+// 绘制与环形缓冲在 hooks/useVisualizer.ts 中完成。
+import { midiToFrequency, midiToNote } from '../score/pitch';
+
+export type SpectrogramColorMap = 'viridis' | 'magma' | 'heat' | 'grayscale';
+export type FrequencyScale = 'log' | 'linear';
+
+export type SpectrogramSettings = {
+  colorMap: SpectrogramColorMap;
+  scale: FrequencyScale;
+  /** 映射到配色两端的分贝范围 */
+  minDecibels: number;
+  maxDecibels: number;
+};
+
+export const DEFAULT_SPECTROGRAM_SETTINGS: SpectrogramSettings = {
+  colorMap: 'magma',
+  scale: 'log',
+  minDecibels: -100,
+  maxDecibels: -20
+};
+
+/** 分贝范围滑块的上下限 */
+export const SPECTROGRAM_DECIBEL_RANGE = { min: -140, max: 0 };
+
+/** 对数轴的最低频率（Hz），线性轴从 0 开始 */
+export const MIN_LOG_FREQUENCY = 20;
+
+export const COLOR_MAP_LABELS: Record<SpectrogramColorMap, string> = {
+  viridis: 'Viridis',
+  magma: 'Magma',
+  heat: '热度',
+  grayscale: '灰度'
+};
+
+// 各配色的关键色（由弱到强），中间线性插值
+const COLOR_STOPS: Record<SpectrogramColorMap, [number, number, number][]> = {
+  viridis: [
+    [68, 1, 84],
+    [59, 82, 139],
+    [33, 145, 140],
+    [94, 201, 98],
+    [253, 231, 37]
+  ],
+  magma: [
+    [0, 0, 4],
+    [81, 18, 124],
+    [183, 55, 121],
+    [252, 137, 97],
+    [252, 253, 191]
+  ],
+  heat: [
+    [0, 0, 0],
+    [128, 0, 0],
+    [255, 64, 0],
+    [255, 200, 0],
+    [255, 255, 255]
+  ],
+  grayscale: [
+    [0, 0, 0],
+    [255, 255, 255]
+  ]
+};
+
+/** 256 级 RGBA 配色表 */
+export const createColorTable = (colorMap: SpectrogramColorMap) => {
+  const stops = COLOR_STOPS[colorMap];
+  const table = new Uint8ClampedArray(256 * 4);
+  for (let level = 0; level < 256; level += 1) {
+    const position = (level / 255) * (stops.length - 1);
+    const index = Math.min(stops.length - 2, Math.floor(position));
+    const fraction = position - index;
+    for (let channel = 0; channel < 3; channel += 1) {
+      const from = stops[index][channel];
+      table[level * 4 + channel] = from + (stops[index + 1][channel] - from) * fraction;
+    }
+    table[level * 4 + 3] = 255;
+  }
+  return table;
+};
+
+const getMinFrequency = (scale: FrequencyScale) => (scale === 'log' ? MIN_LOG_FREQUENCY : 0);
+
+/** 频率在轴上的位置：0 为底部（最低频率），1 为顶部（奈奎斯特频率） */
+export const frequencyToPosition = (frequency: number, scale: FrequencyScale, maxFrequency: number) => {
+  const minFrequency = getMinFrequency(scale);
+  if (scale === 'log') {
+    return Math.log(Math.max(frequency, minFrequency) / minFrequency) / Math.log(maxFrequency / minFrequency);
+  }
+  return frequency / maxFrequency;
+};
+
+export const positionToFrequency = (position: number, scale: FrequencyScale, maxFrequency: number) => {
+  const minFrequency = getMinFrequency(scale);
+  if (scale === 'log') {
+    return minFrequency * (maxFrequency / minFrequency) ** position;
+  }
+  return position * maxFrequency;
+};
+
+/** 每行像素（自上而下）对应的频谱 bin 序号（带小数，用于插值） */
+export const createRowBins = (height: number, binCount: number, sampleRate: number, scale: FrequencyScale) => {
+  const nyquist = sampleRate / 2;
+  return Float32Array.from({ length: height }, (_, row) => {
+    const frequency = positionToFrequency(1 - (row + 0.5) / height, scale, nyquist);
+    return Math.min(binCount - 1, (frequency / nyquist) * binCount);
+  });
+};
+
+/** 把一帧分贝频谱换算成一列 RGBA 像素，写入 column（长度为行数 × 4） */
+export const renderSpectrogramColumn = (
+  decibels: Float32Array,
+  rowBins: Float32Array,
+  settings: SpectrogramSettings,
+  colorTable: Uint8ClampedArray,
+  column: Uint8ClampedArray
+) => {
+  const range = Math.max(1, settings.maxDecibels - settings.minDecibels);
+  for (let row = 0; row < rowBins.length; row += 1) {
+    const bin = rowBins[row];
+    const index = Math.floor(bin);
+    const next = Math.min(decibels.length - 1, index + 1);
+    const value = decibels[index] + (decibels[next] - decibels[index]) * (bin - index);
+    // 静音时 AnalyserNode 给出 -Infinity
+    const level = Number.isFinite(value) ? Math.round(((value - settings.minDecibels) / range) * 255) : 0;
+    const color = Math.min(255, Math.max(0, level)) * 4;
+    column[row * 4] = colorTable[color];
+    column[row * 4 + 1] = colorTable[color + 1];
+    column[row * 4 + 2] = colorTable[color + 2];
+    column[row * 4 + 3] = 255;
+  }
+};
+
+export type FrequencyLabel = { frequency: number; label: string };
+
+const formatFrequency = (frequency: number) =>
+  frequency >= 1000 ? `${Number((frequency / 1000).toFixed(1))}k` : `${Math.round(frequency)}`;
+
+/** 频率轴刻度：对数轴标出每个八度的 C 音与频率，线性轴按整千赫兹 */
+export const getFrequencyLabels = (scale: FrequencyScale, maxFrequency: number): FrequencyLabel[] => {
+  if (scale === 'log') {
+    const labels: FrequencyLabel[] = [];
+    // C1（约 32.7 Hz）起每个八度一条
+    for (let midi = 24; midiToFrequency(midi) < maxFrequency; midi += 12) {
+      const frequency = midiToFrequency(midi);
+      labels.push({ frequency, label: `${midiToNote(midi)} ${formatFrequency(frequency)}` });
+    }
+    return labels;
+  }
+  const step = maxFrequency > 16000 ? 4000 : 2000;
+  const labels: FrequencyLabel[] = [];
+  for (let frequency = step; frequency < maxFrequency; frequency += step) {
+    labels.push({ frequency, label: `${frequency / 1000} kHz` });
+  }
+  return labels;
+};
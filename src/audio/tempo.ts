@@ -0,0 +1,13 @@
+// 变速变调的共享部分：url / file 音源使用同一个 AudioWorklet 模块。
+import timeStretchModuleUrl from './worklets/timeStretch.ts?worker&url';
+
+export {
+  MAX_PITCH_SHIFT,
+  MAX_PLAYBACK_RATE,
+  MIN_PLAYBACK_RATE,
+  PITCH_SHIFTER,
+  TIME_STRETCH_PLAYER
+} from './timeStretch';
+
+/** 变速变调的 AudioWorklet 模块（由 Vite 单独打包，地址相对站点根目录） */
+export const TIME_STRETCH_MODULE = timeStretchModuleUrl;
@@ -0,0 +1,239 @@
+// 保持音高的变速与变调，纯计算、不依赖 Web Audio，由 worklets/timeStretch.ts 在 AudioWorklet 中运行。
+// StretchPlayer 播放整段解码的音频：WSOLA（波形相似叠加）每次取一帧，在名义位置附近搜索与上一帧
+// 自然延续最相似的起点再加窗叠加；名义位置按速度前进、帧内按音高比例读取，速度与音高互不影响。
+// PitchShifter 处理实时输入（如媒体元素的输出），用两个交替淡入淡出的可变延迟读头改变音高。
+
+export const TIME_STRETCH_PLAYER = 'time-stretch-player';
+export const PITCH_SHIFTER = 'pitch-shifter';
+
+export const MIN_PLAYBACK_RATE = 0.5;
+export const MAX_PLAYBACK_RATE = 1.5;
+/** 变调范围（半音） */
+export const MAX_PITCH_SHIFT = 12;
+
+export const semitonesToRatio = (semitones: number) => 2 ** (semitones / 12);
+
+/** A–B 循环区间（采样帧） */
+export type LoopFrames = { start: number; end: number };
+
+// 帧长与跳距（输出采样），50% 重叠的周期 Hann 窗叠加后恒为 1
+const FRAME = 2048;
+const HOP = FRAME / 2;
+// 起点搜索范围与步长（音源采样），相关计算每 4 个采样取一个
+const TOLERANCE = 384;
+const SEARCH_STEP = 4;
+const CORRELATION_STEP = 4;
+// 越过结尾后再合成的帧数，让最后一帧完整淡出
+const TAIL_FRAMES = 2;
+
+const WINDOW = Float32Array.from({ length: FRAME }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FRAME));
+
+export class StretchPlayer {
+  rate = 1;
+  /** 音高比例，1 为原调 */
+  pitch = 1;
+  loop: LoopFrames | null = null;
+  playing = false;
+  ended = false;
+  // 名义播放位置（音源采样帧）
+  private position = 0;
+  // 上一帧实际取用的起点，null 表示需要重新开始叠加
+  private previousStart: number | null = null;
+  private accumulator: Float32Array[];
+  private pending: Float32Array[];
+  private pendingIndex = HOP;
+  // 越过结尾后合成的帧数
+  private tail = 0;
+
+  constructor(private readonly channels: Float32Array[]) {
+    this.accumulator = channels.map(() => new Float32Array(FRAME));
+    this.pending = channels.map(() => new Float32Array(HOP));
+  }
+
+  get length() {
+    return this.channels[0]?.length ?? 0;
+  }
+
+  get currentFrame() {
+    return this.position;
+  }
+
+  seek(frame: number) {
+    this.position = Math.min(this.length, Math.max(0, frame));
+    this.ended = false;
+    this.tail = 0;
+    this.reset();
+  }
+
+  // 丢弃叠加中的数据，下一帧从头开始
+  private reset() {
+    this.previousStart = null;
+    this.pendingIndex = HOP;
+    this.accumulator.forEach((data) => data.fill(0));
+  }
+
+  /** 原速原调也走同一条叠加路径，调整时不清空叠加中的数据，避免经过 1.0× 时爆音或跳跃 */
+  setTempo(rate: number, pitch: number) {
+    this.rate = rate;
+    this.pitch = pitch;
+  }
+
+  // 循环区间内超过终点的位置折回起点
+  private wrap(position: number) {
+    const loop = this.loop;
+    if (loop && position >= loop.end && loop.end > loop.start) {
+      return loop.start + ((position - loop.start) % (loop.end - loop.start));
+    }
+    return position;
+  }
+
+  private read(data: Float32Array, position: number) {
+    const wrapped = this.wrap(position);
+    const index = Math.floor(wrapped);
+    if (index < 0 || index >= data.length) {
+      return 0;
+    }
+    const next = index + 1 < data.length ? data[index + 1] : 0;
+    return data[index] + (next - data[index]) * (wrapped - index);
+  }
+
+  private readMono(position: number) {
+    let sum = 0;
+    for (const data of this.channels) {
+      sum += this.read(data, position);
+    }
+    return sum;
+  }
+
+  // 在名义位置附近找与上一帧自然延续（上一帧起点 + 一个跳距）波形最相似的起点
+  private findStart() {
+    const nominal = this.position;
+    if (this.previousStart === null) {
+      return nominal;
+    }
+    const target = this.previousStart + HOP * this.pitch;
+    // 原速原调时直接接续上一帧，叠加后与原始信号完全一致，也省去搜索
+    if (this.rate === 1 && this.pitch === 1) {
+      return target;
+    }
+    const reference: number[] = [];
+    for (let i = 0; i < HOP; i += CORRELATION_STEP) {
+      reference.push(this.readMono(target + i * this.pitch));
+    }
+    let best = nominal;
+    let bestScore = -Infinity;
+    for (let offset = -TOLERANCE; offset <= TOLERANCE; offset += SEARCH_STEP) {
+      const start = nominal + offset;
+      let score = 0;
+      for (let k = 0; k < reference.length; k += 1) {
+        score += reference[k] * this.readMono(start + k * CORRELATION_STEP * this.pitch);
+      }
+      if (score > bestScore) {
+        bestScore = score;
+        best = start;
+      }
+    }
+    return best;
+  }
+
+  private synthesizeFrame() {
+    const start = this.findStart();
+    this.channels.forEach((data, channel) => {
+      const accumulator = this.accumulator[channel];
+      for (let i = 0; i < FRAME; i += 1) {
+        accumulator[i] += this.read(data, start + i * this.pitch) * WINDOW[i];
+      }
+      // 前半帧已完整，移出供输出
+      this.pending[channel].set(accumulator.subarray(0, HOP));
+      accumulator.copyWithin(0, HOP);
+      accumulator.fill(0, FRAME - HOP);
+    });
+    this.previousStart = start;
+    this.pendingIndex = 0;
+    this.advance(HOP * this.rate);
+  }
+
+  private advance(frames: number) {
+    this.position = this.wrap(this.position + frames);
+    if (!this.loop && this.position >= this.length) {
+      this.tail += 1;
+    }
+  }
+
+  /** 填充一个渲染块；outputs 的声道数可以与音源不同 */
+  process(outputs: Float32Array[]) {
+    const frames = outputs[0]?.length ?? 0;
+    if (!this.playing || this.ended) {
+      outputs.forEach((output) => output.fill(0));
+      return;
+    }
+    const sourceChannel = (channel: number) => Math.min(channel, this.channels.length - 1);
+    for (let i = 0; i < frames; i += 1) {
+      if (this.pendingIndex >= HOP) {
+        this.synthesizeFrame();
+      }
+      outputs.forEach((output, channel) => {
+        output[i] = this.pending[sourceChannel(channel)][this.pendingIndex];
+      });
+      this.pendingIndex += 1;
+    }
+    if (this.tail > TAIL_FRAMES) {
+      this.ended = true;
+      this.playing = false;
+    }
+  }
+}
+
+// 延迟读头扫过的范围（采样）与延迟线长度
+const SHIFT_WINDOW = 2048;
+const DELAY_LENGTH = 4096;
+
+export class PitchShifter {
+  /** 音高比例，1 时直通 */
+  ratio = 1;
+  private lines: Float32Array[] = [];
+  private writeIndex = 0;
+  // 读头相位（0–1），两个读头相差半个周期
+  private phase = 0;
+
+  private readDelayed(line: Float32Array, delay: number) {
+    const position = this.writeIndex - delay;
+    const index = Math.floor(position);
+    const fraction = position - index;
+    const a = line[(index + DELAY_LENGTH) % DELAY_LENGTH];
+    const b = line[(index + 1 + DELAY_LENGTH) % DELAY_LENGTH];
+    return a + (b - a) * fraction;
+  }
+
+  /** inputs 为空（没有连接输入）时输出静音；单声道输入复制到所有输出声道 */
+  process(inputs: Float32Array[], outputs: Float32Array[]) {
+    const frames = outputs[0]?.length ?? 0;
+    if (inputs.length === 0) {
+      outputs.forEach((output) => output.fill(0));
+      return;
+    }
+    while (this.lines.length < outputs.length) {
+      this.lines.push(new Float32Array(DELAY_LENGTH));
+    }
+    const step = (1 - this.ratio) / SHIFT_WINDOW;
+    for (let i = 0; i < frames; i += 1) {
+      const phaseA = this.phase;
+      const phaseB = (phaseA + 0.5) % 1;
+      // sin² 窗互补，两读头增益之和恒为 1
+      const gainA = Math.sin(Math.PI * phaseA) ** 2;
+      const gainB = 1 - gainA;
+      outputs.forEach((output, channel) => {
+        const input = inputs[Math.min(channel, inputs.length - 1)][i];
+        const line = this.lines[channel];
+        line[this.writeIndex] = input;
+        output[i] =
+          this.ratio === 1
+            ? input
+            : this.readDelayed(line, 1 + phaseA * SHIFT_WINDOW) * gainA +
+              this.readDelayed(line, 1 + phaseB * SHIFT_WINDOW) * gainB;
+      });
+      this.writeIndex = (this.writeIndex + 1) % DELAY_LENGTH;
+      this.phase = (((this.phase + step) % 1) + 1) % 1;
+    }
+  }
+}
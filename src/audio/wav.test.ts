@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { packFields, riffChunk, riffFile } from '../test/builders';
+import { decodeWav, encodeWav, mixToMono, normalizePeak } from './wav';
+
+const channels = [new Float32Array([0, 0.5, -0.5, 1, -1, 2]), new Float32Array([0.25, 0, 0, 0, 0, -0.75])];
+
+const fmt = (format: number, channelCount: number, sampleRate: number, bits: number) =>
+  riffChunk(
+    'fmt ',
+    packFields([
+      ['Uint16', format],
+      ['Uint16', channelCount],
+      ['Uint32', sampleRate],
+      ['Uint32', (sampleRate * channelCount * bits) / 8],
+      ['Uint16', (channelCount * bits) / 8],
+      ['Uint16', bits]
+    ])
+  );
+
+describe('wav', () => {
+  it.each([16, 24] as const)('%i 位编码后解码还原采样（超出范围的削波）', (bits) => {
+    const decoded = decodeWav(encodeWav({ sampleRate: 44100, channels }, bits));
+    expect(decoded.sampleRate).toBe(44100);
+    expect(decoded.loop).toBeNull();
+    const tolerance = bits === 16 ? 1e-4 : 1e-6;
+    decoded.channels.forEach((data, channel) => {
+      data.forEach((value, frame) => {
+        expect(Math.abs(value - Math.max(-1, Math.min(1, channels[channel][frame])))).toBeLessThan(tolerance);
+      });
+    });
+  });
+
+  it('读取浮点 WAV 与 smpl 循环点', () => {
+    const samples = new Float32Array([0.1, -0.2, 0.3, -0.4]);
+    const smpl = packFields([
+      ...Array.from({ length: 7 }, () => ['Uint32', 0] as ['Uint32', number]),
+      ['Uint32', 1],
+      ['Uint32', 0],
+      ['Uint32', 0],
+      ['Uint32', 0],
+      ['Uint32', 1],
+      ['Uint32', 2],
+      ['Uint32', 0],
+      ['Uint32', 0]
+    ]);
+    const decoded = decodeWav(
+      riffFile('WAVE', [fmt(3, 1, 22050, 32), riffChunk('data', new Uint8Array(samples.buffer)), riffChunk('smpl', smpl)])
+    );
+    expect(decoded.sampleRate).toBe(22050);
+    expect([...decoded.channels[0]]).toEqual([...samples]);
+    expect(decoded.loop).toEqual({ start: 1, end: 3 });
+  });
+
+  it('拒绝不支持的位深与采样率', () => {
+    const data = riffChunk('data', new Uint8Array(8));
+    expect(() => decodeWav(riffFile('WAVE', [fmt(1, 1, 44100, 0), data]))).toThrow('不支持 0 位的 PCM WAV 文件');
+    expect(() => decodeWav(riffFile('WAVE', [fmt(3, 1, 44100, 16), data]))).toThrow('不支持 16 位的浮点 WAV 文件');
+    expect(() => decodeWav(riffFile('WAVE', [fmt(1, 1, 0, 16), data]))).toThrow('WAV 文件采样率为 0');
+    expect(() => decodeWav(riffFile('WAVE', [data]))).toThrow('WAV 文件缺少 fmt 或 data 块');
+  });
+
+  it('混为单声道并归一化峰值', () => {
+    const mono = mixToMono([new Float32Array([1, 0]), new Float32Array([0, -0.5])]);
+    expect([...mono]).toEqual([0.5, -0.25]);
+    normalizePeak([mono], 0);
+    expect(mono[0]).toBeCloseTo(1);
+    expect(mono[1]).toBeCloseTo(-0.5);
+  });
+});
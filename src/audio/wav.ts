@@ -0,0 +1,165 @@
+// WAV 编解码：不依赖 AudioContext。解码保留原始采样率与 smpl 块中的循环点，供采样器使用；
+// 编码输出 16 / 24 位 PCM，供离线渲染导出。
+import { readRiff } from './riff';
+
+export type WavData = {
+  sampleRate: number;
+  channels: Float32Array[];
+  /** smpl 块中的第一个循环（单位：帧），没有则为 null */
+  loop: { start: number; end: number } | null;
+};
+
+const FORMAT_PCM = 1;
+const FORMAT_FLOAT = 3;
+const FORMAT_EXTENSIBLE = 0xfffe;
+const PCM_BITS = [8, 16, 24, 32];
+const FLOAT_BITS = [32, 64];
+
+const readSample = (view: DataView, offset: number, bits: number, isFloat: boolean) => {
+  if (isFloat) {
+    return bits === 64 ? view.getFloat64(offset, true) : view.getFloat32(offset, true);
+  }
+  switch (bits) {
+    case 8:
+      return (view.getUint8(offset) - 128) / 128;
+    case 16:
+      return view.getInt16(offset, true) / 32768;
+    case 24: {
+      const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+      return value / 8388608;
+    }
+    case 32:
+      return view.getInt32(offset, true) / 2147483648;
+    default:
+      throw new Error(`不支持 ${bits} 位的 WAV 文件`);
+  }
+};
+
+export const decodeWav = (buffer: ArrayBuffer): WavData => {
+  const { view, chunks } = readRiff(buffer, 'WAVE');
+  const fmt = chunks.find((chunk) => chunk.id === 'fmt ');
+  const data = chunks.find((chunk) => chunk.id === 'data');
+  if (!fmt || !data) {
+    throw new Error('WAV 文件缺少 fmt 或 data 块');
+  }
+
+  let format = view.getUint16(fmt.offset, true);
+  const channelCount = view.getUint16(fmt.offset + 2, true);
+  const sampleRate = view.getUint32(fmt.offset + 4, true);
+  const bits = view.getUint16(fmt.offset + 14, true);
+  if (format === FORMAT_EXTENSIBLE && fmt.size >= 26) {
+    // 扩展格式的子格式 GUID 前两个字节即真实格式
+    format = view.getUint16(fmt.offset + 24, true);
+  }
+  if (format !== FORMAT_PCM && format !== FORMAT_FLOAT) {
+    throw new Error('仅支持 PCM 或浮点 WAV 文件');
+  }
+  if (channelCount === 0) {
+    throw new Error('WAV 文件声道数为 0');
+  }
+  const isFloat = format === FORMAT_FLOAT;
+  if (!(isFloat ? FLOAT_BITS : PCM_BITS).includes(bits)) {
+    throw new Error(`不支持 ${bits} 位的${isFloat ? '浮点' : ' PCM'} WAV 文件`);
+  }
+  if (sampleRate === 0) {
+    throw new Error('WAV 文件采样率为 0');
+  }
+
+  const bytesPerSample = bits / 8;
+  const frameSize = bytesPerSample * channelCount;
+  const frameCount = Math.floor(data.size / frameSize);
+  const channels = Array.from({ length: channelCount }, () => new Float32Array(frameCount));
+  for (let frame = 0; frame < frameCount; frame += 1) {
+    const base = data.offset + frame * frameSize;
+    for (let channel = 0; channel < channelCount; channel += 1) {
+      channels[channel][frame] = readSample(view, base + channel * bytesPerSample, bits, isFloat);
+    }
+  }
+
+  let loop: WavData['loop'] = null;
+  const smpl = chunks.find((chunk) => chunk.id === 'smpl');
+  if (smpl && smpl.size >= 60 && view.getUint32(smpl.offset + 28, true) > 0) {
+    // 36 字节头之后是循环列表，每项 24 字节：id、type、start、end、fraction、playCount
+    const start = view.getUint32(smpl.offset + 36 + 8, true);
+    const end = view.getUint32(smpl.offset + 36 + 12, true);
+    if (end > start) {
+      loop = { start, end: end + 1 }; // smpl 的结束点包含在循环内
+    }
+  }
+
+  return { sampleRate, channels, loop };
+};
+
+/** 多声道平均混为单声道 */
+export const mixToMono = (channels: Float32Array[]) => {
+  if (channels.length === 1) {
+    return channels[0];
+  }
+  const mono = new Float32Array(channels[0].length);
+  channels.forEach((channel) => {
+    for (let i = 0; i < mono.length; i += 1) {
+      mono[i] += channel[i] / channels.length;
+    }
+  });
+  return mono;
+};
+
+/** 按所有声道的共同峰值缩放到 peakDb（dBFS），原地修改 */
+export const normalizePeak = (channels: Float32Array[], peakDb = -1) => {
+  const peak = channels.reduce((max, data) => data.reduce((value, sample) => Math.max(value, Math.abs(sample)), max), 0);
+  if (peak === 0) {
+    return;
+  }
+  const gain = 10 ** (peakDb / 20) / peak;
+  channels.forEach((data) => {
+    for (let i = 0; i < data.length; i += 1) {
+      data[i] *= gain;
+    }
+  });
+};
+
+export type WavBitDepth = 16 | 24;
+
+/** 把各声道的浮点采样编码为 PCM WAV 文件，超出 [-1, 1] 的采样会被削波 */
+export const encodeWav = ({ sampleRate, channels }: Pick<WavData, 'sampleRate' | 'channels'>, bitDepth: WavBitDepth = 16) => {
+  const channelCount = channels.length;
+  const frameCount = channels[0]?.length ?? 0;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = channelCount * bytesPerSample;
+  const dataSize = frameCount * blockAlign;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+  const writeId = (offset: number, id: string) =>
+    [...id].forEach((char, index) => view.setUint8(offset + index, char.charCodeAt(0)));
+
+  writeId(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeId(8, 'WAVE');
+  writeId(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, FORMAT_PCM, true);
+  view.setUint16(22, channelCount, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  writeId(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const scale = bitDepth === 16 ? 0x7fff : 0x7fffff;
+  let offset = 44;
+  for (let frame = 0; frame < frameCount; frame += 1) {
+    for (let channel = 0; channel < channelCount; channel += 1) {
+      const value = Math.round(Math.max(-1, Math.min(1, channels[channel][frame])) * scale);
+      if (bitDepth === 16) {
+        view.setInt16(offset, value, true);
+      } else {
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setInt8(offset + 2, value >> 16);
+      }
+      offset += bytesPerSample;
+    }
+  }
+  return buffer;
+};
@@ -0,0 +1,30 @@
+// 波形概览的主线程入口：把 AudioBuffer 的采样复制一份交给 Web Worker 计算峰值，不阻塞界面。
+import { computePeaks, type WaveformPeaks } from './peaks';
+import PeaksWorker from './workers/peaks.ts?worker';
+
+export { getPeakRange, type WaveformPeaks } from './peaks';
+
+/** 计算多分辨率峰值；不支持 Worker 的环境直接在当前线程计算 */
+export const computeWaveformPeaks = (buffer: AudioBuffer) =>
+  new Promise<WaveformPeaks>((resolve, reject) => {
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) =>
+      buffer.getChannelData(channel).slice()
+    );
+    if (typeof Worker === 'undefined') {
+      resolve(computePeaks(channels, buffer.sampleRate));
+      return;
+    }
+    const worker = new PeaksWorker();
+    worker.onmessage = (event: MessageEvent<WaveformPeaks>) => {
+      worker.terminate();
+      resolve(event.data);
+    };
+    worker.onerror = () => {
+      worker.terminate();
+      reject(new Error('波形计算失败'));
+    };
+    worker.postMessage(
+      { channels, sampleRate: buffer.sampleRate },
+      channels.map((data) => data.buffer)
+    );
+  });
@@ -0,0 +1,13 @@
+// 在 Web Worker 中计算波形峰值，算法见 ../peaks。
+// 主线程发送 { channels, sampleRate }（转交采样数组），返回 WaveformPeaks，各级峰值数组同样转交。
+import { computePeaks } from '../peaks';
+
+type PeaksRequest = { channels: Float32Array[]; sampleRate: number };
+
+self.onmessage = (event: MessageEvent<PeaksRequest>) => {
+  const { channels, sampleRate } = event.data;
+  const peaks = computePeaks(channels, sampleRate);
+  self.postMessage(peaks, {
+    transfer: peaks.levels.flatMap(({ min, max }) => [min.buffer, max.buffer])
+  });
+};
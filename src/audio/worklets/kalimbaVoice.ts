@@ -0,0 +1,77 @@
+// 拇指琴物理建模音色的 AudioWorklet 处理器，合成部分见 ../kalimbaSynth。
+// 主线程通过 port 发送 { type: 'note', frequency, velocity, when, length } 排程音符；
+// 离线渲染时音符通过 processorOptions.notes 在创建节点时一次性传入，避免 port 消息晚于渲染。
+import { DEFAULT_KALIMBA_GAIN, DEFAULT_KALIMBA_VOICE_PARAMS, KalimbaSynth, type KalimbaVoiceNote } from '../kalimbaSynth';
+
+// AudioWorkletGlobalScope 中的全局对象，DOM 类型库中没有声明
+declare const sampleRate: number;
+declare const currentFrame: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: VoiceOptions);
+}
+declare function registerProcessor(name: string, processor: typeof KalimbaVoice): void;
+
+type VoiceOptions = { processorOptions?: { notes?: KalimbaVoiceNote[] } };
+
+type VoiceMessage =
+  | ({ type: 'note' } & KalimbaVoiceNote)
+  | { type: 'cancel'; after: number }
+  | { type: 'silence' };
+
+class KalimbaVoice extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    const { brightness, decay, keyTimbre } = DEFAULT_KALIMBA_VOICE_PARAMS;
+    return [
+      { name: 'brightness', defaultValue: brightness, minValue: 0, maxValue: 1, automationRate: 'k-rate' },
+      { name: 'decay', defaultValue: decay, minValue: 0.25, maxValue: 3, automationRate: 'k-rate' },
+      { name: 'keyTimbre', defaultValue: keyTimbre, minValue: 0, maxValue: 1, automationRate: 'k-rate' },
+      { name: 'gain', defaultValue: DEFAULT_KALIMBA_GAIN, minValue: 0, maxValue: 1, automationRate: 'k-rate' }
+    ];
+  }
+
+  private synth: KalimbaSynth;
+
+  constructor(options?: VoiceOptions) {
+    super(options);
+    this.synth = new KalimbaSynth(sampleRate, options?.processorOptions?.notes ?? []);
+
+    this.port.onmessage = (event: MessageEvent<VoiceMessage>) => {
+      const message = event.data;
+      if (message?.type === 'note') {
+        this.synth.schedule(message);
+      } else if (message?.type === 'cancel') {
+        this.synth.cancel(message.after);
+      } else if (message?.type === 'silence') {
+        this.synth.silence();
+      }
+    };
+  }
+
+  process(_inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>) {
+    const output = outputs[0];
+    if (!output || output.length === 0) {
+      return true;
+    }
+
+    const buffer = output[0];
+    this.synth.process(
+      buffer,
+      currentFrame,
+      {
+        brightness: parameters.brightness[0],
+        decay: parameters.decay[0],
+        keyTimbre: parameters.keyTimbre[0]
+      },
+      parameters.gain[0]
+    );
+
+    for (let channel = 1; channel < output.length; channel += 1) {
+      output[channel].set(buffer);
+    }
+
+    return true;
+  }
+}
+
+registerProcessor('kalimba-voice', KalimbaVoice);
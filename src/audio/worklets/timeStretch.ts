@@ -0,0 +1,104 @@
+// 变速变调的 AudioWorklet 处理器，算法见 ../timeStretch。
+// time-stretch-player 播放整段音频：主线程用 { type: 'load', channels } 转交解码后的采样，
+// 之后发送 play / pause / seek / set 控制；播放中定期回报 { type: 'position', position, time }，
+// 播完回报 { type: 'ended' }。pitch-shifter 对输入做实时变调，通过 { type: 'pitch', semitones } 设置。
+import { PITCH_SHIFTER, PitchShifter, StretchPlayer, TIME_STRETCH_PLAYER, semitonesToRatio } from '../timeStretch';
+
+// AudioWorkletGlobalScope 中的全局对象，DOM 类型库中没有声明
+declare const sampleRate: number;
+declare const currentTime: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processor: typeof AudioWorkletProcessor): void;
+
+type PlayerMessage =
+  | { type: 'load'; channels: Float32Array[] }
+  | { type: 'play' }
+  | { type: 'pause' }
+  /** 位置与循环区间均为秒，pitch 为半音 */
+  | { type: 'seek'; position: number }
+  | { type: 'set'; rate: number; pitch: number; loop: { start: number; end: number } | null };
+
+// 播放中每隔多少个渲染块回报一次位置
+const REPORT_INTERVAL = 8;
+
+class TimeStretchPlayer extends AudioWorkletProcessor {
+  private player = new StretchPlayer([new Float32Array(0)]);
+  private blocks = 0;
+
+  constructor() {
+    super();
+    this.port.onmessage = (event: MessageEvent<PlayerMessage>) => {
+      const message = event.data;
+      const player = this.player;
+      if (message?.type === 'load') {
+        const next = new StretchPlayer(message.channels);
+        next.setTempo(player.rate, player.pitch);
+        next.loop = player.loop;
+        this.player = next;
+      } else if (message?.type === 'play') {
+        if (player.ended) {
+          player.seek(0);
+        }
+        player.playing = true;
+      } else if (message?.type === 'pause') {
+        player.playing = false;
+      } else if (message?.type === 'seek') {
+        player.seek(message.position * sampleRate);
+      } else if (message?.type === 'set') {
+        player.setTempo(message.rate, semitonesToRatio(message.pitch));
+        player.loop = message.loop
+          ? { start: message.loop.start * sampleRate, end: message.loop.end * sampleRate }
+          : null;
+      }
+    };
+  }
+
+  private report() {
+    this.port.postMessage({ type: 'position', position: this.player.currentFrame / sampleRate, time: currentTime });
+  }
+
+  process(_inputs: Float32Array[][], outputs: Float32Array[][]) {
+    const output = outputs[0];
+    if (!output || output.length === 0) {
+      return true;
+    }
+    const player = this.player;
+    const wasPlaying = player.playing;
+    player.process(output);
+    if (wasPlaying && player.ended) {
+      this.port.postMessage({ type: 'ended' });
+    } else if (player.playing) {
+      this.blocks = (this.blocks + 1) % REPORT_INTERVAL;
+      if (this.blocks === 0) {
+        this.report();
+      }
+    }
+    return true;
+  }
+}
+
+class PitchShifterProcessor extends AudioWorkletProcessor {
+  private shifter = new PitchShifter();
+
+  constructor() {
+    super();
+    this.port.onmessage = (event: MessageEvent<{ type: 'pitch'; semitones: number }>) => {
+      if (event.data?.type === 'pitch') {
+        this.shifter.ratio = semitonesToRatio(event.data.semitones);
+      }
+    };
+  }
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][]) {
+    const output = outputs[0];
+    if (output && output.length > 0) {
+      this.shifter.process(inputs[0] ?? [], output);
+    }
+    return true;
+  }
+}
+
+registerProcessor(TIME_STRETCH_PLAYER, TimeStretchPlayer);
+registerProcessor(PITCH_SHIFTER, PitchShifterProcessor);
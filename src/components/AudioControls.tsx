@@ -1,6 +1,19 @@
 import { useRef, useState } from 'react';
+import type { LoopRange } from '../audio/engine/types';
+import { MAX_PITCH_SHIFT, MAX_PLAYBACK_RATE, MIN_PLAYBACK_RATE } from '../audio/tempo';
 import type { PlaybackState } from '../hooks/useAudioEngine';
 
+/** 变速、变调与 A–B 循环（只有 url / file 音源提供） */
+export interface PlaybackAdjustmentControls {
+  rate: number;
+  onRateChange: (rate: number) => void;
+  /** 半音 */
+  pitch: number;
+  onPitchChange: (pitch: number) => void;
+  loop: LoopRange | null;
+  onLoopChange: (loop: LoopRange | null) => void;
+}
+
 interface AudioControlsProps {
   state: PlaybackState;
   onPlay: () => void;
@@ -13,6 +26,7 @@ interface AudioControlsProps {
   duration: number;
   disabled?: boolean;
   allowSeek?: boolean;
+  adjustments?: PlaybackAdjustmentControls;
 }
 
 const formatTime = (value: number) => {
@@ -28,6 +42,8 @@ const formatTime = (value: number) => {
   return `${minutes}:${seconds}`;
 };
 
+const formatPitch = (value: number) => (value === 0 ? '原调' : `${value > 0 ? '+' : ''}${value} 半音`);
+
 export const AudioControls = ({
   state,
   onPlay,
@@ -39,16 +55,39 @@ export const AudioControls = ({
   currentTime,
   duration,
   disabled = false,
-  allowSeek = true
+  allowSeek = true,
+  adjustments
 }: AudioControlsProps) => {
   const isPlaying = state === 'playing';
   const canControl = state === 'ready' || state === 'paused' || state === 'playing';
   const [isSeeking, setIsSeeking] = useState(false);
   const [pendingTime, setPendingTime] = useState(0);
   const resumeAfterSeekRef = useRef(false);
+  // 只设了 A 点、还没有 B 点时的起点
+  const [pendingLoopStart, setPendingLoopStart] = useState<number | null>(null);
 
   const displayedTime = isSeeking ? pendingTime : currentTime;
   const progress = duration > 0 ? Math.min((displayedTime / duration) * 100, 100) : 0;
+  const toPercent = (value: number) => (duration > 0 ? Math.min((value / duration) * 100, 100) : 0);
+  const loop = adjustments?.loop ?? null;
+
+  const setLoopStart = () => {
+    if (loop) {
+      adjustments?.onLoopChange({ start: currentTime, end: loop.end });
+    } else {
+      setPendingLoopStart(currentTime);
+    }
+  };
+
+  const setLoopEnd = () => {
+    adjustments?.onLoopChange({ start: loop?.start ?? pendingLoopStart ?? 0, end: currentTime });
+    setPendingLoopStart(null);
+  };
+
+  const clearLoop = () => {
+    setPendingLoopStart(null);
+    adjustments?.onLoopChange(null);
+  };
 
   const beginSeek = () => {
     if (!canControl || disabled || !allowSeek) {
@@ -101,6 +140,15 @@ export const AudioControls = ({
         <div className="audio-controls__timeline">
           <div className="audio-controls__track">
             <div className="audio-controls__progress" style={{ width: `${progress}%` }} />
+            {loop && (
+              <div
+                className="audio-controls__loop"
+                style={{ left: `${toPercent(loop.start)}%`, width: `${toPercent(loop.end) - toPercent(loop.start)}%` }}
+              />
+            )}
+            {!loop && pendingLoopStart !== null && (
+              <div className="audio-controls__loop-marker" style={{ left: `${toPercent(pendingLoopStart)}%` }} />
+            )}
           </div>
           <input
             className="audio-controls__seek"
@@ -147,6 +195,57 @@ export const AudioControls = ({
           disabled={!canControl || disabled}
         />
       </label>
+
+      {adjustments && (
+        <div className="audio-controls__adjustments">
+          <div className="audio-controls__loop-buttons">
+            <button type="button" onClick={setLoopStart} disabled={!canControl || disabled}>
+              设为 A
+            </button>
+            <button type="button" onClick={setLoopEnd} disabled={!canControl || disabled}>
+              设为 B
+            </button>
+            <button type="button" onClick={clearLoop} disabled={!loop && pendingLoopStart === null}>
+              清除循环
+            </button>
+            <span className="audio-controls__state">
+              {loop
+                ? `循环 ${formatTime(loop.start)} – ${formatTime(loop.end)}`
+                : pendingLoopStart !== null
+                  ? `A = ${formatTime(pendingLoopStart)}，再设 B 点`
+                  : '未设循环'}
+            </span>
+          </div>
+          <label className="audio-controls__slider">
+            速度
+            <input
+              type="range"
+              min={MIN_PLAYBACK_RATE}
+              max={MAX_PLAYBACK_RATE}
+              step="0.05"
+              value={adjustments.rate}
+              onChange={(event) => adjustments.onRateChange(Number(event.target.value))}
+              onDoubleClick={() => adjustments.onRateChange(1)}
+              disabled={!canControl || disabled}
+            />
+            <span className="audio-controls__value">{adjustments.rate.toFixed(2)}×</span>
+          </label>
+          <label className="audio-controls__slider">
+            变调
+            <input
+              type="range"
+              min={-MAX_PITCH_SHIFT}
+              max={MAX_PITCH_SHIFT}
+              step="1"
+              value={adjustments.pitch}
+              onChange={(event) => adjustments.onPitchChange(Number(event.target.value))}
+              onDoubleClick={() => adjustments.onPitchChange(0)}
+              disabled={!canControl || disabled}
+            />
+            <span className="audio-controls__value">{formatPitch(adjustments.pitch)}</span>
+          </label>
+        </div>
+      )}
     </section>
   );
 };
@@ -0,0 +1,345 @@
+import { ChangeEvent, useState } from 'react';
+import { Button, Checkbox, Input, InputNumber, Segmented, Select, Slider, Switch } from 'antd';
+import {
+  BUILTIN_EFFECT_PRESETS,
+  BUILTIN_PRESET_PREFIX,
+  EFFECT_LABELS,
+  MAX_DELAY_TIME,
+  SYNTHETIC_IMPULSES,
+  loadUserEffectPresets,
+  saveUserEffectPresets,
+  type AnalyserTap,
+  type EffectChainSettings,
+  type EffectKind,
+  type EffectParams,
+  type EffectPreset,
+  type EqBandType,
+  type SyntheticImpulse
+} from '../audio/effects';
+
+interface EffectsPanelProps {
+  settings: EffectChainSettings;
+  onChange: (changes: Partial<EffectChainSettings>) => void;
+  onParamsChange: <K extends EffectKind>(kind: K, changes: Partial<EffectParams[K]>) => void;
+  /** 已载入的脉冲响应文件名 */
+  impulseName: string | null;
+  onLoadImpulse: (file: File) => Promise<void>;
+}
+
+type ParamControl<K extends EffectKind> = {
+  name: keyof EffectParams[K] & string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+};
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+const formatSeconds = (value: number) => (value < 1 ? `${Math.round(value * 1000)} ms` : `${value.toFixed(2)} s`);
+const formatDb = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)} dB`;
+const formatHz = (value: number) => (value >= 1000 ? `${(value / 1000).toFixed(1)} kHz` : `${Math.round(value)} Hz`);
+
+const COMPRESSOR_CONTROLS: ParamControl<'compressor'>[] = [
+  { name: 'threshold', label: '阈值', min: -60, max: 0, step: 1, format: formatDb },
+  { name: 'ratio', label: '比率', min: 1, max: 20, step: 0.5, format: (value) => `${value}:1` },
+  { name: 'attack', label: '启动', min: 0.001, max: 0.3, step: 0.001, format: formatSeconds },
+  { name: 'release', label: '释放', min: 0.02, max: 1, step: 0.01, format: formatSeconds },
+  { name: 'makeup', label: '补偿增益', min: 0, max: 24, step: 0.5, format: formatDb }
+];
+
+const DELAY_CONTROLS: ParamControl<'delay'>[] = [
+  { name: 'time', label: '延迟时间', min: 0.02, max: MAX_DELAY_TIME, step: 0.01, format: formatSeconds },
+  { name: 'feedback', label: '反馈', min: 0, max: 0.9, step: 0.01, format: formatPercent },
+  { name: 'tone', label: '音色', min: 500, max: 12000, step: 100, format: formatHz },
+  { name: 'mix', label: '干湿比', min: 0, max: 1, step: 0.01, format: formatPercent }
+];
+
+const REVERB_CONTROLS: ParamControl<'reverb'>[] = [
+  { name: 'mix', label: '干湿比', min: 0, max: 1, step: 0.01, format: formatPercent }
+];
+
+const WIDTH_CONTROLS: ParamControl<'width'>[] = [
+  { name: 'width', label: '宽度', min: 0, max: 2, step: 0.01, format: formatPercent }
+];
+
+const EQ_BAND_LABELS: Record<EqBandType, string> = { lowshelf: '低架', peaking: '峰值', highshelf: '高架' };
+
+const TAP_OPTIONS: { label: string; value: AnalyserTap }[] = [
+  { label: '效果前', value: 'pre' },
+  { label: '效果后', value: 'post' }
+];
+
+const USER_PRESET_PREFIX = 'user:';
+
+export const EffectsPanel = ({ settings, onChange, onParamsChange, impulseName, onLoadImpulse }: EffectsPanelProps) => {
+  const [userPresets, setUserPresets] = useState<EffectPreset[]>(loadUserEffectPresets);
+  const [presetId, setPresetId] = useState<string | null>(null);
+  const [presetName, setPresetName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const { order, enabled, params } = settings;
+
+  const applyPreset = (id: string) => {
+    const preset = [...BUILTIN_EFFECT_PRESETS, ...userPresets].find((item) => item.id === id);
+    if (!preset) {
+      return;
+    }
+    setPresetId(id);
+    setPresetName(id.startsWith(BUILTIN_PRESET_PREFIX) ? '' : preset.name);
+    onChange(preset.settings);
+  };
+
+  const updatePresets = (presets: EffectPreset[]) => {
+    try {
+      saveUserEffectPresets(presets);
+      setUserPresets(presets);
+      setError(null);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '效果预设保存失败');
+      return false;
+    }
+  };
+
+  // 同名的用户预设直接覆盖
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) {
+      return;
+    }
+    const existing = userPresets.find((preset) => preset.name === name);
+    const preset: EffectPreset = {
+      id: existing?.id ?? `${USER_PRESET_PREFIX}${Date.now()}`,
+      name,
+      settings: { order, enabled, params }
+    };
+    const presets = existing
+      ? userPresets.map((item) => (item.id === existing.id ? preset : item))
+      : [...userPresets, preset];
+    if (updatePresets(presets)) {
+      setPresetId(preset.id);
+    }
+  };
+
+  const handleDeletePreset = () => {
+    if (presetId && updatePresets(userPresets.filter((preset) => preset.id !== presetId))) {
+      setPresetId(null);
+      setPresetName('');
+    }
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= order.length) {
+      return;
+    }
+    const next = [...order];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange({ order: next });
+  };
+
+  const handleImpulseChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    setError(null);
+    try {
+      await onLoadImpulse(file);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '脉冲响应载入失败');
+    } finally {
+      event.target.value = '';
+    }
+  };
+
+  const renderSliders = <K extends EffectKind>(kind: K, controls: ParamControl<K>[]) =>
+    controls.map(({ name, label, min, max, step, format }) => {
+      const value = params[kind][name] as number;
+      return (
+        <label key={name} className="effects__param">
+          <span>{label}</span>
+          <Slider
+            min={min}
+            max={max}
+            step={step}
+            value={value}
+            onChange={(next: number) => onParamsChange(kind, { [name]: next } as Partial<EffectParams[K]>)}
+            tooltip={{ formatter: (next) => (next === undefined ? '' : format(next)) }}
+            className="effects__slider"
+          />
+          <span className="effects__value">{format(value)}</span>
+        </label>
+      );
+    });
+
+  const renderEq = () =>
+    params.eq.bands.map((band, index) => {
+      const updateBand = (changes: Partial<typeof band>) =>
+        onParamsChange('eq', {
+          bands: params.eq.bands.map((item, i) => (i === index ? { ...item, ...changes } : item))
+        });
+      return (
+        <div key={index} className="effects__band">
+          <span>{EQ_BAND_LABELS[band.type]}</span>
+          <InputNumber
+            size="small"
+            min={20}
+            max={20000}
+            value={band.frequency}
+            onChange={(frequency) => frequency !== null && updateBand({ frequency })}
+            suffix="Hz"
+            className="effects__frequency"
+          />
+          <Slider
+            min={-15}
+            max={15}
+            step={0.5}
+            value={band.gain}
+            onChange={(gain: number) => updateBand({ gain })}
+            tooltip={{ formatter: (gain) => (gain === undefined ? '' : formatDb(gain)) }}
+            className="effects__slider"
+          />
+          {band.type === 'peaking' ? (
+            <InputNumber
+              size="small"
+              min={0.1}
+              max={10}
+              step={0.1}
+              value={band.q}
+              onChange={(q) => q !== null && updateBand({ q })}
+              prefix="Q"
+              className="effects__q"
+            />
+          ) : (
+            <span className="effects__value">{formatDb(band.gain)}</span>
+          )}
+        </div>
+      );
+    });
+
+  const renderReverb = () => (
+    <>
+      <div className="effects__row">
+        <span>脉冲响应</span>
+        <Select<SyntheticImpulse | 'custom'>
+          size="small"
+          // 没有载入文件时效果链以大厅代替
+          value={params.reverb.impulse === 'custom' && !impulseName ? 'hall' : params.reverb.impulse}
+          onChange={(impulse) => onParamsChange('reverb', { impulse })}
+          options={[
+            ...(Object.keys(SYNTHETIC_IMPULSES) as SyntheticImpulse[]).map((value) => ({
+              label: `合成：${SYNTHETIC_IMPULSES[value].label}`,
+              value
+            })),
+            ...(impulseName ? [{ label: `文件：${impulseName}`, value: 'custom' as const }] : [])
+          ]}
+          className="effects__impulse"
+        />
+        <label className="effects__upload">
+          <input type="file" accept="audio/*,.wav" onChange={handleImpulseChange} />
+          <span>载入脉冲响应…</span>
+        </label>
+      </div>
+      {renderSliders('reverb', REVERB_CONTROLS)}
+    </>
+  );
+
+  const renderParams = (kind: EffectKind) => {
+    switch (kind) {
+      case 'eq':
+        return renderEq();
+      case 'compressor':
+        return (
+          <>
+            <Checkbox
+              checked={params.compressor.limiter}
+              onChange={(event) => onParamsChange('compressor', { limiter: event.target.checked })}
+            >
+              限制器模式（∞:1，最快启动）
+            </Checkbox>
+            {renderSliders(
+              'compressor',
+              params.compressor.limiter ? COMPRESSOR_CONTROLS.filter(({ name }) => name !== 'ratio' && name !== 'attack') : COMPRESSOR_CONTROLS
+            )}
+          </>
+        );
+      case 'delay':
+        return renderSliders('delay', DELAY_CONTROLS);
+      case 'reverb':
+        return renderReverb();
+      case 'width':
+        return renderSliders('width', WIDTH_CONTROLS);
+    }
+  };
+
+  return (
+    <section className="effects">
+      <div className="effects__header">
+        <h3>效果链</h3>
+        <label className="effects__tap">
+          可视化取样
+          <Segmented<AnalyserTap> size="small" value={settings.tap} onChange={(tap) => onChange({ tap })} options={TAP_OPTIONS} />
+        </label>
+      </div>
+      <div className="effects__presets">
+        <Select
+          size="small"
+          placeholder="选择预设"
+          value={presetId}
+          onChange={applyPreset}
+          options={[
+            { label: '内置', options: BUILTIN_EFFECT_PRESETS.map(({ id, name }) => ({ label: name, value: id })) },
+            ...(userPresets.length > 0
+              ? [{ label: '我的预设', options: userPresets.map(({ id, name }) => ({ label: name, value: id })) }]
+              : [])
+          ]}
+          className="effects__preset-select"
+        />
+        <Input
+          size="small"
+          placeholder="预设名称"
+          value={presetName}
+          onChange={(event) => setPresetName(event.target.value)}
+          onPressEnter={handleSavePreset}
+          className="effects__preset-name"
+        />
+        <Button size="small" onClick={handleSavePreset} disabled={!presetName.trim()}>
+          保存预设
+        </Button>
+        <Button size="small" danger onClick={handleDeletePreset} disabled={!presetId?.startsWith(USER_PRESET_PREFIX)}>
+          删除
+        </Button>
+      </div>
+      {error && <p className="effects__error">{error}</p>}
+      <ol className="effects__list">
+        {order.map((kind, index) => (
+          <li key={kind} className={`effects__unit${enabled[kind] ? '' : ' effects__unit--bypassed'}`}>
+            <div className="effects__unit-header">
+              <Switch
+                size="small"
+                checked={enabled[kind]}
+                onChange={(checked) => onChange({ enabled: { ...enabled, [kind]: checked } })}
+              />
+              <span className="effects__unit-name">{EFFECT_LABELS[kind]}</span>
+              <Button size="small" type="text" disabled={index === 0} onClick={() => move(index, -1)} aria-label="上移">
+                ↑
+              </Button>
+              <Button
+                size="small"
+                type="text"
+                disabled={index === order.length - 1}
+                onClick={() => move(index, 1)}
+                aria-label="下移"
+              >
+                ↓
+              </Button>
+            </div>
+            {enabled[kind] && <div className="effects__params">{renderParams(kind)}</div>}
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+};
@@ -0,0 +1,91 @@
+import { Segmented, Select, Slider } from 'antd';
+import type { SamplerBank } from '../audio/sampler';
+import type { InstrumentVoice, KalimbaVoiceParams } from '../audio/instrumentVoice';
+
+interface InstrumentVoicePanelProps {
+  voice: InstrumentVoice;
+  onVoiceChange: (voice: InstrumentVoice) => void;
+  params: KalimbaVoiceParams;
+  onParamsChange: (changes: Partial<KalimbaVoiceParams>) => void;
+  samplerBank: SamplerBank | null;
+  samplerInstrumentIndex: number;
+  onSamplerInstrumentChange: (index: number) => void;
+}
+
+const PARAM_CONTROLS: {
+  name: keyof KalimbaVoiceParams;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}[] = [
+  { name: 'brightness', label: '明亮度', min: 0, max: 1, step: 0.01, format: (value) => `${Math.round(value * 100)}%` },
+  { name: 'decay', label: '延音', min: 0.25, max: 3, step: 0.05, format: (value) => `${value.toFixed(2)}×` },
+  { name: 'keyTimbre', label: '琴键长度音色', min: 0, max: 1, step: 0.01, format: (value) => `${Math.round(value * 100)}%` }
+];
+
+export const InstrumentVoicePanel = ({
+  voice,
+  onVoiceChange,
+  params,
+  onParamsChange,
+  samplerBank,
+  samplerInstrumentIndex,
+  onSamplerInstrumentChange
+}: InstrumentVoicePanelProps) => (
+  <div className="instrument-voice">
+    <div className="instrument-voice__header">
+      <span>音色</span>
+      <Segmented<InstrumentVoice>
+        size="small"
+        value={voice}
+        onChange={onVoiceChange}
+        options={[
+          { label: '拇指琴（物理建模）', value: 'kalimba' },
+          { label: '简单音色', value: 'simple' },
+          ...(samplerBank ? [{ label: `采样：${samplerBank.name}`, value: 'sampler' as const }] : [])
+        ]}
+      />
+    </div>
+    {voice === 'sampler' && samplerBank && (
+      <div className="instrument-voice__sampler">
+        {samplerBank.instruments.length > 1 && (
+          <Select
+            size="small"
+            showSearch
+            optionFilterProp="label"
+            value={samplerInstrumentIndex}
+            onChange={onSamplerInstrumentChange}
+            options={samplerBank.instruments.map((instrument, index) => ({ label: instrument.name, value: index }))}
+            className="instrument-voice__preset"
+          />
+        )}
+        {samplerBank.warnings.map((warning) => (
+          <span key={warning} className="instrument-voice__warning">
+            {warning}
+          </span>
+        ))}
+      </div>
+    )}
+    {voice === 'kalimba' && (
+      <div className="instrument-voice__params">
+        {PARAM_CONTROLS.map(({ name, label, min, max, step, format }) => (
+          <label key={name} className="instrument-voice__param">
+            <span>{label}</span>
+            <Slider
+              min={min}
+              max={max}
+              step={step}
+              value={params[name]}
+              onChange={(value) => onParamsChange({ [name]: value })}
+              tooltip={{ formatter: (value) => (value === undefined ? '' : format(value)) }}
+              className="instrument-voice__slider"
+            />
+            <span className="instrument-voice__value">{format(params[name])}</span>
+          </label>
+        ))}
+      </div>
+    )}
+  </div>
+);
@@ -0,0 +1,82 @@
+import { useEffect, useMemo, useRef } from 'react';
+import Editor, { type OnMount } from '@monaco-editor/react';
+import * as monaco from 'monaco-editor';
+import type { JianpuParseResult } from '../score/jianpu';
+
+const MARKER_OWNER = 'jianpu';
+const SYNTAX_HINT =
+  "写法：1–7 音符，i5 / 5' 高八度，5, 低八度，5_ 八分，5__ 十六分，5. 附点，0 / - 休止，| 小节线，1=D 调号，♩=70 速度。";
+
+interface JianpuInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  result: JianpuParseResult;
+}
+
+export const JianpuInput = ({ value, onChange, result }: JianpuInputProps) => {
+  const editorRef = useRef<monaco.editor.IStandaloneCodeEditor | null>(null);
+
+  const markers = useMemo<monaco.editor.IMarkerData[]>(
+    () =>
+      result.diagnostics.map((diagnostic) => ({
+        startLineNumber: diagnostic.line,
+        startColumn: diagnostic.column,
+        endLineNumber: diagnostic.line,
+        endColumn: diagnostic.column + diagnostic.length,
+        message: diagnostic.message,
+        severity: diagnostic.severity === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning
+      })),
+    [result]
+  );
+
+  const handleMount: OnMount = (editor) => {
+    editorRef.current = editor;
+    const model = editor.getModel();
+    if (model) {
+      monaco.editor.setModelMarkers(model, MARKER_OWNER, markers);
+    }
+  };
+
+  // 诊断信息以波浪线标注在对应行列
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    if (model) {
+      monaco.editor.setModelMarkers(model, MARKER_OWNER, markers);
+    }
+  }, [markers]);
+
+  return (
+    <div className="jianpu-input">
+      <Editor
+        height="calc(100vh - 360px)"
+        defaultLanguage="plaintext"
+        value={value}
+        onChange={(next) => onChange(next || '')}
+        onMount={handleMount}
+        theme="vs-dark"
+        options={{
+          minimap: { enabled: false },
+          fontSize: 14,
+          lineNumbers: 'on',
+          scrollBeyondLastLine: false,
+          automaticLayout: true
+        }}
+      />
+      <p className="jianpu-input__hint">{SYNTAX_HINT}</p>
+      <ul className="jianpu-input__diagnostics">
+        {result.diagnostics.length === 0 ? (
+          <li>解析成功，共 {result.notes.length} 个音符</li>
+        ) : (
+          result.diagnostics.map((diagnostic, index) => (
+            <li
+              key={`${diagnostic.line}:${diagnostic.column}:${index}`}
+              className={`jianpu-input__diagnostic jianpu-input__diagnostic--${diagnostic.severity}`}
+            >
+              第 {diagnostic.line} 行第 {diagnostic.column} 列：{diagnostic.message}
+            </li>
+          ))
+        )}
+      </ul>
+    </div>
+  );
+};
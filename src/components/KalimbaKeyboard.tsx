@@ -1,56 +1,42 @@
-import { PointerEvent, useEffect, useRef, useState } from 'react';
-
-type KalimbaKey = {
-  degree: string;
-  dots: number; // 0 = no dots, 1 = one dot above, 2 = two dots above
-  note: string;
-  height: number;
-  highlight?: boolean;
-  keyboardKey?: string; // 对应的键盘按键
-};
-
-// Left-to-right layout matching the 17-key kalimba chart (C tuning)
-// Red keys: positions 2, 5, 8, 11, 14 (0-indexed)
-// Height: lower notes = longer keys, higher notes = shorter keys
-// C4 (lowest, center) should be longest, D6 and E6 (highest, edges) should be shortest
-// Minimum height: 120px, step: 10px
-// Keyboard mapping: qwer (0-3), asdfg (4-8), jkl; (9-12), uiop (13-16)
-export const KALIMBA_LAYOUT: KalimbaKey[] = [
-  { degree: '2', dots: 2, note: 'D6', height: 120, keyboardKey: 'q' }, // position 0
-  { degree: '7', dots: 1, note: 'B5', height: 130, keyboardKey: 'w' }, // position 1
-  { degree: '5', dots: 1, note: 'G5', height: 140, highlight: true, keyboardKey: 'e' }, // position 2 - RED
-  { degree: '3', dots: 1, note: 'E5', height: 150, keyboardKey: 'r' }, // position 3
-  { degree: '1', dots: 1, note: 'C5', height: 160, keyboardKey: 'a' }, // position 4
-  { degree: '6', dots: 0, note: 'A4', height: 170, highlight: true, keyboardKey: 's' }, // position 5 - RED
-  { degree: '4', dots: 0, note: 'F4', height: 180, keyboardKey: 'd' }, // position 6
-  { degree: '2', dots: 0, note: 'D4', height: 190, keyboardKey: 'f' }, // position 7
-  { degree: '1', dots: 0, note: 'C4', height: 200, highlight: true, keyboardKey: 'g' }, // position 8 - RED (center, longest)
-  { degree: '3', dots: 0, note: 'E4', height: 190, keyboardKey: 'j' }, // position 9
-  { degree: '5', dots: 0, note: 'G4', height: 180, keyboardKey: 'k' }, // position 10
-  { degree: '7', dots: 0, note: 'B4', height: 170, highlight: true, keyboardKey: 'l' }, // position 11 - RED
-  { degree: '2', dots: 1, note: 'D5', height: 160, keyboardKey: ';' }, // position 12
-  { degree: '4', dots: 1, note: 'F5', height: 150, keyboardKey: 'u' }, // position 13
-  { degree: '6', dots: 1, note: 'A5', height: 140, highlight: true, keyboardKey: 'i' }, // position 14 - RED
-  { degree: '1', dots: 2, note: 'C6', height: 130, keyboardKey: 'o' }, // position 15
-  { degree: '3', dots: 2, note: 'E6', height: 120, keyboardKey: 'p' } // position 16
-];
-
-// 键盘按键到索引的映射
-const KEYBOARD_MAP: Record<string, number> = {
-  q: 0, w: 1, e: 2, r: 3,
-  a: 4, s: 5, d: 6, f: 7, g: 8,
-  j: 9, k: 10, l: 11, ';': 12,
-  u: 13, i: 14, o: 15, p: 16
-};
+import { PointerEvent, useEffect, useMemo, useRef, useState } from 'react';
+import type { KalimbaKey } from '../score/tuning';
 
 interface KalimbaKeyboardProps {
+  keys: KalimbaKey[];
   onPlayNote: (index: number) => void;
-  highlightedIndex?: number | null; // 外部控制的高亮索引（用于乐谱播放）
+  highlightedIndex?: number | number[] | null; // 外部控制的高亮索引（用于乐谱播放，和弦时为多个）
 }
 
-export const KalimbaKeyboard = ({ onPlayNote, highlightedIndex = null }: KalimbaKeyboardProps) => {
+const KeyDots = ({ count }: { count: number }) => (
+  <div className="kalimba__dots">
+    {Array.from({ length: count }, (_, i) => (
+      <span key={i} className="kalimba__dot">·</span>
+    ))}
+  </div>
+);
+
+export const KalimbaKeyboard = ({ keys, onPlayNote, highlightedIndex = null }: KalimbaKeyboardProps) => {
   const pressedKeysRef = useRef<Set<number>>(new Set());
   const [activeKeys, setActiveKeys] = useState<Set<number>>(new Set());
+  const highlightedKeys = Array.isArray(highlightedIndex)
+    ? highlightedIndex
+    : highlightedIndex === null
+      ? []
+      : [highlightedIndex];
+
+  // 键盘按键到琴键索引的映射，随调音变化
+  const keyboardMap = useMemo(
+    () =>
+      keys.reduce<Record<string, number>>((map, key, index) => {
+        if (key.keyboardKey) {
+          map[key.keyboardKey] = index;
+        }
+        return map;
+      }, {}),
+    [keys]
+  );
+  const lowerRow = keys.map((key, index) => ({ key, index })).filter(({ key }) => key.row === 0);
+  const upperRow = keys.map((key, index) => ({ key, index })).filter(({ key }) => key.row === 1);
 
   const handlePointer = (event: PointerEvent<HTMLButtonElement>, index: number) => {
     event.preventDefault();
@@ -79,7 +65,7 @@ export const KalimbaKeyboard = ({ onPlayNote, highlightedIndex = null }: Kalimba
       }
 
       const key = event.key.toLowerCase();
-      const index = KEYBOARD_MAP[key];
+      const index = keyboardMap[key];
 
       if (index !== undefined && !pressedKeysRef.current.has(index)) {
         pressedKeysRef.current.add(index);
@@ -90,7 +76,7 @@ export const KalimbaKeyboard = ({ onPlayNote, highlightedIndex = null }: Kalimba
 
     const handleKeyUp = (event: KeyboardEvent) => {
       const key = event.key.toLowerCase();
-      const index = KEYBOARD_MAP[key];
+      const index = keyboardMap[key];
 
       if (index !== undefined) {
         pressedKeysRef.current.delete(index);
@@ -109,39 +95,45 @@ export const KalimbaKeyboard = ({ onPlayNote, highlightedIndex = null }: Kalimba
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [onPlayNote]);
+  }, [keyboardMap, onPlayNote]);
+
+  const renderKey = (key: KalimbaKey, index: number) => (
+    <button
+      type="button"
+      key={index}
+      className={`kalimba__key${key.row === 1 ? ' kalimba__key--sharp' : ''}${key.highlight ? ' kalimba__key--highlight' : ''}${activeKeys.has(index) ? ' kalimba__key--active' : ''}${highlightedKeys.includes(index) ? ' kalimba__key--score-active' : ''}`}
+      style={{ height: key.height }}
+      onPointerDown={(event) => handlePointer(event, index)}
+      onPointerUp={(event) => handlePointerUp(event, index)}
+      onPointerLeave={(event) => {
+        if (event.buttons === 1) {
+          handlePointerUp(event, index);
+        }
+      }}
+    >
+      <div className="kalimba__degree-wrapper">
+        {key.dots > 0 && <KeyDots count={key.dots} />}
+        <span className="kalimba__degree">{key.degree}</span>
+        {key.dots < 0 && <KeyDots count={-key.dots} />}
+      </div>
+      <span className="kalimba__note">{key.note}</span>
+      {key.keyboardKey && (
+        <span className="kalimba__keyboard-hint">{key.keyboardKey.toUpperCase()}</span>
+      )}
+    </button>
+  );
 
   return (
-    <div className="kalimba">
-      {KALIMBA_LAYOUT.map((key, index) => (
-        <button
-          type="button"
-          key={key.note}
-          className={`kalimba__key${key.highlight ? ' kalimba__key--highlight' : ''}${activeKeys.has(index) ? ' kalimba__key--active' : ''}${highlightedIndex === index ? ' kalimba__key--score-active' : ''}`}
-          style={{ height: key.height }}
-          onPointerDown={(event) => handlePointer(event, index)}
-          onPointerUp={(event) => handlePointerUp(event, index)}
-          onPointerLeave={(event) => {
-            if (event.buttons === 1) {
-              handlePointerUp(event, index);
-            }
-          }}
-        >
-          <div className="kalimba__degree-wrapper">
-            {key.dots > 0 && (
-              <div className="kalimba__dots">
-                {key.dots === 2 && <span className="kalimba__dot">·</span>}
-                {key.dots >= 1 && <span className="kalimba__dot">·</span>}
-              </div>
-            )}
-            <span className="kalimba__degree">{key.degree}</span>
-          </div>
-          <span className="kalimba__note">{key.note}</span>
-          {key.keyboardKey && (
-            <span className="kalimba__keyboard-hint">{key.keyboardKey.toUpperCase()}</span>
-          )}
-        </button>
-      ))}
+    <div className="kalimba-board">
+      {upperRow.length > 0 && (
+        <div className="kalimba kalimba--upper">
+          {lowerRow.map(({ key }) => {
+            const sharp = upperRow.find((item) => item.key.column === key.column);
+            return sharp ? renderKey(sharp.key, sharp.index) : <span key={key.column} className="kalimba__spacer" />;
+          })}
+        </div>
+      )}
+      <div className="kalimba">{lowerRow.map(({ key, index }) => renderKey(key, index))}</div>
     </div>
   );
 };
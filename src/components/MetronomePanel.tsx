@@ -0,0 +1,129 @@
+import { Button, Checkbox, InputNumber, Select, Slider } from 'antd';
+import {
+  METER_OPTIONS,
+  parseMeter,
+  type MetronomeSettings,
+  type MetronomeSubdivision
+} from '../audio/metronome';
+import { MAX_BPM, MIN_BPM } from '../audio/scoreScheduler';
+
+interface MetronomePanelProps {
+  settings: MetronomeSettings;
+  onSettingsChange: (changes: Partial<MetronomeSettings>) => void;
+  running: boolean;
+  onToggle: () => void;
+  /** 当前拍（小节内序号），未运行时为 null */
+  beat: number | null;
+  /** 跟随乐谱播放时的速度，此时节拍器自身速度不生效 */
+  followingBpm: number | null;
+}
+
+const SUBDIVISION_OPTIONS: { label: string; value: MetronomeSubdivision }[] = [
+  { label: '不细分', value: 1 },
+  { label: '八分', value: 2 },
+  { label: '三连音', value: 3 },
+  { label: '十六分', value: 4 }
+];
+
+const COUNT_IN_OPTIONS = [
+  { label: '无预备拍', value: 0 },
+  { label: '预备 1 小节', value: 1 },
+  { label: '预备 2 小节', value: 2 }
+];
+
+export const MetronomePanel = ({
+  settings,
+  onSettingsChange,
+  running,
+  onToggle,
+  beat,
+  followingBpm
+}: MetronomePanelProps) => {
+  const meter = `${settings.beatsPerBar}/${settings.beatUnit}`;
+  const meterOptions = (METER_OPTIONS.includes(meter) ? METER_OPTIONS : [...METER_OPTIONS, meter]).map((value) => ({
+    label: value,
+    value
+  }));
+
+  const toggleAccent = (index: number) => {
+    onSettingsChange({ accents: settings.accents.map((accent, i) => (i === index ? !accent : accent)) });
+  };
+
+  return (
+    <div className="metronome">
+      <Button size="small" type={running ? 'primary' : 'default'} onClick={onToggle}>
+        {running ? '节拍器：开' : '节拍器：关'}
+      </Button>
+      <label className="metronome__field">
+        ♩=
+        <InputNumber
+          size="small"
+          min={MIN_BPM}
+          max={MAX_BPM}
+          value={followingBpm ?? settings.bpm}
+          disabled={followingBpm !== null}
+          onChange={(value) => {
+            if (typeof value === 'number') {
+              onSettingsChange({ bpm: Math.min(MAX_BPM, Math.max(MIN_BPM, Math.round(value))) });
+            }
+          }}
+        />
+        {followingBpm !== null && <span className="metronome__hint">跟随乐谱</span>}
+      </label>
+      <Select
+        size="small"
+        value={meter}
+        onChange={(value) => {
+          const parsed = parseMeter(value);
+          if (parsed) {
+            onSettingsChange(parsed);
+          }
+        }}
+        options={meterOptions}
+        className="metronome__meter"
+      />
+      <div className="metronome__beats" title="点击切换重音">
+        {settings.accents.map((accent, index) => (
+          <button
+            key={index}
+            type="button"
+            className={`metronome__beat${accent ? ' metronome__beat--accent' : ''}${beat === index ? ' metronome__beat--active' : ''}`}
+            onClick={() => toggleAccent(index)}
+          >
+            {index + 1}
+          </button>
+        ))}
+      </div>
+      <Select<MetronomeSubdivision>
+        size="small"
+        value={settings.subdivision}
+        onChange={(subdivision) => onSettingsChange({ subdivision })}
+        options={SUBDIVISION_OPTIONS}
+      />
+      <Select<number>
+        size="small"
+        value={settings.countInBars}
+        onChange={(countInBars) => onSettingsChange({ countInBars })}
+        options={COUNT_IN_OPTIONS}
+      />
+      <label className="metronome__field">
+        音量
+        <Slider
+          min={0}
+          max={1}
+          step={0.01}
+          value={settings.volume}
+          onChange={(volume) => onSettingsChange({ volume })}
+          tooltip={{ formatter: (value) => (value === undefined ? '' : `${Math.round(value * 100)}%`) }}
+          className="metronome__volume"
+        />
+      </label>
+      <Checkbox
+        checked={settings.includeInAnalyser}
+        onChange={(event) => onSettingsChange({ includeInAnalyser: event.target.checked })}
+      >
+        计入可视化
+      </Checkbox>
+    </div>
+  );
+};
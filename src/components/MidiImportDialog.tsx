@@ -0,0 +1,98 @@
+import { useMemo, useState } from 'react';
+import { Alert, Checkbox, Modal, Select } from 'antd';
+import { midiTrackToScore, type MidiFile } from '../score/midi';
+import type { KalimbaTuning } from '../score/tuning';
+import type { ScoreDocument } from '../score/scoreFormat';
+
+// 超出音域的音最多逐个列出的数量
+const MAX_LISTED_NOTES = 24;
+
+interface MidiImportDialogProps {
+  /** 文件名（不含扩展名），用作乐谱名称 */
+  name: string;
+  midi: MidiFile;
+  tuning: KalimbaTuning;
+  onImport: (name: string, score: ScoreDocument) => void;
+  onCancel: () => void;
+}
+
+/** 选择要导入的音轨并预览转换结果，列出当前调音中弹不到的音 */
+export const MidiImportDialog = ({ name, midi, tuning, onImport, onCancel }: MidiImportDialogProps) => {
+  const [trackIndex, setTrackIndex] = useState(() =>
+    Math.max(0, midi.tracks.findIndex((track) => track.notes.length > 0))
+  );
+  const [melodyOnly, setMelodyOnly] = useState(false);
+
+  const result = useMemo(() => {
+    try {
+      return midiTrackToScore(midi, { trackIndex, keys: tuning.keys, melodyOnly, title: name });
+    } catch (err) {
+      return err instanceof Error ? err.message : 'MIDI 转换失败';
+    }
+  }, [melodyOnly, midi, name, trackIndex, tuning]);
+
+  const converted = typeof result === 'string' ? null : result;
+  const outOfRange = converted?.report.outOfRange ?? [];
+
+  return (
+    <Modal
+      title={`导入 MIDI：${name}`}
+      open
+      okText="导入为新乐谱"
+      cancelText="取消"
+      onOk={() => converted && onImport(name, converted.score)}
+      onCancel={onCancel}
+      okButtonProps={{ disabled: !converted }}
+    >
+      <div className="score-import">
+        <label className="score-import__row">
+          <span>音轨</span>
+          <Select
+            className="score-import__track"
+            value={trackIndex}
+            onChange={setTrackIndex}
+            options={midi.tracks.map((track) => ({
+              value: track.index,
+              label: `${track.index + 1}. ${track.name || '未命名音轨'}（${track.notes.length} 个音）`,
+              disabled: track.notes.length === 0
+            }))}
+          />
+        </label>
+        <Checkbox checked={melodyOnly} onChange={(event) => setMelodyOnly(event.target.checked)}>
+          只保留旋律（和弦取最高音）
+        </Checkbox>
+        {typeof result === 'string' && <Alert type="error" showIcon message={result} />}
+        {converted && (
+          <>
+            <div className="score-import__summary">
+              ♩={converted.score.header.bpm} · {converted.score.header.meter ?? '4/4'}
+              {converted.score.header.key ? ` · 1=${converted.score.header.key}` : ''} · {converted.score.notes.length} 个事件
+            </div>
+            {converted.report.warnings.map((warning) => (
+              <Alert key={warning} type="info" showIcon message={warning} />
+            ))}
+            {outOfRange.length > 0 ? (
+              <Alert
+                type="warning"
+                showIcon
+                message={`${outOfRange.length} 个音超出 ${tuning.name} 的音域，播放时不会发声`}
+                description={
+                  <ul className="score-import__notes">
+                    {outOfRange.slice(0, MAX_LISTED_NOTES).map((note, index) => (
+                      <li key={index}>
+                        第 {note.bar} 小节 {note.note}
+                      </li>
+                    ))}
+                    {outOfRange.length > MAX_LISTED_NOTES && <li>……</li>}
+                  </ul>
+                }
+              />
+            ) : (
+              <Alert type="success" showIcon message={`所有音都在 ${tuning.name} 的音域内`} />
+            )}
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,113 @@
+import { useMemo, useState } from 'react';
+import { Alert, Checkbox, Modal, Select } from 'antd';
+import { musicXmlPartToScore, type MusicXmlFile, type MusicXmlPart } from '../score/musicxml';
+import { describeRangeChange } from '../score/range';
+import type { ScoreDocument } from '../score/scoreFormat';
+import type { KalimbaTuning } from '../score/tuning';
+
+interface MusicXmlImportDialogProps {
+  /** 文件名（不含扩展名），乐谱没有标题时用作名称 */
+  name: string;
+  file: MusicXmlFile;
+  tuning: KalimbaTuning;
+  onImport: (name: string, score: ScoreDocument) => void;
+  onCancel: () => void;
+}
+
+const getDefaultVoice = (part: MusicXmlPart | undefined) =>
+  part?.voices.find((voice) => voice.noteCount > 0)?.id ?? '1';
+
+/** 选择声部与 voice，预览转换结果，并逐条列出为适配琴键所做的音高调整 */
+export const MusicXmlImportDialog = ({ name, file, tuning, onImport, onCancel }: MusicXmlImportDialogProps) => {
+  const [partId, setPartId] = useState(
+    () => (file.parts.find((part) => part.voices.some((voice) => voice.noteCount > 0)) ?? file.parts[0]).id
+  );
+  const part = file.parts.find((item) => item.id === partId);
+  const [voice, setVoice] = useState(() => getDefaultVoice(part));
+  const [melodyOnly, setMelodyOnly] = useState(true);
+  const title = file.title ?? name;
+
+  const result = useMemo(() => {
+    try {
+      return musicXmlPartToScore(file, { partId, voice, keys: tuning.keys, melodyOnly, title });
+    } catch (err) {
+      return err instanceof Error ? err.message : 'MusicXML 转换失败';
+    }
+  }, [file, melodyOnly, partId, title, tuning, voice]);
+
+  const converted = typeof result === 'string' ? null : result;
+  const changes = converted?.changes ?? [];
+
+  return (
+    <Modal
+      title={`导入 MusicXML：${title}`}
+      open
+      okText="导入为新乐谱"
+      cancelText="取消"
+      onOk={() => converted && onImport(title, converted.score)}
+      onCancel={onCancel}
+      okButtonProps={{ disabled: !converted }}
+    >
+      <div className="score-import">
+        <label className="score-import__row">
+          <span>声部</span>
+          <Select
+            className="score-import__track"
+            value={partId}
+            onChange={(id) => {
+              setPartId(id);
+              setVoice(getDefaultVoice(file.parts.find((item) => item.id === id)));
+            }}
+            options={file.parts.map((item) => ({ value: item.id, label: item.name || item.id }))}
+          />
+        </label>
+        <label className="score-import__row">
+          <span>Voice</span>
+          <Select
+            className="score-import__track"
+            value={voice}
+            onChange={setVoice}
+            options={(part?.voices ?? []).map((item) => ({
+              value: item.id,
+              label: `voice ${item.id}（${item.noteCount} 个音）`,
+              disabled: item.noteCount === 0
+            }))}
+          />
+        </label>
+        <Checkbox checked={melodyOnly} onChange={(event) => setMelodyOnly(event.target.checked)}>
+          只保留旋律（和弦取最高音）
+        </Checkbox>
+        {typeof result === 'string' && <Alert type="error" showIcon message={result} />}
+        {converted && (
+          <>
+            <div className="score-import__summary">
+              ♩={converted.score.header.bpm} · {converted.score.header.meter ?? '4/4'}
+              {converted.score.header.key ? ` · 1=${converted.score.header.key}` : ''} · {converted.score.notes.length} 个事件
+            </div>
+            {converted.warnings.map((warning) => (
+              <Alert key={warning} type="info" showIcon message={warning} />
+            ))}
+            {changes.length > 0 ? (
+              <Alert
+                type="warning"
+                showIcon
+                message={`为适配 ${tuning.name}，调整了 ${changes.length} 个音`}
+                description={
+                  <ul className="score-import__changes">
+                    {changes.map((change, index) => (
+                      <li key={index}>
+                        第 {change.bar} 小节 {describeRangeChange(change)}
+                      </li>
+                    ))}
+                  </ul>
+                }
+              />
+            ) : (
+              <Alert type="success" showIcon message={`所有音都在 ${tuning.name} 的音域内`} />
+            )}
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,158 @@
+import { ChangeEvent, FormEvent, useState } from 'react';
+import { Button, Input, Segmented, Slider, Switch } from 'antd';
+import {
+  MAX_CROSSFADE,
+  type PlaylistEntry,
+  type PlaylistRepeat,
+  type PlaylistSettings
+} from '../audio/engine/playlistSource';
+
+interface PlaylistPanelProps {
+  playlist: PlaylistSettings;
+  /** 播放列表是当前音源 */
+  active: boolean;
+  disabled: boolean;
+  onAdd: (entries: PlaylistEntry[]) => void;
+  onRemove: (id: string) => void;
+  onMove: (from: number, to: number) => void;
+  onClear: () => void;
+  onPlayItem: (index: number) => Promise<void>;
+  onSkip: (step: 1 | -1) => Promise<void>;
+  onRepeatChange: (repeat: PlaylistRepeat) => void;
+  onShuffleChange: (shuffle: boolean) => void;
+  onCrossfadeChange: (seconds: number) => void;
+}
+
+const REPEAT_OPTIONS: { label: string; value: PlaylistRepeat }[] = [
+  { label: '不循环', value: 'off' },
+  { label: '列表循环', value: 'all' },
+  { label: '单曲循环', value: 'one' }
+];
+
+// 错误信息已由 useAudioEngine 展示
+const ignoreError = () => {};
+
+export const PlaylistPanel = ({
+  playlist,
+  active,
+  disabled,
+  onAdd,
+  onRemove,
+  onMove,
+  onClear,
+  onPlayItem,
+  onSkip,
+  onRepeatChange,
+  onShuffleChange,
+  onCrossfadeChange
+}: PlaylistPanelProps) => {
+  const [url, setUrl] = useState('');
+  const { items, currentId, preloadedId, repeat, shuffle, crossfade } = playlist;
+
+  const handleFilesChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    if (files.length > 0) {
+      onAdd(files.map((file) => ({ kind: 'file', file })));
+    }
+    event.target.value = '';
+  };
+
+  const handleUrlSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (url.trim()) {
+      onAdd([{ kind: 'url', url: url.trim() }]);
+      setUrl('');
+    }
+  };
+
+  return (
+    <section className="playlist">
+      <div className="playlist__header">
+        <h3>播放列表</h3>
+        <span className="playlist__count">{items.length} 首</span>
+        <Button size="small" disabled={disabled || items.length === 0} onClick={() => void onSkip(-1).catch(ignoreError)}>
+          上一首
+        </Button>
+        <Button size="small" disabled={disabled || items.length === 0} onClick={() => void onSkip(1).catch(ignoreError)}>
+          下一首
+        </Button>
+      </div>
+      <div className="playlist__options">
+        <Segmented<PlaylistRepeat> size="small" value={repeat} onChange={onRepeatChange} options={REPEAT_OPTIONS} />
+        <label className="playlist__option">
+          <Switch size="small" checked={shuffle} onChange={onShuffleChange} />
+          随机播放
+        </label>
+        <label className="playlist__crossfade">
+          <span>交叉淡化</span>
+          <Slider
+            min={0}
+            max={MAX_CROSSFADE}
+            step={0.5}
+            value={crossfade}
+            onChange={onCrossfadeChange}
+            tooltip={{ formatter: (value) => (value ? `${value} 秒` : '无缝衔接') }}
+            className="playlist__slider"
+          />
+          <span className="playlist__value">{crossfade ? `${crossfade} 秒` : '无缝'}</span>
+        </label>
+      </div>
+      <div className="playlist__add">
+        <label className="playlist__upload">
+          <input type="file" accept="audio/*" multiple onChange={handleFilesChange} />
+          <span>添加本地文件</span>
+        </label>
+        <form className="playlist__url" onSubmit={handleUrlSubmit}>
+          <Input size="small" placeholder="https://example.com/audio.mp3" value={url} onChange={(event) => setUrl(event.target.value)} />
+          <Button size="small" htmlType="submit" disabled={!url.trim()}>
+            添加链接
+          </Button>
+        </form>
+      </div>
+      {items.length > 0 ? (
+        <ol className="playlist__items">
+          {items.map((item, index) => {
+            const isCurrent = active && item.id === currentId;
+            return (
+              <li key={item.id} className={`playlist__item${isCurrent ? ' playlist__item--current' : ''}`}>
+                <button
+                  type="button"
+                  className="playlist__name"
+                  disabled={disabled}
+                  onClick={() => void onPlayItem(index).catch(ignoreError)}
+                  title={item.entry.kind === 'url' ? item.entry.url : item.name}
+                >
+                  <span className="playlist__index">{isCurrent ? '▶' : index + 1}</span>
+                  {item.name}
+                </button>
+                {active && item.id === preloadedId && <span className="playlist__status">已预载</span>}
+                <Button size="small" type="text" disabled={index === 0} onClick={() => onMove(index, index - 1)} aria-label="上移">
+                  ↑
+                </Button>
+                <Button
+                  size="small"
+                  type="text"
+                  disabled={index === items.length - 1}
+                  onClick={() => onMove(index, index + 1)}
+                  aria-label="下移"
+                >
+                  ↓
+                </Button>
+                <Button size="small" type="text" onClick={() => onRemove(item.id)} aria-label="移除">
+                  ✕
+                </Button>
+              </li>
+            );
+          })}
+        </ol>
+      ) : (
+        <p className="playlist__empty">添加多个文件或链接后点击条目开始播放，播完自动切到下一首。</p>
+      )}
+      {items.length > 0 && (
+        <Button size="small" onClick={onClear} className="playlist__clear">
+          清空列表
+        </Button>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,73 @@
+import { Button, Segmented, Switch } from 'antd';
+import { PRACTICE_TEMPOS, type UsePracticeReturn } from '../hooks/usePractice';
+
+interface PracticePanelProps {
+  practice: UsePracticeReturn;
+  onStart: () => void;
+  onExit: () => void;
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+export const PracticePanel = ({ practice, onStart, onExit }: PracticePanelProps) => {
+  const { state, tempo, setTempo, waitMode, setWaitMode, bpm, counts, wrongPresses, summary } = practice;
+  const judged = counts.perfect + counts.good + counts.miss;
+  const showSummary = state === 'finished' || judged > 0;
+
+  return (
+    <div className="practice">
+      <div className="practice__controls">
+        <Button size="small" type="primary" onClick={onStart}>
+          {state === 'idle' ? '开始练习' : '重新开始'}
+        </Button>
+        <Button size="small" onClick={onExit}>
+          退出练习
+        </Button>
+        <Segmented<number>
+          size="small"
+          value={tempo}
+          onChange={setTempo}
+          options={PRACTICE_TEMPOS.map((value) => ({ label: formatPercent(value), value }))}
+        />
+        <span className="practice__tempo">♩={Math.round(bpm * tempo)}</span>
+        <label className="practice__wait">
+          <Switch size="small" checked={waitMode} onChange={setWaitMode} />
+          等待弹对
+        </label>
+      </div>
+      <div className="practice__stats">
+        <span className="practice__stat practice__stat--perfect">Perfect {counts.perfect}</span>
+        <span className="practice__stat practice__stat--good">Good {counts.good}</span>
+        <span className="practice__stat practice__stat--miss">Miss {counts.miss}</span>
+        <span className="practice__stat">弹错 {wrongPresses}</span>
+        {state === 'finished' && <span className="practice__stat">练习完成</span>}
+      </div>
+      {showSummary && (
+        <table className="practice__summary">
+          <thead>
+            <tr>
+              <th>段落</th>
+              <th>Perfect</th>
+              <th>Good</th>
+              <th>Miss</th>
+              <th>准确率</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summary
+              .filter((section) => section.total > 0)
+              .map((section) => (
+                <tr key={section.index}>
+                  <td>{section.label}</td>
+                  <td>{section.perfect}</td>
+                  <td>{section.good}</td>
+                  <td>{section.miss}</td>
+                  <td>{section.perfect + section.good + section.miss > 0 ? formatPercent(section.accuracy) : '—'}</td>
+                </tr>
+              ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import { useEffect, useMemo, useState } from 'react';
+import { PRACTICE_LEAD_SECONDS, type UsePracticeReturn } from '../hooks/usePractice';
+import type { KalimbaKey } from '../score/tuning';
+
+interface PracticeViewProps {
+  keys: KalimbaKey[];
+  practice: UsePracticeReturn;
+}
+
+// 下落区域高度（px），顶部到底部判定线对应 PRACTICE_LEAD_SECONDS 秒
+const VIEW_HEIGHT = 220;
+const MIN_NOTE_HEIGHT = 8;
+const MAX_NOTE_HEIGHT = 60;
+
+const FEEDBACK_LABELS = {
+  perfect: 'Perfect',
+  good: 'Good',
+  miss: 'Miss',
+  wrong: '×'
+};
+
+/** 音符沿各自琴键的轨道下落，到达底部判定线时应当拨奏；轨道与键盘按列对齐 */
+export const PracticeView = ({ keys, practice }: PracticeViewProps) => {
+  const { state, getPosition, getUnitSeconds, notes, results, feedback, isWaiting } = practice;
+  const [position, setPosition] = useState(() => getPosition());
+
+  // 播放中逐帧读取音频时钟上的位置
+  useEffect(() => {
+    if (state !== 'playing') {
+      return undefined;
+    }
+    let frame = 0;
+    const render = () => {
+      setPosition(getPosition());
+      frame = window.requestAnimationFrame(render);
+    };
+    render();
+    return () => window.cancelAnimationFrame(frame);
+  }, [getPosition, state]);
+
+  const lanes = useMemo(
+    () =>
+      keys
+        .map((key, index) => ({ key, index }))
+        .filter(({ key }) => key.row === 0)
+        .sort((a, b) => a.key.column - b.key.column),
+    [keys]
+  );
+
+  const windowUnits = PRACTICE_LEAD_SECONDS / getUnitSeconds();
+  const toPixels = (units: number) => (units / windowUnits) * VIEW_HEIGHT;
+
+  const renderNotes = (column: number) =>
+    notes.map((note, index) => {
+      const key = keys[note.keyIndex];
+      const result = results[index];
+      // 已弹中的音直接消失，漏掉的音继续落出判定线
+      if (key?.column !== column || result === 'perfect' || result === 'good') {
+        return null;
+      }
+      const bottom = toPixels(note.start - position);
+      if (bottom > VIEW_HEIGHT || bottom < -MAX_NOTE_HEIGHT) {
+        return null;
+      }
+      const height = Math.min(MAX_NOTE_HEIGHT, Math.max(MIN_NOTE_HEIGHT, toPixels(note.length) - 2));
+      return (
+        <span
+          key={index}
+          className={`practice-view__note${key.row === 1 ? ' practice-view__note--sharp' : ''}${result === 'miss' ? ' practice-view__note--miss' : ''}`}
+          style={{ bottom, height }}
+        />
+      );
+    });
+
+  return (
+    <div className="practice-view" style={{ height: VIEW_HEIGHT }}>
+      {lanes.map(({ key, index }) => {
+        const laneFeedback =
+          feedback && keys[feedback.keyIndex]?.column === key.column ? feedback : null;
+        return (
+          <div key={index} className="practice-view__lane">
+            {renderNotes(key.column)}
+            {laneFeedback && (
+              <span
+                key={laneFeedback.id}
+                className={`practice-view__feedback practice-view__feedback--${laneFeedback.judgement}`}
+              >
+                {FEEDBACK_LABELS[laneFeedback.judgement]}
+              </span>
+            )}
+          </div>
+        );
+      })}
+      <div className="practice-view__hit-line" />
+      {isWaiting && <div className="practice-view__waiting">等待弹奏…</div>}
+      {state === 'idle' && <div className="practice-view__waiting">点击「开始练习」，音符落到底线时拨奏对应琴键</div>}
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import { Button, Checkbox, Select } from 'antd';
+import type { UseRecorderReturn } from '../hooks/useRecorder';
+import { QUANTIZE_GRID_LABELS, type QuantizeGrid } from '../score/recording';
+
+interface RecorderPanelProps {
+  recorder: UseRecorderReturn;
+  onStart: () => void;
+  onStop: () => void;
+}
+
+const GRID_OPTIONS = (Object.keys(QUANTIZE_GRID_LABELS) as QuantizeGrid[]).map((grid) => ({
+  label: `${grid}（${QUANTIZE_GRID_LABELS[grid]}）`,
+  value: grid
+}));
+
+export const RecorderPanel = ({ recorder, onStart, onStop }: RecorderPanelProps) => {
+  const { state, grid, setGrid, countIn, setCountIn, hitCount, notice } = recorder;
+  const isIdle = state === 'idle';
+
+  return (
+    <div className="recorder">
+      <Button
+        size="small"
+        danger={!isIdle}
+        type={isIdle ? 'default' : 'primary'}
+        onClick={isIdle ? onStart : onStop}
+      >
+        {isIdle ? '● 录音' : '■ 停止并量化'}
+      </Button>
+      <label className="recorder__field">
+        量化
+        <Select<QuantizeGrid>
+          size="small"
+          value={grid}
+          onChange={setGrid}
+          options={GRID_OPTIONS}
+          className="recorder__grid"
+        />
+      </label>
+      <Checkbox checked={countIn} disabled={!isIdle} onChange={(event) => setCountIn(event.target.checked)}>
+        一小节预备拍
+      </Checkbox>
+      <span className={`recorder__status${isIdle ? '' : ' recorder__status--active'}`}>
+        {state === 'count-in' ? '预备拍…' : state === 'recording' ? `录音中 · 已录 ${hitCount} 个音` : notice}
+      </span>
+    </div>
+  );
+};
@@ -1,20 +1,35 @@
-import { useState, useEffect } from 'react';
-import { Drawer, Button } from 'antd';
+import { DragEvent, useEffect, useMemo, useState } from 'react';
+import { Drawer, Button, Segmented, Space } from 'antd';
 import Editor, { loader } from '@monaco-editor/react';
 import * as monaco from 'monaco-editor';
+import { hasJianpuErrors, jianpuToScore, parseJianpu } from '../score/jianpu';
+import type { RenderVoice } from '../audio/offlineRender';
+import { parseMidi, writeMidi, type MidiFile } from '../score/midi';
+import { readMusicXmlFile, type MusicXmlFile } from '../score/musicxml';
+import { downloadBlob } from '../score/scoreLibrary';
+import { isLegacyScore, parseScore, type ScoreDocument, type ScoreNote } from '../score/scoreFormat';
+import { SCORE_MODEL_PATH, SCORE_SCHEMA_URI, createScoreSchema } from '../score/scoreSchema';
+import type { KalimbaTuning } from '../score/tuning';
+import { useScoreLibrary } from '../hooks/useScoreLibrary';
+import { JianpuInput } from './JianpuInput';
+import { MidiImportDialog } from './MidiImportDialog';
+import { MusicXmlImportDialog } from './MusicXmlImportDialog';
+import { TransposeDialog } from './TransposeDialog';
+import { WavExportDialog } from './WavExportDialog';
+import { ScoreLibraryBar } from './ScoreLibraryBar';
 
 // 配置使用本地打包的 Monaco Editor，而不是从 CDN 加载
 loader.config({ monaco });
 
-export type ScoreNote = {
-  code: string;
-  duration: string;
-};
-
 interface ScoreEditorProps {
+  tuning: KalimbaTuning;
   visible: boolean;
   onClose: () => void;
-  onPlay: (score: ScoreNote[]) => void;
+  onPlay: (score: ScoreDocument) => void;
+  /** 外部生成的乐谱（如演奏录音），每次传入新对象时作为未保存乐谱打开 */
+  incomingScore?: ScoreDocument | null;
+  /** 导出 WAV 时使用的音色 */
+  renderVoice: RenderVoice;
 }
 
 const DEFAULT_SCORE: ScoreNote[] = [
@@ -36,61 +51,139 @@ const DEFAULT_SCORE: ScoreNote[] = [
   { code: '-', duration: '16' }
 ];
 
-export const ScoreEditor = ({ visible, onClose, onPlay }: ScoreEditorProps) => {
-  const [scoreJson, setScoreJson] = useState<string>(
-    JSON.stringify(DEFAULT_SCORE, null, 2)
-  );
+const DEFAULT_SCORE_JSON = JSON.stringify(DEFAULT_SCORE, null, 2);
+
+type InputMode = 'json' | 'jianpu';
+
+const MIDI_FILE_PATTERN = /\.midi?$/i;
+const MUSICXML_FILE_PATTERN = /\.(musicxml|xml|mxl)$/i;
+
+const DEFAULT_JIANPU = `1=C ♩=120 4/4
+1 1 5 5 | 6 6 5 0 | 4 4 3 3 | 2 2 1 0 |`;
+
+export const ScoreEditor = ({ tuning, visible, onClose, onPlay, incomingScore = null, renderVoice }: ScoreEditorProps) => {
+  const library = useScoreLibrary(DEFAULT_SCORE_JSON);
+  const { content: scoreJson, setContent: setScoreJson, isLoading } = library;
   const [error, setError] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  const [isDragging, setIsDragging] = useState(false);
+  const [inputMode, setInputMode] = useState<InputMode>('json');
+  const [jianpuText, setJianpuText] = useState(DEFAULT_JIANPU);
+  const [midiImport, setMidiImport] = useState<{ name: string; midi: MidiFile } | null>(null);
+  const [musicXmlImport, setMusicXmlImport] = useState<{ name: string; file: MusicXmlFile } | null>(null);
+  const [transposeSource, setTransposeSource] = useState<ScoreDocument | null>(null);
+  const [wavSource, setWavSource] = useState<ScoreDocument | null>(null);
+  const jianpuResult = useMemo(
+    () => parseJianpu(jianpuText, tuning.keys.map((key) => key.note)),
+    [jianpuText, tuning]
+  );
 
-  // 加载默认乐谱文件
+  // 注册乐谱 schema：逐行标出当前调音下非法的音符/时值，并提供音符与常用时值补全、悬浮说明
   useEffect(() => {
-    const loadDefaultScore = async () => {
-      try {
-        const response = await fetch('/大鱼海棠.json');
-        if (response.ok) {
-          const json = await response.json();
-          setScoreJson(JSON.stringify(json, null, 2));
-        } else {
-          // 如果文件不存在，使用默认乐谱
-          setScoreJson(JSON.stringify(DEFAULT_SCORE, null, 2));
-        }
-      } catch (err) {
-        // 加载失败时使用默认乐谱
-        setScoreJson(JSON.stringify(DEFAULT_SCORE, null, 2));
-      } finally {
-        setIsLoading(false);
-      }
-    };
+    monaco.json.jsonDefaults.setDiagnosticsOptions({
+      validate: true,
+      schemaValidation: 'error',
+      schemas: [{ uri: SCORE_SCHEMA_URI, fileMatch: [SCORE_MODEL_PATH], schema: createScoreSchema(tuning.keys) }]
+    });
+  }, [tuning]);
 
-    if (visible) {
-      loadDefaultScore();
+  const { openUnsaved } = library;
+  useEffect(() => {
+    if (incomingScore) {
+      void openUnsaved(JSON.stringify(incomingScore, null, 2));
+      setInputMode('json');
+      setError(null);
     }
-  }, [visible]);
+  }, [incomingScore, openUnsaved]);
 
-  const handlePlay = () => {
+  // .json 直接导入乐谱库，MIDI 与 MusicXML 先解析，再打开音轨 / 声部选择
+  const handleImportFile = async (file: File) => {
     try {
-      const parsed = JSON.parse(scoreJson) as ScoreNote[];
-      
-      // 验证格式
-      if (!Array.isArray(parsed)) {
-        throw new Error('乐谱必须是数组格式');
+      if (MIDI_FILE_PATTERN.test(file.name)) {
+        setMidiImport({ name: file.name.replace(MIDI_FILE_PATTERN, ''), midi: parseMidi(await file.arrayBuffer()) });
+      } else if (MUSICXML_FILE_PATTERN.test(file.name)) {
+        const parsed = await readMusicXmlFile(file.name, await file.arrayBuffer());
+        setMusicXmlImport({ name: file.name.replace(MUSICXML_FILE_PATTERN, ''), file: parsed });
+      } else {
+        await library.importFile(file);
       }
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '文件解析失败');
+    }
+  };
+
+  const handleImportScore = (name: string, score: ScoreDocument) => {
+    setMidiImport(null);
+    setMusicXmlImport(null);
+    setInputMode('json');
+    void library.importDocument(name, score);
+  };
 
-      // 验证每个元素
-      for (let i = 0; i < parsed.length; i++) {
-        const note = parsed[i];
-        if (!note || typeof note !== 'object') {
-          throw new Error(`第 ${i + 1} 个元素格式错误`);
-        }
-        if (!('code' in note) || !('duration' in note)) {
-          throw new Error(`第 ${i + 1} 个元素缺少 code 或 duration 字段`);
-        }
-        if (typeof note.code !== 'string' || typeof note.duration !== 'string') {
-          throw new Error(`第 ${i + 1} 个元素的 code 或 duration 必须是字符串`);
-        }
+  // 读取编辑器中的乐谱：简谱模式下先转换，JSON 解析失败时抛出错误
+  const readCurrentScore = () =>
+    inputMode === 'jianpu' && !hasJianpuErrors(jianpuResult)
+      ? jianpuToScore(jianpuResult)
+      : parseScore(JSON.parse(scoreJson));
+
+  const handleExportMidi = () => {
+    try {
+      downloadBlob(`${library.currentName}.mid`, new Blob([writeMidi(readCurrentScore())], { type: 'audio/midi' }));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'JSON 解析失败');
+    }
+  };
+
+  const handleOpenWavExport = () => {
+    try {
+      setWavSource(readCurrentScore());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'JSON 解析失败');
+    }
+  };
+
+  const handleOpenTranspose = () => {
+    try {
+      setTransposeSource(readCurrentScore());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'JSON 解析失败');
+    }
+  };
+
+  // 移调结果写回 JSON 编辑器，与手动编辑一样自动保存为草稿
+  const handleApplyTranspose = (score: ScoreDocument) => {
+    setTransposeSource(null);
+    setScoreJson(JSON.stringify(score, null, 2));
+    setInputMode('json');
+  };
+
+  // 拖入文件即导入到乐谱库
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    const file = event.dataTransfer.files[0];
+    if (file) {
+      void handleImportFile(file);
+    }
+  };
+
+  const handlePlay = () => {
+    if (inputMode === 'jianpu') {
+      if (hasJianpuErrors(jianpuResult)) {
+        setError('简谱中存在错误，请先修正标记的位置');
+        return;
       }
+      setError(null);
+      onPlay(jianpuToScore(jianpuResult));
+      onClose();
+      return;
+    }
 
+    try {
+      // 同时支持 v1 数组与 v2 文档，统一升级为 v2
+      const parsed = parseScore(JSON.parse(scoreJson));
       setError(null);
       onPlay(parsed);
       onClose();
@@ -99,6 +192,30 @@ export const ScoreEditor = ({ visible, onClose, onPlay }: ScoreEditorProps) => {
     }
   };
 
+  // 简谱转换为 JSON 后切回 JSON 模式，便于继续微调
+  const handleConvertJianpu = () => {
+    if (hasJianpuErrors(jianpuResult)) {
+      setError('简谱中存在错误，请先修正标记的位置');
+      return;
+    }
+    setScoreJson(JSON.stringify(jianpuToScore(jianpuResult), null, 2));
+    setInputMode('json');
+    setError(null);
+  };
+
+  const handleUpgrade = () => {
+    try {
+      const value: unknown = JSON.parse(scoreJson);
+      if (!isLegacyScore(value)) {
+        return;
+      }
+      setScoreJson(JSON.stringify(parseScore(value), null, 2));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'JSON 解析失败');
+    }
+  };
+
   return (
     <Drawer
       title="乐谱编辑器"
@@ -107,37 +224,119 @@ export const ScoreEditor = ({ visible, onClose, onPlay }: ScoreEditorProps) => {
       open={visible}
       onClose={onClose}
       extra={
-        <Button type="primary" onClick={handlePlay}>
-          播放
-        </Button>
+        <Space>
+          {inputMode === 'json' ? (
+            <Button onClick={handleUpgrade}>转换为 v2 格式</Button>
+          ) : (
+            <Button onClick={handleConvertJianpu}>转换为 JSON</Button>
+          )}
+          <Button onClick={handleOpenTranspose}>移调适配</Button>
+          <Button type="primary" onClick={handlePlay}>
+            播放
+          </Button>
+        </Space>
       }
     >
-      {error && (
-        <div style={{ color: '#ff4d4f', marginBottom: '1rem', padding: '0.5rem', background: 'rgba(255, 77, 79, 0.1)', borderRadius: '4px' }}>
-          {error}
-        </div>
-      )}
-      {isLoading ? (
-        <div style={{ textAlign: 'center', padding: '2rem', color: '#999' }}>
-          加载默认乐谱中...
-        </div>
-      ) : (
-        <Editor
-          height="calc(100vh - 200px)"
-          defaultLanguage="json"
-          value={scoreJson}
+      <div
+        className={`score-editor${isDragging ? ' score-editor--dragging' : ''}`}
+        onDragOver={(event) => {
+          event.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+      >
+        <ScoreLibraryBar
+          library={library}
+          onImportFile={(file) => void handleImportFile(file)}
+          onExportMidi={handleExportMidi}
+          onExportWav={handleOpenWavExport}
+        />
+        {(error ?? library.error) && (
+          <div style={{ color: '#ff4d4f', marginBottom: '1rem', padding: '0.5rem', background: 'rgba(255, 77, 79, 0.1)', borderRadius: '4px' }}>
+            {error ?? library.error}
+          </div>
+        )}
+        <Segmented<InputMode>
+          value={inputMode}
           onChange={(value) => {
-            setScoreJson(value || '');
+            setInputMode(value);
             setError(null);
           }}
-          theme="vs-dark"
-          options={{
-            minimap: { enabled: false },
-            fontSize: 14,
-            lineNumbers: 'on',
-            scrollBeyondLastLine: false,
-            automaticLayout: true
-          }}
+          options={[
+            { label: 'JSON', value: 'json' },
+            { label: '简谱', value: 'jianpu' }
+          ]}
+          style={{ marginBottom: '0.75rem' }}
+        />
+        {inputMode === 'jianpu' ? (
+          <JianpuInput
+            value={jianpuText}
+            onChange={(value) => {
+              setJianpuText(value);
+              setError(null);
+            }}
+            result={jianpuResult}
+          />
+        ) : isLoading ? (
+          <div style={{ textAlign: 'center', padding: '2rem', color: '#999' }}>
+            加载乐谱中...
+          </div>
+        ) : (
+          <Editor
+            height="calc(100vh - 330px)"
+            path={SCORE_MODEL_PATH}
+            defaultLanguage="json"
+            value={scoreJson}
+            onChange={(value) => {
+              setScoreJson(value || '');
+              setError(null);
+            }}
+            theme="vs-dark"
+            options={{
+              minimap: { enabled: false },
+              fontSize: 14,
+              lineNumbers: 'on',
+              scrollBeyondLastLine: false,
+              automaticLayout: true
+            }}
+          />
+        )}
+        {isDragging && <div className="score-editor__drop">松开以导入乐谱文件（.json / .mid / .musicxml / .mxl）</div>}
+      </div>
+      {midiImport && (
+        <MidiImportDialog
+          name={midiImport.name}
+          midi={midiImport.midi}
+          tuning={tuning}
+          onImport={handleImportScore}
+          onCancel={() => setMidiImport(null)}
+        />
+      )}
+      {musicXmlImport && (
+        <MusicXmlImportDialog
+          name={musicXmlImport.name}
+          file={musicXmlImport.file}
+          tuning={tuning}
+          onImport={handleImportScore}
+          onCancel={() => setMusicXmlImport(null)}
+        />
+      )}
+      {transposeSource && (
+        <TransposeDialog
+          score={transposeSource}
+          tuning={tuning}
+          onApply={handleApplyTranspose}
+          onCancel={() => setTransposeSource(null)}
+        />
+      )}
+      {wavSource && (
+        <WavExportDialog
+          name={library.currentName}
+          score={wavSource}
+          tuning={tuning}
+          voice={renderVoice}
+          onClose={() => setWavSource(null)}
         />
       )}
     </Drawer>
@@ -0,0 +1,138 @@
+import { ChangeEvent, useRef, useState } from 'react';
+import { Button, Input, Modal, Popconfirm, Select, Space, Tag } from 'antd';
+import type { UseScoreLibraryReturn } from '../hooks/useScoreLibrary';
+
+type NameDialog = { mode: 'saveAs' | 'rename'; value: string } | null;
+
+interface ScoreLibraryBarProps {
+  library: UseScoreLibraryReturn;
+  /** 导入文件（.json 乐谱、.mid/.midi 或 MusicXML） */
+  onImportFile: (file: File) => void;
+  onExportMidi: () => void;
+  onExportWav: () => void;
+}
+
+export const ScoreLibraryBar = ({ library, onImportFile, onExportMidi, onExportWav }: ScoreLibraryBarProps) => {
+  const [nameDialog, setNameDialog] = useState<NameDialog>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const { presets, scores, selectedId, currentName, isPreset, isDirty } = library;
+  const isUnsaved = !isPreset && !scores.some((score) => score.id === selectedId);
+
+  const handleSave = async () => {
+    const saved = await library.save();
+    // 保存失败时错误由乐谱库显示，只有需要命名时才打开对话框
+    if (!saved && (isPreset || isUnsaved)) {
+      setNameDialog({ mode: 'saveAs', value: isPreset ? `${currentName} 副本` : currentName });
+    }
+  };
+
+  const handleConfirmName = async () => {
+    if (!nameDialog) {
+      return;
+    }
+    if (nameDialog.mode === 'saveAs') {
+      await library.saveAs(nameDialog.value);
+    } else {
+      await library.rename(nameDialog.value);
+    }
+    setNameDialog(null);
+  };
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      onImportFile(file);
+    }
+    event.target.value = '';
+  };
+
+  return (
+    <div className="score-library">
+      <div className="score-library__row">
+        <Select
+          className="score-library__picker"
+          value={selectedId}
+          onChange={(id) => void library.select(id)}
+          options={[
+            {
+              label: '预设（只读）',
+              options: presets.map((preset) => ({ label: preset.name, value: preset.id }))
+            },
+            {
+              label: '我的乐谱',
+              options: scores.map((score) => ({ label: score.name, value: score.id }))
+            }
+          ]}
+          notFoundContent="暂无乐谱"
+        />
+        {isPreset && <Tag color="blue">只读预设</Tag>}
+        {isDirty && <Tag color="gold">未保存（草稿已自动保存）</Tag>}
+      </div>
+      <Space wrap size="small">
+        <Button size="small" type="primary" ghost onClick={() => void handleSave()} disabled={!isDirty && !isUnsaved}>
+          保存
+        </Button>
+        <Button size="small" onClick={() => setNameDialog({ mode: 'saveAs', value: `${currentName} 副本` })}>
+          另存为
+        </Button>
+        <Button
+          size="small"
+          onClick={() => setNameDialog({ mode: 'rename', value: currentName })}
+          disabled={isPreset || isUnsaved}
+        >
+          重命名
+        </Button>
+        <Button size="small" onClick={() => void library.duplicate()} disabled={isUnsaved}>
+          复制
+        </Button>
+        <Popconfirm
+          title={`删除「${currentName}」？`}
+          okText="删除"
+          cancelText="取消"
+          onConfirm={() => library.remove()}
+          disabled={isPreset || isUnsaved}
+        >
+          <Button size="small" danger disabled={isPreset || isUnsaved}>
+            删除
+          </Button>
+        </Popconfirm>
+        <Button size="small" onClick={() => fileInputRef.current?.click()}>
+          导入
+        </Button>
+        <Button size="small" onClick={library.exportCurrent}>
+          导出
+        </Button>
+        <Button size="small" onClick={onExportMidi}>
+          导出 MIDI
+        </Button>
+        <Button size="small" onClick={onExportWav}>
+          导出 WAV
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json,.mid,.midi,audio/midi,.musicxml,.xml,.mxl"
+          hidden
+          onChange={handleFileChange}
+        />
+      </Space>
+      <Modal
+        title={nameDialog?.mode === 'rename' ? '重命名乐谱' : '另存为新乐谱'}
+        open={nameDialog !== null}
+        okText="确定"
+        cancelText="取消"
+        onOk={() => void handleConfirmName()}
+        onCancel={() => setNameDialog(null)}
+        okButtonProps={{ disabled: !nameDialog?.value.trim() }}
+      >
+        <Input
+          autoFocus
+          value={nameDialog?.value ?? ''}
+          placeholder="乐谱名称"
+          onChange={(event) => setNameDialog((current) => current && { ...current, value: event.target.value })}
+          onPressEnter={() => void handleConfirmName()}
+        />
+      </Modal>
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Segmented } from 'antd';
+import { getBarUnits, getTonic, toJianpuDuration, toJianpuSymbol, type JianpuSymbol } from '../score/notation';
+import { noteToMidi } from '../score/pitch';
+import { REST_CODE, type ScoreDocument } from '../score/scoreFormat';
+import type { KalimbaKey } from '../score/tuning';
+
+type NotationView = 'jianpu' | 'tab';
+
+interface ScoreNotationProps {
+  score: ScoreDocument;
+  keys: KalimbaKey[];
+  currentIndex: number | null;
+  onNoteClick: (index: number) => void;
+}
+
+// 简谱中四分音符在 tab 视图中的行高（px）
+const TAB_QUARTER_HEIGHT = 28;
+
+const JianpuDigit = ({ symbol }: { symbol: JianpuSymbol | null }) => {
+  if (!symbol) {
+    return <span className="score-notation__digit score-notation__digit--unknown">?</span>;
+  }
+  const dots = Array.from({ length: Math.abs(symbol.octave) }, (_, i) => (
+    <span key={i} className="score-notation__dot">·</span>
+  ));
+  return (
+    <span className="score-notation__digit">
+      <span className="score-notation__dots">{symbol.octave > 0 && dots}</span>
+      <span>
+        {symbol.sharp && <sup className="score-notation__sharp">#</sup>}
+        {symbol.degree}
+      </span>
+      <span className="score-notation__dots">{symbol.octave < 0 && dots}</span>
+    </span>
+  );
+};
+
+export const ScoreNotation = ({ score, keys, currentIndex, onNoteClick }: ScoreNotationProps) => {
+  const [view, setView] = useState<NotationView>('jianpu');
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const noteRefs = useRef<(HTMLElement | null)[]>([]);
+
+  const tonic = getTonic(score.header);
+  // tab 视图按琴键从左到右排列，半音阶琴的升号键紧跟在下方自然音之后
+  const tabKeys = useMemo(() => [...keys].sort((a, b) => a.column - b.column || a.row - b.row), [keys]);
+  const tabColumns = `repeat(${tabKeys.length}, 1fr)`;
+  const barUnits = getBarUnits(score.header);
+
+  // 每个事件的起点，用于在小节边界插入小节线
+  const starts = useMemo(() => {
+    let cursor = 0;
+    return score.notes.map((event) => {
+      const start = cursor;
+      cursor += event.duration;
+      return start;
+    });
+  }, [score]);
+
+  // 光标跟随：让当前音符保持在滚动区域中部
+  useEffect(() => {
+    const container = containerRef.current;
+    const element = currentIndex === null ? null : noteRefs.current[currentIndex];
+    if (!container || !element) {
+      return;
+    }
+    container.scrollTo({
+      top: element.offsetTop - container.clientHeight / 2 + element.offsetHeight / 2,
+      left: element.offsetLeft - container.clientWidth / 2 + element.offsetWidth / 2,
+      behavior: 'smooth'
+    });
+  }, [currentIndex, view]);
+
+  const codesOf = (index: number) => {
+    const { code } = score.notes[index];
+    return Array.isArray(code) ? code : [code];
+  };
+
+  const renderJianpu = () =>
+    score.notes.map((event, index) => {
+      const { underlines, dots, dashes } = toJianpuDuration(event.duration);
+      const symbols = codesOf(index).map((code) => toJianpuSymbol(code, tonic));
+      const endsBar = (starts[index] + event.duration) % barUnits === 0;
+      return (
+        <span key={index} className="score-notation__group">
+          <button
+            type="button"
+            ref={(element) => {
+              noteRefs.current[index] = element;
+            }}
+            className={`score-notation__note${currentIndex === index ? ' score-notation__note--current' : ''}`}
+            onClick={() => onNoteClick(index)}
+            title={`第 ${index + 1} 个音符：${codesOf(index).join(' + ')}，时值 ${event.duration}`}
+          >
+            <span className="score-notation__head">
+              <span className="score-notation__chord">
+                {symbols.map((symbol, i) => (
+                  <JianpuDigit key={i} symbol={symbol} />
+                ))}
+              </span>
+              {dots > 0 && <span className="score-notation__augment">{'·'.repeat(dots)}</span>}
+            </span>
+            {underlines > 0 && (
+              <span className="score-notation__underlines">
+                {Array.from({ length: underlines }, (_, i) => (
+                  <span key={i} className="score-notation__underline" />
+                ))}
+              </span>
+            )}
+          </button>
+          {Array.from({ length: dashes }, (_, i) => (
+            <span key={i} className="score-notation__dash">-</span>
+          ))}
+          {endsBar && <span className="score-notation__bar">|</span>}
+        </span>
+      );
+    });
+
+  const renderTab = () => (
+    <div className="score-notation__tab">
+      <div className="score-notation__tines" style={{ gridTemplateColumns: tabColumns }}>
+        {tabKeys.map((key) => (
+          <span key={key.note} className={`score-notation__tine${key.highlight ? ' score-notation__tine--highlight' : ''}`}>
+            {key.note}
+          </span>
+        ))}
+      </div>
+      {score.notes.map((event, index) => {
+        const codes = codesOf(index);
+        const isRest = codes.every((code) => code === REST_CODE);
+        const height = Math.max(18, (event.duration / 16) * TAB_QUARTER_HEIGHT);
+        const startsBar = starts[index] % barUnits === 0;
+        return (
+          <button
+            type="button"
+            key={index}
+            ref={(element) => {
+              noteRefs.current[index] = element;
+            }}
+            className={`score-notation__row${currentIndex === index ? ' score-notation__row--current' : ''}${startsBar ? ' score-notation__row--bar' : ''}`}
+            style={{ gridTemplateColumns: tabColumns, height }}
+            onClick={() => onNoteClick(index)}
+            title={`第 ${index + 1} 个音符：${codes.join(' + ')}`}
+          >
+            {tabKeys.map((key) => (
+              <span key={key.note} className="score-notation__cell">
+                {codes.some((code) => noteToMidi(code) === key.midi) && (
+                  <span className="score-notation__mark">
+                    {key.degree}
+                    {key.dots > 0 && '·'.repeat(key.dots)}
+                    {key.dots < 0 && <sub>{'·'.repeat(-key.dots)}</sub>}
+                  </span>
+                )}
+              </span>
+            ))}
+            {isRest && <span className="score-notation__rest">休止</span>}
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <section className="score-notation">
+      <div className="score-notation__header">
+        <h3>{score.header.title ?? '乐谱'}</h3>
+        <Segmented<NotationView>
+          size="small"
+          value={view}
+          onChange={setView}
+          options={[
+            { label: '简谱', value: 'jianpu' },
+            { label: '拇指琴谱', value: 'tab' }
+          ]}
+        />
+      </div>
+      <div ref={containerRef} className={`score-notation__body score-notation__body--${view}`}>
+        {view === 'jianpu' ? renderJianpu() : renderTab()}
+      </div>
+      <p className="score-notation__hint">点击任意音符即可从该处开始播放。</p>
+    </section>
+  );
+};
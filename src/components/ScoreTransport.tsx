@@ -0,0 +1,79 @@
+import { Button, InputNumber, Slider } from 'antd';
+import { MAX_BPM, MIN_BPM, type LoopRange } from '../audio/scoreScheduler';
+
+interface ScoreTransportProps {
+  bpm: number;
+  onBpmChange: (value: number) => void;
+  loop: LoopRange | null;
+  onLoopChange: (range: LoopRange | null) => void;
+  currentIndex: number | null;
+  noteCount: number;
+}
+
+export const ScoreTransport = ({
+  bpm,
+  onBpmChange,
+  loop,
+  onLoopChange,
+  currentIndex,
+  noteCount
+}: ScoreTransportProps) => {
+  const canMark = currentIndex !== null;
+
+  // A/B 点取当前播放到的音符，未设置的一端默认使用乐谱首/尾
+  const markA = () => {
+    if (currentIndex === null) {
+      return;
+    }
+    const end = loop && loop.end >= currentIndex ? loop.end : noteCount - 1;
+    onLoopChange({ start: currentIndex, end });
+  };
+
+  const markB = () => {
+    if (currentIndex === null) {
+      return;
+    }
+    const start = loop && loop.start <= currentIndex ? loop.start : 0;
+    onLoopChange({ start, end: currentIndex });
+  };
+
+  return (
+    <div className="score-transport">
+      <label className="score-transport__tempo">
+        速度（BPM）
+        <Slider
+          min={MIN_BPM}
+          max={MAX_BPM}
+          value={bpm}
+          onChange={(value) => onBpmChange(value)}
+          className="score-transport__slider"
+        />
+        <InputNumber
+          min={MIN_BPM}
+          max={MAX_BPM}
+          value={bpm}
+          size="small"
+          onChange={(value) => {
+            if (typeof value === 'number') {
+              onBpmChange(value);
+            }
+          }}
+        />
+      </label>
+      <div className="score-transport__loop">
+        <Button size="small" onClick={markA} disabled={!canMark}>
+          设为 A 点
+        </Button>
+        <Button size="small" onClick={markB} disabled={!canMark}>
+          设为 B 点
+        </Button>
+        <Button size="small" onClick={() => onLoopChange(null)} disabled={!loop}>
+          取消循环
+        </Button>
+        <span className="score-transport__loop-label">
+          {loop ? `循环：第 ${loop.start + 1} – ${loop.end + 1} 个音符` : '未设置循环'}
+        </span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import { useMemo } from 'react';
+import { Alert, Button } from 'antd';
+import type { OutOfRangeNote } from '../score/range';
+
+interface SkippedNotesAlertProps {
+  notes: OutOfRangeNote[];
+  tuningName: string;
+  onOpenEditor: () => void;
+}
+
+/** 播放时被跳过的音：按音名归并，列出所在小节 */
+export const SkippedNotesAlert = ({ notes, tuningName, onOpenEditor }: SkippedNotesAlertProps) => {
+  const groups = useMemo(() => {
+    const bars = new Map<string, number[]>();
+    notes.forEach(({ note, bar }) => {
+      const list = bars.get(note) ?? [];
+      if (!list.includes(bar)) {
+        list.push(bar);
+      }
+      bars.set(note, list);
+    });
+    return [...bars].map(([note, list]) => ({ note, count: notes.filter((item) => item.note === note).length, bars: list }));
+  }, [notes]);
+
+  if (notes.length === 0) {
+    return null;
+  }
+
+  return (
+    <Alert
+      className="skipped-notes"
+      type="warning"
+      showIcon
+      message={`${tuningName} 弹不到 ${notes.length} 个音，播放时已跳过`}
+      description={
+        <>
+          <ul className="skipped-notes__list">
+            {groups.map(({ note, count, bars }) => (
+              <li key={note}>
+                <strong>{note}</strong> ×{count}（第 {bars.join('、')} 小节）
+              </li>
+            ))}
+          </ul>
+          可在乐谱编辑器中用「移调适配」把旋律移到琴键上。
+        </>
+      }
+      action={
+        <Button size="small" onClick={onOpenEditor}>
+          打开编辑器
+        </Button>
+      }
+    />
+  );
+};
@@ -1,21 +1,82 @@
-import { FormEvent, useEffect, useState, ChangeEvent } from 'react';
-import { Tabs, type TabsProps } from 'antd';
+import { FormEvent, useCallback, useEffect, useRef, useState, ChangeEvent } from 'react';
+import { Select, Slider, Switch, Tabs, type TabsProps } from 'antd';
+import { MAX_INPUT_GAIN, listInputDevices, type InputDevice, type InputSettings } from '../audio/engine/inputSource';
 import type { AudioSourceDescriptor } from '../hooks/useAudioEngine';
+import { KALIMBA_TUNINGS, KEY_COUNTS } from '../score/tuning';
 
-export type SourceMode = 'media' | 'stream' | 'instrument';
+export type SourceMode = 'media' | 'stream' | 'instrument' | 'input';
 
 interface SourceSelectorProps {
   onSelect: (descriptor: AudioSourceDescriptor) => Promise<void> | void;
   loading: boolean;
   activeTab: SourceMode;
   onTabChange: (mode: SourceMode) => void;
+  tuningId: string;
+  onTuningChange: (id: string) => void;
+  inputSettings: InputSettings;
+  onInputGainChange: (gain: number) => void;
+  onInputMonitorChange: (monitor: boolean) => void;
+  onStopInput: () => void;
 }
 
-export const SourceSelector = ({ onSelect, loading, activeTab, onTabChange }: SourceSelectorProps) => {
+// 按键数分组的调音选项，半音阶琴单独一组
+const TUNING_OPTIONS = [
+  ...KEY_COUNTS.map((keyCount) => ({
+    label: `${keyCount} 键`,
+    options: KALIMBA_TUNINGS.filter((tuning) => tuning.keyCount === keyCount && !tuning.chromatic).map((tuning) => ({
+      label: tuning.name,
+      value: tuning.id
+    }))
+  })),
+  {
+    label: '半音阶（双排）',
+    options: KALIMBA_TUNINGS.filter((tuning) => tuning.chromatic).map((tuning) => ({ label: tuning.name, value: tuning.id }))
+  }
+];
+
+export const SourceSelector = ({
+  onSelect,
+  loading,
+  activeTab,
+  onTabChange,
+  tuningId,
+  onTuningChange,
+  inputSettings,
+  onInputGainChange,
+  onInputMonitorChange,
+  onStopInput
+}: SourceSelectorProps) => {
   const [url, setUrl] = useState('');
   const [sampleUrl, setSampleUrl] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [fileName, setFileName] = useState('');
+  const [samplerName, setSamplerName] = useState('');
+  const samplerFolderRef = useRef<HTMLInputElement | null>(null);
+  const [inputDevices, setInputDevices] = useState<InputDevice[]>([]);
+  // 空字符串表示系统默认输入
+  const [inputDeviceId, setInputDeviceId] = useState('');
+
+  const refreshInputDevices = useCallback(() => {
+    listInputDevices()
+      .then(setInputDevices)
+      .catch(() => setInputDevices([]));
+  }, []);
+
+  // 插拔设备时刷新列表
+  useEffect(() => {
+    const mediaDevices = typeof navigator === 'undefined' ? undefined : navigator.mediaDevices;
+    if (!mediaDevices) {
+      return;
+    }
+    refreshInputDevices();
+    mediaDevices.addEventListener('devicechange', refreshInputDevices);
+    return () => mediaDevices.removeEventListener('devicechange', refreshInputDevices);
+  }, [refreshInputDevices]);
+
+  // React 的类型中没有 webkitdirectory，直接设置属性以支持选择 SFZ 音色文件夹
+  useEffect(() => {
+    samplerFolderRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
 
   useEffect(() => {
     if (typeof window === 'undefined') {
@@ -76,6 +137,35 @@ export const SourceSelector = ({ onSelect, loading, activeTab, onTabChange }: So
     }
   };
 
+  const handleInputStart = async () => {
+    try {
+      setError(null);
+      await onSelect({ kind: 'input', deviceId: inputDeviceId || null });
+      // 授权后浏览器才提供设备名称
+      refreshInputDevices();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '音频输入初始化失败');
+    }
+  };
+
+  const handleSamplerChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    if (files.length === 0) {
+      return;
+    }
+
+    const main = files.find((file) => /\.(sf2|sfz)$/i.test(file.name));
+    setSamplerName(main?.name ?? files[0].name);
+    setError(null);
+    try {
+      await onSelect({ kind: 'instrument', samplerFiles: files });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '音色库加载失败');
+    } finally {
+      event.target.value = '';
+    }
+  };
+
   const tabItems: TabsProps['items'] = [
     {
       key: 'media',
@@ -132,9 +222,82 @@ export const SourceSelector = ({ onSelect, loading, activeTab, onTabChange }: So
       children: (
         <div className="source-selector__pane">
           <p>进入虚拟拇指琴，点击琴键即可实时演奏。</p>
+          <label className="source-selector__tuning">
+            调音
+            <Select
+              value={tuningId}
+              onChange={onTuningChange}
+              options={TUNING_OPTIONS}
+              className="source-selector__tuning-select"
+            />
+          </label>
           <button type="button" onClick={handleInstrumentStart} disabled={loading}>
             {loading ? '准备中…' : '进入拇指琴模式'}
           </button>
+          <p>也可以加载本地采样音色（八音盒、马林巴、钢琴等），用于演奏和播放乐谱：</p>
+          <label className="source-selector__upload">
+            <input
+              type="file"
+              accept=".sf2,.sfz,.wav"
+              multiple
+              onChange={handleSamplerChange}
+              disabled={loading}
+            />
+            <span>{samplerName ? `已加载：${samplerName}` : '选择 .sf2 文件，或 .sfz 与其 .wav 采样'}</span>
+          </label>
+          <label className="source-selector__upload">
+            <input ref={samplerFolderRef} type="file" onChange={handleSamplerChange} disabled={loading} />
+            <span>选择 SFZ 音色文件夹</span>
+          </label>
+          <small>音色文件只在本地解析，不会上传。</small>
+        </div>
+      )
+    },
+    {
+      key: 'input',
+      label: '麦克风/线路输入',
+      children: (
+        <div className="source-selector__pane">
+          <p>采集麦克风或声卡线路输入，实时显示频谱与波形。</p>
+          <label className="source-selector__tuning">
+            输入设备
+            <Select
+              value={inputDeviceId}
+              onChange={setInputDeviceId}
+              options={[
+                { value: '', label: '系统默认' },
+                ...inputDevices.map((device) => ({ value: device.deviceId, label: device.label }))
+              ]}
+              className="source-selector__tuning-select"
+            />
+          </label>
+          <div className="source-selector__row">
+            <button type="button" onClick={handleInputStart} disabled={loading}>
+              {loading ? '准备中…' : inputSettings.live ? '切换到所选设备' : '开始输入'}
+            </button>
+            {inputSettings.live && (
+              <button type="button" onClick={onStopInput} disabled={loading}>
+                停止输入
+              </button>
+            )}
+          </div>
+          <label className="source-selector__tuning">
+            输入增益
+            <Slider
+              min={0}
+              max={MAX_INPUT_GAIN}
+              step={0.05}
+              value={inputSettings.gain}
+              onChange={onInputGainChange}
+              tooltip={{ formatter: (value) => `${Math.round((value ?? 0) * 100)}%` }}
+              className="source-selector__tuning-select"
+            />
+          </label>
+          <label className="source-selector__tuning">
+            <Switch size="small" checked={inputSettings.monitor} onChange={onInputMonitorChange} />
+            监听（输入会从扬声器播放，请佩戴耳机以免啸叫）
+          </label>
+          <small>音频只在本地处理，不会上传。</small>
         </div>
       )
     }
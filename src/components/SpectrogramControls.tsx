@@ -0,0 +1,63 @@
+import { Segmented, Select, Slider } from 'antd';
+import {
+  COLOR_MAP_LABELS,
+  SPECTROGRAM_DECIBEL_RANGE,
+  type FrequencyScale,
+  type SpectrogramColorMap,
+  type SpectrogramSettings
+} from '../audio/spectrogram';
+
+interface SpectrogramControlsProps {
+  settings: SpectrogramSettings;
+  onChange: (changes: Partial<SpectrogramSettings>) => void;
+}
+
+const SCALE_OPTIONS: { label: string; value: FrequencyScale }[] = [
+  { label: '对数', value: 'log' },
+  { label: '线性', value: 'linear' }
+];
+
+// 分贝范围两端至少相差的值，避免配色挤在一起
+const MIN_DECIBEL_SPAN = 10;
+
+export const SpectrogramControls = ({ settings, onChange }: SpectrogramControlsProps) => (
+  <div className="spectrogram-controls">
+    <label className="spectrogram-controls__item">
+      配色
+      <Select<SpectrogramColorMap>
+        size="small"
+        value={settings.colorMap}
+        onChange={(colorMap) => onChange({ colorMap })}
+        options={(Object.keys(COLOR_MAP_LABELS) as SpectrogramColorMap[]).map((value) => ({
+          label: COLOR_MAP_LABELS[value],
+          value
+        }))}
+        className="spectrogram-controls__select"
+      />
+    </label>
+    <label className="spectrogram-controls__item">
+      频率轴
+      <Segmented<FrequencyScale> size="small" value={settings.scale} onChange={(scale) => onChange({ scale })} options={SCALE_OPTIONS} />
+    </label>
+    <label className="spectrogram-controls__item spectrogram-controls__item--range">
+      分贝范围
+      <Slider
+        range
+        min={SPECTROGRAM_DECIBEL_RANGE.min}
+        max={SPECTROGRAM_DECIBEL_RANGE.max}
+        step={1}
+        value={[settings.minDecibels, settings.maxDecibels]}
+        onChange={([minDecibels, maxDecibels]: number[]) => {
+          if (maxDecibels - minDecibels >= MIN_DECIBEL_SPAN) {
+            onChange({ minDecibels, maxDecibels });
+          }
+        }}
+        tooltip={{ formatter: (value) => `${value} dB` }}
+        className="spectrogram-controls__slider"
+      />
+      <span className="spectrogram-controls__value">
+        {settings.minDecibels} – {settings.maxDecibels} dB
+      </span>
+    </label>
+  </div>
+);
@@ -0,0 +1,106 @@
+import { useMemo, useState } from 'react';
+import { Alert, Checkbox, Modal, Select, Table } from 'antd';
+import {
+  diffScores,
+  findOutOfRangeNotes,
+  fitScoreToKeys,
+  rankTranspositions,
+  transposeScore,
+  type ScoreDiffEntry
+} from '../score/range';
+import type { ScoreDocument } from '../score/scoreFormat';
+import type { KalimbaTuning } from '../score/tuning';
+
+interface TransposeDialogProps {
+  score: ScoreDocument;
+  tuning: KalimbaTuning;
+  onApply: (score: ScoreDocument) => void;
+  onCancel: () => void;
+}
+
+const formatShift = (semitones: number) => (semitones === 0 ? '不移调' : `${semitones > 0 ? '+' : ''}${semitones} 半音`);
+
+/** 自动寻找最合适的移调，剩余弹不到的音可按八度折回，并对比每个事件的变化 */
+export const TransposeDialog = ({ score, tuning, onApply, onCancel }: TransposeDialogProps) => {
+  const candidates = useMemo(() => rankTranspositions(score, tuning.keys), [score, tuning]);
+  const best = candidates[0];
+  const [semitones, setSemitones] = useState(best?.semitones ?? 0);
+  const [foldStragglers, setFoldStragglers] = useState(true);
+
+  const result = useMemo(() => {
+    const transposed = transposeScore(score, semitones);
+    return foldStragglers ? fitScoreToKeys(transposed, tuning.keys) : { score: transposed, changes: [] };
+  }, [foldStragglers, score, semitones, tuning]);
+
+  const diff = useMemo(() => diffScores(score, result.score), [result, score]);
+  const before = useMemo(() => findOutOfRangeNotes(score, tuning.keys).length, [score, tuning]);
+  const remaining = useMemo(() => findOutOfRangeNotes(result.score, tuning.keys).length, [result, tuning]);
+  // 被八度折回或就近替换的事件，在对比中单独标出
+  const foldedEvents = new Set(result.changes.map((change) => change.eventIndex));
+
+  return (
+    <Modal
+      title="移调适配"
+      open
+      width={560}
+      okText="应用到编辑器"
+      cancelText="取消"
+      onOk={() => onApply(result.score)}
+      onCancel={onCancel}
+      okButtonProps={{ disabled: diff.length === 0 && result.score.header.key === score.header.key }}
+    >
+      <div className="score-import">
+        <label className="score-import__row">
+          <span>移调</span>
+          <Select
+            className="score-import__track"
+            value={semitones}
+            onChange={setSemitones}
+            options={[...candidates]
+              .sort((a, b) => a.semitones - b.semitones)
+              .map((candidate) => ({
+                value: candidate.semitones,
+                label: `${formatShift(candidate.semitones)}（可弹 ${candidate.playable}/${candidate.total}）${
+                  candidate.semitones === best?.semitones ? ' · 推荐' : ''
+                }`
+              }))}
+          />
+        </label>
+        <Checkbox checked={foldStragglers} onChange={(event) => setFoldStragglers(event.target.checked)}>
+          剩余弹不到的音按八度折回音域（仍无对应琴键时取最近的琴键）
+        </Checkbox>
+        <Alert
+          type={remaining > 0 ? 'warning' : 'success'}
+          showIcon
+          message={`${tuning.name}：弹不到的音 ${before} → ${remaining}${
+            result.score.header.key && result.score.header.key !== score.header.key
+              ? `，调号 ${score.header.key} → ${result.score.header.key}`
+              : ''
+          }`}
+        />
+        <Table<ScoreDiffEntry>
+          size="small"
+          rowKey="eventIndex"
+          dataSource={diff}
+          pagination={false}
+          scroll={{ y: 280 }}
+          locale={{ emptyText: '没有变化' }}
+          columns={[
+            { title: '小节', dataIndex: 'bar', width: 64 },
+            { title: '原音', dataIndex: 'before', render: (codes: string[]) => codes.join(' ') },
+            {
+              title: '调整后',
+              dataIndex: 'after',
+              render: (codes: string[], entry) => (
+                <span className={foldedEvents.has(entry.eventIndex) ? 'transpose-diff__folded' : undefined}>
+                  {codes.join(' ')}
+                  {foldedEvents.has(entry.eventIndex) ? '（折回）' : ''}
+                </span>
+              )
+            }
+          ]}
+        />
+      </div>
+    </Modal>
+  );
+};
@@ -1,12 +1,14 @@
+import type { SpectrogramSettings } from '../audio/spectrogram';
 import { useVisualizer, VisualizerMode } from '../hooks/useVisualizer';
 
 interface VisualizerCanvasProps {
   analyser: AnalyserNode | null;
   mode: VisualizerMode;
+  spectrogram?: SpectrogramSettings;
 }
 
-export const VisualizerCanvas = ({ analyser, mode }: VisualizerCanvasProps) => {
-  const canvasRef = useVisualizer({ analyser, mode });
+export const VisualizerCanvas = ({ analyser, mode, spectrogram }: VisualizerCanvasProps) => {
+  const canvasRef = useVisualizer({ analyser, mode, spectrogram });
 
   return (
     <div className="visualizer">
@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { Alert, Checkbox, InputNumber, Modal, Segmented, Select } from 'antd';
+import { renderScoreToWav, type RenderVoice } from '../audio/offlineRender';
+import { DEFAULT_RENDER_TAIL, MAX_RENDER_TAIL, RENDER_SAMPLE_RATES } from '../audio/scoreRender';
+import { DEFAULT_BPM } from '../audio/scoreScheduler';
+import type { WavBitDepth } from '../audio/wav';
+import { downloadBlob } from '../score/scoreLibrary';
+import type { ScoreDocument } from '../score/scoreFormat';
+import type { KalimbaTuning } from '../score/tuning';
+
+interface WavExportDialogProps {
+  name: string;
+  score: ScoreDocument;
+  tuning: KalimbaTuning;
+  voice: RenderVoice;
+  onClose: () => void;
+}
+
+const VOICE_LABELS: Record<RenderVoice['kind'], string> = {
+  kalimba: '物理建模',
+  simple: '简单音色',
+  sampler: '采样音色'
+};
+
+/** 用当前音色离线渲染乐谱并下载 WAV */
+export const WavExportDialog = ({ name, score, tuning, voice, onClose }: WavExportDialogProps) => {
+  const [bitDepth, setBitDepth] = useState<WavBitDepth>(16);
+  const [sampleRate, setSampleRate] = useState(RENDER_SAMPLE_RATES[0]);
+  const [tail, setTail] = useState(DEFAULT_RENDER_TAIL);
+  const [normalize, setNormalize] = useState(true);
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRender = async () => {
+    setIsRendering(true);
+    setError(null);
+    try {
+      const wav = await renderScoreToWav(score, { keys: tuning.keys, voice, sampleRate, tail, normalize, bitDepth });
+      downloadBlob(`${name}.wav`, new Blob([wav], { type: 'audio/wav' }));
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '渲染失败');
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  return (
+    <Modal
+      title="导出 WAV"
+      open
+      okText={isRendering ? '渲染中…' : '渲染并下载'}
+      cancelText="取消"
+      onOk={() => void handleRender()}
+      onCancel={onClose}
+      confirmLoading={isRendering}
+    >
+      <div className="score-import">
+        <div className="score-import__summary">
+          {tuning.name} · {VOICE_LABELS[voice.kind]} · ♩={score.header.bpm ?? DEFAULT_BPM}
+        </div>
+        <label className="score-import__row">
+          <span>位深</span>
+          <Segmented<WavBitDepth>
+            value={bitDepth}
+            onChange={setBitDepth}
+            options={[
+              { label: '16 位', value: 16 },
+              { label: '24 位', value: 24 }
+            ]}
+          />
+        </label>
+        <label className="score-import__row">
+          <span>采样率</span>
+          <Select
+            value={sampleRate}
+            onChange={setSampleRate}
+            options={RENDER_SAMPLE_RATES.map((value) => ({ value, label: `${value} Hz` }))}
+            style={{ width: 140 }}
+          />
+        </label>
+        <label className="score-import__row">
+          <span>余音</span>
+          <InputNumber
+            min={0}
+            max={MAX_RENDER_TAIL}
+            step={0.5}
+            value={tail}
+            onChange={(value) => setTail(value ?? 0)}
+            addonAfter="秒"
+          />
+        </label>
+        <Checkbox checked={normalize} onChange={(event) => setNormalize(event.target.checked)}>
+          峰值归一化到 -1 dBFS
+        </Checkbox>
+        {error && <Alert type="error" showIcon message={error} />}
+      </div>
+    </Modal>
+  );
+};
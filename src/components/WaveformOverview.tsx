@@ -0,0 +1,337 @@
+import { PointerEvent, useEffect, useRef, useState } from 'react';
+import type { WaveformState } from '../audio/engine/audioEngine';
+import type { LoopRange } from '../audio/engine/types';
+import { getPeakRange } from '../audio/waveform';
+
+interface WaveformOverviewProps {
+  waveform: WaveformState;
+  currentTime: number;
+  duration: number;
+  onSeek: (time: number) => void | Promise<void>;
+  loop: LoopRange | null;
+  onLoopChange: (loop: LoopRange | null) => void;
+  disabled?: boolean;
+}
+
+type CuePoint = { id: number; time: number };
+
+// 拖动中的对象：跳转、循环段的一端、新建循环段（按住 Shift 拖动）或标记
+type DragTarget =
+  | { kind: 'seek' }
+  | { kind: 'loop-start' | 'loop-end' }
+  | { kind: 'loop-new'; anchor: number }
+  | { kind: 'cue'; id: number };
+
+const HEIGHT = 96;
+const MAX_ZOOM = 64;
+const ZOOM_STEP = 2;
+// 短于该值（秒）的 Shift 拖动视为误触，不新建循环段
+const MIN_LOOP_DRAG = 0.1;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const formatTime = (value: number) => {
+  const minutes = Math.floor(value / 60)
+    .toString()
+    .padStart(2, '0');
+  const seconds = (value % 60).toFixed(1).padStart(4, '0');
+  return `${minutes}:${seconds}`;
+};
+
+/** 可缩放、可滚动的整段波形：点击或拖动跳转，拖动循环段两端调整 A–B 循环，标记点可拖动 */
+export const WaveformOverview = ({
+  waveform,
+  currentTime,
+  duration,
+  onSeek,
+  loop,
+  onLoopChange,
+  disabled = false
+}: WaveformOverviewProps) => {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const dragRef = useRef<{ target: DragTarget; moved: boolean } | null>(null);
+  const nextCueIdRef = useRef(1);
+  const followedTimeRef = useRef(currentTime);
+  const [width, setWidth] = useState(0);
+  const [zoom, setZoom] = useState(1);
+  const [viewStart, setViewStart] = useState(0);
+  // 拖动中的循环段，松开后才交给引擎
+  const [draftLoop, setDraftLoop] = useState<LoopRange | null>(null);
+  const [cues, setCues] = useState<CuePoint[]>([]);
+
+  const { peaks } = waveform;
+  // 换了音频就清空标记并恢复完整视图
+  const [cuesPeaks, setCuesPeaks] = useState(peaks);
+  if (peaks !== cuesPeaks) {
+    setCuesPeaks(peaks);
+    setCues([]);
+    setZoom(1);
+    setViewStart(0);
+  }
+
+  const total = peaks ? peaks.length / peaks.sampleRate : duration;
+  const visible = total / zoom;
+  const start = clamp(viewStart, 0, Math.max(0, total - visible));
+  const shownLoop = draftLoop ?? loop;
+
+  const toX = (time: number) => (visible > 0 ? ((time - start) / visible) * width : 0);
+  const toTime = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) {
+      return 0;
+    }
+    return clamp(start + ((clientX - rect.left) / rect.width) * visible, 0, total);
+  };
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return undefined;
+    }
+    const observer = new ResizeObserver(() => setWidth(container.clientWidth));
+    observer.observe(container);
+    setWidth(container.clientWidth);
+    return () => observer.disconnect();
+  }, []);
+
+  // 只有视图或峰值变化时重画波形，播放头与循环段是叠加的元素
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || width === 0) {
+      return;
+    }
+    const deviceRatio = window.devicePixelRatio || 1;
+    canvas.width = width * deviceRatio;
+    canvas.height = HEIGHT * deviceRatio;
+    context.setTransform(deviceRatio, 0, 0, deviceRatio, 0, 0);
+    context.clearRect(0, 0, width, HEIGHT);
+    if (!peaks || visible <= 0) {
+      return;
+    }
+    const samplesPerPixel = (visible * peaks.sampleRate) / width;
+    const firstSample = start * peaks.sampleRate;
+    const middle = HEIGHT / 2;
+    context.fillStyle = '#38bdf8';
+    for (let x = 0; x < width; x += 1) {
+      const from = firstSample + x * samplesPerPixel;
+      if (from >= peaks.length) {
+        break;
+      }
+      const { min, max } = getPeakRange(peaks, from, from + samplesPerPixel, samplesPerPixel);
+      context.fillRect(x, middle - max * middle, 1, Math.max(1, (max - min) * middle));
+    }
+  }, [peaks, start, visible, width]);
+
+  // 放大后播放头离开视图时翻页跟随；只在播放位置变化时跟随，手动滚动视图不受影响
+  useEffect(() => {
+    if (currentTime === followedTimeRef.current) {
+      return;
+    }
+    followedTimeRef.current = currentTime;
+    if (zoom > 1 && !dragRef.current && (currentTime < start || currentTime > start + visible)) {
+      setViewStart(clamp(currentTime - visible * 0.1, 0, total - visible));
+    }
+  }, [currentTime, start, total, visible, zoom]);
+
+  const zoomTo = (nextZoom: number, anchor: number) => {
+    const zoomValue = clamp(nextZoom, 1, MAX_ZOOM);
+    const nextVisible = total / zoomValue;
+    // 保持锚点在视图中的相对位置不变
+    const fraction = visible > 0 ? (anchor - start) / visible : 0;
+    setZoom(zoomValue);
+    setViewStart(clamp(anchor - fraction * nextVisible, 0, total - nextVisible));
+  };
+
+  // Ctrl / ⌘ + 滚轮以指针为中心缩放，放大后滚轮横向滚动；需要非 passive 监听才能阻止页面滚动
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return undefined;
+    }
+    const handleWheel = (event: WheelEvent) => {
+      if (!peaks) {
+        return;
+      }
+      if (event.ctrlKey || event.metaKey) {
+        event.preventDefault();
+        zoomTo(event.deltaY < 0 ? zoom * ZOOM_STEP : zoom / ZOOM_STEP, toTime(event.clientX));
+      } else if (zoom > 1) {
+        event.preventDefault();
+        const delta = event.deltaX || event.deltaY;
+        setViewStart(clamp(start + (delta / Math.max(1, width)) * visible, 0, total - visible));
+      }
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  });
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (disabled || total <= 0 || event.button !== 0) {
+      return;
+    }
+    const handle = (event.target as HTMLElement).dataset.handle;
+    const time = toTime(event.clientX);
+    let target: DragTarget;
+    if (handle === 'loop-start' || handle === 'loop-end') {
+      target = { kind: handle };
+    } else if (handle?.startsWith('cue:')) {
+      target = { kind: 'cue', id: Number(handle.slice(4)) };
+    } else if (event.shiftKey) {
+      target = { kind: 'loop-new', anchor: time };
+      setDraftLoop({ start: time, end: time });
+    } else {
+      target = { kind: 'seek' };
+      void Promise.resolve(onSeek(time));
+    }
+    dragRef.current = { target, moved: false };
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) {
+      return;
+    }
+    drag.moved = true;
+    const time = toTime(event.clientX);
+    const { target } = drag;
+    switch (target.kind) {
+      case 'seek':
+        void Promise.resolve(onSeek(time));
+        break;
+      case 'loop-start':
+      case 'loop-end':
+        setDraftLoop((previous) => {
+          const base = previous ?? loop;
+          if (!base) {
+            return null;
+          }
+          return target.kind === 'loop-start' ? { start: time, end: base.end } : { start: base.start, end: time };
+        });
+        break;
+      case 'loop-new':
+        setDraftLoop({ start: Math.min(target.anchor, time), end: Math.max(target.anchor, time) });
+        break;
+      case 'cue':
+        setCues((previous) =>
+          previous.map((cue) => (cue.id === target.id ? { ...cue, time } : cue)).sort((a, b) => a.time - b.time)
+        );
+        break;
+    }
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag) {
+      return;
+    }
+    const { target, moved } = drag;
+    if (target.kind === 'cue' && !moved) {
+      const cue = cues.find((item) => item.id === target.id);
+      if (cue) {
+        void Promise.resolve(onSeek(cue.time));
+      }
+    } else if (draftLoop && (target.kind !== 'loop-new' || draftLoop.end - draftLoop.start >= MIN_LOOP_DRAG)) {
+      onLoopChange(draftLoop);
+    }
+    setDraftLoop(null);
+  };
+
+  const addCue = () => {
+    const id = nextCueIdRef.current;
+    nextCueIdRef.current += 1;
+    setCues((previous) => [...previous, { id, time: currentTime }].sort((a, b) => a.time - b.time));
+  };
+
+  const removeCue = (id: number) => setCues((previous) => previous.filter((cue) => cue.id !== id));
+
+  const isVisible = (time: number) => time >= start && time <= start + visible;
+
+  return (
+    <section className="waveform">
+      <div className="waveform__toolbar">
+        <h3>波形</h3>
+        <button type="button" onClick={() => zoomTo(zoom / ZOOM_STEP, start + visible / 2)} disabled={!peaks || zoom <= 1}>
+          −
+        </button>
+        <span className="waveform__zoom">{zoom}×</span>
+        <button
+          type="button"
+          onClick={() => zoomTo(zoom * ZOOM_STEP, isVisible(currentTime) ? currentTime : start + visible / 2)}
+          disabled={!peaks || zoom >= MAX_ZOOM}
+        >
+          +
+        </button>
+        <button type="button" onClick={addCue} disabled={disabled || total <= 0}>
+          添加标记
+        </button>
+        <span className="waveform__hint">点击或拖动跳转，Shift + 拖动新建循环段，Ctrl + 滚轮缩放</span>
+      </div>
+      <div
+        ref={containerRef}
+        className={`waveform__view${disabled ? ' waveform__view--disabled' : ''}`}
+        style={{ height: HEIGHT }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <canvas ref={canvasRef} className="waveform__canvas" />
+        {waveform.status === 'loading' && <span className="waveform__status">正在计算波形…</span>}
+        {waveform.status === 'error' && <span className="waveform__status">{waveform.message}</span>}
+        {shownLoop && (
+          <div
+            className="waveform__loop"
+            style={{ left: toX(shownLoop.start), width: Math.max(0, toX(shownLoop.end) - toX(shownLoop.start)) }}
+          >
+            <span className="waveform__loop-handle waveform__loop-handle--start" data-handle="loop-start" />
+            <span className="waveform__loop-handle waveform__loop-handle--end" data-handle="loop-end" />
+          </div>
+        )}
+        {cues.map((cue, index) =>
+          isVisible(cue.time) ? (
+            <span
+              key={cue.id}
+              className="waveform__cue"
+              style={{ left: toX(cue.time) }}
+              data-handle={`cue:${cue.id}`}
+              title={formatTime(cue.time)}
+            >
+              {index + 1}
+            </span>
+          ) : null
+        )}
+        {isVisible(currentTime) && <div className="waveform__playhead" style={{ left: toX(currentTime) }} />}
+      </div>
+      {zoom > 1 && (
+        <input
+          className="waveform__scroll"
+          type="range"
+          min={0}
+          max={Math.max(0, total - visible)}
+          step="any"
+          value={start}
+          onChange={(event) => setViewStart(Number(event.target.value))}
+          aria-label="滚动波形"
+        />
+      )}
+      {cues.length > 0 && (
+        <ol className="waveform__cues">
+          {cues.map((cue) => (
+            <li key={cue.id}>
+              <button type="button" onClick={() => void Promise.resolve(onSeek(cue.time))} disabled={disabled}>
+                ▶ {formatTime(cue.time)}
+              </button>
+              <button type="button" onClick={() => removeCue(cue.id)} aria-label="删除标记">
+                ✕
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+};
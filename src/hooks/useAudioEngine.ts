@@ -1,540 +1,296 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-
-// 17-key kalimba arranged visually from left to right (outermost to innermost)
-const KALIMBA_KEYS = [
-  { label: 'D6', freq: 1174.66 },
-  { label: 'B5', freq: 987.77 },
-  { label: 'G5', freq: 783.99 },
-  { label: 'E5', freq: 659.25 },
-  { label: 'C5', freq: 523.25 },
-  { label: 'A4', freq: 440 },
-  { label: 'F4', freq: 349.23 },
-  { label: 'D4', freq: 293.66 },
-  { label: 'C4', freq: 261.63 },
-  { label: 'E4', freq: 329.63 },
-  { label: 'G4', freq: 392 },
-  { label: 'B4', freq: 493.88 },
-  { label: 'D5', freq: 587.33 },
-  { label: 'F5', freq: 698.46 },
-  { label: 'A5', freq: 880 },
-  { label: 'C6', freq: 1046.5 },
-  { label: 'E6', freq: 1318.51 }
-];
-
-export type AudioSourceDescriptor =
-  | { kind: 'url'; url: string }
-  | { kind: 'file'; file: File }
-  | { kind: 'stream'; preset?: 'harmonic' }
-  | { kind: 'instrument' };
-
-export type PlaybackState = 'idle' | 'loading' | 'ready' | 'playing' | 'paused' | 'error';
-
-const SUPPORTED_FILE_PREFIX = 'audio/';
-
-const validateUrl = (value: string) => /^https?:\/\//i.test(value.trim());
-
-const getKalimbaFrequency = (index: number) => KALIMBA_KEYS[index]?.freq ?? null;
-
+import { scheduleClick } from '../audio/click';
+import { AudioEngine } from '../audio/engine/audioEngine';
+import type { PlaylistEntry, PlaylistRepeat } from '../audio/engine/playlistSource';
+import type { AudioSourceDescriptor, LoopRange } from '../audio/engine/types';
+import type { EffectChainSettings, EffectKind, EffectParams } from '../audio/effects';
+import type { InstrumentVoice, KalimbaVoiceParams } from '../audio/instrumentVoice';
+import {
+  DEFAULT_METRONOME_SETTINGS,
+  createMetronome,
+  getCountInClicks,
+  getDefaultAccents,
+  type Metronome,
+  type MetronomeSettings,
+  type MetronomeTransport
+} from '../audio/metronome';
+import { createAudioClock } from '../audio/scoreScheduler';
+import { getTuning } from '../score/tuning';
+
+export type { AudioSourceDescriptor, PlaybackState } from '../audio/engine/types';
+
+// 节拍器启动与预备拍前留出的排程余量（秒）
+const CLICK_START_DELAY = 0.1;
+// 后台标签页的定时器会被节流，节拍器同样加大提前量
+const getMetronomeLookahead = () => (typeof document !== 'undefined' && document.hidden ? 1.5 : 0.1);
+
+/** AudioEngine 的 React 适配：把引擎事件同步为组件状态，节拍器仍在此管理 */
 export const useAudioEngine = () => {
-  const [state, setState] = useState<PlaybackState>('idle');
-  const [activeSource, setActiveSource] = useState<'url' | 'file' | 'stream' | 'instrument' | null>(null);
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [volume, setVolume] = useState(0.8);
-  const [currentTime, setCurrentTime] = useState(0);
-  const [duration, setDuration] = useState(0);
-
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const gainNodeRef = useRef<GainNode | null>(null);
-  const mediaElementRef = useRef<HTMLAudioElement | null>(null);
-  const mediaElementSourceRef = useRef<MediaElementAudioSourceNode | null>(null);
-  const bufferSourceRef = useRef<AudioBufferSourceNode | null>(null);
-  const decodedBufferRef = useRef<AudioBuffer | null>(null);
-  const bufferOffsetRef = useRef(0);
-  const bufferStartedAtRef = useRef<number | null>(null);
-  const streamNodeRef = useRef<AudioWorkletNode | null>(null);
-  const streamModuleLoadedRef = useRef(false);
-  const streamStartedAtRef = useRef<number | null>(null);
-  const streamOffsetRef = useRef(0);
-
-  const ensureContext = useCallback(() => {
-    if (!audioContextRef.current) {
-      const context = new AudioContext();
-      const analyser = context.createAnalyser();
-      analyser.fftSize = 2048;
-      analyser.smoothingTimeConstant = 0.85;
-      const gainNode = context.createGain();
-      gainNode.gain.value = volume;
-
-      analyser.connect(gainNode);
-      gainNode.connect(context.destination);
-
-      audioContextRef.current = context;
-      analyserRef.current = analyser;
-      gainNodeRef.current = gainNode;
-    }
+  const [engine] = useState(() => new AudioEngine());
+  const [state, setState] = useState(engine.state);
+  const [activeSource, setActiveSource] = useState(engine.source);
+  const [errorMessage, setErrorMessage] = useState(engine.errorMessage);
+  const [volume, setVolume] = useState(engine.volume);
+  const [time, setTime] = useState(engine.time);
+  const [instrument, setInstrument] = useState(engine.instrument.settings);
+  const [inputSettings, setInputSettings] = useState(engine.input.settings);
+  const [playlist, setPlaylist] = useState(engine.playlist.settings);
+  const [effects, setEffectsState] = useState(engine.effects);
+  const [impulseName, setImpulseName] = useState(engine.impulseName);
+  const [playback, setPlayback] = useState(engine.playback);
+  const [waveform, setWaveform] = useState(engine.waveform);
+  const [metronomeSettings, setMetronomeSettingsState] = useState<MetronomeSettings>(DEFAULT_METRONOME_SETTINGS);
+  const [isMetronomeRunning, setIsMetronomeRunning] = useState(false);
+  // 当前拍（小节内序号），跟随音频时钟更新，用于界面上的拍点指示
+  const [metronomeBeat, setMetronomeBeat] = useState<number | null>(null);
+
+  // 节拍器点击走独立的增益节点，不经过效果链，可选择是否同时送入 AnalyserNode
+  const clickBusRef = useRef<GainNode | null>(null);
+  const metronomeRef = useRef<Metronome | null>(null);
+  const metronomeSettingsRef = useRef(metronomeSettings);
+  const metronomeFollowRef = useRef<(() => MetronomeTransport | null) | null>(null);
+  const beatTimersRef = useRef<Set<number>>(new Set());
 
-    return audioContextRef.current;
-  }, [volume]);
+  useEffect(() => {
+    const unsubscribes = [
+      engine.on('state', setState),
+      engine.on('source', setActiveSource),
+      engine.on('error', setErrorMessage),
+      engine.on('volume', setVolume),
+      engine.on('time', setTime),
+      engine.on('instrument', setInstrument),
+      engine.on('input', setInputSettings),
+      engine.on('playlist', setPlaylist),
+      engine.on('effects', setEffectsState),
+      engine.on('impulse', setImpulseName),
+      engine.on('playback', setPlayback),
+      engine.on('waveform', setWaveform)
+    ];
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [engine]);
+
+  const loadSource = useCallback((descriptor: AudioSourceDescriptor) => engine.load(descriptor), [engine]);
+  const play = useCallback(() => engine.play(), [engine]);
+  const pause = useCallback(() => engine.pause(), [engine]);
+  const stop = useCallback(() => engine.stop(), [engine]);
+  const seekTo = useCallback((seconds: number) => engine.seek(seconds), [engine]);
+  const setVolumeSafely = useCallback((value: number) => engine.setVolume(value), [engine]);
+  const getAudioTime = useCallback(() => engine.getAudioTime(), [engine]);
+
+  const triggerInstrumentNote = useCallback(
+    (noteIndex: number, when?: number, velocity = 1, duration?: number) =>
+      engine.instrument.triggerNote(noteIndex, when, velocity, duration),
+    [engine]
+  );
 
-  const disconnectBufferSource = useCallback(() => {
-    if (bufferSourceRef.current) {
-      bufferSourceRef.current.onended = null;
-      bufferSourceRef.current.stop(0);
-      bufferSourceRef.current.disconnect();
-      bufferSourceRef.current = null;
+  const cancelScheduledNotes = useCallback(() => {
+    if (engine.analyser) {
+      engine.instrument.cancelScheduled(engine.getAudioTime());
     }
-  }, []);
+  }, [engine]);
+
+  const ensureClickBus = useCallback(() => {
+    const { context, analyser, output } = engine.getGraph();
+    if (!clickBusRef.current) {
+      const bus = context.createGain();
+      bus.gain.value = metronomeSettingsRef.current.volume;
+      bus.connect(output);
+      if (metronomeSettingsRef.current.includeInAnalyser) {
+        bus.connect(analyser);
+      }
+      clickBusRef.current = bus;
+    }
+    return clickBusRef.current;
+  }, [engine]);
 
-  const resetBufferState = useCallback(() => {
-    bufferOffsetRef.current = 0;
-    bufferStartedAtRef.current = null;
+  const clearBeatTimers = useCallback(() => {
+    beatTimersRef.current.forEach((id) => window.clearTimeout(id));
+    beatTimersRef.current.clear();
   }, []);
 
-  const handleMediaElementEnded = useCallback(() => {
-    setState('ready');
-    setCurrentTime(0);
-  }, []);
+  const ensureMetronome = useCallback(() => {
+    const { context } = engine.getGraph();
+    const bus = ensureClickBus();
+    if (!metronomeRef.current) {
+      metronomeRef.current = createMetronome({
+        clock: createAudioClock(() => context.currentTime),
+        settings: metronomeSettingsRef.current,
+        lookahead: getMetronomeLookahead(),
+        onClick: (when, level, beat) => {
+          scheduleClick(context, bus, when, { level });
+          if (level === 'subdivision') {
+            return;
+          }
+          const id = window.setTimeout(() => {
+            beatTimersRef.current.delete(id);
+            setMetronomeBeat(beat);
+          }, Math.max(0, (when - context.currentTime) * 1000));
+          beatTimersRef.current.add(id);
+        }
+      });
+      metronomeRef.current.setFollow(metronomeFollowRef.current);
+    }
+    return metronomeRef.current;
+  }, [engine, ensureClickBus]);
 
-  const disconnectStreamNode = useCallback(() => {
-    streamNodeRef.current?.disconnect();
-    streamNodeRef.current?.port.postMessage({ type: 'set-active', active: false });
-    streamNodeRef.current = null;
-    streamStartedAtRef.current = null;
-    streamOffsetRef.current = 0;
-  }, []);
+  const startMetronome = useCallback(async () => {
+    const { context } = engine.getGraph();
+    await context.resume();
+    ensureMetronome().start(context.currentTime + CLICK_START_DELAY);
+    setIsMetronomeRunning(true);
+  }, [engine, ensureMetronome]);
+
+  const stopMetronome = useCallback(() => {
+    metronomeRef.current?.stop();
+    clearBeatTimers();
+    setMetronomeBeat(null);
+    setIsMetronomeRunning(false);
+  }, [clearBeatTimers]);
+
+  const setMetronomeSettings = useCallback((changes: Partial<MetronomeSettings>) => {
+    const prev = metronomeSettingsRef.current;
+    const next = { ...prev, ...changes };
+    // 改拍号时重音型式随之重置
+    if (!changes.accents && (next.beatsPerBar !== prev.beatsPerBar || next.beatUnit !== prev.beatUnit)) {
+      next.accents = getDefaultAccents(next.beatsPerBar, next.beatUnit);
+    }
+    metronomeSettingsRef.current = next;
+    setMetronomeSettingsState(next);
+    metronomeRef.current?.update(next);
 
-  const ensureStreamWorklet = useCallback(async () => {
-    if (typeof window === 'undefined') {
+    const bus = clickBusRef.current;
+    if (!bus) {
       return;
     }
-    const context = ensureContext();
-    if (!streamModuleLoadedRef.current) {
-      const moduleUrl = `${window.location.origin}/worklets/harmonic-generator.js`;
-      await context.audioWorklet.addModule(moduleUrl);
-      streamModuleLoadedRef.current = true;
-    }
-  }, [ensureContext]);
-
-  const loadUrlSource = useCallback(
-    async (url: string) => {
-      if (!validateUrl(url)) {
-        throw new Error('请输入合法的 http(s) 音频链接');
+    const { context, analyser, output } = engine.getGraph();
+    bus.gain.setTargetAtTime(next.volume, context.currentTime, 0.01);
+    if (next.includeInAnalyser !== prev.includeInAnalyser) {
+      bus.disconnect();
+      bus.connect(output);
+      if (next.includeInAnalyser) {
+        bus.connect(analyser);
       }
+    }
+  }, [engine]);
 
-      const context = ensureContext();
-      await context.resume();
-
-      let audio = mediaElementRef.current;
-      if (!audio) {
-        audio = new Audio();
-        audio.crossOrigin = 'anonymous';
-        audio.preload = 'auto';
-        audio.addEventListener('ended', handleMediaElementEnded);
-        mediaElementRef.current = audio;
-      }
-
-      if (!mediaElementSourceRef.current) {
-        mediaElementSourceRef.current = context.createMediaElementSource(audio);
-        mediaElementSourceRef.current.connect(analyserRef.current!);
-      }
-
-      audio.src = url.trim();
-      audio.currentTime = 0;
-
-      await new Promise<void>((resolve, reject) => {
-        const onCanPlay = () => {
-          cleanup();
-          resolve();
-        };
-        const onError = () => {
-          cleanup();
-          reject(new Error('音频加载失败，请确认链接可用并允许跨域访问'));
-        };
-        const cleanup = () => {
-          audio?.removeEventListener('canplay', onCanPlay);
-          audio?.removeEventListener('error', onError);
-        };
-
-        if (audio.readyState >= 2) {
-          resolve();
-          return;
-        }
-
-        audio.addEventListener('canplay', onCanPlay);
-        audio.addEventListener('error', onError);
-      });
+  /** 让节拍器跟随乐谱播放的时间基准，传入 null 恢复自由速度 */
+  const followMetronome = useCallback((source: (() => MetronomeTransport | null) | null) => {
+    metronomeFollowRef.current = source;
+    metronomeRef.current?.setFollow(source);
+  }, []);
 
-      decodedBufferRef.current = null;
-      disconnectBufferSource();
-      disconnectStreamNode();
-      resetBufferState();
-      setDuration(Number.isFinite(audio.duration) ? audio.duration : 0);
-      setCurrentTime(0);
-      setActiveSource('url');
-      setState('ready');
+  /**
+   * 排程若干小节的预备拍（拍号与重音取自节拍器设置，速度可另行指定），
+   * 返回预备拍结束（下一小节第一拍）的音频时间与点击节点
+   */
+  const scheduleCountIn = useCallback(
+    (bars: number, bpm = metronomeSettingsRef.current.bpm) => {
+      const { context } = engine.getGraph();
+      const bus = ensureClickBus();
+      const { clicks, end } = getCountInClicks(
+        { ...metronomeSettingsRef.current, bpm },
+        bars,
+        context.currentTime + CLICK_START_DELAY
+      );
+      return { end, clicks: clicks.map(({ when, level }) => scheduleClick(context, bus, when, { level })) };
     },
-    [disconnectBufferSource, disconnectStreamNode, ensureContext, handleMediaElementEnded, resetBufferState]
+    [engine, ensureClickBus]
   );
 
-  const loadFileSource = useCallback(
-    async (file: File) => {
-      if (!file.type.startsWith(SUPPORTED_FILE_PREFIX)) {
-        throw new Error('仅支持音频类型文件');
-      }
+  const setInstrumentVoice = useCallback((voice: InstrumentVoice) => engine.setInstrumentVoice(voice), [engine]);
 
-      const context = ensureContext();
-      await context.resume();
-
-      const arrayBuffer = await file.arrayBuffer();
-      const decoded = await context.decodeAudioData(arrayBuffer);
-
-      decodedBufferRef.current = decoded;
-      disconnectBufferSource();
-      disconnectStreamNode();
-      resetBufferState();
-      mediaElementRef.current?.pause();
-      mediaElementRef.current && (mediaElementRef.current.currentTime = 0);
-      setDuration(decoded.duration);
-      setCurrentTime(0);
-      setActiveSource('file');
-      setState('ready');
-    },
-    [disconnectBufferSource, disconnectStreamNode, ensureContext, resetBufferState]
+  const setTuning = useCallback((id: string) => engine.instrument.setTuning(getTuning(id)), [engine]);
+
+  const setVoiceParams = useCallback(
+    (changes: Partial<KalimbaVoiceParams>) => engine.instrument.setVoiceParams(changes),
+    [engine]
   );
 
-  const loadSource = useCallback(
-    async (descriptor: AudioSourceDescriptor) => {
-      try {
-        setErrorMessage(null);
-        setState('loading');
-        if (descriptor.kind === 'url') {
-          await loadUrlSource(descriptor.url);
-        } else if (descriptor.kind === 'file') {
-          await loadFileSource(descriptor.file);
-        } else if (descriptor.kind === 'stream') {
-          const context = ensureContext();
-          await context.resume();
-          await ensureStreamWorklet();
-          disconnectBufferSource();
-          mediaElementRef.current?.pause();
-          mediaElementRef.current && (mediaElementRef.current.currentTime = 0);
-          disconnectStreamNode();
-          const node = new AudioWorkletNode(context, 'harmonic-generator');
-          node.port.postMessage({ type: 'set-active', active: false });
-          node.connect(analyserRef.current!);
-          streamNodeRef.current = node;
-          streamOffsetRef.current = 0;
-          streamStartedAtRef.current = null;
-          decodedBufferRef.current = null;
-          setDuration(0);
-          setCurrentTime(0);
-          setActiveSource('stream');
-          setState('ready');
-        } else if (descriptor.kind === 'instrument') {
-          const context = ensureContext();
-          await context.resume();
-          disconnectBufferSource();
-          disconnectStreamNode();
-          mediaElementRef.current?.pause();
-          mediaElementRef.current && (mediaElementRef.current.currentTime = 0);
-          decodedBufferRef.current = null;
-          resetBufferState();
-          streamOffsetRef.current = 0;
-          streamStartedAtRef.current = null;
-          setDuration(0);
-          setCurrentTime(0);
-          setActiveSource('instrument');
-          setState('ready');
-        }
-      } catch (error) {
-        const message = error instanceof Error ? error.message : '未知错误';
-        setErrorMessage(message);
-        setState('error');
-        throw error;
-      }
-    },
-    [disconnectBufferSource, disconnectStreamNode, ensureContext, ensureStreamWorklet, loadFileSource, loadUrlSource, resetBufferState]
+  const setSamplerInstrumentIndex = useCallback(
+    (index: number) => engine.instrument.setSamplerInstrumentIndex(index),
+    [engine]
   );
 
-  const startFilePlayback = useCallback(
-    async (offsetSeconds: number) => {
-      const context = ensureContext();
-      await context.resume();
-      if (!decodedBufferRef.current) {
-        return;
-      }
+  const setInputGain = useCallback((gain: number) => engine.input.setGain(gain), [engine]);
 
-      disconnectBufferSource();
-      const source = context.createBufferSource();
-      source.buffer = decodedBufferRef.current;
-      source.connect(analyserRef.current!);
+  const setInputMonitor = useCallback((monitor: boolean) => engine.input.setMonitor(monitor), [engine]);
 
-      const clampedOffset = Math.min(
-        decodedBufferRef.current.duration,
-        Math.max(0, offsetSeconds)
-      );
-      bufferStartedAtRef.current = context.currentTime - clampedOffset;
-      bufferOffsetRef.current = clampedOffset;
-      source.onended = () => {
-        disconnectBufferSource();
-        bufferOffsetRef.current = 0;
-        bufferStartedAtRef.current = null;
-        setState((prev) => (prev === 'playing' ? 'ready' : prev));
-      };
-      source.start(0, clampedOffset);
-      bufferSourceRef.current = source;
-    },
-    [disconnectBufferSource, ensureContext]
-  );
+  const addToPlaylist = useCallback((entries: PlaylistEntry[]) => engine.playlist.addItems(entries), [engine]);
 
-  const play = useCallback(async () => {
-    if (state === 'loading') {
-      return;
-    }
+  const removePlaylistItem = useCallback((id: string) => engine.playlist.removeItem(id), [engine]);
 
-    const context = ensureContext();
-    await context.resume();
+  const movePlaylistItem = useCallback((from: number, to: number) => engine.playlist.moveItem(from, to), [engine]);
 
-    if (activeSource === 'url' && mediaElementRef.current) {
-      await mediaElementRef.current.play();
-      setState('playing');
-      return;
-    }
+  const clearPlaylist = useCallback(() => engine.playlist.clear(), [engine]);
 
-    if (activeSource === 'file' && decodedBufferRef.current) {
-      await startFilePlayback(bufferOffsetRef.current);
-      setState('playing');
-      return;
-    }
+  const setPlaylistRepeat = useCallback((repeat: PlaylistRepeat) => engine.playlist.setRepeat(repeat), [engine]);
 
-    if (activeSource === 'stream' && streamNodeRef.current && audioContextRef.current) {
-      streamNodeRef.current.port.postMessage({ type: 'set-active', active: true });
-      streamStartedAtRef.current = audioContextRef.current.currentTime;
-      setState('playing');
-      return;
-    }
+  const setPlaylistShuffle = useCallback((shuffle: boolean) => engine.playlist.setShuffle(shuffle), [engine]);
 
-    if (activeSource === 'instrument') {
-      setState('ready');
-    }
-  }, [activeSource, ensureContext, startFilePlayback, state]);
+  const setPlaylistCrossfade = useCallback((seconds: number) => engine.playlist.setCrossfade(seconds), [engine]);
 
-  const triggerInstrumentNote = useCallback(
-    async (noteIndex: number) => {
-      if (activeSource !== 'instrument') {
-        return;
-      }
-      const freq = getKalimbaFrequency(noteIndex);
-      if (!freq) {
-        return;
-      }
-      const context = ensureContext();
-      await context.resume();
-
-      const oscillator = context.createOscillator();
-      oscillator.type = 'triangle';
-      oscillator.frequency.value = freq;
-
-      const noteGain = context.createGain();
-      oscillator.connect(noteGain);
-      noteGain.connect(analyserRef.current!);
-
-      const now = context.currentTime;
-      noteGain.gain.setValueAtTime(0, now);
-      noteGain.gain.linearRampToValueAtTime(1, now + 0.01);
-      noteGain.gain.exponentialRampToValueAtTime(0.001, now + 1.2);
-
-      oscillator.start(now);
-      oscillator.stop(now + 1.3);
-      oscillator.onended = () => {
-        oscillator.disconnect();
-        noteGain.disconnect();
-      };
+  /** 从播放列表的第 index 个条目开始播放 */
+  const playPlaylistItem = useCallback(
+    async (index: number) => {
+      await engine.load({ kind: 'playlist', index });
+      await engine.play();
     },
-    [activeSource, ensureContext]
+    [engine]
   );
 
-  const seekTo = useCallback(
-    async (targetSeconds: number) => {
-      const safeTarget = Math.max(0, targetSeconds);
-
-      if (activeSource === 'stream' || activeSource === 'instrument') {
+  /** 上一首 / 下一首；暂停时只切换条目，不开始播放 */
+  const skipPlaylist = useCallback(
+    async (step: 1 | -1) => {
+      const index = engine.source === 'playlist' ? engine.playlist.getSkipIndex(step) : 0;
+      if (index === null) {
         return;
       }
-
-      if (activeSource === 'url' && mediaElementRef.current) {
-        const audio = mediaElementRef.current;
-        if (Number.isFinite(audio.duration)) {
-          const clamped = Math.min(audio.duration, safeTarget);
-          audio.currentTime = clamped;
-          setCurrentTime(clamped);
-          if (state === 'playing') {
-            await audio.play();
-          }
-        }
-        return;
-      }
-
-      if (activeSource === 'file' && decodedBufferRef.current) {
-        const durationValue = decodedBufferRef.current.duration;
-        const clamped = Math.min(durationValue, safeTarget);
-        bufferOffsetRef.current = clamped;
-        setCurrentTime(clamped);
-
-        if (state === 'playing') {
-          await startFilePlayback(clamped);
-        } else {
-          // 更新起始时间，保持下一次播放从新位置开始
-          if (audioContextRef.current) {
-            bufferStartedAtRef.current = audioContextRef.current.currentTime - clamped;
-          }
-        }
+      const wasPlaying = engine.state === 'playing' || engine.source !== 'playlist';
+      await engine.load({ kind: 'playlist', index });
+      if (wasPlaying) {
+        await engine.play();
       }
     },
-    [activeSource, startFilePlayback, state]
+    [engine]
   );
 
-  const pause = useCallback(() => {
-    if (activeSource === 'url' && mediaElementRef.current) {
-      mediaElementRef.current.pause();
-      setState('paused');
-      return;
-    }
-
-    if (activeSource === 'file' && bufferSourceRef.current && audioContextRef.current) {
-      const source = bufferSourceRef.current;
-      source.onended = null;
-      source.stop();
-      source.disconnect();
-      bufferSourceRef.current = null;
-        if (bufferStartedAtRef.current !== null && decodedBufferRef.current) {
-        const elapsed = audioContextRef.current.currentTime - bufferStartedAtRef.current;
-        // 由于 bufferStartedAt 已经包含了偏移量，这里直接用 elapsed 作为当前进度
-        bufferOffsetRef.current = Math.min(decodedBufferRef.current.duration, Math.max(0, elapsed));
-        }
-        bufferStartedAtRef.current = null;
-        setState('paused');
-      return;
-    }
-
-    if (activeSource === 'stream' && streamNodeRef.current && audioContextRef.current) {
-      streamNodeRef.current.port.postMessage({ type: 'set-active', active: false });
-      if (streamStartedAtRef.current !== null) {
-        streamOffsetRef.current += audioContextRef.current.currentTime - streamStartedAtRef.current;
-      }
-      streamStartedAtRef.current = null;
-      setState('paused');
-      return;
-      }
-
-    if (activeSource === 'instrument') {
-      setState('ready');
-    }
-  }, [activeSource]);
-
-  const stop = useCallback(() => {
-    if (activeSource === 'url' && mediaElementRef.current) {
-      mediaElementRef.current.pause();
-      mediaElementRef.current.currentTime = 0;
-      setCurrentTime(0);
-      setState('ready');
-      return;
-    }
-
-    if (activeSource === 'file') {
-      disconnectBufferSource();
-      resetBufferState();
-      setCurrentTime(0);
-      setState('ready');
-      return;
-    }
+  const setEffects = useCallback((changes: Partial<EffectChainSettings>) => engine.setEffects(changes), [engine]);
 
-    if (activeSource === 'stream' && streamNodeRef.current) {
-      streamNodeRef.current.port.postMessage({ type: 'set-active', active: false });
-      streamOffsetRef.current = 0;
-      streamStartedAtRef.current = null;
-      setCurrentTime(0);
-      setState('ready');
-      return;
-    }
-
-    if (activeSource === 'instrument') {
-      setCurrentTime(0);
-      setState('ready');
-    }
-  }, [activeSource, disconnectBufferSource, resetBufferState]);
-
-  const setVolumeSafely = useCallback(
-    (value: number) => {
-      const gainNode = gainNodeRef.current;
-      const context = audioContextRef.current;
-      setVolume(value);
-      if (gainNode && context) {
-        gainNode.gain.setTargetAtTime(value, context.currentTime, 0.01);
-      }
-    },
-    []
+  const setEffectParams = useCallback(
+    <K extends EffectKind>(kind: K, changes: Partial<EffectParams[K]>) => engine.setEffectParams(kind, changes),
+    [engine]
   );
 
-  useEffect(() => {
-    const interval = window.setInterval(() => {
-      if (activeSource === 'url' && mediaElementRef.current) {
-        setCurrentTime(mediaElementRef.current.currentTime || 0);
-        setDuration(Number.isFinite(mediaElementRef.current.duration) ? mediaElementRef.current.duration : 0);
-        return;
-      }
-
-      if (activeSource === 'file' && decodedBufferRef.current && audioContextRef.current) {
-        const durationValue = decodedBufferRef.current.duration;
-        setDuration(durationValue);
-        if (state === 'playing' && bufferStartedAtRef.current !== null) {
-          const elapsed = audioContextRef.current.currentTime - bufferStartedAtRef.current;
-          // 这里的 elapsed 已经是从音频开头算起的时间（包含偏移量）
-          const time = Math.min(durationValue, Math.max(0, elapsed));
-          setCurrentTime(time);
-        } else {
-          setCurrentTime(bufferOffsetRef.current);
-        }
-        return;
-      }
+  const loadImpulseResponse = useCallback((file: File) => engine.loadImpulseResponse(file), [engine]);
 
-      if (activeSource === 'stream' && audioContextRef.current) {
-        setDuration(0);
-        if (state === 'playing' && streamStartedAtRef.current !== null) {
-          const elapsed = audioContextRef.current.currentTime - streamStartedAtRef.current;
-          setCurrentTime(streamOffsetRef.current + elapsed);
-        } else {
-          setCurrentTime(streamOffsetRef.current);
-        }
-        return;
-      }
-
-      if (activeSource === 'instrument') {
-        setDuration(0);
-        setCurrentTime(0);
-      }
-    }, 200);
+  const setPlaybackRate = useCallback((rate: number) => engine.setPlayback({ rate }), [engine]);
+  const setPitchShift = useCallback((pitch: number) => engine.setPlayback({ pitch }), [engine]);
+  const setLoop = useCallback((loop: LoopRange | null) => engine.setPlayback({ loop }), [engine]);
 
-    return () => window.clearInterval(interval);
-  }, [activeSource, state]);
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      metronomeRef.current?.setLookahead(getMetronomeLookahead());
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
 
   useEffect(() => {
     return () => {
-      disconnectBufferSource();
-      disconnectStreamNode();
-      mediaElementRef.current?.pause();
-      mediaElementRef.current?.removeEventListener('ended', handleMediaElementEnded);
-      audioContextRef.current?.close();
+      metronomeRef.current?.stop();
+      metronomeRef.current = null;
+      clickBusRef.current = null;
+      clearBeatTimers();
+      engine.dispose();
     };
-  }, [disconnectBufferSource, disconnectStreamNode, handleMediaElementEnded]);
+  }, [clearBeatTimers, engine]);
 
   const canPlay = activeSource === 'instrument' ? false : state === 'ready' || state === 'paused';
   const isPlaying = state === 'playing';
 
   return useMemo(
     () => ({
-      analyserNode: analyserRef.current,
+      analyserNode: engine.analyser,
       state,
       play,
       pause,
@@ -545,15 +301,57 @@ export const useAudioEngine = () => {
       errorMessage,
       volume,
       setVolume: setVolumeSafely,
-      currentTime,
-      duration,
+      currentTime: time.currentTime,
+      duration: time.duration,
       activeSource,
       seekTo,
-      triggerInstrumentNote
+      triggerInstrumentNote,
+      cancelScheduledNotes,
+      getAudioTime,
+      metronomeSettings,
+      setMetronomeSettings,
+      isMetronomeRunning,
+      metronomeBeat,
+      startMetronome,
+      stopMetronome,
+      followMetronome,
+      scheduleCountIn,
+      instrumentVoice: instrument.voice,
+      setInstrumentVoice,
+      voiceParams: instrument.voiceParams,
+      setVoiceParams,
+      samplerBank: instrument.samplerBank,
+      samplerInstrumentIndex: instrument.samplerInstrumentIndex,
+      setSamplerInstrumentIndex,
+      tuning: instrument.tuning,
+      setTuning,
+      inputSettings,
+      setInputGain,
+      setInputMonitor,
+      effects,
+      setEffects,
+      setEffectParams,
+      impulseName,
+      loadImpulseResponse,
+      playback,
+      setPlaybackRate,
+      setPitchShift,
+      setLoop,
+      waveform,
+      playlist,
+      addToPlaylist,
+      removePlaylistItem,
+      movePlaylistItem,
+      clearPlaylist,
+      setPlaylistRepeat,
+      setPlaylistShuffle,
+      setPlaylistCrossfade,
+      playPlaylistItem,
+      skipPlaylist
     }),
     [
-      currentTime,
-      duration,
+      engine.analyser,
+      time,
       errorMessage,
       isPlaying,
       loadSource,
@@ -566,7 +364,45 @@ export const useAudioEngine = () => {
       volume,
       canPlay,
       activeSource,
-      triggerInstrumentNote
+      triggerInstrumentNote,
+      cancelScheduledNotes,
+      getAudioTime,
+      metronomeSettings,
+      setMetronomeSettings,
+      isMetronomeRunning,
+      metronomeBeat,
+      startMetronome,
+      stopMetronome,
+      followMetronome,
+      scheduleCountIn,
+      instrument,
+      setInstrumentVoice,
+      setVoiceParams,
+      setSamplerInstrumentIndex,
+      setTuning,
+      inputSettings,
+      setInputGain,
+      setInputMonitor,
+      effects,
+      setEffects,
+      setEffectParams,
+      impulseName,
+      loadImpulseResponse,
+      playback,
+      setPlaybackRate,
+      setPitchShift,
+      setLoop,
+      waveform,
+      playlist,
+      addToPlaylist,
+      removePlaylistItem,
+      movePlaylistItem,
+      clearPlaylist,
+      setPlaylistRepeat,
+      setPlaylistShuffle,
+      setPlaylistCrossfade,
+      playPlaylistItem,
+      skipPlaylist
     ]
   );
 };
@@ -0,0 +1,276 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { DEFAULT_BPM, getUnitSeconds } from '../audio/scoreScheduler';
+import {
+  buildPracticeNotes,
+  judgeOffset,
+  summarizeSections,
+  GOOD_WINDOW,
+  type Judgement
+} from '../score/practice';
+import type { ScoreDocument } from '../score/scoreFormat';
+import type { KalimbaKey } from '../score/tuning';
+
+export type PracticeState = 'idle' | 'playing' | 'finished';
+
+export type PracticeFeedback = {
+  id: number;
+  keyIndex: number;
+  judgement: Judgement | 'wrong';
+};
+
+/** 可选的练习速度（相对乐谱速度） */
+export const PRACTICE_TEMPOS = [0.5, 0.6, 0.75, 0.9, 1];
+// 开始前留出的下落时间（秒），也是下落区域显示的时间跨度
+export const PRACTICE_LEAD_SECONDS = 2.5;
+const TICK_MS = 30;
+
+type PracticeData = ReturnType<typeof buildPracticeNotes>;
+
+const EMPTY_PRACTICE: PracticeData = { notes: [], sections: [], totalUnits: 0 };
+
+/**
+ * 下落音符练习：与乐谱播放使用同一套单位与速度换算，以音频时钟为准计算目标时间。
+ * 等待模式下，未弹对的音会停在判定线上，时间暂停直到弹对为止。
+ */
+export const usePractice = (getAudioTime: () => number, keys: KalimbaKey[]) => {
+  const [state, setState] = useState<PracticeState>('idle');
+  const [tempo, setTempoState] = useState(1);
+  const [waitMode, setWaitModeState] = useState(false);
+  const [practice, setPractice] = useState<PracticeData>(EMPTY_PRACTICE);
+  const [results, setResults] = useState<(Judgement | null)[]>([]);
+  const [wrongPresses, setWrongPresses] = useState(0);
+  const [targetKeys, setTargetKeys] = useState<number[]>([]);
+  const [isWaiting, setIsWaiting] = useState(false);
+  const [feedback, setFeedback] = useState<PracticeFeedback | null>(null);
+  const [bpm, setBpm] = useState(DEFAULT_BPM);
+
+  const practiceRef = useRef(practice);
+  const resultsRef = useRef<(Judgement | null)[]>([]);
+  // 第一个尚未判定的音
+  const cursorRef = useRef(0);
+  const originRef = useRef(0); // 第 0 个单位对应的音频时间
+  const bpmRef = useRef(DEFAULT_BPM);
+  const tempoRef = useRef(tempo);
+  const unitSecondsRef = useRef(getUnitSeconds(DEFAULT_BPM));
+  const waitModeRef = useRef(waitMode);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const timerRef = useRef<number | null>(null);
+  const feedbackIdRef = useRef(0);
+  const scoreRef = useRef<ScoreDocument | null>(null);
+  const targetKeyRef = useRef('');
+  // 等待模式中是否正停在判定线上
+  const holdingRef = useRef(false);
+
+  const getPosition = useCallback(
+    () => (getAudioTime() - originRef.current) / unitSecondsRef.current,
+    [getAudioTime]
+  );
+
+  const getUnitSecondsNow = useCallback(() => unitSecondsRef.current, []);
+
+  const clearTimer = () => {
+    if (timerRef.current !== null) {
+      window.clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  const judge = useCallback((index: number, judgement: Judgement) => {
+    resultsRef.current[index] = judgement;
+    setResults([...resultsRef.current]);
+    feedbackIdRef.current += 1;
+    setFeedback({ id: feedbackIdRef.current, keyIndex: practiceRef.current.notes[index].keyIndex, judgement });
+  }, []);
+
+  const updateTargets = (keyIndexes: number[]) => {
+    const signature = keyIndexes.join(',');
+    if (signature !== targetKeyRef.current) {
+      targetKeyRef.current = signature;
+      setTargetKeys(keyIndexes);
+    }
+  };
+
+  const tick = useCallback(() => {
+    const { notes, totalUnits } = practiceRef.current;
+    const results = resultsRef.current;
+    const unitSeconds = unitSecondsRef.current;
+    const now = getAudioTime();
+    let position = (now - originRef.current) / unitSeconds;
+
+    while (cursorRef.current < notes.length && results[cursorRef.current] !== null) {
+      cursorRef.current += 1;
+    }
+    const pending = notes[cursorRef.current];
+
+    if (waitModeRef.current) {
+      // 停在最早一个未弹对的音上：把时间基准向后推，位置保持不变
+      const holding = pending !== undefined && position > pending.start;
+      if (holding) {
+        originRef.current = now - pending.start * unitSeconds;
+        position = pending.start;
+      }
+      holdingRef.current = holding;
+      setIsWaiting(holding);
+    } else {
+      for (let index = cursorRef.current; index < notes.length && notes[index].start < position; index += 1) {
+        if (results[index] === null && (position - notes[index].start) * unitSeconds > GOOD_WINDOW) {
+          judge(index, 'miss');
+        }
+      }
+    }
+
+    // 判定线上下一组（同一时刻）需要弹的琴键
+    updateTargets(
+      pending
+        ? notes
+            .filter((note, index) => note.start === pending.start && results[index] === null)
+            .map((note) => note.keyIndex)
+        : []
+    );
+
+    if (cursorRef.current >= notes.length && position >= totalUnits) {
+      clearTimer();
+      setIsWaiting(false);
+      setState('finished');
+    }
+  }, [getAudioTime, judge]);
+
+  const start = useCallback(
+    (score: ScoreDocument) => {
+      clearTimer();
+      const data = buildPracticeNotes(score, keys);
+      scoreRef.current = score;
+      practiceRef.current = data;
+      resultsRef.current = data.notes.map(() => null);
+      cursorRef.current = 0;
+      holdingRef.current = false;
+      bpmRef.current = score.header.bpm ?? DEFAULT_BPM;
+      unitSecondsRef.current = getUnitSeconds(bpmRef.current * tempoRef.current);
+      originRef.current = getAudioTime() + PRACTICE_LEAD_SECONDS;
+      targetKeyRef.current = '';
+      setBpm(bpmRef.current);
+      setPractice(data);
+      setResults([...resultsRef.current]);
+      setWrongPresses(0);
+      setFeedback(null);
+      setIsWaiting(false);
+      setState('playing');
+      timerRef.current = window.setInterval(tick, TICK_MS);
+      tick();
+    },
+    [getAudioTime, keys, tick]
+  );
+
+  const restart = useCallback(() => {
+    if (scoreRef.current) {
+      start(scoreRef.current);
+    }
+  }, [start]);
+
+  const stop = useCallback(() => {
+    clearTimer();
+    holdingRef.current = false;
+    targetKeyRef.current = '';
+    setTargetKeys([]);
+    setIsWaiting(false);
+    setState('idle');
+  }, []);
+
+  /** 处理一次击键：与最近的同键目标音比较，超出判定窗口的击键记为弹错 */
+  const press = useCallback(
+    (keyIndex: number) => {
+      if (stateRef.current !== 'playing') {
+        return;
+      }
+      const { notes } = practiceRef.current;
+      const results = resultsRef.current;
+      const position = getPosition();
+      const pending = notes[cursorRef.current];
+      let nearest = -1;
+      notes.forEach((note, index) => {
+        if (
+          note.keyIndex === keyIndex &&
+          results[index] === null &&
+          (nearest < 0 || Math.abs(note.start - position) < Math.abs(notes[nearest].start - position))
+        ) {
+          nearest = index;
+        }
+      });
+
+      const isHeldNote = holdingRef.current && nearest >= 0 && pending && notes[nearest].start === pending.start;
+      // 等待模式中弹对停在判定线上的音记为 good（已经晚了），其余按时间偏差判定
+      const judgement: Judgement | null = isHeldNote
+        ? 'good'
+        : judgeOffset(nearest < 0 ? Infinity : (position - notes[nearest].start) * unitSecondsRef.current);
+      if (judgement) {
+        judge(nearest, judgement);
+        tick();
+        return;
+      }
+      setWrongPresses((count) => count + 1);
+      feedbackIdRef.current += 1;
+      setFeedback({ id: feedbackIdRef.current, keyIndex, judgement: 'wrong' });
+    },
+    [getPosition, judge, tick]
+  );
+
+  /** 调整练习速度：以当前位置为锚点重新换算，音符不会跳动 */
+  const setTempo = useCallback(
+    (value: number) => {
+      const position = getPosition();
+      tempoRef.current = value;
+      setTempoState(value);
+      unitSecondsRef.current = getUnitSeconds(bpmRef.current * value);
+      originRef.current = getAudioTime() - position * unitSecondsRef.current;
+    },
+    [getAudioTime, getPosition]
+  );
+
+  const setWaitMode = useCallback((value: boolean) => {
+    waitModeRef.current = value;
+    setWaitModeState(value);
+  }, []);
+
+  useEffect(() => clearTimer, []);
+
+  const summary = useMemo(
+    () => summarizeSections(practice.sections, practice.notes, results),
+    [practice, results]
+  );
+
+  const counts = useMemo(
+    () =>
+      results.reduce(
+        (total, result) => (result ? { ...total, [result]: total[result] + 1 } : total),
+        { perfect: 0, good: 0, miss: 0 }
+      ),
+    [results]
+  );
+
+  return {
+    state,
+    tempo,
+    setTempo,
+    waitMode,
+    setWaitMode,
+    bpm,
+    notes: practice.notes,
+    totalUnits: practice.totalUnits,
+    results,
+    counts,
+    wrongPresses,
+    summary,
+    targetKeys,
+    isWaiting,
+    feedback,
+    getPosition,
+    getUnitSeconds: getUnitSecondsNow,
+    start,
+    restart,
+    stop,
+    press
+  };
+};
+
+export type UsePracticeReturn = ReturnType<typeof usePractice>;
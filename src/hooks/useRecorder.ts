@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { MetronomeSettings } from '../audio/metronome';
+import { quantizeRecording, type QuantizeGrid, type RecordedHit } from '../score/recording';
+import type { ScoreDocument } from '../score/scoreFormat';
+import type { KalimbaKey } from '../score/tuning';
+
+export type RecorderState = 'idle' | 'count-in' | 'recording';
+
+const formatTitle = (date: Date) =>
+  `演奏录音 ${date.getMonth() + 1}-${date.getDate()} ${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+/**
+ * 演奏录音：按音频时钟记录每次击键，停止时量化为乐谱。
+ * 速度与拍号取自节拍器设置；开启预备拍时先播放一小节点击，第一拍之前半拍内的击键计入第一拍。
+ */
+export const useRecorder = (
+  getAudioTime: () => number,
+  scheduleCountIn: (bars: number) => { end: number; clicks: AudioScheduledSourceNode[] },
+  keys: KalimbaKey[],
+  { bpm, beatsPerBar, beatUnit }: Pick<MetronomeSettings, 'bpm' | 'beatsPerBar' | 'beatUnit'>
+) => {
+  const [state, setState] = useState<RecorderState>('idle');
+  const [grid, setGrid] = useState<QuantizeGrid>('1/16');
+  const [countIn, setCountIn] = useState(true);
+  const [hitCount, setHitCount] = useState(0);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const keysRef = useRef(keys);
+  keysRef.current = keys;
+  const hitsRef = useRef<RecordedHit[]>([]);
+  const startAtRef = useRef(0);
+  const timerRef = useRef<number | null>(null);
+  const clicksRef = useRef<AudioScheduledSourceNode[]>([]);
+
+  const clearPending = useCallback(() => {
+    if (timerRef.current !== null) {
+      window.clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    clicksRef.current.forEach((click) => click.stop(0));
+    clicksRef.current = [];
+  }, []);
+
+  const start = useCallback(() => {
+    clearPending();
+    hitsRef.current = [];
+    setHitCount(0);
+    setNotice(null);
+    const now = getAudioTime();
+    if (!countIn) {
+      startAtRef.current = now;
+      setState('recording');
+      return;
+    }
+    const { end, clicks } = scheduleCountIn(1);
+    clicksRef.current = clicks;
+    startAtRef.current = end;
+    setState('count-in');
+    timerRef.current = window.setTimeout(() => {
+      timerRef.current = null;
+      clicksRef.current = [];
+      setState('recording');
+    }, (startAtRef.current - now) * 1000);
+  }, [clearPending, countIn, getAudioTime, scheduleCountIn]);
+
+  const capture = useCallback(
+    (noteIndex: number) => {
+      const key = keysRef.current[noteIndex];
+      if (stateRef.current === 'idle' || !key) {
+        return;
+      }
+      const time = getAudioTime() - startAtRef.current;
+      if (time < -60 / bpm / 2) {
+        return;
+      }
+      hitsRef.current.push({ code: key.note, time: Math.max(0, time) });
+      setHitCount(hitsRef.current.length);
+    },
+    [bpm, getAudioTime]
+  );
+
+  /** 停止录音并返回量化后的乐谱；预备拍中停止或没有击键时返回 null */
+  const stop = useCallback((): ScoreDocument | null => {
+    clearPending();
+    const wasRecording = stateRef.current !== 'idle';
+    const totalSeconds = getAudioTime() - startAtRef.current;
+    setState('idle');
+    if (!wasRecording || hitsRef.current.length === 0) {
+      setNotice(wasRecording ? '没有录到音符' : null);
+      return null;
+    }
+    const score = quantizeRecording(hitsRef.current, {
+      bpm,
+      grid,
+      beatsPerBar,
+      beatUnit,
+      totalSeconds,
+      title: formatTitle(new Date())
+    });
+    hitsRef.current = [];
+    setNotice(`已量化 ${score.notes.length} 个事件`);
+    return score;
+  }, [beatUnit, beatsPerBar, bpm, clearPending, getAudioTime, grid]);
+
+  useEffect(() => clearPending, [clearPending]);
+
+  return {
+    state,
+    grid,
+    setGrid,
+    countIn,
+    setCountIn,
+    hitCount,
+    notice,
+    start,
+    capture,
+    stop
+  };
+};
+
+export type UseRecorderReturn = ReturnType<typeof useRecorder>;
@@ -0,0 +1,285 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { parseScore, type ScoreDocument } from '../score/scoreFormat';
+import {
+  SCORE_PRESETS,
+  UNSAVED_DRAFT_ID,
+  clearDraft,
+  createScore,
+  deleteScore,
+  duplicateScore,
+  exportScoreFile,
+  fetchPreset,
+  getDraft,
+  getLatestDraft,
+  getScore,
+  isPresetId,
+  listScores,
+  saveDraft,
+  updateScore,
+  type StoredScore
+} from '../score/scoreLibrary';
+
+const AUTOSAVE_DELAY_MS = 800;
+
+export const useScoreLibrary = (fallbackContent: string) => {
+  const [scores, setScores] = useState<StoredScore[]>([]);
+  const [selectedId, setSelectedId] = useState<string>(SCORE_PRESETS[0]?.id ?? UNSAVED_DRAFT_ID);
+  const [content, setContentState] = useState(fallbackContent);
+  const [savedContent, setSavedContent] = useState(fallbackContent);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const autosaveTimerRef = useRef<number | null>(null);
+  // 等待自动保存的编辑内容，切换乐谱前先写入草稿
+  const pendingDraftRef = useRef<{ id: string; value: string; savedContent: string } | null>(null);
+
+  const refreshScores = useCallback(async () => {
+    setScores(await listScores());
+  }, []);
+
+  // 读取乐谱的已保存版本：预设来自 public/，用户乐谱来自 IndexedDB
+  const loadBaseContent = useCallback(
+    async (id: string) => {
+      const preset = SCORE_PRESETS.find((item) => item.id === id);
+      if (preset) {
+        return fetchPreset(preset);
+      }
+      if (id === UNSAVED_DRAFT_ID) {
+        return fallbackContent;
+      }
+      const stored = await getScore(id);
+      if (!stored) {
+        throw new Error('乐谱不存在或已被删除');
+      }
+      return stored.content;
+    },
+    [fallbackContent]
+  );
+
+  const cancelAutosave = useCallback(() => {
+    if (autosaveTimerRef.current !== null) {
+      window.clearTimeout(autosaveTimerRef.current);
+      autosaveTimerRef.current = null;
+    }
+    pendingDraftRef.current = null;
+  }, []);
+
+  // 立即写入尚未保存的草稿，与已保存版本一致时清除草稿
+  const flushAutosave = useCallback(async () => {
+    const pending = pendingDraftRef.current;
+    cancelAutosave();
+    if (pending) {
+      await (pending.value === pending.savedContent
+        ? clearDraft(pending.id)
+        : saveDraft(pending.id, pending.value));
+    }
+  }, [cancelAutosave]);
+
+  /** 执行乐谱库操作，失败时记录错误；返回是否成功 */
+  const run = useCallback(async (task: () => Promise<void>) => {
+    try {
+      setError(null);
+      await task();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '乐谱库操作失败');
+      return false;
+    }
+  }, []);
+
+  const select = useCallback(
+    (id: string) =>
+      run(async () => {
+        await flushAutosave();
+        setIsLoading(true);
+        try {
+          const base = await loadBaseContent(id);
+          const draft = await getDraft(id);
+          setSelectedId(id);
+          setSavedContent(base);
+          setContentState(draft?.content ?? base);
+        } finally {
+          setIsLoading(false);
+        }
+      }),
+    [flushAutosave, loadBaseContent, run]
+  );
+
+  // 编辑内容自动保存为草稿，与已保存版本一致时清除草稿
+  const setContent = useCallback(
+    (value: string) => {
+      setContentState(value);
+      cancelAutosave();
+      pendingDraftRef.current = { id: selectedId, value, savedContent };
+      autosaveTimerRef.current = window.setTimeout(() => {
+        void flushAutosave().catch(() => {
+          // 草稿保存失败不打断编辑
+        });
+      }, AUTOSAVE_DELAY_MS);
+    },
+    [cancelAutosave, flushAutosave, savedContent, selectedId]
+  );
+
+  /** 以未保存的新乐谱打开外部生成的内容（如演奏录音），保存时再命名 */
+  const openUnsaved = useCallback(
+    (value: string) =>
+      run(async () => {
+        await flushAutosave();
+        setSelectedId(UNSAVED_DRAFT_ID);
+        setSavedContent(fallbackContent);
+        setContentState(value);
+        await saveDraft(UNSAVED_DRAFT_ID, value);
+      }),
+    [fallbackContent, flushAutosave, run]
+  );
+
+  const saveAs = useCallback(
+    (name: string) =>
+      run(async () => {
+        await flushAutosave();
+        const created = await createScore(name.trim() || '未命名乐谱', content);
+        await clearDraft(selectedId);
+        await refreshScores();
+        setSelectedId(created.id);
+        setSavedContent(created.content);
+      }),
+    [content, flushAutosave, refreshScores, run, selectedId]
+  );
+
+  /** 保存到当前乐谱，返回是否已保存；预设与未保存的乐谱需要先命名（调用 saveAs） */
+  const save = useCallback(async () => {
+    if (isPresetId(selectedId) || selectedId === UNSAVED_DRAFT_ID) {
+      return false;
+    }
+    return run(async () => {
+      cancelAutosave();
+      const updated = await updateScore(selectedId, { content });
+      await clearDraft(selectedId);
+      await refreshScores();
+      setSavedContent(updated.content);
+    });
+  }, [cancelAutosave, content, refreshScores, run, selectedId]);
+
+  const rename = useCallback(
+    (name: string) =>
+      run(async () => {
+        if (isPresetId(selectedId) || !name.trim()) {
+          return;
+        }
+        await updateScore(selectedId, { name: name.trim() });
+        await refreshScores();
+      }),
+    [refreshScores, run, selectedId]
+  );
+
+  const duplicate = useCallback(
+    () =>
+      run(async () => {
+        const copy = isPresetId(selectedId)
+          ? await createScore(
+              `${SCORE_PRESETS.find((preset) => preset.id === selectedId)?.name ?? '预设'} 副本`,
+              content
+            )
+          : await duplicateScore(selectedId);
+        await refreshScores();
+        await select(copy.id);
+      }),
+    [content, refreshScores, run, select, selectedId]
+  );
+
+  const remove = useCallback(
+    () =>
+      run(async () => {
+        if (isPresetId(selectedId) || selectedId === UNSAVED_DRAFT_ID) {
+          return;
+        }
+        cancelAutosave();
+        await deleteScore(selectedId);
+        await refreshScores();
+        await select(SCORE_PRESETS[0]?.id ?? UNSAVED_DRAFT_ID);
+      }),
+    [cancelAutosave, refreshScores, run, select, selectedId]
+  );
+
+  /** 把外部转换得到的乐谱（如 MIDI）存为新乐谱并打开 */
+  const importDocument = useCallback(
+    (name: string, score: ScoreDocument) =>
+      run(async () => {
+        const created = await createScore(name, JSON.stringify(score, null, 2));
+        await refreshScores();
+        await select(created.id);
+      }),
+    [refreshScores, run, select]
+  );
+
+  const importFile = useCallback(
+    (file: File) =>
+      run(async () => {
+        if (!file.name.toLowerCase().endsWith('.json')) {
+          throw new Error('仅支持导入 .json 乐谱、MIDI 或 MusicXML 文件');
+        }
+        let value: unknown;
+        try {
+          value = JSON.parse(await file.text());
+        } catch {
+          throw new Error(`「${file.name}」不是合法的 JSON`);
+        }
+        parseScore(value);
+        const created = await createScore(file.name.replace(/\.json$/i, ''), JSON.stringify(value, null, 2));
+        await refreshScores();
+        await select(created.id);
+      }),
+    [refreshScores, run, select]
+  );
+
+  const currentName =
+    SCORE_PRESETS.find((preset) => preset.id === selectedId)?.name ??
+    scores.find((score) => score.id === selectedId)?.name ??
+    '未命名乐谱';
+
+  const exportCurrent = useCallback(() => {
+    exportScoreFile(currentName, content);
+  }, [content, currentName]);
+
+  // 首次挂载：恢复最近一次编辑的草稿，否则打开第一个预设；依赖变化时不再重复载入
+  const initializedRef = useRef(false);
+  useEffect(() => {
+    if (!initializedRef.current) {
+      initializedRef.current = true;
+      void run(async () => {
+        await refreshScores();
+        const latest = await getLatestDraft();
+        await select(latest?.id ?? SCORE_PRESETS[0]?.id ?? UNSAVED_DRAFT_ID);
+      }).finally(() => setIsLoading(false));
+    }
+    return () => {
+      void flushAutosave().catch(() => {
+        // 卸载时草稿保存失败无处提示
+      });
+    };
+  }, [flushAutosave, refreshScores, run, select]);
+
+  return {
+    presets: SCORE_PRESETS,
+    scores,
+    selectedId,
+    currentName,
+    isPreset: isPresetId(selectedId),
+    isDirty: content !== savedContent,
+    content,
+    setContent,
+    isLoading,
+    error,
+    select,
+    openUnsaved,
+    save,
+    saveAs,
+    rename,
+    duplicate,
+    remove,
+    importFile,
+    importDocument,
+    exportCurrent
+  };
+};
+
+export type UseScoreLibraryReturn = ReturnType<typeof useScoreLibrary>;
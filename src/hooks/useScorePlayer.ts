@@ -1,95 +1,309 @@
-import { useCallback, useRef, useState } from 'react';
-import { KALIMBA_LAYOUT } from '../components/KalimbaKeyboard';
-import type { ScoreNote } from '../components/ScoreEditor';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  DEFAULT_BPM,
+  MAX_BPM,
+  MIN_BPM,
+  buildTimeline,
+  createAudioClock,
+  createScoreScheduler,
+  findEventAt,
+  getUnitSeconds,
+  normalizeLoop,
+  type LoopRange,
+  type ScoreScheduler,
+  type Timeline
+} from '../audio/scoreScheduler';
+import { findOutOfRangeNotes, type OutOfRangeNote } from '../score/range';
+import {
+  SCORE_FORMAT_VERSION,
+  normalizeScore,
+  type ScoreDocument,
+  type ScoreEvent,
+  type ScoreHeader,
+  type ScoreNote
+} from '../score/scoreFormat';
+import { expandStrikes, type EventStrike } from '../score/strikes';
+import { DEFAULT_TUNING, type KalimbaKey } from '../score/tuning';
 
-// BPM = 120, 四分音符 = 0.5秒
-// 1个单位 = 1/64拍 = 0.5/16 = 0.03125秒
-const BASE_UNIT_MS = (60 / 120) * 1000 / 16; // 约 31.25ms
+// 首个音符预留的启动延迟，保证第一个音也能被精确排程
+const START_DELAY = 0.05;
+// 后台标签页的定时器会被节流到约 1 秒一次，此时加大提前量
+const FOREGROUND_LOOKAHEAD = 0.1;
+const BACKGROUND_LOOKAHEAD = 1.5;
+const POSITION_POLL_MS = 200;
+
+const getLookahead = () =>
+  typeof document !== 'undefined' && document.hidden ? BACKGROUND_LOOKAHEAD : FOREGROUND_LOOKAHEAD;
+
+export type ScorePlayerState = 'idle' | 'playing' | 'paused';
 
 export const useScorePlayer = (
-  onPlayNote: (index: number) => void,
-  onHighlightNote: (index: number | null) => void
+  onPlayNote: (index: number, when?: number, velocity?: number, duration?: number) => void,
+  onHighlightNote: (indexes: number[]) => void,
+  getAudioTime: () => number,
+  onCancelNotes?: () => void,
+  keys: KalimbaKey[] = DEFAULT_TUNING.keys
 ) => {
-  const [isPlaying, setIsPlaying] = useState(false);
+  const [playerState, setPlayerState] = useState<ScorePlayerState>('idle');
   const [currentIndex, setCurrentIndex] = useState<number | null>(null);
-  const timeoutRefsRef = useRef<number[]>([]);
-  const currentIndexRef = useRef<number>(0);
+  const [bpm, setBpmState] = useState(DEFAULT_BPM);
+  const [loop, setLoopState] = useState<LoopRange | null>(null);
+  const [position, setPosition] = useState(0); // 单位
+  const [totalUnits, setTotalUnits] = useState(0);
+  const [noteCount, setNoteCount] = useState(0);
+  // 当前调音中弹不到、播放时被跳过的音
+  const [skippedNotes, setSkippedNotes] = useState<OutOfRangeNote[]>([]);
 
-  // 根据 code 找到对应的琴键索引
-  const findNoteIndex = useCallback((code: string): number | null => {
-    if (code === '-') {
-      return null; // 休止符
-    }
-    
-    const index = KALIMBA_LAYOUT.findIndex((key) => key.note === code);
-    return index >= 0 ? index : null; // 找不到的按休止符处理
-  }, []);
+  const schedulerRef = useRef<ScoreScheduler | null>(null);
+  const timelineRef = useRef<Timeline>({ events: [], totalUnits: 0 });
+  // 每个事件需要拨奏的琴键（和弦为多个，被连音线延续的音不重复拨奏）
+  const strikesRef = useRef<EventStrike[][]>([]);
+  // 每个事件对应高亮的琴键（包含被延续的音）
+  const keyIndexesRef = useRef<number[][]>([]);
+  // 当前乐谱的事件，切换调音时据此重新对应琴键
+  const eventsRef = useRef<ScoreEvent[]>([]);
+  const headerRef = useRef<ScoreHeader>({});
+  // 暂停或停止时记录的位置（音符索引），恢复播放从这里开始
+  const resumeIndexRef = useRef(0);
+  const bpmRef = useRef(bpm);
+  const loopRef = useRef(loop);
+  const onPlayNoteRef = useRef(onPlayNote);
+  onPlayNoteRef.current = onPlayNote;
 
-  const stop = useCallback(() => {
-    // 清除所有定时器
-    timeoutRefsRef.current.forEach((timeout) => clearTimeout(timeout));
-    timeoutRefsRef.current = [];
-    setIsPlaying(false);
-    setCurrentIndex(null);
-    onHighlightNote(null);
-    currentIndexRef.current = 0;
-  }, [onHighlightNote]);
+  const unitSeconds = getUnitSeconds(bpm);
 
-  const play = useCallback(
-    (score: ScoreNote[]) => {
-      stop(); // 先停止之前的播放
+  // 当前调音中找不到的音不发声，列在 skippedNotes 中
+  const buildStrikes = useCallback(
+    (notes: ScoreEvent[]) => {
+      const expanded = expandStrikes(notes, keys);
+      strikesRef.current = expanded.map(({ strikes }) => strikes);
+      keyIndexesRef.current = expanded.map(({ keyIndexes }) => keyIndexes);
+      setSkippedNotes(findOutOfRangeNotes({ version: SCORE_FORMAT_VERSION, header: headerRef.current, notes }, keys));
+    },
+    [keys]
+  );
+
+  const haltScheduler = useCallback(() => {
+    schedulerRef.current?.stop();
+    schedulerRef.current = null;
+    onCancelNotes?.();
+  }, [onCancelNotes]);
+
+  const showIndex = useCallback(
+    (index: number | null) => {
+      setCurrentIndex(index);
+      onHighlightNote(index === null ? [] : keyIndexesRef.current[index] ?? []);
+    },
+    [onHighlightNote]
+  );
 
-      if (score.length === 0) {
+  const startFrom = useCallback(
+    (fromIndex: number, delay = START_DELAY) => {
+      haltScheduler();
+      const timeline = timelineRef.current;
+      if (timeline.events.length === 0 || fromIndex >= timeline.events.length) {
         return;
       }
 
-      setIsPlaying(true);
-      currentIndexRef.current = 0;
-
-      const playNext = (index: number) => {
-        if (index >= score.length) {
+      const clock = createAudioClock(getAudioTime);
+      const scheduler = createScoreScheduler({
+        clock,
+        timeline,
+        unitSeconds: getUnitSeconds(bpmRef.current),
+        lookahead: getLookahead(),
+        onSchedule: (event, when) => {
+          const seconds = getUnitSeconds(bpmRef.current);
+          strikesRef.current[event.index]?.forEach(({ keyIndex, velocity, units }) => {
+            onPlayNoteRef.current(keyIndex, when, velocity, units * seconds);
+          });
+        },
+        // 高亮跟随音频时钟，而不是排程时刻
+        onPosition: (event) => {
+          showIndex(event.index);
+        },
+        onEnd: () => {
           // 播放完成
-          setIsPlaying(false);
-          setCurrentIndex(null);
-          onHighlightNote(null);
-          return;
+          schedulerRef.current = null;
+          resumeIndexRef.current = 0;
+          setPlayerState('idle');
+          setPosition(0);
+          showIndex(null);
         }
+      });
+      scheduler.setLoop(loopRef.current);
 
-        const note = score[index];
-        const duration = parseInt(note.duration, 10);
-        const durationMs = duration * BASE_UNIT_MS;
+      schedulerRef.current = scheduler;
+      setPlayerState('playing');
+      scheduler.start(fromIndex, clock.now() + Math.max(START_DELAY, delay));
+    },
+    [getAudioTime, haltScheduler, showIndex]
+  );
+
+  const stop = useCallback(() => {
+    haltScheduler();
+    resumeIndexRef.current = 0;
+    setPlayerState('idle');
+    setPosition(0);
+    showIndex(null);
+  }, [haltScheduler, showIndex]);
 
-        setCurrentIndex(index);
-        const noteIndex = findNoteIndex(note.code);
+  const setBpm = useCallback((value: number) => {
+    const next = Math.min(MAX_BPM, Math.max(MIN_BPM, Math.round(value)));
+    bpmRef.current = next;
+    setBpmState(next);
+    schedulerRef.current?.setUnitSeconds(getUnitSeconds(next));
+  }, []);
 
-        if (noteIndex !== null) {
-          // 播放音符
-          onHighlightNote(noteIndex);
-          onPlayNote(noteIndex);
-        } else {
-          // 休止符或不存在的音符
-          onHighlightNote(null);
-        }
+  const load = useCallback(
+    (score: ScoreDocument | ScoreNote[]) => {
+      stop();
+      const { header, notes } = normalizeScore(score);
+
+      eventsRef.current = notes;
+      headerRef.current = header;
+      buildStrikes(notes);
+      timelineRef.current = buildTimeline(notes.map((event) => event.duration));
+
+      if (header.bpm) {
+        setBpm(header.bpm);
+      }
+      loopRef.current = null;
+      setLoopState(null);
+      setTotalUnits(timelineRef.current.totalUnits);
+      setNoteCount(notes.length);
+    },
+    [buildStrikes, setBpm, stop]
+  );
+
+  // 切换调音后重新对应琴键，正在播放的乐谱从下一个音起使用新调音
+  useEffect(() => {
+    buildStrikes(eventsRef.current);
+  }, [buildStrikes]);
 
-        // 设置下一个音符的定时器
-        const timeout = setTimeout(() => {
-          playNext(index + 1);
-        }, durationMs);
+  /** 加载并播放乐谱，delay 为开始前的等待时间（秒），用于预备拍 */
+  const play = useCallback(
+    (score: ScoreDocument | ScoreNote[], fromIndex = 0, delay?: number) => {
+      load(score);
+      startFrom(fromIndex, delay);
+    },
+    [load, startFrom]
+  );
 
-        timeoutRefsRef.current.push(timeout);
-      };
+  const pause = useCallback(() => {
+    const scheduler = schedulerRef.current;
+    if (!scheduler) {
+      return;
+    }
+    const index = scheduler.getCurrentIndex();
+    resumeIndexRef.current = index;
+    setPosition(timelineRef.current.events[index]?.start ?? 0);
+    haltScheduler();
+    setPlayerState('paused');
+  }, [haltScheduler]);
 
-      // 开始播放
-      playNext(0);
+  const resume = useCallback(() => {
+    startFrom(resumeIndexRef.current);
+  }, [startFrom]);
+
+  /** 跳转到指定音符，播放中则从该音符继续播放 */
+  const seek = useCallback(
+    (index: number) => {
+      const { events } = timelineRef.current;
+      if (events.length === 0) {
+        return;
+      }
+      const target = Math.min(Math.max(0, index), events.length - 1);
+      resumeIndexRef.current = target;
+      setPosition(events[target].start);
+      if (schedulerRef.current) {
+        startFrom(target);
+      } else {
+        showIndex(target);
+      }
+    },
+    [showIndex, startFrom]
+  );
+
+  /** 从指定音符开始播放（无论当前是否在播放） */
+  const playFrom = useCallback(
+    (index: number) => {
+      const { events } = timelineRef.current;
+      if (events.length === 0) {
+        return;
+      }
+      const target = Math.min(Math.max(0, index), events.length - 1);
+      resumeIndexRef.current = target;
+      setPosition(events[target].start);
+      startFrom(target);
     },
-    [findNoteIndex, onPlayNote, onHighlightNote, stop]
+    [startFrom]
   );
 
+  /** 按时间（秒）跳转，吸附到所在音符的起点 */
+  const seekToTime = useCallback(
+    (seconds: number) => {
+      const units = Math.max(0, seconds) / getUnitSeconds(bpmRef.current);
+      seek(findEventAt(timelineRef.current, units));
+    },
+    [seek]
+  );
+
+  /** 正在播放时的时间基准，供节拍器跟随 */
+  const getTransport = useCallback(() => schedulerRef.current?.getTransport() ?? null, []);
+
+  // 保存规范化后的区间，界面显示与实际循环一致
+  const setLoop = useCallback((range: LoopRange | null) => {
+    const scheduler = schedulerRef.current;
+    const normalized = scheduler ? scheduler.setLoop(range) : normalizeLoop(timelineRef.current, range);
+    loopRef.current = normalized;
+    setLoopState(normalized);
+  }, []);
+
+  useEffect(() => {
+    if (playerState !== 'playing') {
+      return undefined;
+    }
+    const interval = window.setInterval(() => {
+      const scheduler = schedulerRef.current;
+      if (scheduler) {
+        setPosition(scheduler.getPosition());
+      }
+    }, POSITION_POLL_MS);
+    return () => window.clearInterval(interval);
+  }, [playerState]);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      schedulerRef.current?.setLookahead(getLookahead());
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      schedulerRef.current?.stop();
+    };
+  }, []);
+
   return {
-    isPlaying,
+    state: playerState,
+    isPlaying: playerState === 'playing',
     currentIndex,
+    hasScore: totalUnits > 0,
+    noteCount,
+    skippedNotes,
+    position: position * unitSeconds,
+    duration: totalUnits * unitSeconds,
+    bpm,
+    loop,
+    load,
     play,
-    stop
+    pause,
+    resume,
+    stop,
+    seek,
+    seekToTime,
+    playFrom,
+    setBpm,
+    setLoop,
+    getTransport
   };
 };
-
@@ -1,21 +1,144 @@
 import { useEffect, useRef } from 'react';
+import {
+  DEFAULT_SPECTROGRAM_SETTINGS,
+  createColorTable,
+  createRowBins,
+  frequencyToPosition,
+  getFrequencyLabels,
+  renderSpectrogramColumn,
+  type SpectrogramSettings
+} from '../audio/spectrogram';
 
-export type VisualizerMode = 'spectrum' | 'waveform';
+export type VisualizerMode = 'spectrum' | 'waveform' | 'spectrogram';
 
 interface UseVisualizerOptions {
   analyser: AnalyserNode | null;
   mode: VisualizerMode;
+  /** 声谱图的配色、频率轴与分贝范围，修改时不清空已有的历史 */
+  spectrogram?: SpectrogramSettings;
   barColor?: string;
   backgroundColor?: string;
 }
 
+// 声谱图需要更细的频率分辨率，且不做时间平滑，才能看清泛音与衰减
+const SPECTROGRAM_FFT_SIZE = 8192;
+// 声谱图按音频时间推进，与显示器刷新率无关
+const SPECTROGRAM_COLUMNS_PER_SECOND = 60;
+
+/**
+ * 声谱图：每帧按经过的音频时间把最新频谱写成若干列，存入离屏的环形缓冲（OffscreenCanvas），
+ * 再分两段贴到画布上，使最新一列位于最右侧，不必每帧重画全部历史
+ */
+const createSpectrogramRenderer = (
+  analyser: AnalyserNode,
+  context: CanvasRenderingContext2D,
+  getSettings: () => SpectrogramSettings,
+  backgroundColor: string
+) => {
+  const decibels = new Float32Array(analyser.frequencyBinCount);
+  const nyquist = analyser.context.sampleRate / 2;
+  let ring: OffscreenCanvas | null = null;
+  let ringContext: OffscreenCanvasRenderingContext2D | null = null;
+  let column: ImageData | null = null;
+  let writeX = 0;
+  // 上次写入时的音频时间与尚未凑满一列的余量
+  let lastTime = analyser.context.currentTime;
+  let pendingColumns = 0;
+  let rowBins = new Float32Array(0);
+  let scale: SpectrogramSettings['scale'] | null = null;
+  let colorMap: SpectrogramSettings['colorMap'] | null = null;
+  let colorTable = new Uint8ClampedArray(0);
+
+  const clear = () => {
+    if (ring && ringContext) {
+      ringContext.fillStyle = backgroundColor;
+      ringContext.fillRect(0, 0, ring.width, ring.height);
+    }
+    writeX = 0;
+  };
+
+  const drawLabels = (width: number, height: number, settings: SpectrogramSettings) => {
+    context.font = '11px sans-serif';
+    context.textBaseline = 'middle';
+    getFrequencyLabels(settings.scale, nyquist).forEach(({ frequency, label }) => {
+      const y = (1 - frequencyToPosition(frequency, settings.scale, nyquist)) * height;
+      if (y < 8 || y > height - 8) {
+        return;
+      }
+      context.fillStyle = 'rgba(226, 232, 240, 0.35)';
+      context.fillRect(0, y, 6, 1);
+      context.fillStyle = 'rgba(226, 232, 240, 0.85)';
+      context.fillText(label, 8, y);
+    });
+    context.textAlign = 'right';
+    context.fillText(`${settings.minDecibels} – ${settings.maxDecibels} dB`, width - 6, 10);
+    context.textAlign = 'left';
+  };
+
+  return (cssWidth: number, cssHeight: number) => {
+    const width = Math.max(1, Math.floor(cssWidth));
+    const height = Math.max(1, Math.floor(cssHeight));
+    const settings = getSettings();
+    if (!ring || ring.width !== width || ring.height !== height) {
+      ring = new OffscreenCanvas(width, height);
+      ringContext = ring.getContext('2d');
+      column = ringContext?.createImageData(1, height) ?? null;
+      scale = null;
+      clear();
+    }
+    if (!ringContext || !column) {
+      return;
+    }
+    // 换了频率轴后旧的历史对不上刻度，直接清空
+    if (settings.scale !== scale || rowBins.length !== height) {
+      if (scale !== null) {
+        clear();
+      }
+      scale = settings.scale;
+      rowBins = createRowBins(height, decibels.length, analyser.context.sampleRate, settings.scale);
+    }
+    if (settings.colorMap !== colorMap) {
+      colorMap = settings.colorMap;
+      colorTable = createColorTable(settings.colorMap);
+    }
+
+    // 音频暂停推进（如上下文挂起）时不写新列；切到后台回来最多补满一屏
+    const now = analyser.context.currentTime;
+    pendingColumns += Math.max(0, now - lastTime) * SPECTROGRAM_COLUMNS_PER_SECOND;
+    lastTime = now;
+    const count = Math.min(width, Math.floor(pendingColumns));
+    pendingColumns -= Math.floor(pendingColumns);
+    if (count > 0) {
+      analyser.getFloatFrequencyData(decibels);
+      renderSpectrogramColumn(decibels, rowBins, settings, colorTable, column.data);
+      for (let i = 0; i < count; i += 1) {
+        ringContext.putImageData(column, writeX, 0);
+        writeX = (writeX + 1) % width;
+      }
+    }
+
+    // 环形缓冲中 writeX 之后是较旧的一段，之前是较新的一段
+    context.drawImage(ring, writeX, 0, width - writeX, height, 0, 0, width - writeX, height);
+    if (writeX > 0) {
+      context.drawImage(ring, 0, 0, writeX, height, width - writeX, 0, writeX, height);
+    }
+    drawLabels(width, height, settings);
+  };
+};
+
 export const useVisualizer = ({
   analyser,
   mode,
+  spectrogram = DEFAULT_SPECTROGRAM_SETTINGS,
   barColor = '#38bdf8',
   backgroundColor = 'rgba(2, 6, 23, 0.9)'
 }: UseVisualizerOptions) => {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const spectrogramRef = useRef(spectrogram);
+
+  useEffect(() => {
+    spectrogramRef.current = spectrogram;
+  }, [spectrogram]);
 
   useEffect(() => {
     if (!analyser || !canvasRef.current) {
@@ -30,9 +153,12 @@ export const useVisualizer = ({
 
     let animationFrame: number;
     const deviceRatio = window.devicePixelRatio || 1;
+    // 画布的 CSS 尺寸，只在尺寸变化时读取布局
+    let width = 0;
+    let height = 0;
 
     const resize = () => {
-      const { width, height } = canvas.getBoundingClientRect();
+      ({ width, height } = canvas.getBoundingClientRect());
       canvas.width = width * deviceRatio;
       canvas.height = height * deviceRatio;
       context.setTransform(deviceRatio, 0, 0, deviceRatio, 0, 0);
@@ -43,13 +169,24 @@ export const useVisualizer = ({
     window.addEventListener('resize', resize);
     resize();
 
+    // 声谱图临时改用更大的 FFT、关闭平滑，退出该模式时恢复引擎的设置
+    const previousFftSize = analyser.fftSize;
+    const previousSmoothing = analyser.smoothingTimeConstant;
+    if (mode === 'spectrogram') {
+      analyser.fftSize = SPECTROGRAM_FFT_SIZE;
+      analyser.smoothingTimeConstant = 0;
+    }
+    const renderSpectrogram =
+      mode === 'spectrogram'
+        ? createSpectrogramRenderer(analyser, context, () => spectrogramRef.current, backgroundColor)
+        : null;
+
     const bufferLength =
       mode === 'spectrum' ? analyser.frequencyBinCount : analyser.fftSize;
     const dataArray = new Uint8Array(bufferLength);
 
     const renderSpectrum = () => {
       analyser.getByteFrequencyData(dataArray);
-      const { width, height } = canvas.getBoundingClientRect();
       context.fillStyle = backgroundColor;
       context.fillRect(0, 0, width, height);
       const barWidth = width / bufferLength;
@@ -68,7 +205,6 @@ export const useVisualizer = ({
 
     const renderWaveform = () => {
       analyser.getByteTimeDomainData(dataArray);
-      const { width, height } = canvas.getBoundingClientRect();
       context.fillStyle = backgroundColor;
       context.fillRect(0, 0, width, height);
       context.lineWidth = 2;
@@ -92,7 +228,9 @@ export const useVisualizer = ({
 
     const draw = () => {
       animationFrame = requestAnimationFrame(draw);
-      if (mode === 'spectrum') {
+      if (renderSpectrogram) {
+        renderSpectrogram(width, height);
+      } else if (mode === 'spectrum') {
         renderSpectrum();
       } else {
         renderWaveform();
@@ -105,6 +243,8 @@ export const useVisualizer = ({
       cancelAnimationFrame(animationFrame);
       resizeObserver.disconnect();
       window.removeEventListener('resize', resize);
+      analyser.fftSize = previousFftSize;
+      analyser.smoothingTimeConstant = previousSmoothing;
     };
   }, [analyser, backgroundColor, barColor, mode]);
 
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { hasJianpuErrors, jianpuToScore, parseJianpu } from './jianpu';
+import { getTonic, toJianpuDuration, toJianpuSymbol } from './notation';
+import type { ScoreDocument } from './scoreFormat';
+
+// 用记谱换算把乐谱写回简谱文本
+const toJianpuText = ({ header, notes }: ScoreDocument) => {
+  const tonic = getTonic(header);
+  const words = notes.map(({ code, duration }) => {
+    const symbol = toJianpuSymbol(code as string, tonic);
+    if (!symbol) {
+      throw new Error(`无法记谱：${String(code)}`);
+    }
+    const { underlines, dots } = toJianpuDuration(duration);
+    return [
+      'i'.repeat(Math.max(0, symbol.octave)),
+      symbol.sharp ? '#' : '',
+      symbol.degree,
+      ','.repeat(Math.max(0, -symbol.octave)),
+      '_'.repeat(underlines),
+      '.'.repeat(dots)
+    ].join('');
+  });
+  return [`1=${header.key ?? 'C'} ♩=${header.bpm} ${header.meter}`, words.join(' ')].join('\n');
+};
+
+describe('parseJianpu', () => {
+  it('换算调号、八度、升降号与时值', () => {
+    const result = parseJianpu('1=D ♩=90 3/4\n1 #4_ i5. 0 5,__ 3\'');
+    expect(hasJianpuErrors(result)).toBe(false);
+    expect(jianpuToScore(result)).toEqual({
+      version: 2,
+      header: { key: 'D', bpm: 90, meter: '3/4' },
+      notes: [
+        { code: 'D4', duration: 16 },
+        { code: 'G#4', duration: 8 },
+        { code: 'A5', duration: 24 },
+        { code: '-', duration: 16 },
+        { code: 'A3', duration: 4 },
+        { code: 'F#5', duration: 16 }
+      ]
+    });
+  });
+
+  it('每个 - 为一拍休止，不延长前一个音', () => {
+    const { notes } = parseJianpu('5 -- | 3');
+    expect(notes).toEqual([
+      { code: 'G4', duration: '16' },
+      { code: '-', duration: '16' },
+      { code: '-', duration: '16' },
+      { code: 'E4', duration: '16' }
+    ]);
+  });
+
+  it('写回简谱文本后再解析得到相同的乐谱', () => {
+    const score = jianpuToScore(parseJianpu('1=F ♩=72 4/4\n1 2_ 3_ 4. 5__ 6__ i1 7, 0 - #5 i2_.'));
+    const reparsed = parseJianpu(toJianpuText(score));
+    expect(hasJianpuErrors(reparsed)).toBe(false);
+    expect(jianpuToScore(reparsed)).toEqual(score);
+  });
+
+  it('报告错误与音域警告的位置', () => {
+    const { diagnostics } = parseJianpu('1 x\n2 #\n7,,');
+    expect(diagnostics).toEqual([
+      { line: 1, column: 3, length: 1, message: '无法识别的字符 "x"', severity: 'error' },
+      { line: 2, column: 3, length: 1, message: '缺少音级数字', severity: 'error' },
+      expect.objectContaining({ line: 3, column: 1, severity: 'warning' })
+    ]);
+  });
+});
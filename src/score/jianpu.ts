@@ -0,0 +1,260 @@
+// 简谱文本 → 乐谱转换，规则见 docs/乐谱JSON格式规范.md。
+//
+// 支持的写法：
+//   1–7      音符，前缀 i 表示高八度（ii 为高两个八度，单独的 i 即高音 1），后缀 ' 同样升八度，后缀 , 降八度
+//   #4 / b7  升降号
+//   5_ 5__   下划线：八分、十六分音符；同一组相连的音符（如 4565__）共享末尾的下划线
+//   5.       附点（×1.5），5.. 为复附点
+//   0 / -    休止符（- 为一拍休止）
+//   |  ||  |: :|   小节线，忽略
+//   1=D  1=bE      调号，之后的音符按该调的主音换算
+//   ♩=70  bpm=70   速度
+//   4/4           拍号
+//   // 注释
+import { DEGREE_SEMITONES, midiToNote, noteToMidi, parseKeyName } from './pitch';
+import {
+  REST_CODE,
+  SCORE_FORMAT_VERSION,
+  type ScoreDocument,
+  type ScoreHeader,
+  type ScoreNote
+} from './scoreFormat';
+import { DEFAULT_TUNING } from './tuning';
+
+const QUARTER_UNITS = 16;
+// C4 的 MIDI 音高，简谱无八度标记时落在 4 组
+const MIDDLE_OCTAVE_BASE = 60;
+
+export type JianpuDiagnostic = {
+  line: number; // 从 1 开始
+  column: number; // 从 1 开始
+  length: number;
+  message: string;
+  severity: 'error' | 'warning';
+};
+
+export type JianpuParseResult = {
+  notes: ScoreNote[];
+  header: ScoreHeader;
+  diagnostics: JianpuDiagnostic[];
+};
+
+type ParsedNote = {
+  degree: number; // 0 为休止符
+  accidental: number;
+  octave: number;
+  underlines: number;
+  dots: number;
+  column: number;
+  length: number;
+};
+
+const KEY_HEADER = /^1=([#b]?[A-G][#b]?)$/;
+const TEMPO_HEADER = /^(?:♩|bpm|BPM|q)=(\d+(?:\.\d+)?)$/;
+const METER_HEADER = /^(\d+)\/(\d+)$/;
+const BAR_LINE = /^[|:]+$/;
+
+const isWhitespace = (char: string) => /\s/.test(char);
+
+/** 将 "#F"、"bE" 等调号写法规范为 ScoreHeader.key 使用的 "F#"、"Eb" */
+const normalizeKeyName = (name: string) => {
+  const step = name.replace(/[#b]/g, '');
+  const accidental = name.replace(/[A-G]/g, '');
+  return `${step}${accidental}`;
+};
+
+/** 解析一个单词（不含空白与小节线）中的连续音符 */
+const parseWord = (
+  word: string,
+  column: number,
+  report: (column: number, length: number, message: string) => void
+): ParsedNote[] | null => {
+  const notes: ParsedNote[] = [];
+  let i = 0;
+
+  while (i < word.length) {
+    const start = i;
+    let octave = 0;
+    let accidental = 0;
+
+    while (word[i] === 'i') {
+      octave += 1;
+      i += 1;
+    }
+    if (word[i] === '#' || word[i] === 'b') {
+      accidental = word[i] === '#' ? 1 : -1;
+      i += 1;
+    }
+
+    let degree: number;
+    const char = word[i];
+    if (char !== undefined && char >= '0' && char <= '7') {
+      degree = Number(char);
+      i += 1;
+    } else if (octave > 0) {
+      // 单独的 i 表示带点的 1
+      degree = 1;
+    } else if (char === undefined) {
+      // 升降号或八度前缀之后没有音级，如单独的 #
+      report(column + start, i - start, '缺少音级数字');
+      return null;
+    } else {
+      report(column + i, 1, `无法识别的字符 "${char}"`);
+      return null;
+    }
+    if (degree === 0 && (octave !== 0 || accidental !== 0)) {
+      report(column + start, i - start, '休止符 0 不能带八度或升降号');
+      return null;
+    }
+
+    let underlines = 0;
+    let dots = 0;
+    while (i < word.length && "_.,'".includes(word[i])) {
+      if (word[i] === '_') {
+        underlines += 1;
+      } else if (word[i] === '.') {
+        dots += 1;
+      } else if (word[i] === ',') {
+        octave -= 1;
+      } else {
+        octave += 1;
+      }
+      i += 1;
+    }
+
+    notes.push({ degree, accidental, octave, underlines, dots, column: column + start, length: i - start });
+  }
+
+  // 多个音符共享末尾下划线（如 4565__）
+  const last = notes[notes.length - 1];
+  if (notes.length > 1 && last.underlines > 0 && notes.slice(0, -1).every((note) => note.underlines === 0)) {
+    notes.forEach((note) => {
+      note.underlines = last.underlines;
+    });
+  }
+  return notes;
+};
+
+export const parseJianpu = (
+  text: string,
+  playableCodes: string[] = DEFAULT_TUNING.keys.map((key) => key.note)
+): JianpuParseResult => {
+  const notes: ScoreNote[] = [];
+  const header: ScoreHeader = {};
+  const diagnostics: JianpuDiagnostic[] = [];
+  let tonic = 0; // 当前调主音相对 C 的半音数
+  const playableMidi = playableCodes
+    .map(noteToMidi)
+    .filter((midi): midi is number => midi !== null)
+    .sort((a, b) => a - b);
+  const rangeLabel =
+    playableMidi.length > 0
+      ? `${midiToNote(playableMidi[0])}–${midiToNote(playableMidi[playableMidi.length - 1])}`
+      : '无可用音';
+
+  text.split(/\r?\n/).forEach((rawLine, lineIndex) => {
+    const line = lineIndex + 1;
+    const commentAt = rawLine.indexOf('//');
+    const content = commentAt >= 0 ? rawLine.slice(0, commentAt) : rawLine;
+    const report =
+      (severity: JianpuDiagnostic['severity']) => (column: number, length: number, message: string) => {
+        diagnostics.push({ line, column, length, message, severity });
+      };
+
+    let i = 0;
+    while (i < content.length) {
+      if (isWhitespace(content[i])) {
+        i += 1;
+        continue;
+      }
+
+      // 取出一个单词：到空白为止，小节线单独成词
+      const start = i;
+      if ('|:'.includes(content[i])) {
+        while (i < content.length && '|:'.includes(content[i])) {
+          i += 1;
+        }
+      } else {
+        while (i < content.length && !isWhitespace(content[i]) && content[i] !== '|') {
+          i += 1;
+        }
+      }
+      const word = content.slice(start, i);
+      const column = start + 1;
+
+      if (BAR_LINE.test(word)) {
+        continue;
+      }
+
+      const keyMatch = KEY_HEADER.exec(word);
+      if (keyMatch) {
+        const key = parseKeyName(keyMatch[1]);
+        if (key === null) {
+          report('error')(column, word.length, `无法识别的调号 "${word}"`);
+        } else {
+          tonic = key;
+          header.key ??= normalizeKeyName(keyMatch[1]);
+        }
+        continue;
+      }
+
+      const tempoMatch = TEMPO_HEADER.exec(word);
+      if (tempoMatch) {
+        header.bpm ??= Number(tempoMatch[1]);
+        continue;
+      }
+
+      if (METER_HEADER.test(word)) {
+        header.meter ??= word;
+        continue;
+      }
+
+      // 每个 - 为一拍休止
+      if (/^-+$/.test(word)) {
+        for (let k = 0; k < word.length; k += 1) {
+          notes.push({ code: REST_CODE, duration: String(QUARTER_UNITS) });
+        }
+        continue;
+      }
+
+      const parsed = parseWord(word, column, report('error'));
+      if (!parsed) {
+        continue;
+      }
+
+      parsed.forEach((note) => {
+        const dotFactor = 2 - 0.5 ** note.dots;
+        const exact = (QUARTER_UNITS / 2 ** note.underlines) * dotFactor;
+        const duration = Math.max(1, Math.round(exact));
+        if (duration !== exact) {
+          report('warning')(note.column, note.length, `时值 ${exact} 不是整数单位，已取整为 ${duration}`);
+        }
+
+        if (note.degree === 0) {
+          notes.push({ code: REST_CODE, duration: String(duration) });
+          return;
+        }
+
+        const midi =
+          MIDDLE_OCTAVE_BASE + tonic + DEGREE_SEMITONES[note.degree - 1] + note.accidental + note.octave * 12;
+        const code = midiToNote(midi);
+        if (!playableCodes.includes(code)) {
+          report('warning')(note.column, note.length, `音符 ${code} 超出拇指琴音域（${rangeLabel}），播放时将被跳过`);
+        }
+        notes.push({ code, duration: String(duration) });
+      });
+    }
+  });
+
+  return { notes, header, diagnostics };
+};
+
+export const hasJianpuErrors = (result: JianpuParseResult) =>
+  result.diagnostics.some((diagnostic) => diagnostic.severity === 'error');
+
+/** 转为 v2 文档，保留简谱中的调号、速度和拍号 */
+export const jianpuToScore = ({ notes, header }: JianpuParseResult): ScoreDocument => ({
+  version: SCORE_FORMAT_VERSION,
+  header,
+  notes: notes.map((note) => ({ code: note.code, duration: Number(note.duration) }))
+});
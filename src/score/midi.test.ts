@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { midiTrackToScore, parseMidi, writeMidi } from './midi';
+import type { ScoreDocument } from './scoreFormat';
+import { DEFAULT_TUNING } from './tuning';
+
+const keys = DEFAULT_TUNING.keys;
+
+const score: ScoreDocument = {
+  version: 2,
+  header: { bpm: 90, meter: '3/4', key: 'G' },
+  notes: [
+    { code: '-', duration: 8 },
+    { code: 'C4', duration: 16 },
+    { code: ['E4', 'G4'], duration: 8 },
+    { code: '-', duration: 8 },
+    { code: 'A4', duration: 32 }
+  ]
+};
+
+const roundTrip = (document: ScoreDocument, options: { melodyOnly?: boolean } = {}) => {
+  const file = parseMidi(writeMidi(document).buffer);
+  const trackIndex = file.tracks.findIndex((track) => track.notes.length > 0);
+  return { file, ...midiTrackToScore(file, { trackIndex, keys, ...options }) };
+};
+
+describe('midi', () => {
+  it('写出后再导入得到相同的乐谱', () => {
+    const { file, score: imported, report } = roundTrip(score);
+    expect(file.format).toBe(1);
+    expect(file.tracks[1].name).toBe('Kalimba');
+    expect(imported).toEqual(score);
+    expect(report).toEqual({ outOfRange: [], warnings: [] });
+  });
+
+  it('连音线合并为一个长音，只保留旋律时去掉和弦低音', () => {
+    const tied: ScoreDocument = {
+      version: 2,
+      header: {},
+      notes: [
+        { code: 'C4', duration: 16, tie: true },
+        { code: 'C4', duration: 16 },
+        { code: ['C4', 'E4', 'G4'], duration: 16 }
+      ]
+    };
+    const { score: imported, report } = roundTrip(tied, { melodyOnly: true });
+    expect(imported.notes).toEqual([
+      { code: 'C4', duration: 32 },
+      { code: 'G4', duration: 16 }
+    ]);
+    expect(report.warnings).toEqual(['只保留旋律：去掉了和弦中的 2 个较低音']);
+  });
+
+  it('忽略 0 微秒的速度事件', () => {
+    const bytes = writeMidi(score);
+    const at = bytes.findIndex((byte, index) => byte === 0xff && bytes[index + 1] === 0x51 && bytes[index + 2] === 3);
+    bytes.set([0, 0, 0], at + 3);
+    const file = parseMidi(bytes.buffer);
+    expect(file.tempos).toEqual([]);
+    const { score: imported } = midiTrackToScore(file, { trackIndex: 1, keys });
+    expect(imported.header.bpm).toBe(120);
+  });
+});
@@ -0,0 +1,397 @@
+// 标准 MIDI 文件（SMF type 0 / 1）的读写：导入时选取一条音轨转换为乐谱，
+// 导出时把乐谱写成 type 1 文件（速度轨 + 拇指琴音轨），供 DAW 使用。
+import { UNITS_PER_BEAT } from '../audio/scoreScheduler';
+import { fifthsToKeyName, keyNameToFifths, midiToNote, noteToMidi } from './pitch';
+import { findOutOfRangeNotes, type OutOfRangeNote } from './range';
+import {
+  DYNAMIC_VELOCITY,
+  REST_CODE,
+  SCORE_FORMAT_VERSION,
+  getEventCodes,
+  type ScoreDocument,
+  type ScoreEvent,
+  type ScoreHeader
+} from './scoreFormat';
+import type { KalimbaKey } from './tuning';
+
+export type MidiNote = {
+  midi: number;
+  velocity: number; // 1–127
+  channel: number; // 0–15
+  start: number; // tick
+  end: number; // tick
+};
+
+export type MidiTrack = {
+  index: number;
+  name: string;
+  notes: MidiNote[];
+  channels: number[];
+};
+
+export type MidiFile = {
+  format: 0 | 1;
+  /** 每个四分音符的 tick 数 */
+  division: number;
+  tracks: MidiTrack[];
+  /** 所有音轨中的速度事件，按时间排序 */
+  tempos: { tick: number; bpm: number }[];
+  meter?: string;
+  key?: string;
+};
+
+export type MidiImportReport = {
+  outOfRange: OutOfRangeNote[];
+  warnings: string[];
+};
+
+export type MidiImportOptions = {
+  trackIndex: number;
+  keys: KalimbaKey[];
+  /** 和弦只保留最高音 */
+  melodyOnly?: boolean;
+  title?: string;
+};
+
+// General MIDI 第 109 号音色 Kalimba（从 0 开始计为 108）
+export const KALIMBA_PROGRAM = 108;
+const DRUM_CHANNEL = 9;
+const EXPORT_DIVISION = 480;
+const DEFAULT_TEMPO_BPM = 120;
+
+class MidiReader {
+  offset: number;
+
+  constructor(
+    private readonly view: DataView,
+    start: number,
+    readonly end: number
+  ) {
+    this.offset = start;
+  }
+
+  get done() {
+    return this.offset >= this.end;
+  }
+
+  uint8() {
+    if (this.offset >= this.end) {
+      throw new Error('MIDI 文件数据不完整');
+    }
+    return this.view.getUint8(this.offset++);
+  }
+
+  /** 变长数值（每字节 7 位，最高位表示后面还有字节） */
+  varint() {
+    let value = 0;
+    for (let i = 0; i < 4; i += 1) {
+      const byte = this.uint8();
+      value = (value << 7) | (byte & 0x7f);
+      if ((byte & 0x80) === 0) {
+        return value;
+      }
+    }
+    throw new Error('MIDI 文件中的变长数值格式错误');
+  }
+
+  bytes(length: number) {
+    if (this.offset + length > this.end) {
+      throw new Error('MIDI 文件数据不完整');
+    }
+    const data = new Uint8Array(this.view.buffer, this.view.byteOffset + this.offset, length);
+    this.offset += length;
+    return data;
+  }
+}
+
+const readChunkId = (view: DataView, offset: number) =>
+  String.fromCharCode(...new Uint8Array(view.buffer, view.byteOffset + offset, 4));
+
+const decodeText = (data: Uint8Array) => new TextDecoder().decode(data).replace(/\0/g, '').trim();
+
+export const parseMidi = (buffer: ArrayBuffer): MidiFile => {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 14 || readChunkId(view, 0) !== 'MThd') {
+    throw new Error('不是有效的 MIDI 文件（缺少 MThd 头）');
+  }
+  const headerLength = view.getUint32(4);
+  const format = view.getUint16(8);
+  const trackCount = view.getUint16(10);
+  const division = view.getUint16(12);
+  if (format !== 0 && format !== 1) {
+    throw new Error(`不支持 type ${format} 的 MIDI 文件，仅支持 type 0 / 1`);
+  }
+  if (division & 0x8000) {
+    throw new Error('不支持以 SMPTE 时间码计时的 MIDI 文件');
+  }
+
+  const file: MidiFile = { format, division, tracks: [], tempos: [] };
+  let offset = 8 + headerLength;
+  while (file.tracks.length < trackCount && offset + 8 <= buffer.byteLength) {
+    const id = readChunkId(view, offset);
+    const length = view.getUint32(offset + 4);
+    const start = offset + 8;
+    offset = start + length;
+    if (id !== 'MTrk') {
+      continue; // 跳过未知块
+    }
+    file.tracks.push(readTrack(new MidiReader(view, start, Math.min(offset, buffer.byteLength)), file));
+  }
+  file.tempos.sort((a, b) => a.tick - b.tick);
+  return file;
+};
+
+const readTrack = (reader: MidiReader, file: MidiFile): MidiTrack => {
+  const track: MidiTrack = { index: file.tracks.length, name: '', notes: [], channels: [] };
+  // 同一通道同一音高可能重叠，按先开先关配对
+  const open = new Map<number, MidiNote[]>();
+  let tick = 0;
+  let status = 0;
+
+  const noteOff = (channel: number, midi: number) => {
+    const stack = open.get(channel * 128 + midi);
+    const note = stack?.shift();
+    if (note) {
+      note.end = tick;
+    }
+  };
+
+  while (!reader.done) {
+    tick += reader.varint();
+    const byte = reader.uint8();
+    if (byte === 0xff) {
+      const type = reader.uint8();
+      const data = reader.bytes(reader.varint());
+      if (type === 0x2f) {
+        break;
+      }
+      if (type === 0x03 && !track.name) {
+        track.name = decodeText(data);
+      } else if (type === 0x51 && data.length === 3) {
+        const microseconds = (data[0] << 16) | (data[1] << 8) | data[2];
+        // 0 微秒的速度无意义，忽略
+        if (microseconds > 0) {
+          file.tempos.push({ tick, bpm: 60_000_000 / microseconds });
+        }
+      } else if (type === 0x58 && data.length >= 2 && !file.meter) {
+        file.meter = `${data[0]}/${2 ** data[1]}`;
+      } else if (type === 0x59 && data.length === 2 && !file.key) {
+        const sharps = (data[0] << 24) >> 24; // 有符号字节
+        file.key = fifthsToKeyName(sharps, data[1] === 1);
+      }
+      continue;
+    }
+    if (byte === 0xf0 || byte === 0xf7) {
+      reader.bytes(reader.varint());
+      continue;
+    }
+
+    // 运行状态：省略状态字节时沿用上一个
+    let data1: number;
+    if (byte & 0x80) {
+      status = byte;
+      data1 = reader.uint8();
+    } else {
+      if (!status) {
+        throw new Error('MIDI 音轨格式错误（缺少状态字节）');
+      }
+      data1 = byte;
+    }
+    const type = status & 0xf0;
+    const channel = status & 0x0f;
+    // 程序变更与通道压力只有一个数据字节
+    const data2 = type === 0xc0 || type === 0xd0 ? 0 : reader.uint8();
+
+    if (type === 0x90 && data2 > 0) {
+      const note: MidiNote = { midi: data1, velocity: data2, channel, start: tick, end: tick };
+      const key = channel * 128 + data1;
+      open.set(key, [...(open.get(key) ?? []), note]);
+      track.notes.push(note);
+      if (!track.channels.includes(channel)) {
+        track.channels.push(channel);
+      }
+    } else if (type === 0x80 || type === 0x90) {
+      noteOff(channel, data1);
+    }
+  }
+
+  // 没有松开的音持续到音轨结束
+  open.forEach((notes) =>
+    notes.forEach((note) => {
+      note.end = Math.max(note.start, tick);
+    })
+  );
+  track.notes.sort((a, b) => a.start - b.start || b.midi - a.midi);
+  return track;
+};
+
+/** 把一条音轨转换为乐谱：同时开始的音合并为和弦，音与音之间的空隙补休止符 */
+export const midiTrackToScore = (
+  file: MidiFile,
+  { trackIndex, keys, melodyOnly = false, title }: MidiImportOptions
+): { score: ScoreDocument; report: MidiImportReport } => {
+  const track = file.tracks[trackIndex];
+  if (!track) {
+    throw new Error('所选音轨不存在');
+  }
+  const warnings: string[] = [];
+  const toUnits = (tick: number) => Math.round((tick * UNITS_PER_BEAT) / file.division);
+
+  const drumNotes = track.notes.filter((note) => note.channel === DRUM_CHANNEL).length;
+  if (drumNotes > 0) {
+    warnings.push(`已忽略打击乐通道（第 10 通道）的 ${drumNotes} 个音`);
+  }
+
+  // 按量化后的起点分组
+  const groups = new Map<number, MidiNote[]>();
+  track.notes
+    .filter((note) => note.channel !== DRUM_CHANNEL)
+    .forEach((note) => {
+      const start = toUnits(note.start);
+      groups.set(start, [...(groups.get(start) ?? []), note]);
+    });
+  const starts = [...groups.keys()].sort((a, b) => a - b);
+  if (starts.length === 0) {
+    throw new Error(`音轨「${track.name || trackIndex + 1}」中没有可导入的音符`);
+  }
+
+  const header: ScoreHeader = {};
+  if (title) {
+    header.title = title;
+  }
+  const firstTempo = file.tempos[0];
+  header.bpm = Math.round(firstTempo && firstTempo.tick === 0 ? firstTempo.bpm : DEFAULT_TEMPO_BPM);
+  const tempoChanges = new Set(file.tempos.map((tempo) => Math.round(tempo.bpm))).size;
+  if (tempoChanges > 1) {
+    warnings.push(`文件中有 ${tempoChanges} 个不同速度，乐谱只使用开头的 ♩=${header.bpm}`);
+  }
+  if (file.meter) {
+    header.meter = file.meter;
+  }
+  if (file.key) {
+    header.key = file.key;
+  }
+
+  const notes: ScoreEvent[] = [];
+  let dropped = 0;
+  if (starts[0] > 0) {
+    notes.push({ code: REST_CODE, duration: starts[0] });
+  }
+  starts.forEach((start, index) => {
+    const group = groups.get(start)!;
+    const pitches = [...new Set(group.map((note) => note.midi))].sort((a, b) => a - b);
+    const kept = melodyOnly ? pitches.slice(-1) : pitches;
+    dropped += pitches.length - kept.length;
+    const codes = kept.map(midiToNote);
+    const end = Math.max(...group.map((note) => toUnits(note.end)));
+    const next = starts[index + 1];
+    // 与下一个音重叠时截断，结束后到下一个音之间补休止符
+    const length = next === undefined ? Math.max(1, end - start) : Math.max(1, Math.min(end, next) - start);
+    notes.push({ code: codes.length > 1 ? codes : codes[0], duration: length });
+    if (next !== undefined && start + length < next) {
+      notes.push({ code: REST_CODE, duration: next - start - length });
+    }
+  });
+  if (dropped > 0) {
+    warnings.push(`只保留旋律：去掉了和弦中的 ${dropped} 个较低音`);
+  }
+
+  const score: ScoreDocument = { version: SCORE_FORMAT_VERSION, header, notes };
+  return { score, report: { outOfRange: findOutOfRangeNotes(score, keys), warnings } };
+};
+
+// ---- 导出 ----
+
+const encodeVarint = (value: number) => {
+  const bytes = [value & 0x7f];
+  let rest = value >> 7;
+  while (rest > 0) {
+    bytes.unshift((rest & 0x7f) | 0x80);
+    rest >>= 7;
+  }
+  return bytes;
+};
+
+const encodeText = (text: string) => [...new TextEncoder().encode(text)];
+
+type TrackEvent = { tick: number; order: number; bytes: number[] };
+
+const encodeTrack = (events: TrackEvent[]) => {
+  const body: number[] = [];
+  let tick = 0;
+  [...events]
+    .sort((a, b) => a.tick - b.tick || a.order - b.order)
+    .forEach((event) => {
+      body.push(...encodeVarint(event.tick - tick), ...event.bytes);
+      tick = event.tick;
+    });
+  body.push(0x00, 0xff, 0x2f, 0x00);
+  const length = body.length;
+  return [0x4d, 0x54, 0x72, 0x6b, (length >>> 24) & 0xff, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff, ...body];
+};
+
+const metaEvent = (type: number, data: number[]) => [0xff, type, ...encodeVarint(data.length), ...data];
+
+/** 把乐谱写成 type 1 MIDI 文件：第 1 轨为速度与拍号，第 2 轨为 Kalimba 音色的音符 */
+export const writeMidi = (score: ScoreDocument, program = KALIMBA_PROGRAM) => {
+  const ticksPerUnit = EXPORT_DIVISION / UNITS_PER_BEAT;
+  const toTicks = (units: number) => Math.round(units * ticksPerUnit);
+  const { header } = score;
+
+  const tempo = Math.round(60_000_000 / (header.bpm ?? DEFAULT_TEMPO_BPM));
+  const conductor: TrackEvent[] = [
+    { tick: 0, order: 0, bytes: metaEvent(0x51, [(tempo >> 16) & 0xff, (tempo >> 8) & 0xff, tempo & 0xff]) }
+  ];
+  if (header.title) {
+    conductor.push({ tick: 0, order: 0, bytes: metaEvent(0x03, encodeText(header.title)) });
+  }
+  const [beats, beatType] = (header.meter ?? '4/4').split('/').map(Number);
+  conductor.push({ tick: 0, order: 0, bytes: metaEvent(0x58, [beats, Math.round(Math.log2(beatType)), 24, 8]) });
+  if (header.key) {
+    const signature = keyNameToFifths(header.key);
+    if (signature) {
+      conductor.push({ tick: 0, order: 0, bytes: metaEvent(0x59, [signature.fifths & 0xff, signature.minor ? 1 : 0]) });
+    }
+  }
+
+  const notes: TrackEvent[] = [
+    { tick: 0, order: 0, bytes: metaEvent(0x03, encodeText('Kalimba')) },
+    { tick: 0, order: 0, bytes: [0xc0, program] }
+  ];
+  // 连音线延续的音只延长时值，不重新发声
+  const sounding: { midi: number; start: number; length: number; velocity: number }[] = [];
+  let velocity = 1;
+  let cursor = 0;
+  let tied = new Map<number, (typeof sounding)[number]>();
+  score.notes.forEach((event) => {
+    if (event.dynamic) {
+      velocity = DYNAMIC_VELOCITY[event.dynamic];
+    }
+    const nextTied = new Map<number, (typeof sounding)[number]>();
+    getEventCodes(event).forEach((code) => {
+      const midi = noteToMidi(code);
+      if (midi === null || midi < 0 || midi > 127) {
+        return;
+      }
+      const held = tied.get(midi);
+      const note = held ?? { midi, start: cursor, length: 0, velocity };
+      note.length += event.duration;
+      if (!held) {
+        sounding.push(note);
+      }
+      if (event.tie) {
+        nextTied.set(midi, note);
+      }
+    });
+    tied = nextTied;
+    cursor += event.duration;
+  });
+  sounding.forEach((note) => {
+    // 同一时刻先关后开，避免相邻同音被提前截断
+    notes.push({ tick: toTicks(note.start), order: 2, bytes: [0x90, note.midi, Math.max(1, Math.round(note.velocity * 127))] });
+    notes.push({ tick: toTicks(note.start + note.length), order: 1, bytes: [0x80, note.midi, 0] });
+  });
+
+  const fileHeader = [0x4d, 0x54, 0x68, 0x64, 0, 0, 0, 6, 0, 1, 0, 2, (EXPORT_DIVISION >> 8) & 0xff, EXPORT_DIVISION & 0xff];
+  return new Uint8Array([...fileHeader, ...encodeTrack(conductor), ...encodeTrack(notes)]);
+};
@@ -0,0 +1,100 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { buildZip } from '../test/builders';
+import { musicXmlPartToScore, parseMusicXml, readMusicXmlFile } from './musicxml';
+import { noteToMidi } from './pitch';
+import { getEventCodes, type ScoreDocument } from './scoreFormat';
+import { DEFAULT_TUNING } from './tuning';
+
+const keys = DEFAULT_TUNING.keys;
+const STEPS: [string, number][] = [['C', 0], ['C', 1], ['D', 0], ['D', 1], ['E', 0], ['F', 0], ['F', 1], ['G', 0], ['G', 1], ['A', 0], ['A', 1], ['B', 0]];
+
+const pitchXml = (code: string) => {
+  const midi = noteToMidi(code)!;
+  const [step, alter] = STEPS[midi % 12];
+  return `<pitch><step>${step}</step>${alter ? `<alter>${alter}</alter>` : ''}<octave>${Math.floor(midi / 12) - 1}</octave></pitch>`;
+};
+
+// 把乐谱写成单声部、单小节的 MusicXML（divisions 与乐谱单位一致）
+const toMusicXml = ({ header, notes }: ScoreDocument) => {
+  const body = notes
+    .map((event) => {
+      const codes = getEventCodes(event);
+      if (codes.length === 0) {
+        return `<note><rest/><duration>${event.duration}</duration><voice>1</voice></note>`;
+      }
+      return codes
+        .map(
+          (code, index) =>
+            `<note>${index > 0 ? '<chord/>' : ''}${pitchXml(code)}<duration>${event.duration}</duration>` +
+            `${event.tie ? '<tie type="start"/>' : ''}<voice>1</voice></note>`
+        )
+        .join('');
+    })
+    .join('');
+  const [beats, beatType] = (header.meter ?? '4/4').split('/');
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<score-partwise version="4.0">
+  <work><work-title>${header.title}</work-title></work>
+  <identification><creator type="composer">${header.author}</creator></identification>
+  <part-list><score-part id="P1"><part-name>Kalimba</part-name></score-part></part-list>
+  <part id="P1">
+    <measure number="1">
+      <attributes><divisions>16</divisions><key><fifths>1</fifths></key><time><beats>${beats}</beats><beat-type>${beatType}</beat-type></time></attributes>
+      <direction><sound tempo="${header.bpm}"/></direction>
+      ${body}
+    </measure>
+  </part>
+</score-partwise>`;
+};
+
+const score: ScoreDocument = {
+  version: 2,
+  header: { title: '测试', author: '佚名', bpm: 84, meter: '3/4', key: 'G' },
+  notes: [
+    { code: '-', duration: 8 },
+    { code: 'C4', duration: 16 },
+    { code: ['E4', 'G4'], duration: 8 },
+    { code: 'A4', duration: 16, tie: true },
+    { code: 'A4', duration: 16 },
+    { code: '-', duration: 4 },
+    { code: 'D5', duration: 12 }
+  ]
+};
+
+describe('musicxml', () => {
+  it('写成 MusicXML 后再导入得到相同的乐谱', () => {
+    const file = parseMusicXml(toMusicXml(score));
+    expect(file.parts.map(({ id, name, voices }) => ({ id, name, voices }))).toEqual([
+      { id: 'P1', name: 'Kalimba', voices: [{ id: '1', noteCount: 6 }] }
+    ]);
+    const result = musicXmlPartToScore(file, { partId: 'P1', voice: '1', keys });
+    expect(result.score).toEqual(score);
+    expect(result.changes).toEqual([]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('从 .mxl 压缩包中按 container.xml 找到乐谱', async () => {
+    const buffer = await buildZip([
+      {
+        name: 'META-INF/container.xml',
+        data: '<container><rootfiles><rootfile full-path="score/song.musicxml"/></rootfiles></container>'
+      },
+      { name: 'decoy.xml', data: '<not-a-score/>' },
+      { name: 'score/song.musicxml', data: toMusicXml(score) }
+    ]);
+    expect(await readMusicXmlFile('song.mxl', buffer)).toEqual(parseMusicXml(toMusicXml(score)));
+  });
+
+  it('弹不到的音适配到琴键上并记录改动', () => {
+    const file = parseMusicXml(toMusicXml({ ...score, notes: [{ code: 'C7', duration: 16 }] }));
+    const { score: fitted, changes } = musicXmlPartToScore(file, { partId: 'P1', voice: '1', keys });
+    expect(fitted.notes).toEqual([{ code: 'C6', duration: 16 }]);
+    expect(changes).toEqual([expect.objectContaining({ from: 'C7', to: 'C6', octaves: -1 })]);
+  });
+
+  it('拒绝不是乐谱的 XML', () => {
+    expect(() => parseMusicXml('<score-timewise/>')).toThrow('score-timewise');
+    expect(() => parseMusicXml('<html/>')).toThrow('不是 MusicXML 乐谱文件');
+  });
+});
@@ -0,0 +1,393 @@
+// MusicXML（.musicxml / .xml 与压缩的 .mxl）导入：先把每个声部解析为按四分音符计时的音符列表，
+// 再选取一个声部中的一个 voice 转换为乐谱，最后按规范 §8 把弹不到的音适配到琴键上。
+import { UNITS_PER_BEAT } from '../audio/scoreScheduler';
+import { fifthsToKeyName, midiToNote, noteToMidi } from './pitch';
+import { fitScoreToKeys, type RangeChange } from './range';
+import { REST_CODE, SCORE_FORMAT_VERSION, type ScoreDocument, type ScoreEvent, type ScoreHeader } from './scoreFormat';
+import type { KalimbaKey } from './tuning';
+import { readZipEntries, readZipEntry } from './zip';
+
+export type MusicXmlNote = {
+  voice: string;
+  /** 起点与时值均以四分音符为单位，已包含附点与连音的换算 */
+  start: number;
+  duration: number;
+  /** 休止符为 null */
+  midi: number | null;
+  tieStart: boolean;
+};
+
+export type MusicXmlVoice = {
+  id: string;
+  noteCount: number;
+};
+
+export type MusicXmlPart = {
+  id: string;
+  name: string;
+  notes: MusicXmlNote[];
+  voices: MusicXmlVoice[];
+  /** 声部的总长度（四分音符） */
+  length: number;
+  graceNotes: number;
+};
+
+export type MusicXmlFile = {
+  title?: string;
+  author?: string;
+  parts: MusicXmlPart[];
+  tempos: number[];
+  meter?: string;
+  key?: string;
+  hasRepeats: boolean;
+};
+
+export type MusicXmlImportOptions = {
+  partId: string;
+  voice: string;
+  keys: KalimbaKey[];
+  /** 和弦只保留最高音 */
+  melodyOnly?: boolean;
+  title?: string;
+};
+
+export type MusicXmlImportResult = {
+  score: ScoreDocument;
+  /** 为适配琴键所做的每一处改动 */
+  changes: RangeChange[];
+  warnings: string[];
+};
+
+const DEFAULT_TEMPO_BPM = 120;
+const STEP_NAMES = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+
+// 缺少 <duration> 时由音符类型推算时值（四分音符为 1）
+const TYPE_QUARTERS: Record<string, number> = {
+  '1024th': 1 / 256,
+  '512th': 1 / 128,
+  '256th': 1 / 64,
+  '128th': 1 / 32,
+  '64th': 1 / 16,
+  '32nd': 1 / 8,
+  '16th': 1 / 4,
+  eighth: 1 / 2,
+  quarter: 1,
+  half: 2,
+  whole: 4,
+  breve: 8,
+  long: 16
+};
+
+const childrenOf = (element: Element, tagName: string) =>
+  Array.from(element.children).filter((child) => child.tagName === tagName);
+
+const childOf = (element: Element | undefined, tagName: string) =>
+  element ? Array.from(element.children).find((child) => child.tagName === tagName) : undefined;
+
+const childText = (element: Element | undefined, tagName: string) => childOf(element, tagName)?.textContent?.trim();
+
+const childNumber = (element: Element | undefined, tagName: string) => {
+  const text = childText(element, tagName);
+  const value = text === undefined ? NaN : Number(text);
+  return Number.isFinite(value) ? value : undefined;
+};
+
+/** 由 <type>、<dot> 与 <time-modification> 推算时值 */
+const getTypeDuration = (note: Element) => {
+  const base = TYPE_QUARTERS[childText(note, 'type') ?? ''];
+  if (base === undefined) {
+    return 0;
+  }
+  const dots = childrenOf(note, 'dot').length;
+  const modification = childOf(note, 'time-modification');
+  const actual = childNumber(modification, 'actual-notes') ?? 1;
+  const normal = childNumber(modification, 'normal-notes') ?? 1;
+  return ((base * (2 - 1 / 2 ** dots)) * normal) / actual;
+};
+
+const getPitch = (note: Element, transpose: number) => {
+  const pitch = childOf(note, 'pitch');
+  const step = childText(pitch, 'step');
+  const octave = childNumber(pitch, 'octave');
+  if (!step || !STEP_NAMES.includes(step) || octave === undefined) {
+    return null;
+  }
+  const base = noteToMidi(`${step}${octave}`);
+  // 微分音的 alter 可能是小数，取最近的半音
+  return base === null ? null : base + Math.round(childNumber(pitch, 'alter') ?? 0) + transpose;
+};
+
+const hasTieStart = (note: Element) =>
+  childrenOf(note, 'tie').some((tie) => tie.getAttribute('type') === 'start') ||
+  childrenOf(note, 'notations').some((notations) =>
+    childrenOf(notations, 'tied').some((tied) => tied.getAttribute('type') === 'start')
+  );
+
+const readPart = (element: Element, name: string, file: MusicXmlFile): MusicXmlPart => {
+  const notes: MusicXmlNote[] = [];
+  let graceNotes = 0;
+  let divisions = 1;
+  let transpose = 0;
+  let measureStart = 0;
+
+  childrenOf(element, 'measure').forEach((measure) => {
+    let position = 0; // 小节内位置（四分音符）
+    let measureLength = 0;
+    let lastStart = 0;
+    const toQuarters = (value: number | undefined) => (value ?? 0) / divisions;
+
+    Array.from(measure.children).forEach((child) => {
+      switch (child.tagName) {
+        case 'attributes': {
+          divisions = childNumber(child, 'divisions') ?? divisions;
+          const key = childOf(child, 'key');
+          const fifths = childNumber(key, 'fifths');
+          if (fifths !== undefined && file.key === undefined) {
+            file.key = fifthsToKeyName(fifths, childText(key, 'mode') === 'minor');
+          }
+          const time = childOf(child, 'time');
+          const beats = childText(time, 'beats');
+          const beatType = childText(time, 'beat-type');
+          // 复合拍号（如 "3+2"）无法用 "n/n" 表示，保持缺省
+          if (beats && beatType && /^\d+$/.test(beats) && file.meter === undefined) {
+            file.meter = `${beats}/${beatType}`;
+          }
+          const transposeElement = childOf(child, 'transpose');
+          if (transposeElement) {
+            // 移调乐器按实际音高导入
+            transpose =
+              (childNumber(transposeElement, 'chromatic') ?? 0) +
+              (childNumber(transposeElement, 'octave-change') ?? 0) * 12;
+          }
+          break;
+        }
+        case 'direction':
+        case 'sound': {
+          const sound = child.tagName === 'sound' ? child : childOf(child, 'sound');
+          const tempo = Number(sound?.getAttribute('tempo'));
+          if (tempo > 0) {
+            file.tempos.push(tempo);
+          }
+          break;
+        }
+        case 'backup':
+          position -= toQuarters(childNumber(child, 'duration'));
+          break;
+        case 'forward':
+          position += toQuarters(childNumber(child, 'duration'));
+          break;
+        case 'barline':
+          if (childOf(child, 'repeat')) {
+            file.hasRepeats = true;
+          }
+          break;
+        case 'note': {
+          if (childOf(child, 'grace')) {
+            graceNotes += 1;
+            return;
+          }
+          if (childOf(child, 'cue')) {
+            return;
+          }
+          const duration =
+            childNumber(child, 'duration') !== undefined
+              ? toQuarters(childNumber(child, 'duration'))
+              : getTypeDuration(child);
+          const isChord = Boolean(childOf(child, 'chord'));
+          const start = isChord ? lastStart : position;
+          if (!isChord) {
+            lastStart = position;
+            position += duration;
+          }
+          notes.push({
+            voice: childText(child, 'voice') ?? '1',
+            start: measureStart + start,
+            duration,
+            // 无音高的打击乐音按休止符处理
+            midi: childOf(child, 'rest') ? null : getPitch(child, transpose),
+            tieStart: hasTieStart(child)
+          });
+          break;
+        }
+        default:
+          break;
+      }
+      measureLength = Math.max(measureLength, position);
+    });
+    measureStart += measureLength;
+  });
+
+  const voices = new Map<string, number>();
+  notes.forEach((note) => voices.set(note.voice, (voices.get(note.voice) ?? 0) + (note.midi === null ? 0 : 1)));
+  return {
+    id: element.getAttribute('id') ?? '',
+    name,
+    notes,
+    voices: [...voices].map(([id, noteCount]) => ({ id, noteCount })),
+    length: measureStart,
+    graceNotes
+  };
+};
+
+/** 解析 score-partwise 格式的 MusicXML 文本 */
+export const parseMusicXml = (text: string): MusicXmlFile => {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('MusicXML 文件不是合法的 XML');
+  }
+  const root = document.documentElement;
+  if (root.tagName === 'score-timewise') {
+    throw new Error('暂不支持 score-timewise 格式的 MusicXML，请在打谱软件中另存为 partwise');
+  }
+  if (root.tagName !== 'score-partwise') {
+    throw new Error('不是 MusicXML 乐谱文件');
+  }
+
+  const partNames = new Map(
+    Array.from(root.getElementsByTagName('score-part')).map((part) => [
+      part.getAttribute('id') ?? '',
+      childText(part, 'part-name') ?? ''
+    ])
+  );
+  const file: MusicXmlFile = {
+    title: childText(childOf(root, 'work'), 'work-title') || childText(root, 'movement-title') || undefined,
+    author:
+      childrenOf(childOf(root, 'identification') ?? root, 'creator')
+        .find((creator) => creator.getAttribute('type') === 'composer')
+        ?.textContent?.trim() || undefined,
+    parts: [],
+    tempos: [],
+    hasRepeats: false
+  };
+  childrenOf(root, 'part').forEach((part) => {
+    file.parts.push(readPart(part, partNames.get(part.getAttribute('id') ?? '') ?? '', file));
+  });
+  if (file.parts.length === 0) {
+    throw new Error('MusicXML 中没有任何声部');
+  }
+  return file;
+};
+
+/** 读取 .musicxml / .xml 文本或 .mxl 压缩包（按 META-INF/container.xml 找到乐谱文件） */
+export const readMusicXmlFile = async (fileName: string, buffer: ArrayBuffer) => {
+  if (!/\.mxl$/i.test(fileName)) {
+    return parseMusicXml(new TextDecoder().decode(buffer));
+  }
+  const entries = readZipEntries(buffer);
+  const container = entries.find((entry) => entry.name === 'META-INF/container.xml');
+  let rootPath: string | null = null;
+  if (container) {
+    const xml = new DOMParser().parseFromString(
+      new TextDecoder().decode(await readZipEntry(buffer, container)),
+      'application/xml'
+    );
+    rootPath = xml.getElementsByTagName('rootfile')[0]?.getAttribute('full-path') ?? null;
+  }
+  const entry =
+    entries.find((item) => item.name === rootPath) ??
+    entries.find((item) => !item.name.startsWith('META-INF/') && /\.(musicxml|xml)$/i.test(item.name));
+  if (!entry) {
+    throw new Error('.mxl 压缩包中找不到 MusicXML 乐谱');
+  }
+  return parseMusicXml(new TextDecoder().decode(await readZipEntry(buffer, entry)));
+};
+
+/** 把一个声部中的一个 voice 转换为乐谱：和弦合并、空隙补休止符，再把弹不到的音适配到琴键上 */
+export const musicXmlPartToScore = (
+  file: MusicXmlFile,
+  { partId, voice, keys, melodyOnly = false, title }: MusicXmlImportOptions
+): MusicXmlImportResult => {
+  const part = file.parts.find((item) => item.id === partId);
+  if (!part) {
+    throw new Error('所选声部不存在');
+  }
+  const notes = part.notes.filter((note) => note.voice === voice);
+  if (!notes.some((note) => note.midi !== null)) {
+    throw new Error(`声部「${part.name || part.id}」的 voice ${voice} 中没有音符`);
+  }
+  const warnings: string[] = [];
+  const toUnits = (quarters: number) => Math.round(quarters * UNITS_PER_BEAT);
+
+  // 同一起点的音（和弦）合为一组；休止符只用来延长时间线
+  const groups: { start: number; end: number; midis: number[]; ties: Set<number> }[] = [];
+  let end = 0;
+  notes.forEach((note) => {
+    end = Math.max(end, note.start + note.duration);
+    if (note.midi === null) {
+      return;
+    }
+    const last = groups[groups.length - 1];
+    if (last && Math.abs(last.start - note.start) < 1e-6) {
+      last.midis.push(note.midi);
+      last.end = Math.max(last.end, note.start + note.duration);
+      if (note.tieStart) {
+        last.ties.add(note.midi);
+      }
+      return;
+    }
+    groups.push({
+      start: note.start,
+      end: note.start + note.duration,
+      midis: [note.midi],
+      ties: new Set(note.tieStart ? [note.midi] : [])
+    });
+  });
+
+  const events: ScoreEvent[] = [];
+  let cursor = 0;
+  let dropped = 0;
+  groups.forEach((group, index) => {
+    const start = Math.max(cursor, toUnits(group.start));
+    if (start > cursor) {
+      events.push({ code: REST_CODE, duration: start - cursor });
+    }
+    const next = groups[index + 1];
+    const stop = Math.min(toUnits(group.end), next ? toUnits(next.start) : Infinity);
+    const duration = Math.max(1, stop - start);
+    const pitches = [...new Set(group.midis)].sort((a, b) => a - b);
+    const kept = melodyOnly ? pitches.slice(-1) : pitches;
+    dropped += pitches.length - kept.length;
+    const codes = kept.map(midiToNote);
+    const event: ScoreEvent = { code: codes.length > 1 ? codes : codes[0], duration };
+    if (kept.some((midi) => group.ties.has(midi))) {
+      event.tie = true;
+    }
+    events.push(event);
+    cursor = start + duration;
+  });
+  if (toUnits(end) > cursor) {
+    events.push({ code: REST_CODE, duration: toUnits(end) - cursor });
+  }
+
+  const header: ScoreHeader = {};
+  const name = title ?? file.title;
+  if (name) {
+    header.title = name;
+  }
+  if (file.author) {
+    header.author = file.author;
+  }
+  header.bpm = Math.round(file.tempos[0] ?? DEFAULT_TEMPO_BPM);
+  const tempoCount = new Set(file.tempos.map(Math.round)).size;
+  if (tempoCount > 1) {
+    warnings.push(`乐谱中有 ${tempoCount} 个不同速度，只使用开头的 ♩=${header.bpm}`);
+  }
+  if (file.meter) {
+    header.meter = file.meter;
+  }
+  if (file.key) {
+    header.key = file.key;
+  }
+  if (dropped > 0) {
+    warnings.push(`只保留旋律：去掉了和弦中的 ${dropped} 个较低音`);
+  }
+  if (part.graceNotes > 0) {
+    warnings.push(`已忽略 ${part.graceNotes} 个装饰音`);
+  }
+  if (file.hasRepeats) {
+    warnings.push('乐谱中的反复记号没有展开，只按书写顺序导入一遍');
+  }
+
+  const fitted = fitScoreToKeys({ version: SCORE_FORMAT_VERSION, header, notes: events }, keys);
+  return { ...fitted, warnings };
+};
@@ -0,0 +1,63 @@
+// 将乐谱事件换算为简谱记号：数字、升降号、八度点与下划线/附点/延长线。
+import { noteToMidi, parseKeyName } from './pitch';
+import { REST_CODE, type ScoreHeader } from './scoreFormat';
+
+const QUARTER_UNITS = 16;
+// 半音 → 简谱数字与升号（按升号记谱）
+const PITCH_CLASS_DEGREES: [number, number][] = [
+  [1, 0], [1, 1], [2, 0], [2, 1], [3, 0], [4, 0], [4, 1], [5, 0], [5, 1], [6, 0], [6, 1], [7, 0]
+];
+
+export type JianpuSymbol = {
+  degree: number; // 0 为休止符
+  sharp: boolean;
+  /** 正数为上方加点，负数为下方加点 */
+  octave: number;
+};
+
+export type JianpuDuration = {
+  underlines: number;
+  dots: number;
+  /** 四分音符之后追加的延长线 "-" 个数 */
+  dashes: number;
+};
+
+/** 根据调号取主音相对 C 的半音数，缺省为 C 调 */
+export const getTonic = (header: ScoreHeader) => parseKeyName(header.key?.replace(/m$/, '') ?? 'C') ?? 0;
+
+export const toJianpuSymbol = (code: string, tonic = 0): JianpuSymbol | null => {
+  if (code === REST_CODE) {
+    return { degree: 0, sharp: false, octave: 0 };
+  }
+  const midi = noteToMidi(code);
+  if (midi === null) {
+    return null;
+  }
+  const relative = midi - (60 + tonic);
+  const [degree, sharp] = PITCH_CLASS_DEGREES[((relative % 12) + 12) % 12];
+  return { degree, sharp: sharp === 1, octave: Math.floor(relative / 12) };
+};
+
+export const toJianpuDuration = (units: number): JianpuDuration => {
+  if (units >= QUARTER_UNITS && units % QUARTER_UNITS === 0) {
+    return { underlines: 0, dots: 0, dashes: units / QUARTER_UNITS - 1 };
+  }
+  for (let underlines = 0; underlines <= 4; underlines += 1) {
+    for (let dots = 0; dots <= 2; dots += 1) {
+      if ((QUARTER_UNITS / 2 ** underlines) * (2 - 0.5 ** dots) === units) {
+        return { underlines, dots, dashes: 0 };
+      }
+    }
+  }
+  // 无法精确表示的时值：按最接近的四分音符倍数或下划线近似
+  if (units > QUARTER_UNITS) {
+    return { underlines: 0, dots: 0, dashes: Math.round(units / QUARTER_UNITS) - 1 };
+  }
+  return { underlines: Math.max(0, Math.round(Math.log2(QUARTER_UNITS / units))), dots: 0, dashes: 0 };
+};
+
+/** 由拍号得到每小节的单位数，缺省 4/4 */
+export const getBarUnits = (header: ScoreHeader) => {
+  const [beats, beatType] = (header.meter ?? '4/4').split('/').map(Number);
+  return (beats * QUARTER_UNITS * 4) / beatType;
+};
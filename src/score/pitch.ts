@@ -0,0 +1,57 @@
+// 音名与 MIDI 音高互转，音名统一使用升号写法（如 C#4），解析时也接受降号（如 Db4）。
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const STEP_SEMITONES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+const NOTE_PATTERN = /^([A-G])([#b]?)(-?\d+)$/;
+
+/** 简谱 1–7 相对主音的半音数 */
+export const DEGREE_SEMITONES = [0, 2, 4, 5, 7, 9, 11];
+
+export const noteToMidi = (code: string): number | null => {
+  const match = NOTE_PATTERN.exec(code);
+  if (!match) {
+    return null;
+  }
+  const [, step, accidental, octave] = match;
+  const alter = accidental === '#' ? 1 : accidental === 'b' ? -1 : 0;
+  return (Number(octave) + 1) * 12 + STEP_SEMITONES[step] + alter;
+};
+
+export const midiToNote = (midi: number) => {
+  const octave = Math.floor(midi / 12) - 1;
+  return `${NOTE_NAMES[((midi % 12) + 12) % 12]}${octave}`;
+};
+
+export const midiToFrequency = (midi: number) => 440 * 2 ** ((midi - 69) / 12);
+
+/** 解析调名（如 "G"、"Bb"、"#F"），返回主音相对 C 的半音数 */
+export const parseKeyName = (name: string): number | null => {
+  const match = /^([#b]?)([A-G])([#b]?)$/.exec(name);
+  if (!match) {
+    return null;
+  }
+  const [, prefix, step, suffix] = match;
+  if (prefix && suffix) {
+    return null;
+  }
+  const accidental = prefix || suffix;
+  const alter = accidental === '#' ? 1 : accidental === 'b' ? -1 : 0;
+  return (STEP_SEMITONES[step] + alter + 12) % 12;
+};
+
+// 调号中升降号数量 -7…7 对应的大调与小调主音
+const MAJOR_KEYS = ['Cb', 'Gb', 'Db', 'Ab', 'Eb', 'Bb', 'F', 'C', 'G', 'D', 'A', 'E', 'B', 'F#', 'C#'];
+const MINOR_KEYS = ['Ab', 'Eb', 'Bb', 'F', 'C', 'G', 'D', 'A', 'E', 'B', 'F#', 'C#', 'G#', 'D#', 'A#'];
+
+/** 由调号的升降号数量（升为正、降为负）得到调名，小调加后缀 "m" */
+export const fifthsToKeyName = (fifths: number, minor = false): string | undefined => {
+  const tonic = (minor ? MINOR_KEYS : MAJOR_KEYS)[fifths + 7];
+  return tonic && `${tonic}${minor ? 'm' : ''}`;
+};
+
+/** fifthsToKeyName 的逆运算，无法识别时返回 null */
+export const keyNameToFifths = (key: string): { fifths: number; minor: boolean } | null => {
+  const minor = key.endsWith('m');
+  const index = (minor ? MINOR_KEYS : MAJOR_KEYS).indexOf(key.replace(/m$/, ''));
+  return index < 0 ? null : { fifths: index - 7, minor };
+};
@@ -0,0 +1,118 @@
+// 练习模式的判定模型：把乐谱展开为逐键的目标音符，按击键与目标时间的偏差判定
+// perfect / good / miss，并按若干小节一段汇总准确率。
+import { getBarUnits } from './notation';
+import { getEventCodes, normalizeScore, type ScoreDocument, type ScoreNote } from './scoreFormat';
+import { findKeyIndex, type KalimbaKey } from './tuning';
+
+export type Judgement = 'perfect' | 'good' | 'miss';
+
+export type PracticeNote = {
+  /** 所属乐谱事件，用于与乐谱视图对应 */
+  eventIndex: number;
+  keyIndex: number;
+  start: number; // 单位
+  length: number; // 单位，包含连音线延续的部分
+  section: number;
+};
+
+export type PracticeSection = {
+  index: number;
+  /** 如 "第 1–4 小节" */
+  label: string;
+  start: number; // 单位
+  end: number;
+};
+
+export type SectionSummary = PracticeSection & {
+  perfect: number;
+  good: number;
+  miss: number;
+  total: number;
+  /** perfect 记 1 分、good 记 0.5 分，0–1 */
+  accuracy: number;
+};
+
+// 判定窗口（秒，按实际时间计算，放慢速度时不放宽）
+export const PERFECT_WINDOW = 0.06;
+export const GOOD_WINDOW = 0.15;
+export const BARS_PER_SECTION = 4;
+
+export const judgeOffset = (offsetSeconds: number): Judgement | null => {
+  const distance = Math.abs(offsetSeconds);
+  if (distance <= PERFECT_WINDOW) {
+    return 'perfect';
+  }
+  return distance <= GOOD_WINDOW ? 'good' : null;
+};
+
+/** 展开乐谱：和弦拆成多个目标音，被连音线延续的音不再需要拨奏，当前调音中没有的音忽略 */
+export const buildPracticeNotes = (score: ScoreDocument | ScoreNote[], keys: KalimbaKey[]) => {
+  const { header, notes: events } = normalizeScore(score);
+  const sectionUnits = getBarUnits(header) * BARS_PER_SECTION;
+  const notes: PracticeNote[] = [];
+  let tied = new Map<number, PracticeNote>();
+  let cursor = 0;
+
+  events.forEach((event, eventIndex) => {
+    const nextTied = new Map<number, PracticeNote>();
+    getEventCodes(event).forEach((code) => {
+      const keyIndex = findKeyIndex(keys, code);
+      if (keyIndex === null) {
+        return;
+      }
+      const held = tied.get(keyIndex);
+      const note = held ?? { eventIndex, keyIndex, start: cursor, length: 0, section: Math.floor(cursor / sectionUnits) };
+      note.length += event.duration;
+      if (!held) {
+        notes.push(note);
+      }
+      if (event.tie) {
+        nextTied.set(keyIndex, note);
+      }
+    });
+    tied = nextTied;
+    cursor += event.duration;
+  });
+
+  const barUnits = getBarUnits(header);
+  const sectionCount = Math.max(1, Math.ceil(cursor / sectionUnits));
+  const sections: PracticeSection[] = Array.from({ length: sectionCount }, (_, index) => {
+    const firstBar = index * BARS_PER_SECTION + 1;
+    const lastBar = Math.min(firstBar + BARS_PER_SECTION - 1, Math.ceil(cursor / barUnits));
+    return {
+      index,
+      label: firstBar === lastBar ? `第 ${firstBar} 小节` : `第 ${firstBar}–${lastBar} 小节`,
+      start: index * sectionUnits,
+      end: Math.min(cursor, (index + 1) * sectionUnits)
+    };
+  });
+
+  return { notes, sections, totalUnits: cursor };
+};
+
+export const summarizeSections = (
+  sections: PracticeSection[],
+  notes: PracticeNote[],
+  results: (Judgement | null)[]
+): SectionSummary[] =>
+  sections.map((section) => {
+    const counts = { perfect: 0, good: 0, miss: 0 };
+    let total = 0;
+    notes.forEach((note, index) => {
+      if (note.section !== section.index) {
+        return;
+      }
+      total += 1;
+      const result = results[index];
+      if (result) {
+        counts[result] += 1;
+      }
+    });
+    const judged = counts.perfect + counts.good + counts.miss;
+    return {
+      ...section,
+      ...counts,
+      total,
+      accuracy: judged > 0 ? (counts.perfect + counts.good * 0.5) / judged : 0
+    };
+  });
@@ -0,0 +1,198 @@
+// 音域适配（规范 §8）：超出琴键音域的音先按八度折回音域内，仍然没有对应琴键的音
+// （如自然音琴上的升降音）改为最近的琴键，每一处改动都记录下来；另提供整体移调与移调方案排序。
+import { getBarUnits } from './notation';
+import { midiToNote, noteToMidi, parseKeyName } from './pitch';
+import { REST_CODE, getEventCodes, type ScoreDocument, type ScoreEvent } from './scoreFormat';
+import type { KalimbaKey } from './tuning';
+
+export type OutOfRangeNote = {
+  /** 事件序号（从 0 开始） */
+  eventIndex: number;
+  note: string;
+  bar: number;
+};
+
+export type RangeChange = {
+  eventIndex: number;
+  bar: number;
+  from: string;
+  to: string;
+  /** 八度移动量，正数为移高 */
+  octaves: number;
+  /** 折回八度后仍没有对应琴键，改为了最近的琴键 */
+  snapped: boolean;
+};
+
+/** 列出当前调音中没有对应琴键的音（播放时不会发声） */
+export const findOutOfRangeNotes = (score: ScoreDocument, keys: KalimbaKey[]): OutOfRangeNote[] => {
+  const playable = new Set(keys.map((key) => key.midi));
+  const barUnits = getBarUnits(score.header);
+  const result: OutOfRangeNote[] = [];
+  let cursor = 0;
+  score.notes.forEach((event, eventIndex) => {
+    getEventCodes(event).forEach((code) => {
+      const midi = noteToMidi(code);
+      if (midi === null || !playable.has(midi)) {
+        result.push({ eventIndex, note: code, bar: Math.floor(cursor / barUnits) + 1 });
+      }
+    });
+    cursor += event.duration;
+  });
+  return result;
+};
+
+/** 把单个音适配到琴键上，返回适配后的音高；本来就能弹的音原样返回 */
+export const fitPitch = (midi: number, keys: KalimbaKey[]) => {
+  const playable = keys.map((key) => key.midi).sort((a, b) => a - b);
+  if (playable.length === 0 || playable.includes(midi)) {
+    return { midi, octaves: 0, snapped: false };
+  }
+  const low = playable[0];
+  const high = playable[playable.length - 1];
+  let octaves = 0;
+  // 音域不足一个八度时可能折不进来，交给下面取最近的琴键
+  while (midi + octaves * 12 < low && midi + (octaves + 1) * 12 <= high) {
+    octaves += 1;
+  }
+  while (midi + octaves * 12 > high && midi + (octaves - 1) * 12 >= low) {
+    octaves -= 1;
+  }
+  const folded = midi + octaves * 12;
+  if (playable.includes(folded)) {
+    return { midi: folded, octaves, snapped: false };
+  }
+  // 距离相同时取较低的琴键
+  const nearest = playable.reduce((best, candidate) =>
+    Math.abs(candidate - folded) < Math.abs(best - folded) ? candidate : best
+  );
+  return { midi: nearest, octaves, snapped: true };
+};
+
+export const describeRangeChange = ({ from, to, octaves, snapped }: RangeChange) => {
+  const parts: string[] = [];
+  if (octaves !== 0) {
+    parts.push(`${octaves > 0 ? '移高' : '移低'} ${Math.abs(octaves)} 个八度`);
+  }
+  if (snapped) {
+    parts.push('没有对应琴键，改为最近的琴键');
+  }
+  return `${from} → ${to}（${parts.join('，')}）`;
+};
+
+/** 把乐谱中所有弹不到的音适配到琴键上；和弦中适配后重复的音只保留一个 */
+export const fitScoreToKeys = (score: ScoreDocument, keys: KalimbaKey[]) => {
+  const barUnits = getBarUnits(score.header);
+  const changes: RangeChange[] = [];
+  let cursor = 0;
+  const notes = score.notes.map((event, eventIndex): ScoreEvent => {
+    const bar = Math.floor(cursor / barUnits) + 1;
+    cursor += event.duration;
+    const codes = getEventCodes(event);
+    if (codes.length === 0) {
+      return event;
+    }
+    const fitted = codes.map((code) => {
+      const midi = noteToMidi(code);
+      if (midi === null) {
+        return code;
+      }
+      const result = fitPitch(midi, keys);
+      if (result.midi === midi) {
+        return code;
+      }
+      const to = midiToNote(result.midi);
+      changes.push({ eventIndex, bar, from: code, to, octaves: result.octaves, snapped: result.snapped });
+      return to;
+    });
+    const unique = [...new Set(fitted)];
+    return { ...event, code: unique.length > 1 ? unique : (unique[0] ?? REST_CODE) };
+  });
+  return { score: { ...score, notes }, changes };
+};
+
+export type TranspositionCandidate = {
+  semitones: number;
+  /** 移调后能直接弹到的音数 */
+  playable: number;
+  total: number;
+};
+
+export type ScoreDiffEntry = {
+  eventIndex: number;
+  bar: number;
+  before: string[];
+  after: string[];
+};
+
+// 移调后的调名，按常用写法选择升号或降号
+const MAJOR_TONICS = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+const MINOR_TONICS = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'G#', 'A', 'Bb', 'B'];
+
+const transposeKeyName = (key: string, semitones: number) => {
+  const minor = key.endsWith('m');
+  const tonic = parseKeyName(key.replace(/m$/, ''));
+  if (tonic === null) {
+    return key;
+  }
+  const index = (((tonic + semitones) % 12) + 12) % 12;
+  return minor ? `${MINOR_TONICS[index]}m` : MAJOR_TONICS[index];
+};
+
+/** 整体移调（半音数），调号随之改变；无法识别的音符保持不变 */
+export const transposeScore = (score: ScoreDocument, semitones: number): ScoreDocument => {
+  if (semitones === 0) {
+    return score;
+  }
+  const shift = (code: string) => {
+    const midi = noteToMidi(code);
+    return midi === null ? code : midiToNote(midi + semitones);
+  };
+  return {
+    ...score,
+    header: score.header.key ? { ...score.header, key: transposeKeyName(score.header.key, semitones) } : score.header,
+    notes: score.notes.map((event) =>
+      Array.isArray(event.code)
+        ? { ...event, code: event.code.map(shift) }
+        : event.code === REST_CODE
+          ? event
+          : { ...event, code: shift(event.code) }
+    )
+  };
+};
+
+/** 统计 ±maxShift 半音内每种移调能直接弹到的音数：可弹的音越多越靠前，相同时移动幅度越小越靠前 */
+export const rankTranspositions = (score: ScoreDocument, keys: KalimbaKey[], maxShift = 12) => {
+  const playable = new Set(keys.map((key) => key.midi));
+  const pitches = score.notes.flatMap((event) =>
+    getEventCodes(event)
+      .map(noteToMidi)
+      .filter((midi): midi is number => midi !== null)
+  );
+  const candidates: TranspositionCandidate[] = [];
+  for (let semitones = -maxShift; semitones <= maxShift; semitones += 1) {
+    candidates.push({
+      semitones,
+      playable: pitches.filter((midi) => playable.has(midi + semitones)).length,
+      total: pitches.length
+    });
+  }
+  return candidates.sort(
+    (a, b) => b.playable - a.playable || Math.abs(a.semitones) - Math.abs(b.semitones) || b.semitones - a.semitones
+  );
+};
+
+/** 逐个事件对比两份乐谱（事件数相同，如移调前后），只列出音符有变化的事件 */
+export const diffScores = (before: ScoreDocument, after: ScoreDocument): ScoreDiffEntry[] => {
+  const barUnits = getBarUnits(before.header);
+  const entries: ScoreDiffEntry[] = [];
+  let cursor = 0;
+  before.notes.forEach((event, eventIndex) => {
+    const original = getEventCodes(event);
+    const changed = after.notes[eventIndex] ? getEventCodes(after.notes[eventIndex]) : [];
+    if (original.join(' ') !== changed.join(' ')) {
+      entries.push({ eventIndex, bar: Math.floor(cursor / barUnits) + 1, before: original, after: changed });
+    }
+    cursor += event.duration;
+  });
+  return entries;
+};
@@ -0,0 +1,93 @@
+// 演奏录音量化：把按音频时钟记录的击键时间对齐到网格，生成 v2 乐谱。
+// 拇指琴没有松键时长，每个音持续到下一次击键，过长的间隔拆成休止符。
+import { UNITS_PER_BEAT, getUnitSeconds } from '../audio/scoreScheduler';
+import { REST_CODE, SCORE_FORMAT_VERSION, type ScoreDocument, type ScoreEvent } from './scoreFormat';
+
+export type RecordedHit = {
+  /** 琴键音名 */
+  code: string;
+  /** 相对录音起点的时间（秒） */
+  time: number;
+};
+
+export type QuantizeGrid = '1/8' | '1/16' | '1/8T' | '1/16T';
+
+/** 每个网格的长度（单位），三连音网格不是整数，量化后按最近的整数单位取位置 */
+export const QUANTIZE_GRID_UNITS: Record<QuantizeGrid, number> = {
+  '1/8': UNITS_PER_BEAT / 2,
+  '1/16': UNITS_PER_BEAT / 4,
+  '1/8T': UNITS_PER_BEAT / 3,
+  '1/16T': UNITS_PER_BEAT / 6
+};
+
+export const QUANTIZE_GRID_LABELS: Record<QuantizeGrid, string> = {
+  '1/8': '八分音符',
+  '1/16': '十六分音符',
+  '1/8T': '八分三连音',
+  '1/16T': '十六分三连音'
+};
+
+export type QuantizeOptions = {
+  bpm: number;
+  grid: QuantizeGrid;
+  /** 拍号，用于去掉开头的整小节空白 */
+  beatsPerBar: number;
+  beatUnit: number;
+  /** 录音时长（秒），决定最后一个音的时值 */
+  totalSeconds: number;
+  title?: string;
+};
+
+// 单个音最长记为两拍，其余间隔补休止符
+const MAX_NOTE_UNITS = UNITS_PER_BEAT * 2;
+
+const pushRest = (events: ScoreEvent[], units: number) => {
+  if (units > 0) {
+    events.push({ code: REST_CODE, duration: units });
+  }
+};
+
+export const quantizeRecording = (hits: RecordedHit[], options: QuantizeOptions): ScoreDocument => {
+  const { bpm, grid, beatsPerBar, beatUnit, totalSeconds, title } = options;
+  const unitSeconds = getUnitSeconds(bpm);
+  const gridUnits = QUANTIZE_GRID_UNITS[grid];
+  const toUnits = (seconds: number) => Math.round(Math.round(seconds / unitSeconds / gridUnits) * gridUnits);
+
+  // 同一网格位置上的击键合并为和弦
+  const onsets = new Map<number, string[]>();
+  [...hits]
+    .sort((a, b) => a.time - b.time)
+    .forEach((hit) => {
+      const position = Math.max(0, toUnits(hit.time));
+      const codes = onsets.get(position) ?? [];
+      if (!codes.includes(hit.code)) {
+        codes.push(hit.code);
+      }
+      onsets.set(position, codes);
+    });
+
+  const positions = [...onsets.keys()].sort((a, b) => a - b);
+  const header = { title, bpm, meter: `${beatsPerBar}/${beatUnit}` };
+  if (positions.length === 0) {
+    return { version: SCORE_FORMAT_VERSION, header, notes: [] };
+  }
+
+  const barUnits = (beatsPerBar * UNITS_PER_BEAT * 4) / beatUnit;
+  const origin = Math.floor(positions[0] / barUnits) * barUnits;
+  const endUnits = Math.max(positions[positions.length - 1] + Math.ceil(gridUnits), toUnits(totalSeconds));
+
+  const events: ScoreEvent[] = [];
+  pushRest(events, positions[0] - origin);
+  positions.forEach((position, index) => {
+    const next = positions[index + 1] ?? endUnits;
+    const noteUnits = Math.min(next - position, MAX_NOTE_UNITS);
+    const codes = onsets.get(position)!;
+    events.push({ code: codes.length > 1 ? codes : codes[0], duration: noteUnits });
+    // 结尾的空白不计入乐谱
+    if (index < positions.length - 1) {
+      pushRest(events, next - position - noteUnits);
+    }
+  });
+
+  return { version: SCORE_FORMAT_VERSION, header, notes: events };
+};
@@ -0,0 +1,164 @@
+// 乐谱文档格式。v1 为裸数组（duration 为字符串），v2 为带版本号与头信息的对象，
+// 支持和弦、连音线（tie）与力度。所有入口都先经过 parseScore 统一升级为 v2。
+
+export const SCORE_FORMAT_VERSION = 2;
+export const REST_CODE = '-';
+
+/** v1 乐谱中的单个音符（旧格式，duration 为字符串） */
+export type ScoreNote = {
+  code: string;
+  duration: string;
+};
+
+export type Dynamic = 'pp' | 'p' | 'mp' | 'mf' | 'f' | 'ff';
+
+export type ScoreEvent = {
+  /** 单音、和弦（多根琴键同时发声）或休止符 "-" */
+  code: string | string[];
+  /** 时值单位数，16 = 四分音符 */
+  duration: number;
+  /** 与下一个事件中的同音相连，下一个同音不再重新拨奏 */
+  tie?: boolean;
+  /** 力度，从该事件起生效直到下一次标记 */
+  dynamic?: Dynamic;
+};
+
+export type ScoreHeader = {
+  title?: string;
+  author?: string;
+  bpm?: number;
+  /** 拍号，如 "4/4" */
+  meter?: string;
+  /** 调号，如 "C"、"G"、"Bb"，仅作记录，音符 code 始终为绝对音高 */
+  key?: string;
+};
+
+export type ScoreDocument = {
+  version: typeof SCORE_FORMAT_VERSION;
+  header: ScoreHeader;
+  notes: ScoreEvent[];
+};
+
+export const DYNAMIC_VELOCITY: Record<Dynamic, number> = {
+  pp: 0.35,
+  p: 0.5,
+  mp: 0.65,
+  mf: 0.8,
+  f: 0.9,
+  ff: 1
+};
+
+const DYNAMICS = Object.keys(DYNAMIC_VELOCITY) as Dynamic[];
+const METER_PATTERN = /^\d+\/\d+$/;
+const KEY_PATTERN = /^[A-G][#b]?m?$/;
+
+export const isLegacyScore = (value: unknown): value is ScoreNote[] => Array.isArray(value);
+
+/** 事件中实际发声的音符（休止符返回空数组） */
+export const getEventCodes = (event: ScoreEvent): string[] => {
+  const codes = Array.isArray(event.code) ? event.code : [event.code];
+  return codes.filter((code) => code !== REST_CODE);
+};
+
+export const upgradeLegacyScore = (notes: ScoreNote[]): ScoreDocument => ({
+  version: SCORE_FORMAT_VERSION,
+  header: {},
+  notes: notes.map((note) => ({ code: note.code, duration: parseInt(note.duration, 10) }))
+});
+
+/** 降级为 v1 数组：和弦只保留第一个音，头信息、连音线与力度会丢失 */
+export const toLegacyScore = (document: ScoreDocument): ScoreNote[] =>
+  document.notes.map((event) => ({
+    code: getEventCodes(event)[0] ?? REST_CODE,
+    duration: String(event.duration)
+  }));
+
+const validateLegacyNotes = (notes: unknown[]): ScoreNote[] => {
+  for (let i = 0; i < notes.length; i++) {
+    const note = notes[i];
+    if (!note || typeof note !== 'object') {
+      throw new Error(`第 ${i + 1} 个元素格式错误`);
+    }
+    if (!('code' in note) || !('duration' in note)) {
+      throw new Error(`第 ${i + 1} 个元素缺少 code 或 duration 字段`);
+    }
+    if (typeof note.code !== 'string' || typeof note.duration !== 'string') {
+      throw new Error(`第 ${i + 1} 个元素的 code 或 duration 必须是字符串`);
+    }
+  }
+  return notes as ScoreNote[];
+};
+
+const validateHeader = (header: unknown): ScoreHeader => {
+  if (header === undefined) {
+    return {};
+  }
+  if (!header || typeof header !== 'object' || Array.isArray(header)) {
+    throw new Error('header 必须是对象');
+  }
+  const { title, author, bpm, meter, key } = header as Record<string, unknown>;
+  if (title !== undefined && typeof title !== 'string') {
+    throw new Error('header.title 必须是字符串');
+  }
+  if (author !== undefined && typeof author !== 'string') {
+    throw new Error('header.author 必须是字符串');
+  }
+  if (bpm !== undefined && (typeof bpm !== 'number' || !(bpm > 0))) {
+    throw new Error('header.bpm 必须是正数');
+  }
+  if (meter !== undefined && (typeof meter !== 'string' || !METER_PATTERN.test(meter))) {
+    throw new Error('header.meter 必须形如 "4/4"');
+  }
+  if (key !== undefined && (typeof key !== 'string' || !KEY_PATTERN.test(key))) {
+    throw new Error('header.key 必须形如 "C"、"G"、"Bb"');
+  }
+  return header as ScoreHeader;
+};
+
+const validateEvents = (notes: unknown): ScoreEvent[] => {
+  if (!Array.isArray(notes)) {
+    throw new Error('notes 必须是数组');
+  }
+  notes.forEach((event, i) => {
+    if (!event || typeof event !== 'object') {
+      throw new Error(`第 ${i + 1} 个音符格式错误`);
+    }
+    const { code, duration, tie, dynamic } = event as Record<string, unknown>;
+    const codes = Array.isArray(code) ? code : [code];
+    if (codes.length === 0 || codes.some((item) => typeof item !== 'string')) {
+      throw new Error(`第 ${i + 1} 个音符的 code 必须是字符串或字符串数组`);
+    }
+    if (typeof duration !== 'number' || !Number.isFinite(duration) || duration <= 0) {
+      throw new Error(`第 ${i + 1} 个音符的 duration 必须是正数`);
+    }
+    if (tie !== undefined && typeof tie !== 'boolean') {
+      throw new Error(`第 ${i + 1} 个音符的 tie 必须是布尔值`);
+    }
+    if (dynamic !== undefined && !DYNAMICS.includes(dynamic as Dynamic)) {
+      throw new Error(`第 ${i + 1} 个音符的 dynamic 必须是 ${DYNAMICS.join(' / ')} 之一`);
+    }
+  });
+  return notes as ScoreEvent[];
+};
+
+/** 校验任意 JSON 值并统一返回 v2 文档，旧版数组会被自动升级 */
+export const parseScore = (value: unknown): ScoreDocument => {
+  if (isLegacyScore(value)) {
+    return upgradeLegacyScore(validateLegacyNotes(value));
+  }
+  if (!value || typeof value !== 'object') {
+    throw new Error('乐谱必须是数组或对象格式');
+  }
+  const { version, header, notes } = value as Record<string, unknown>;
+  if (version !== SCORE_FORMAT_VERSION) {
+    throw new Error(`不支持的乐谱版本：${String(version)}`);
+  }
+  return {
+    version: SCORE_FORMAT_VERSION,
+    header: validateHeader(header),
+    notes: validateEvents(notes)
+  };
+};
+
+export const normalizeScore = (score: ScoreDocument | ScoreNote[]): ScoreDocument =>
+  isLegacyScore(score) ? upgradeLegacyScore(score) : score;
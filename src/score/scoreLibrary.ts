@@ -0,0 +1,167 @@
+// 乐谱库：用户乐谱与编辑草稿保存在 IndexedDB，public/ 中自带的乐谱作为只读预设。
+
+const DB_NAME = 'audio-canvas';
+const DB_VERSION = 1;
+const SCORE_STORE = 'scores';
+const DRAFT_STORE = 'drafts';
+
+export const PRESET_ID_PREFIX = 'preset:';
+/** 尚未保存到乐谱库的新乐谱使用的草稿键 */
+export const UNSAVED_DRAFT_ID = 'unsaved';
+
+export type ScorePreset = {
+  id: string;
+  name: string;
+  url: string;
+};
+
+export type StoredScore = {
+  id: string;
+  name: string;
+  /** 编辑器中的原始 JSON 文本，保留用户的格式 */
+  content: string;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type ScoreDraft = {
+  id: string; // 对应 StoredScore.id、预设 id 或 UNSAVED_DRAFT_ID
+  content: string;
+  updatedAt: number;
+};
+
+export const SCORE_PRESETS: ScorePreset[] = [
+  { id: `${PRESET_ID_PREFIX}大鱼海棠`, name: '大鱼海棠', url: '/大鱼海棠.json' }
+];
+
+export const isPresetId = (id: string) => id.startsWith(PRESET_ID_PREFIX);
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('当前环境不支持 IndexedDB，无法保存乐谱'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SCORE_STORE)) {
+          db.createObjectStore(SCORE_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(DRAFT_STORE)) {
+          db.createObjectStore(DRAFT_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('乐谱库打开失败'));
+    });
+    // 打开失败时允许下次重试
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: 'readonly' | 'readwrite',
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = createRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? new Error('乐谱库读写失败'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('乐谱库读写被中断'));
+  });
+};
+
+const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const listScores = async () => {
+  const scores = await runRequest<StoredScore[]>(SCORE_STORE, 'readonly', (store) => store.getAll());
+  return scores.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getScore = (id: string) =>
+  runRequest<StoredScore | undefined>(SCORE_STORE, 'readonly', (store) => store.get(id));
+
+const putScore = async (score: StoredScore) => {
+  await runRequest(SCORE_STORE, 'readwrite', (store) => store.put(score));
+  return score;
+};
+
+export const createScore = (name: string, content: string) => {
+  const now = Date.now();
+  return putScore({ id: createId(), name, content, createdAt: now, updatedAt: now });
+};
+
+export const updateScore = async (id: string, changes: Partial<Pick<StoredScore, 'name' | 'content'>>) => {
+  const existing = await getScore(id);
+  if (!existing) {
+    throw new Error('乐谱不存在或已被删除');
+  }
+  return putScore({ ...existing, ...changes, updatedAt: Date.now() });
+};
+
+export const duplicateScore = async (id: string) => {
+  const existing = await getScore(id);
+  if (!existing) {
+    throw new Error('乐谱不存在或已被删除');
+  }
+  return createScore(`${existing.name} 副本`, existing.content);
+};
+
+export const deleteScore = async (id: string) => {
+  await runRequest(SCORE_STORE, 'readwrite', (store) => store.delete(id));
+  await clearDraft(id);
+};
+
+export const getDraft = (id: string) =>
+  runRequest<ScoreDraft | undefined>(DRAFT_STORE, 'readonly', (store) => store.get(id));
+
+export const saveDraft = async (id: string, content: string) => {
+  await runRequest(DRAFT_STORE, 'readwrite', (store) => store.put({ id, content, updatedAt: Date.now() }));
+};
+
+export const clearDraft = async (id: string) => {
+  await runRequest(DRAFT_STORE, 'readwrite', (store) => store.delete(id));
+};
+
+/** 最近一次编辑的草稿，用于重新打开编辑器时恢复现场 */
+export const getLatestDraft = async () => {
+  const drafts = await runRequest<ScoreDraft[]>(DRAFT_STORE, 'readonly', (store) => store.getAll());
+  return drafts.sort((a, b) => b.updatedAt - a.updatedAt)[0];
+};
+
+export const fetchPreset = async (preset: ScorePreset) => {
+  const response = await fetch(preset.url);
+  if (!response.ok) {
+    throw new Error(`预设乐谱「${preset.name}」加载失败`);
+  }
+  const json: unknown = await response.json();
+  return JSON.stringify(json, null, 2);
+};
+
+/** 以文件形式下载 */
+export const downloadBlob = (fileName: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // 立即撤销可能让部分浏览器来不及开始下载
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const exportScoreFile = (name: string, content: string) => {
+  downloadBlob(`${name || '乐谱'}.json`, new Blob([content], { type: 'application/json' }));
+};
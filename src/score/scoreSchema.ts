@@ -0,0 +1,115 @@
+// 乐谱 JSON Schema，注册到 Monaco 后提供逐行校验、补全与悬浮提示。
+// 音符取值来自当前调音的琴键，超出琴键范围的音会直接在编辑器中标出。
+import { DYNAMIC_VELOCITY, REST_CODE, SCORE_FORMAT_VERSION } from './scoreFormat';
+import { describeRange, type KalimbaKey } from './tuning';
+
+export const SCORE_SCHEMA_URI = 'inmemory://audio-canvas/score.schema.json';
+/** 乐谱编辑器模型的路径，schema 通过文件名关联 */
+export const SCORE_MODEL_PATH = 'score.json';
+
+// 常用时值：十六分、八分、四分、附点四分、二分
+export const COMMON_DURATIONS = [4, 8, 16, 24, 32];
+
+const DURATION_LABELS: Record<number, string> = {
+  4: '十六分音符',
+  8: '八分音符',
+  16: '四分音符',
+  24: '附点四分音符',
+  32: '二分音符'
+};
+
+const describeKey = (key: KalimbaKey) => {
+  const dots =
+    key.dots > 0 ? `（上方 ${key.dots} 个点）` : key.dots < 0 ? `（下方 ${-key.dots} 个点）` : '';
+  const row = key.row === 1 ? '上排' : '';
+  const keyboard = key.keyboardKey ? `，键盘 \`${key.keyboardKey.toUpperCase()}\`` : '';
+  return `简谱 **${key.degree}**${dots} · ${row}从左数第 ${key.column + 1} 根琴键${keyboard}`;
+};
+
+const createCodeSchema = (keys: KalimbaKey[]) => ({
+  type: 'string',
+  enum: [...keys.map((key) => key.note), REST_CODE],
+  markdownEnumDescriptions: [...keys.map(describeKey), '休止符'],
+  errorMessage: `不是拇指琴上的音（${describeRange(keys)}），休止符用 "-"`
+});
+
+const durationDescription = COMMON_DURATIONS.map((value) => `\`${value}\` ${DURATION_LABELS[value]}`).join('，');
+
+/** 按调音生成 schema：音符枚举即当前拇指琴上的全部琴键 */
+export const createScoreSchema = (keys: KalimbaKey[]) => {
+  const codeSchema = createCodeSchema(keys);
+
+  const legacyNoteSchema = {
+    type: 'object',
+    required: ['code', 'duration'],
+    additionalProperties: false,
+    properties: {
+      code: codeSchema,
+      duration: {
+        type: 'string',
+        pattern: '^[1-9][0-9]*$',
+        examples: COMMON_DURATIONS.map(String),
+        markdownDescription: `时值单位数（字符串），16 = 四分音符。常用：${durationDescription}`,
+        errorMessage: 'duration 必须是大于 0 的整数字符串，如 "16"'
+      }
+    }
+  };
+
+  const eventSchema = {
+    type: 'object',
+    required: ['code', 'duration'],
+    additionalProperties: false,
+    properties: {
+      code: {
+        markdownDescription: '单音、和弦（数组）或休止符 `"-"`',
+        anyOf: [codeSchema, { type: 'array', minItems: 1, items: codeSchema }]
+      },
+      duration: {
+        type: 'number',
+        exclusiveMinimum: 0,
+        examples: COMMON_DURATIONS,
+        markdownDescription: `时值单位数，16 = 四分音符。常用：${durationDescription}`,
+        errorMessage: 'duration 必须是大于 0 的数字'
+      },
+      tie: {
+        type: 'boolean',
+        description: '与下一个事件中的同音相连，下一个同音不再重新拨奏'
+      },
+      dynamic: {
+        type: 'string',
+        enum: Object.keys(DYNAMIC_VELOCITY),
+        description: '力度，从该音起生效'
+      }
+    }
+  };
+
+  const documentSchema = {
+    type: 'object',
+    required: ['version', 'notes'],
+    additionalProperties: false,
+    properties: {
+      version: { const: SCORE_FORMAT_VERSION, description: '乐谱格式版本' },
+      header: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          title: { type: 'string', description: '标题' },
+          author: { type: 'string', description: '作者' },
+          bpm: { type: 'number', exclusiveMinimum: 0, examples: [60, 80, 100, 120], description: '播放速度' },
+          meter: { type: 'string', pattern: '^\\d+/\\d+$', examples: ['4/4', '3/4', '6/8'], description: '拍号' },
+          key: { type: 'string', pattern: '^[A-G][#b]?m?$', examples: ['C', 'G', 'F', 'D'], description: '调号' }
+        }
+      },
+      notes: { type: 'array', items: eventSchema }
+    }
+  };
+
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: '拇指琴乐谱',
+    anyOf: [
+      { type: 'array', items: legacyNoteSchema, description: 'v1：音符数组' },
+      documentSchema
+    ]
+  };
+};
@@ -0,0 +1,49 @@
+// 把乐谱事件展开为拨奏：和弦拆为多次拨奏，被连音线延续的音只延长时值、不重新拨奏，力度记号持续生效到下一个记号。
+// 实时播放（useScorePlayer）与导出（audio/scoreRender）共用，保证两者发声一致。
+import { DYNAMIC_VELOCITY, getEventCodes, type ScoreEvent } from './scoreFormat';
+import { findKeyIndex, type KalimbaKey } from './tuning';
+
+/** 一次拨奏 */
+export type EventStrike = {
+  keyIndex: number;
+  velocity: number;
+  /** 发声时长（单位），包含连音线延续的部分 */
+  units: number;
+};
+
+export type ExpandedEvent = {
+  /** 该事件新拨奏的琴键 */
+  strikes: EventStrike[];
+  /** 该事件发声的全部琴键（包含被延续的音），用于高亮 */
+  keyIndexes: number[];
+};
+
+/** 逐个事件展开拨奏；当前调音中没有的音跳过 */
+export const expandStrikes = (notes: ScoreEvent[], keys: KalimbaKey[]): ExpandedEvent[] => {
+  let velocity = 1;
+  // 被连音线延续到下一个事件的音
+  let tied = new Map<number, EventStrike>();
+  return notes.map((event) => {
+    if (event.dynamic) {
+      velocity = DYNAMIC_VELOCITY[event.dynamic];
+    }
+    const keyIndexes = getEventCodes(event)
+      .map((code) => findKeyIndex(keys, code))
+      .filter((index): index is number => index !== null);
+    const strikes: EventStrike[] = [];
+    const nextTied = new Map<number, EventStrike>();
+    keyIndexes.forEach((keyIndex) => {
+      const held = tied.get(keyIndex);
+      const strike = held ?? { keyIndex, velocity, units: 0 };
+      strike.units += event.duration;
+      if (!held) {
+        strikes.push(strike);
+      }
+      if (event.tie) {
+        nextTied.set(keyIndex, strike);
+      }
+    });
+    tied = nextTied;
+    return { strikes, keyIndexes };
+  });
+};
@@ -0,0 +1,147 @@
+// 拇指琴调音模型：由键数、调与是否半音阶生成每根琴键的音高、简谱标记、长度与键盘绑定。
+// 琴键从中间最低音开始左右交替向外排列，越往外越高、越短。
+import { toJianpuSymbol } from './notation';
+import { DEGREE_SEMITONES, midiToFrequency, midiToNote, noteToMidi } from './pitch';
+
+export type KalimbaKey = {
+  degree: string; // 简谱数字，半音阶琴的升号键如 "#1"
+  dots: number; // 正数为上方加点，负数为下方加点
+  note: string;
+  midi: number;
+  frequency: number;
+  height: number;
+  /** 0 = 下排（自然音），1 = 上排（半音阶琴的升号键） */
+  row: 0 | 1;
+  /** 从左数的列，上排琴键与其下方自然音对齐 */
+  column: number;
+  highlight?: boolean;
+  keyboardKey?: string; // 对应的键盘按键
+};
+
+export type KalimbaKeyCount = 8 | 10 | 17 | 21;
+export type KalimbaTonic = 'C' | 'G' | 'A';
+
+export type KalimbaTuning = {
+  id: string;
+  name: string;
+  keyCount: KalimbaKeyCount;
+  tonic: KalimbaTonic;
+  chromatic: boolean;
+  /** 先下排从左到右，再上排从左到右 */
+  keys: KalimbaKey[];
+};
+
+export const KEY_COUNTS: KalimbaKeyCount[] = [8, 10, 17, 21];
+export const TONICS: KalimbaTonic[] = ['C', 'G', 'A'];
+
+// 各调主音（简谱 1 不加点）的音高：C4、G3、A3
+const TONIC_MIDI: Record<KalimbaTonic, number> = { C: 60, G: 55, A: 57 };
+// 21 键从主音下方的 4 度（如 C 调的 F3）开始，其余从主音开始
+const LOWEST_DEGREE_OFFSET: Record<KalimbaKeyCount, number> = { 8: 0, 10: 0, 17: 0, 21: -4 };
+
+const MAX_KEY_HEIGHT = 200;
+const MIN_KEY_HEIGHT = 120;
+const UPPER_ROW_SCALE = 0.75;
+
+// 从中间向外的键盘按键：左手 g 左侧、右手 j 开始
+const CENTER_BINDING = 'g';
+const LEFT_BINDINGS = ['f', 'd', 's', 'a', 'r', 'e', 'w', 'q', 'v', 'c', 'x', 'z'];
+const RIGHT_BINDINGS = ['j', 'k', 'l', ';', 'u', 'i', 'o', 'p', 'n', 'm', ',', '.'];
+
+/** 自然音阶第 step 级（0 = 主音，可为负）的 MIDI 音高 */
+const scaleStepToMidi = (tonicMidi: number, step: number) => {
+  const octave = Math.floor(step / 7);
+  return tonicMidi + octave * 12 + DEGREE_SEMITONES[((step % 7) + 7) % 7];
+};
+
+const toLabel = (midi: number, tonicMidi: number) => {
+  const symbol = toJianpuSymbol(midiToNote(midi), tonicMidi - 60)!;
+  return { degree: `${symbol.sharp ? '#' : ''}${symbol.degree}`, dots: symbol.octave };
+};
+
+export const getTuningId = (keyCount: KalimbaKeyCount, tonic: KalimbaTonic, chromatic = false) =>
+  `${keyCount}-${tonic}${chromatic ? '-chromatic' : ''}`;
+
+export const createTuning = (keyCount: KalimbaKeyCount, tonic: KalimbaTonic, chromatic = false): KalimbaTuning => {
+  const tonicMidi = TONIC_MIDI[tonic];
+  const ascending = Array.from({ length: keyCount }, (_, i) =>
+    scaleStepToMidi(tonicMidi, i + LOWEST_DEGREE_OFFSET[keyCount])
+  );
+
+  // 第 i 个音：0 在中间，奇数在左侧、偶数在右侧，依次向外
+  const leftCount = Math.ceil((keyCount - 1) / 2);
+  const columnOf = (i: number) => (i === 0 ? leftCount : i % 2 === 1 ? leftCount - (i + 1) / 2 : leftCount + i / 2);
+  const maxDistance = Math.max(1, leftCount, keyCount - 1 - leftCount);
+  const heightStep = (MAX_KEY_HEIGHT - MIN_KEY_HEIGHT) / maxDistance;
+
+  const lower: KalimbaKey[] = ascending.map((midi, i) => {
+    const column = columnOf(i);
+    const distance = Math.abs(column - leftCount);
+    const keyboardKey =
+      distance === 0
+        ? CENTER_BINDING
+        : column < leftCount
+          ? LEFT_BINDINGS[distance - 1]
+          : RIGHT_BINDINGS[distance - 1];
+    return {
+      ...toLabel(midi, tonicMidi),
+      note: midiToNote(midi),
+      midi,
+      frequency: midiToFrequency(midi),
+      height: Math.round(MAX_KEY_HEIGHT - distance * heightStep),
+      row: 0,
+      column,
+      // 与标准 17 键贴纸一致：从中间起每隔 2 根琴键标红
+      highlight: distance % 3 === 0,
+      keyboardKey
+    };
+  });
+  lower.sort((a, b) => a.column - b.column);
+
+  // 半音阶琴：上排补齐每个全音之间的升号音，对齐在较低的自然音上方
+  const upper: KalimbaKey[] = chromatic
+    ? lower
+        .filter((key) => ascending.includes(key.midi + 2))
+        .map((key) => {
+          const midi = key.midi + 1;
+          return {
+            ...toLabel(midi, tonicMidi),
+            note: midiToNote(midi),
+            midi,
+            frequency: midiToFrequency(midi),
+            height: Math.round(key.height * UPPER_ROW_SCALE),
+            row: 1 as const,
+            column: key.column
+          };
+        })
+    : [];
+
+  const name = `${keyCount} 键 ${tonic} 调${chromatic ? '半音阶（双排）' : ''}`;
+  return { id: getTuningId(keyCount, tonic, chromatic), name, keyCount, tonic, chromatic, keys: [...lower, ...upper] };
+};
+
+export const KALIMBA_TUNINGS: KalimbaTuning[] = [
+  ...KEY_COUNTS.flatMap((keyCount) => TONICS.map((tonic) => createTuning(keyCount, tonic))),
+  createTuning(17, 'C', true),
+  createTuning(21, 'C', true)
+];
+
+export const DEFAULT_TUNING = KALIMBA_TUNINGS.find((tuning) => tuning.id === getTuningId(17, 'C'))!;
+
+export const getTuning = (id: string) => KALIMBA_TUNINGS.find((tuning) => tuning.id === id) ?? DEFAULT_TUNING;
+
+/** 按音高查找琴键（同音异名如 Db4 / C#4 视为同一键），找不到返回 null */
+export const findKeyIndex = (keys: KalimbaKey[], code: string) => {
+  const midi = noteToMidi(code);
+  if (midi === null) {
+    return null;
+  }
+  const index = keys.findIndex((key) => key.midi === midi);
+  return index >= 0 ? index : null;
+};
+
+/** 音域描述，如 "C4–E6，共 17 键" */
+export const describeRange = (keys: KalimbaKey[]) => {
+  const sorted = [...keys].sort((a, b) => a.midi - b.midi);
+  return `${sorted[0].note}–${sorted[sorted.length - 1].note}，共 ${sorted.length} 键`;
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { buildZip } from '../test/builders';
+import { readZipEntries, readZipEntry } from './zip';
+
+describe('zip', () => {
+  it('读出存储与 deflate 压缩的条目', async () => {
+    const text = '<score-partwise>'.repeat(50);
+    const buffer = await buildZip([
+      { name: 'META-INF/container.xml', data: '<container/>', compress: false },
+      { name: '乐谱.xml', data: text }
+    ]);
+    const entries = readZipEntries(buffer);
+    expect(entries.map(({ name, method }) => [name, method])).toEqual([
+      ['META-INF/container.xml', 0],
+      ['乐谱.xml', 8]
+    ]);
+    const decoder = new TextDecoder();
+    expect(decoder.decode(await readZipEntry(buffer, entries[0]))).toBe('<container/>');
+    expect(decoder.decode(await readZipEntry(buffer, entries[1]))).toBe(text);
+  });
+
+  it('不是 ZIP 时报错', () => {
+    expect(() => readZipEntries(new ArrayBuffer(64))).toThrow('不是有效的 ZIP 压缩文件');
+  });
+});
@@ -0,0 +1,72 @@
+// ZIP 容器的最小读取工具（用于压缩的 MusicXML .mxl），只支持存储与 deflate 两种压缩方式，
+// 解压交给浏览器的 DecompressionStream。
+
+export type ZipEntry = {
+  name: string;
+  method: number; // 0 = 存储，8 = deflate
+  compressedSize: number;
+  /** 本地文件头的位置 */
+  headerOffset: number;
+};
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+// 目录结尾记录 22 字节，后面最多跟 65535 字节的注释
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+const decodeName = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+/** 从文件末尾找到中央目录，列出所有条目 */
+export const readZipEntries = (buffer: ArrayBuffer) => {
+  const view = new DataView(buffer);
+  let end = -1;
+  for (let offset = buffer.byteLength - 22; offset >= Math.max(0, buffer.byteLength - MAX_END_RECORD_SEARCH); offset -= 1) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error('不是有效的 ZIP 压缩文件');
+  }
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i += 1) {
+    if (offset + 46 > buffer.byteLength || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('ZIP 文件已损坏：中央目录格式错误');
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    entries.push({
+      name: decodeName(new Uint8Array(buffer, offset + 46, nameLength)),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      headerOffset: view.getUint32(offset + 42, true)
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+/** 读取并解压一个条目 */
+export const readZipEntry = async (buffer: ArrayBuffer, entry: ZipEntry) => {
+  const view = new DataView(buffer);
+  if (view.getUint32(entry.headerOffset, true) !== LOCAL_FILE_HEADER) {
+    throw new Error(`ZIP 文件已损坏：找不到「${entry.name}」`);
+  }
+  // 本地头中的文件名与扩展字段长度可能与中央目录不同，以本地头为准
+  const start = entry.headerOffset + 30 + view.getUint16(entry.headerOffset + 26, true) + view.getUint16(entry.headerOffset + 28, true);
+  const data = new Uint8Array(buffer, start, entry.compressedSize);
+  if (entry.method === 0) {
+    return data.slice();
+  }
+  if (entry.method !== 8) {
+    throw new Error(`不支持的 ZIP 压缩方式（${entry.method}）`);
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
@@ -0,0 +1,117 @@
+// 测试用的二进制构造工具：RIFF 块与 ZIP 压缩包，用来为解析器生成输入。
+
+const encoder = new TextEncoder();
+
+const concat = (parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach((part) => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+const uint16 = (value: number) => new Uint8Array(new Uint16Array([value]).buffer);
+const uint32 = (value: number) => new Uint8Array(new Uint32Array([value]).buffer);
+
+/** 定长、以 0 补齐的 ASCII 字符串 */
+export const fixedString = (text: string, length: number) => {
+  const bytes = new Uint8Array(length);
+  bytes.set(encoder.encode(text).subarray(0, length));
+  return bytes;
+};
+
+/** 按小端序依次写入字段，type 为 DataView 的 set 方法后缀 */
+export const packFields = (fields: [type: 'Uint8' | 'Int8' | 'Uint16' | 'Int16' | 'Uint32' | 'Float32', value: number][]) => {
+  const sizes = { Uint8: 1, Int8: 1, Uint16: 2, Int16: 2, Uint32: 4, Float32: 4 };
+  const bytes = new Uint8Array(fields.reduce((sum, [type]) => sum + sizes[type], 0));
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  fields.forEach(([type, value]) => {
+    if (type === 'Uint8' || type === 'Int8') {
+      view[`set${type}`](offset, value);
+    } else {
+      view[`set${type}`](offset, value, true);
+    }
+    offset += sizes[type];
+  });
+  return bytes;
+};
+
+export const riffChunk = (id: string, data: Uint8Array) =>
+  concat([fixedString(id, 4), uint32(data.length), data, new Uint8Array(data.length % 2)]);
+
+export const riffList = (listType: string, chunks: Uint8Array[]) =>
+  riffChunk('LIST', concat([fixedString(listType, 4), ...chunks]));
+
+export const riffFile = (formType: string, chunks: Uint8Array[]) => {
+  const bytes = riffChunk('RIFF', concat([fixedString(formType, 4), ...chunks]));
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+};
+
+const deflateRaw = async (data: Uint8Array<ArrayBuffer>) =>
+  new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'))).arrayBuffer());
+
+/** 构造 ZIP 压缩包；compress 为 false 时以不压缩（stored）方式存放。不计算 CRC，解析器也不校验 */
+export const buildZip = async (entries: { name: string; data: Uint8Array<ArrayBuffer> | string; compress?: boolean }[]) => {
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const compress = entry.compress ?? true;
+    const stored = compress ? await deflateRaw(data) : data;
+    const name = encoder.encode(entry.name);
+    const method = compress ? 8 : 0;
+    const local = concat([
+      uint32(0x04034b50),
+      uint16(20),
+      uint16(0),
+      uint16(method),
+      uint32(0),
+      uint32(0),
+      uint32(stored.length),
+      uint32(data.length),
+      uint16(name.length),
+      uint16(0),
+      name,
+      stored
+    ]);
+    centrals.push(
+      concat([
+        uint32(0x02014b50),
+        uint16(20),
+        uint16(20),
+        uint16(0),
+        uint16(method),
+        uint32(0),
+        uint32(0),
+        uint32(stored.length),
+        uint32(data.length),
+        uint16(name.length),
+        uint16(0),
+        uint16(0),
+        uint16(0),
+        uint16(0),
+        uint32(0),
+        uint32(offset),
+        name
+      ])
+    );
+    locals.push(local);
+    offset += local.length;
+  }
+  const central = concat(centrals);
+  const end = concat([
+    uint32(0x06054b50),
+    uint16(0),
+    uint16(0),
+    uint16(entries.length),
+    uint16(entries.length),
+    uint32(central.length),
+    uint32(offset),
+    uint16(0)
+  ]);
+  return concat([...locals, central, end]).buffer;
+};
@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite';
+
+// 命令行渲染工具：打包为单个 Node ESM 脚本，src 中的共享模块一并打入
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: 'cli/renderWav.ts',
+    outDir: 'dist-cli',
+    target: 'node18',
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: 'render-wav.js'
+      }
+    }
+  }
+});
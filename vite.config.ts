@@ -9,7 +9,7 @@ export default defineConfig({
   plugins: [
     react(),
     monacoEditorPlugin({
-      languageWorkers: ['editorWorkerService']
+      languageWorkers: ['editorWorkerService', 'json']
     })
   ],
   server: {
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// 单元测试只覆盖不依赖浏览器音频的纯逻辑；需要 DOM 的测试文件用 @vitest-environment 注释单独指定
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node'
+  }
+});